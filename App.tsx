@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion as motionTyped, AnimatePresence } from 'framer-motion';
 import { Routes, Route, Outlet, useLocation, useNavigate, useParams, Navigate } from 'react-router-dom';
@@ -14,15 +14,18 @@ import BlogPostDetailPage from './components/pages/BlogPostDetailPage';
 import LoginPage from './components/pages/LoginPage';
 import RegisterPage from './components/pages/RegisterPage';
 import AccountPage from './components/pages/AccountPage';
-import { Page, BlogPostData, PortfolioItemData, SocialLoginProvider, UserProfile, Comment, CategoryInfo } from './types';
+import { Page, SocialLoginProvider, CategoryInfo } from './types';
 import MenuIcon from './components/icons/MenuIcon';
 import { pageTransitionVariants } from './animationVariants';
 import BackToTopButton from './components/ui/BackToTopButton';
+import OfflineBanner from './components/ui/OfflineBanner';
+import OutboxPanel from './components/ui/OutboxPanel';
 import CategoryArchivePage from './components/pages/CategoryArchivePage';
 import AddBlogPostPage from './components/pages/AddBlogPostPage';
 import EditBlogPostPage from './components/pages/EditBlogPostPage';
 import PhotoManagementPage from './components/pages/PhotoManagementPage';
 import PostManagementPage from './components/pages/PostManagementPage';
+import AlbumPage from './components/pages/AlbumPage';
 import SplashScreen from './components/ui/SplashScreen';
 import BatchCodeModal from './components/ui/BatchCodeModal';
 import Footer from './components/ui/Footer';
@@ -30,105 +33,101 @@ import { blogCategoryDefinitions } from './components/data/blogData';
 // AuthProvider 由 index.tsx 包裹，避免重複包裹導致重新掛載
 
 // 引入靜態數據
-import { ApiService } from './src/services/api';
 import { useAuth } from './src/contexts/AuthContext';
+import { useAlbums, usePosts, useTags } from './src/hooks/useContentQueries';
+import { useSessionStore, useUiStore, useUserProfile } from './src/hooks/useStores';
+import { useViewportTracking } from './src/hooks/useViewportTracking';
+import { uiStore } from './src/stores/uiStore';
+import { sessionStore } from './src/stores/sessionStore';
+import { isPostPublished } from './src/services/postStatus';
+import { tagPath } from './src/services/postTags';
+import { contentStore } from './src/stores/contentStore';
 
 
 // 將 motionTyped 轉型為 any 以解決類型問題
 const motion: any = motionTyped;
-// 定義主題類型
-type Theme = 'light' | 'dark';
-
-const getFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
-    if (typeof window === 'undefined') return defaultValue;
-    try {
-        const storedValue = window.localStorage.getItem(key);
-        return storedValue ? JSON.parse(storedValue) : defaultValue;
-    } catch (error) {
-        console.error(`Could not access localStorage for key "${key}"`, error);
-        return defaultValue;
-    }
-};
-
-const getInitialTheme = (): Theme => getFromLocalStorage<Theme>('theme', 'dark');
-const getInitialSidebarCollapsed = (): boolean => getFromLocalStorage<boolean>('sidebarCollapsed', false);
-
-// The `File` object cannot be stored in localStorage, so we are omitting it from the type here.
-// The user will be warned if they refresh the page with items in the batch.
-type BatchItem<T> = T & { file?: File };
-const getInitialPostBatch = (): BatchItem<BlogPostData>[] => getFromLocalStorage<BatchItem<BlogPostData>[]>('postBatch', []);
-const getInitialPortfolioBatch = (): BatchItem<PortfolioItemData>[] => getFromLocalStorage<BatchItem<PortfolioItemData>[]>('portfolioBatch', []);
 
 
 // --- Layout Component ---
 // This component is defined outside of App to prevent re-mounting on every render.
+// 版面狀態直接從 uiStore 與 sessionStore 訂閱；捲動相關的欄位交給下方的小元件，捲動時不會重新渲染整個版面
 interface LayoutProps {
-  isSidebarOpen: boolean;
-  isMobileView: boolean;
-  isLandscape: boolean;
-  isAuthenticated: boolean;
-  isSuperUser: boolean;
-  username: string;
-  avatarUrl: string;
-  currentTheme: Theme;
-  isSidebarCollapsed: boolean;
-  showBackToTop: boolean;
-  mobileHeaderClasses: string;
-  glassEffectClass: string;
-  mainContentClasses: string;
-  toggleSidebar: () => void;
-  closeSidebar: () => void;
   handleLogout: () => void;
-  toggleTheme: () => void;
-  toggleCollapse: () => void;
   navigateTo: (page: Page, data?: any) => void;
 }
 
-const Layout: React.FC<LayoutProps> = ({
-  isSidebarOpen, isMobileView, isLandscape, isAuthenticated, isSuperUser,
-  username, avatarUrl, currentTheme, isSidebarCollapsed, showBackToTop,
-  mobileHeaderClasses, glassEffectClass, mainContentClasses,
-  toggleSidebar, closeSidebar, handleLogout, toggleTheme, toggleCollapse, navigateTo,
-}) => {
+const MobileHeader: React.FC = () => {
   const { t } = useTranslation();
+  const isMobileHeaderVisible = useUiStore(s => s.isMobileHeaderVisible);
+  const isScrolled = useUiStore(s => s.isScrolled);
+  const mobileHeaderClasses = `
+    lg:hidden fixed top-0 left-0 right-0 z-50 h-16
+    transition-transform duration-300 ease-in-out
+    ${isMobileHeaderVisible ? 'translate-y-0' : '-translate-y-full'}
+  `;
+  const glassEffectClass = isScrolled ? 'bg-glass border-b border-theme-primary' : '';
+
+  return (
+    <header className={`${mobileHeaderClasses} ${glassEffectClass}`}>
+        <div className="container mx-auto px-6 h-full flex justify-end items-center">
+          <button
+            onClick={uiStore.toggleSidebar}
+            className="p-2 -mr-2"
+            aria-label={t('sidebar.toggleNavigation')}
+          >
+            <MenuIcon className="w-6 h-6" />
+          </button>
+        </div>
+    </header>
+  );
+};
+
+const ScrollAwareBackToTopButton: React.FC = () => <BackToTopButton isVisible={useUiStore(s => s.showBackToTop)} />;
+
+const Layout: React.FC<LayoutProps> = ({ handleLogout, navigateTo }) => {
   const location = useLocation();
   const isBlogPage = location.pathname === '/blog';
-  
+  const isSidebarOpen = useUiStore(s => s.isSidebarOpen);
+  const isMobileView = useUiStore(s => s.isMobileView);
+  const isLandscape = useUiStore(s => s.isLandscape);
+  const theme = useUiStore(s => s.theme);
+  const isSidebarCollapsed = useUiStore(s => s.isSidebarCollapsed);
+  const isAuthenticated = useSessionStore(s => s.isAuthenticated);
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
+  const userProfile = useUserProfile();
+
+  const mainContentClasses = `
+    transition-all duration-300 ease-in-out
+    ${isMobileView ? '' : (isSidebarCollapsed ? 'pl-20' : 'pl-80')}
+  `;
+
   return (
     <>
+      <OfflineBanner />
       <Sidebar
         navigateTo={navigateTo}
         isOpen={isSidebarOpen && isMobileView}
-        closeSidebar={closeSidebar}
+        closeSidebar={uiStore.closeSidebar}
         isAuthenticated={isAuthenticated}
         handleLogout={handleLogout}
-        avatarUrl={avatarUrl}
-        username={username}
-        currentTheme={currentTheme}
-        toggleTheme={toggleTheme}
+        avatarUrl={userProfile.avatarUrl}
+        username={userProfile.username}
+        currentTheme={theme}
+        toggleTheme={uiStore.toggleTheme}
         isCollapsed={isSidebarCollapsed}
-        toggleCollapse={toggleCollapse}
+        toggleCollapse={uiStore.toggleCollapse}
         isSuperUser={isSuperUser}
         isLandscape={isLandscape}
       />
-      <header className={`${mobileHeaderClasses} ${glassEffectClass}`}>
-          <div className="container mx-auto px-6 h-full flex justify-end items-center">
-            <button
-              onClick={toggleSidebar}
-              className="p-2 -mr-2"
-              aria-label={t('sidebar.toggleNavigation')}
-            >
-              <MenuIcon className="w-6 h-6" />
-            </button>
-          </div>
-      </header>
+      <MobileHeader />
       <main className={mainContentClasses}>
         <div className="p-6 md:p-12 min-h-screen">
           <Outlet />
         </div>
         {isBlogPage && <Footer navigateTo={navigateTo} />}
       </main>
-      <BackToTopButton isVisible={showBackToTop} />
+      <ScrollAwareBackToTopButton />
+      <OutboxPanel />
     </>
   );
 };
@@ -149,29 +148,46 @@ const SuperUserRoute: React.FC<SuperUserRouteProps> = ({ children, isSuperUser }
   return children;
 };
 
-interface BlogPostDetailWrapperProps { userAddedPosts: BlogPostData[]; navigateTo: (page: Page, data?: any) => void; isAuthenticated: boolean; allComments: Comment[]; onAddComment: (postId: string, text: string, parentId?: string | null) => void; onDeleteComment: (commentId: string) => void; isSuperUser: boolean; currentUserProfile: UserProfile; }
-const BlogPostDetailWrapper: React.FC<BlogPostDetailWrapperProps> = ({ userAddedPosts, navigateTo, isAuthenticated, allComments, onAddComment, onDeleteComment, isSuperUser, currentUserProfile, }) => {
+// Wrapper 只負責解析網址參數；資料與動作由各頁面從查詢快取與 store 訂閱
+// 首次載入尚無快取時先不渲染，避免誤判為找不到文章
+interface BlogPostDetailWrapperProps { navigateTo: (page: Page, data?: any) => void; }
+const BlogPostDetailWrapper: React.FC<BlogPostDetailWrapperProps> = ({ navigateTo }) => {
   const { postId } = useParams();
   const location = useLocation();
-  const allPosts = [...userAddedPosts];
-  const post = allPosts.find(p => p.id === postId);
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
+  const { posts, isLoading } = usePosts();
+  const publishedPosts = useMemo(() => posts.filter(p => isPostPublished(p)), [posts]);
+  // 超級使用者可預覽草稿與排程文章；上下篇導覽只在已發布的文章間切換
+  const post = (isSuperUser ? posts : publishedPosts).find(p => p.id === postId);
   const originCategoryInfo = location.state?.fromCategory as CategoryInfo | null;
+  if (!post && isLoading) return null;
   if (!post) return <Navigate to="/blog" replace />;
-  return <BlogPostDetailPage post={post} allPosts={allPosts} navigateTo={navigateTo} isAuthenticated={isAuthenticated} comments={allComments.filter(c => c.postId === post.id)} onAddComment={onAddComment} onDeleteComment={onDeleteComment} isSuperUser={isSuperUser} currentUserProfile={currentUserProfile} originCategoryInfo={originCategoryInfo} />;
+  return <BlogPostDetailPage post={post} allPosts={publishedPosts} navigateTo={navigateTo} originCategoryInfo={originCategoryInfo} />;
 };
 
-interface EditBlogPostWrapperProps { userAddedPosts: BlogPostData[]; navigateTo: (page: Page, data?: any) => void; onSave: (postData: BlogPostData) => void; isAuthenticated: boolean; isSuperUser: boolean; }
-const EditBlogPostWrapper: React.FC<EditBlogPostWrapperProps> = ({ userAddedPosts, navigateTo, onSave, isAuthenticated, isSuperUser, }) => {
+interface EditBlogPostWrapperProps { navigateTo: (page: Page, data?: any) => void; }
+const EditBlogPostWrapper: React.FC<EditBlogPostWrapperProps> = ({ navigateTo }) => {
   const { postId } = useParams();
-  const postToEdit = userAddedPosts.find(p => p.id === postId);
+  const { posts, isLoading } = usePosts();
+  const postToEdit = posts.find(p => p.id === postId);
+  if (!postToEdit && isLoading) return null;
   if (!postToEdit) return <Navigate to="/blog" replace />;
-  return <EditBlogPostPage postToEdit={postToEdit} navigateTo={navigateTo} onSave={onSave} isAuthenticated={isAuthenticated} isSuperUser={isSuperUser} navigateToLogin={() => navigateTo(Page.Login)} />;
+  return <EditBlogPostPage postToEdit={postToEdit} navigateTo={navigateTo} navigateToLogin={() => navigateTo(Page.Login)} />;
+};
+
+interface AlbumWrapperProps { navigateTo: (page: Page, data?: any) => void; }
+const AlbumWrapper: React.FC<AlbumWrapperProps> = ({ navigateTo }) => {
+  const { slug } = useParams();
+  const { albums, isLoading } = useAlbums();
+  const album = albums.find(a => a.slug === slug);
+  if (!album && isLoading) return null;
+  if (!album) return <Navigate to="/portfolio" replace />;
+  return <AlbumPage album={album} navigateTo={navigateTo} />;
 };
 
-interface CategoryArchiveWrapperProps { userAddedPosts: BlogPostData[]; navigateTo: (page: Page, data?: any) => void; onDeletePosts: (postIds: string[]) => void; isAuthenticated: boolean; isSuperUser: boolean; }
-const CategoryArchiveWrapper: React.FC<CategoryArchiveWrapperProps> = ({ userAddedPosts, navigateTo, onDeletePosts, isAuthenticated, isSuperUser, }) => {
+interface CategoryArchiveWrapperProps { navigateTo: (page: Page, data?: any) => void; }
+const CategoryArchiveWrapper: React.FC<CategoryArchiveWrapperProps> = ({ navigateTo }) => {
   const { categoryKey } = useParams();
-  const allPosts = [...userAddedPosts];
   let categoryInfo: CategoryInfo | null = null;
 
   if (categoryKey === 'all') {
@@ -185,42 +201,37 @@ const CategoryArchiveWrapper: React.FC<CategoryArchiveWrapperProps> = ({ userAdd
     categoryInfo = found ?? null;
   }
   if (!categoryInfo) return <Navigate to="/blog" replace />;
-  return <CategoryArchivePage categoryInfo={categoryInfo} allPosts={allPosts} navigateTo={navigateTo} onDeletePosts={onDeletePosts} isAuthenticated={isAuthenticated} isSuperUser={isSuperUser} navigateToLogin={() => navigateTo(Page.Login)} />;
+  return <CategoryArchivePage categoryInfo={categoryInfo} navigateTo={navigateTo} navigateToLogin={() => navigateTo(Page.Login)} />;
 };
 
-interface AccountPageWrapperProps { userProfile: UserProfile; onUpdateProfile: (newProfileData: Partial<UserProfile>) => void; onUpdateAvatar: (newAvatarUrl: string) => void; isAuthenticated: boolean; }
-const AccountPageWrapper: React.FC<AccountPageWrapperProps> = (props) => <AccountPage {...props} />;
-
-interface PortfolioPageWrapperProps { userAddedPortfolioItems: PortfolioItemData[]; onAddPortfolioItem: (item: PortfolioItemData) => void; onDeletePortfolioItems: (itemIds: string[]) => void; isAuthenticated: boolean; isSuperUser: boolean; navigateToLogin: () => void; }
-const PortfolioPageWrapper: React.FC<PortfolioPageWrapperProps> = (props) => <PortfolioPage {...props} />;
-
-interface AddBlogPostPageWrapperProps { navigateTo: (page: Page, data?: any) => void; onSave: (postData: BlogPostData) => void; isAuthenticated: boolean; isSuperUser: boolean; navigateToLogin: () => void; }
-const AddBlogPostPageWrapper: React.FC<AddBlogPostPageWrapperProps> = (props) => <AddBlogPostPage {...props} />;
-
-interface PhotoManagementPageWrapperProps {
-  portfolioItems: PortfolioItemData[];
-  onDelete: (itemIds: string[]) => void;
-  navigateTo: (page: Page, data?: any) => void;
-}
-const PhotoManagementPageWrapper: React.FC<PhotoManagementPageWrapperProps> = (props) => <PhotoManagementPage {...props} />;
+// 標籤頁沿用分類彙整頁的分頁與排序，標題改為標籤名稱
+const TAG_ARCHIVE_INFO: CategoryInfo = { titleKey: 'tags.archiveTitle', categoryKeys: [], isEditable: true };
+
+interface TagArchiveWrapperProps { navigateTo: (page: Page, data?: any) => void; }
+const TagArchiveWrapper: React.FC<TagArchiveWrapperProps> = ({ navigateTo }) => {
+  const { tag: slug } = useParams();
+  const { tags, isLoading } = useTags();
+  const tag = tags.find(item => item.slug === slug);
+  if (!tag && isLoading) return null;
+  if (!tag) return <Navigate to="/blog" replace />;
+  return <CategoryArchivePage categoryInfo={TAG_ARCHIVE_INFO} tag={tag} navigateTo={navigateTo} navigateToLogin={() => navigateTo(Page.Login)} />;
+};
 
-interface PostManagementPageWrapperProps {
-  posts: BlogPostData[];
-  onDelete: (postIds: string[]) => void;
-  onAdd: (postData: BlogPostData) => void;
-  navigateTo: (page: Page, data?: any) => void;
-}
-const PostManagementPageWrapper: React.FC<PostManagementPageWrapperProps> = (props) => <PostManagementPage {...props} />;
+// 批次代碼視窗只訂閱自己的狀態
+const BatchCodeModalContainer: React.FC = () => {
+  const batchModal = useUiStore(s => s.batchModal);
+  return <BatchCodeModal isOpen={batchModal.isOpen} onClose={uiStore.closeBatchModal} onClearBatch={() => { contentStore.clearBatch(batchModal.type); uiStore.closeBatchModal(); }} title={batchModal.title} jsonCode={batchModal.jsonCode} targetPath={batchModal.targetPath} />;
+};
 
 
 /**
  * 應用程式的主組件。
- * 管理整個應用的狀態，包括主題、身份驗證等，並使用 React Router 處理導航。
+ * 負責路由與登入狀態同步；主題、版面、內容與留言等狀態由各 store 管理，頁面只訂閱自己需要的部分。
  */
 const App: React.FC = () => {
-  const { t, i18n } = useTranslation();
   const navigate = useNavigate();
   const { isAuthenticated, user } = useAuth();
+  const isSuperUser = isAuthenticated && ((user?.role === 'SUPER_USER') || (user?.role === 'ADMIN') || (user?.username === 'admin'));
 
   const [isAppLoading, setIsAppLoading] = useState<boolean>(() => {
     if (typeof window === 'undefined') return true;
@@ -232,46 +243,6 @@ const App: React.FC = () => {
         return true;
     }
   });
-  
-  const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
-  
-  const [theme, setTheme] = useState<Theme>(getInitialTheme);
-  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState<boolean>(getInitialSidebarCollapsed);
-  const [showBackToTop, setShowBackToTop] = useState(false);
-  const [isMobileView, setIsMobileView] = useState(false);
-  const [isLandscape, setIsLandscape] = useState(false);
-  const [isScrolled, setIsScrolled] = useState(false);
-  const [isMobileHeaderVisible, setIsMobileHeaderVisible] = useState(true);
-  const lastScrollY = useRef(0);
-
-  const [userProfile, setUserProfile] = useState<UserProfile>({
-    username: t('sidebar.profileName'),
-    email: '',
-    avatarUrl: '/images/profile.jpg',
-    gender: 'not_specified',
-    birthday: '',
-    address: '',
-    phone: '',
-  });
-  
-  const [batchModalState, setBatchModalState] = useState<{
-    isOpen: boolean;
-    type: 'post' | 'portfolio';
-    jsonCode: string;
-    title: string;
-    targetPath: string;
-  }>({ isOpen: false, type: 'post', jsonCode: '', title: '', targetPath: '' });
-  
-  const [postBatch, setPostBatch] = useState<BatchItem<BlogPostData>[]>(getInitialPostBatch);
-  const [portfolioBatch, setPortfolioBatch] = useState<BatchItem<PortfolioItemData>[]>(getInitialPortfolioBatch);
-  const [isBatchProcessing, setIsBatchProcessing] = useState(false);
-
-  const [userAddedPosts, setUserAddedPosts] = useState<BlogPostData[]>([]);
-  const [userAddedPortfolioItems, setUserAddedPortfolioItems] = useState<PortfolioItemData[]>([]);
-  
-  const [allComments, setAllComments] = useState<Comment[]>([]);
-
-  const isSuperUser = isAuthenticated && ((user?.role === 'SUPER_USER') || (user?.role === 'ADMIN') || (user?.username === 'admin'));
 
   const handleAnimationComplete = () => {
     try {
@@ -282,139 +253,17 @@ const App: React.FC = () => {
     setIsAppLoading(false);
   };
 
-  useEffect(() => { localStorage.setItem('theme', JSON.stringify(theme)); document.body.classList.remove('theme-light', 'theme-dark'); document.body.classList.add(`theme-${theme}`); }, [theme]);
-  useEffect(() => { localStorage.setItem('sidebarCollapsed', JSON.stringify(isSidebarCollapsed)); }, [isSidebarCollapsed]);
-  useEffect(() => { localStorage.setItem('postBatch', JSON.stringify(postBatch)); }, [postBatch]);
-  useEffect(() => { localStorage.setItem('portfolioBatch', JSON.stringify(portfolioBatch)); }, [portfolioBatch]);
-  
-  // Effect for handling window resize events to update view-related states.
-  useEffect(() => {
-    const handleResize = () => {
-      const isCurrentlyMobile = window.innerWidth < 1024;
-      setIsMobileView(isCurrentlyMobile);
-      setIsLandscape(isCurrentlyMobile && window.matchMedia("(orientation: landscape)").matches);
-      if (!isCurrentlyMobile && isSidebarOpen) {
-        setIsSidebarOpen(false); // Close mobile sidebar on resize to desktop
-      }
-    };
-
-    handleResize(); // Initial check on mount
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [isSidebarOpen]);
-
-  // Effect for handling scroll events, throttled for performance.
-  useEffect(() => {
-    let ticking = false;
-
-    const handleScroll = () => {
-      const currentScrollY = window.scrollY;
-
-      // Update header visibility based on scroll direction on mobile
-      if (isMobileView) {
-        const scrollDelta = currentScrollY - lastScrollY.current;
-        if (currentScrollY < 50) {
-          setIsMobileHeaderVisible(true);
-        } else if (scrollDelta > 5) {
-          setIsMobileHeaderVisible(false);
-        } else if (scrollDelta < -5) {
-          setIsMobileHeaderVisible(true);
-        }
-      } else {
-        setIsMobileHeaderVisible(true); // Always visible on desktop
-      }
-
-      // Update other scroll-dependent states
-      setShowBackToTop(currentScrollY > 400);
-      setIsScrolled(currentScrollY > 50);
-
-      lastScrollY.current = currentScrollY <= 0 ? 0 : currentScrollY;
-      ticking = false;
-    };
-    
-    const throttledScrollHandler = () => {
-      if (!ticking) {
-        window.requestAnimationFrame(handleScroll);
-        ticking = true;
-      }
-    };
-
-    window.addEventListener('scroll', throttledScrollHandler, { passive: true });
-    
-    // Initial call to set states correctly on mount
-    throttledScrollHandler();
-
-    return () => {
-      window.removeEventListener('scroll', throttledScrollHandler);
-    };
-  }, [isMobileView]); // Re-run this effect only when mobile view changes
-
-  // 以 API 載入作品集與部落格資料（不回退 JSON）
-  useEffect(() => {
-    (async () => {
-      try {
-        const [portfolio, posts] = await Promise.all([
-          ApiService.request<PortfolioItemData[]>('/content/portfolio'),
-          ApiService.request<BlogPostData[]>('/content/posts'),
-        ]);
-        setUserAddedPortfolioItems(Array.isArray(portfolio) ? portfolio : []);
-        setUserAddedPosts(Array.isArray(posts) ? posts : []);
-      } catch (e) {
-        console.error('載入內容失敗', e);
-        setUserAddedPortfolioItems([]);
-        setUserAddedPosts([]);
-      }
-    })();
-  }, []);
-
-  // 當前端已載入文章後，載入所有留言（按需載入每篇可在詳情頁呼叫，這裡簡化）
-  useEffect(() => {
-    (async () => {
-      try {
-        const results: Comment[] = [];
-        for (const p of userAddedPosts) {
-          const list = await ApiService.getCommentsByPost(p.id);
-          // 映射後端欄位到前端 Comment 介面
-          const mapped = (list || []).map((c: any) => ({
-            id: c.id,
-            postId: c.postId,
-            userId: c.userId,
-            username: c.username,
-            avatarUrl: c.avatarUrl,
-            date: c.date,
-            text: c.text,
-            parentId: c.parentId || null,
-          }));
-          results.push(...mapped);
-        }
-        setAllComments(results);
-      } catch (e) {
-        console.error('載入留言失敗', e);
-        setAllComments([]);
-      }
-    })();
-  }, [userAddedPosts]);
-
-  useEffect(() => {
-    if (isMobileView && isSidebarOpen) {
-      document.body.style.overflow = 'hidden';
-    } else {
-      document.body.style.overflow = '';
-    }
-    return () => {
-      document.body.style.overflow = '';
-    };
-  }, [isSidebarOpen, isMobileView]);
+  useViewportTracking();
+  // 將 AuthContext 的登入狀態同步到 sessionStore，登出時一併重設個人資料
+  useEffect(() => { sessionStore.syncFromAuth(user, isAuthenticated); }, [user, isAuthenticated]);
 
-  const toggleTheme = useCallback(() => setTheme(p => p === 'light' ? 'dark' : 'light'), []);
-  const toggleCollapse = useCallback(() => setIsSidebarCollapsed(p => !p), []);
-  
   const navigateTo = useCallback((page: Page, data?: any) => {
       const pathMap: { [key in Page]?: string | ((d: any) => string) } = {
           [Page.Home]: '/',
           [Page.About]: '/about',
           [Page.Resume]: '/resume',
           [Page.Portfolio]: '/portfolio',
+          [Page.Album]: (d) => `/portfolio/album/${d.slug}`,
           [Page.Blog]: '/blog',
           [Page.Contact]: '/contact',
           [Page.BlogPostDetail]: (d) => `/blog/${d.id}`,
@@ -427,6 +276,7 @@ const App: React.FC = () => {
               return `/blog/category/${categoryKey}`;
           },
           [Page.AllPostsArchive]: '/blog/category/all',
+          [Page.TagArchive]: (d) => tagPath(d.slug),
           [Page.AddBlogPost]: '/blog/add',
           [Page.PhotoManagement]: '/manage/photos',
           [Page.PostManagement]: '/manage/posts',
@@ -447,183 +297,17 @@ const App: React.FC = () => {
           window.requestAnimationFrame(() => window.scrollTo(0, 0));
       }
 
-      setIsSidebarOpen(false);
+      uiStore.closeSidebar();
   }, [navigate]);
 
-  useEffect(() => { if (!isAuthenticated) setUserProfile(p => ({...p, username: t('sidebar.profileName')})); }, [t, i18n.language, isAuthenticated]);
-  useEffect(() => {
-    if (user) {
-      setUserProfile(prev => ({
-        ...prev,
-        username: user.username ?? prev.username,
-        email: user.email ?? '',
-        avatarUrl: user.avatarUrl ?? '/images/profile.jpg',
-        gender: (user as any).gender ?? 'not_specified',
-        birthday: (user as any).birthday ?? '',
-        address: (user as any).address ?? '',
-        phone: (user as any).phone ?? '',
-      }));
-    }
-  }, [user]);
-
-  const handleLogin = useCallback((username: string, _password: string): boolean => {
+  const handleLogin = useCallback((_username: string, _password: string): boolean => {
     navigate('/');
     return true;
   }, [navigate]);
 
-  const handleLogout = useCallback(() => {
-    setUserProfile({
-      username: t('sidebar.profileName'),
-      email: '',
-      avatarUrl: '/images/profile.jpg',
-      gender: 'not_specified',
-      birthday: '',
-      address: '',
-      phone: '',
-    });
-    navigate('/');
-  }, [navigate, t]);
-  const handleSocialLogin = useCallback((provider: SocialLoginProvider) => { navigate('/'); }, [navigate]);
-  const handleUpdateUserProfile = useCallback((d: Partial<UserProfile>) => { if (!isAuthenticated) return; setUserProfile(p => ({...p, ...d})); }, [isAuthenticated]);
-  const handleUpdateAvatar = useCallback((url: string) => { if (!isAuthenticated) return; setUserProfile(p => ({...p, avatarUrl: url})); }, [isAuthenticated]);
-  const handleSaveBlogPost = useCallback((postData: BlogPostData) => { if (!isSuperUser) return; setUserAddedPosts(p => { const i = p.findIndex(item => item.id === postData.id); if (i > -1) { const n = [...p]; n[i] = postData; return n; } return [postData, ...p]; }); navigate(`/blog/${postData.id}`); }, [isSuperUser, navigate]);
-  const handleAddBlogPost = useCallback((postData: BlogPostData) => { if (!isSuperUser) return; setUserAddedPosts(p => [postData, ...p]); }, [isSuperUser]);
-  const handleDeleteBlogPosts = useCallback(async (ids: string[]) => { 
-    if (!isSuperUser) return; 
-    
-    try {
-      // 調用後端 API 刪除文章
-      await Promise.all(ids.map(id => ApiService.deletePost(id)));
-      
-      // 更新本地狀態
-      setUserAddedPosts(p => p.filter(post => !ids.includes(post.id)));
-    } catch (error) {
-      console.error('刪除文章失敗:', error);
-      alert('刪除文章失敗，請重試');
-    }
-  }, [isSuperUser]);
-  const handleAddPortfolioItem = useCallback((item: PortfolioItemData) => { if (!isSuperUser) return; setUserAddedPortfolioItems(p => [item, ...p]); }, [isSuperUser]);
-  const handleUpdatePortfolioItem = useCallback((item: PortfolioItemData) => { if (!isSuperUser) return; setUserAddedPortfolioItems(p => p.map(i => i.id === item.id ? item : i)); }, [isSuperUser]);
-  const handleDeletePortfolioItems = useCallback(async (ids: string[]) => { 
-    if (!isSuperUser) return; 
-    
-    try {
-      // 調用後端 API 刪除作品項目
-      await Promise.all(ids.map(id => ApiService.deletePortfolioItem(id)));
-      
-      // 更新本地狀態
-      setUserAddedPortfolioItems(p => p.filter(i => !ids.includes(i.id)));
-    } catch (error) {
-      console.error('刪除作品項目失敗:', error);
-      alert('刪除作品項目失敗，請重試');
-    }
-  }, [isSuperUser]);
-  
-  const handleAddToBatch = useCallback((type: 'post' | 'portfolio', data: any) => {
-    const itemWithFile = { ...data };
-    if (type === 'post') {
-      setPostBatch(prev => [...prev, itemWithFile]);
-    } else {
-      setPortfolioBatch(prev => [...prev, itemWithFile]);
-    }
-  }, []);
-
-  const uploadImageToCloudinary = async (file: File): Promise<string> => {
-    const formData = new FormData();
-    formData.append('file', file);
-    const uploadPreset = process.env.CLOUDINARY_UPLOAD_PRESET;
-    const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
-    if (!uploadPreset || !cloudName) throw new Error("Cloudinary configuration is missing.");
-    formData.append('upload_preset', uploadPreset);
-    const response = await fetch(`https://api.cloudinary.com/v1_1/${cloudName}/image/upload`, { method: 'POST', body: formData });
-    if (!response.ok) { const errorData = await response.json(); throw new Error(`Cloudinary upload failed: ${errorData.error.message}`); }
-    const data = await response.json();
-    let url: string = data.secure_url;
-    // 自動加上 q_auto,f_auto 參數
-    url = url.replace('/upload/', '/upload/q_auto,f_auto/');
-    return url;
-  };
-
-  const handleOpenBatchModal = useCallback(async (type: 'post' | 'portfolio') => {
-    setIsBatchProcessing(true);
-    try {
-      const batch = type === 'post' ? postBatch : portfolioBatch;
-      const validBatch = batch.filter(item => item && item.file instanceof File);
-      const invalidCount = batch.length - validBatch.length;
-      if (invalidCount > 0) alert(`偵測到 ${invalidCount} 個項目因為頁面刷新而遺失了圖片檔案，這些項目將不會被處理。`);
-      if (validBatch.length === 0) { if (invalidCount > 0) { if(type === 'post') setPostBatch([]); else setPortfolioBatch([]); } return; }
-      const uploadPromises = validBatch.map(async (item) => { if (!item || !item.file) return null; const cloudinaryUrl = await uploadImageToCloudinary(item.file!); const { file, ...rest } = item; return { ...rest, imageUrl: cloudinaryUrl }; });
-      const updatedBatchWithNulls = await Promise.all(uploadPromises);
-      const updatedBatch = updatedBatchWithNulls.filter(Boolean);
-      const jsonCode = JSON.stringify(updatedBatch, null, 2);
-      const title = type === 'post' ? '產生文章批次代碼' : '產生相片批次代碼';
-      const targetPath = type === 'post' ? 'src/data/staticPosts.json' : 'src/data/staticPortfolio.json';
-      setBatchModalState({ isOpen: true, type, jsonCode, title, targetPath });
-    } catch (error) { console.error("Error processing batch:", error); alert(`批次處理失敗: ${error instanceof Error ? error.message : String(error)}`); } 
-    finally { setIsBatchProcessing(false); }
-  }, [postBatch, portfolioBatch]);
-  
-  const handleClearBatch = useCallback((type: 'post' | 'portfolio') => {
-    if (type === 'post') setPostBatch([]); else setPortfolioBatch([]);
-    setBatchModalState(prev => ({ ...prev, isOpen: false }));
-  }, []);
-  
-  const handleClearLocalStorage = (type: 'post' | 'portfolio') => {
-    const messageKey = type === 'post' ? 'postManagementPage.confirmClearBatchMessage' : 'photoManagementPage.confirmClearBatchMessage';
-    if (window.confirm(t(messageKey))) { if (type === 'post') setPostBatch([]); else setPortfolioBatch([]); }
-  };
-
-  const handleAddComment = useCallback(async (postId: string, text: string, parentId: string | null = null) => {
-    if (!isAuthenticated) return;
-    try {
-      const created = await ApiService.addComment({ postId, text, parentId });
-      const mapped: Comment = {
-        id: created.id,
-        postId: created.postId,
-        userId: created.userId,
-        username: created.username,
-        avatarUrl: created.avatarUrl,
-        date: created.date,
-        text: created.text,
-        parentId: created.parentId || null,
-      };
-      setAllComments(p => [...p, mapped]);
-    } catch (e) {
-      console.error('新增留言失敗', e);
-      alert('新增留言失敗，請稍後再試');
-    }
-  }, [isAuthenticated]);
-
-  const handleDeleteComment = useCallback(async (id: string) => {
-    if (!isSuperUser) return; 
-    try {
-      await ApiService.deleteComment(id);
-      setAllComments(p => {
-        const toDelete = new Set<string>([id]);
-        const findChildren = (parentId: string) => {
-          p.filter(c => c.parentId === parentId).forEach(c => { toDelete.add(c.id); findChildren(c.id); });
-        };
-        findChildren(id);
-        return p.filter(c => !toDelete.has(c.id));
-      });
-    } catch (e) {
-      console.error('刪除留言失敗', e);
-      alert('刪除留言失敗');
-    }
-  }, [isSuperUser]);
-  const toggleSidebar = useCallback(() => setIsSidebarOpen(p => !p), []);
-
-  const mainContentClasses = useMemo(() => `
-    transition-all duration-300 ease-in-out
-    ${isMobileView ? '' : (isSidebarCollapsed ? 'pl-20' : 'pl-80')}
-  `, [isMobileView, isSidebarCollapsed]);
-  
-  const mobileHeaderClasses = `
-    lg:hidden fixed top-0 left-0 right-0 z-50 h-16
-    transition-transform duration-300 ease-in-out
-    ${isMobileHeaderVisible ? 'translate-y-0' : '-translate-y-full'}
-  `;
-  const glassEffectClass = isScrolled ? 'bg-glass border-b border-theme-primary' : '';
+  const handleLogout = useCallback(() => { navigate('/'); }, [navigate]);
+  const handleSocialLogin = useCallback((_provider: SocialLoginProvider) => { navigate('/'); }, [navigate]);
+  const navigateToLogin = useCallback(() => navigateTo(Page.Login), [navigateTo]);
   
   return (
       <div className="bg-theme-primary text-theme-primary">
@@ -633,48 +317,30 @@ const App: React.FC = () => {
         {!isAppLoading && (
           <>
               <Routes>
-                  <Route path="/" element={
-                    <Layout
-                      isSidebarOpen={isSidebarOpen}
-                      isMobileView={isMobileView}
-                      isLandscape={isLandscape}
-                      isAuthenticated={isAuthenticated}
-                      isSuperUser={isSuperUser}
-                      username={user?.username ?? userProfile.username}
-                      avatarUrl={user?.avatarUrl ?? userProfile.avatarUrl}
-                      currentTheme={theme}
-                      isSidebarCollapsed={isSidebarCollapsed}
-                      showBackToTop={showBackToTop}
-                      mobileHeaderClasses={mobileHeaderClasses}
-                      glassEffectClass={glassEffectClass}
-                      mainContentClasses={mainContentClasses}
-                      toggleSidebar={toggleSidebar}
-                      closeSidebar={() => setIsSidebarOpen(false)}
-                      handleLogout={handleLogout}
-                      toggleTheme={toggleTheme}
-                      toggleCollapse={toggleCollapse}
-                      navigateTo={navigateTo}
-                    />
-                  }>
+                  <Route path="/" element={<Layout handleLogout={handleLogout} navigateTo={navigateTo} />}>
                       <Route index element={<HomePage />} />
                       <Route path="about" element={<AboutPage />} />
                       <Route path="resume" element={<ResumePage />} />
-                      <Route path="portfolio" element={<PortfolioPageWrapper userAddedPortfolioItems={userAddedPortfolioItems} onAddPortfolioItem={handleAddPortfolioItem} onDeletePortfolioItems={handleDeletePortfolioItems} isAuthenticated={isAuthenticated} isSuperUser={isSuperUser} navigateToLogin={() => navigateTo(Page.Login)} />} />
-                      <Route path="blog" element={<BlogPage navigateTo={navigateTo} allPosts={userAddedPosts} onDeletePosts={handleDeleteBlogPosts} isSuperUser={isSuperUser} navigateToLogin={() => navigateTo(Page.Login)} />} />
-                      <Route path="blog/:postId" element={<BlogPostDetailWrapper userAddedPosts={userAddedPosts} navigateTo={navigateTo} isAuthenticated={isAuthenticated} allComments={allComments} onAddComment={handleAddComment} onDeleteComment={handleDeleteComment} isSuperUser={isSuperUser} currentUserProfile={userProfile} />} />
-                      <Route path="blog/category/:categoryKey" element={<CategoryArchiveWrapper userAddedPosts={userAddedPosts} navigateTo={navigateTo} onDeletePosts={handleDeleteBlogPosts} isAuthenticated={isAuthenticated} isSuperUser={isSuperUser} />} />
+                      <Route path="portfolio" element={<PortfolioPage navigateToLogin={navigateToLogin} />} />
+                      <Route path="portfolio/photo/:photoId" element={<PortfolioPage navigateToLogin={navigateToLogin} />} />
+                      <Route path="portfolio/album/:slug" element={<AlbumWrapper navigateTo={navigateTo} />} />
+                      <Route path="portfolio/album/:slug/photo/:photoId" element={<AlbumWrapper navigateTo={navigateTo} />} />
+                      <Route path="blog" element={<BlogPage navigateTo={navigateTo} navigateToLogin={navigateToLogin} />} />
+                      <Route path="blog/:postId" element={<BlogPostDetailWrapper navigateTo={navigateTo} />} />
+                      <Route path="blog/category/:categoryKey" element={<CategoryArchiveWrapper navigateTo={navigateTo} />} />
+                      <Route path="blog/tag/:tag" element={<TagArchiveWrapper navigateTo={navigateTo} />} />
                       <Route path="contact" element={<ContactPage />} />
                       <Route path="login" element={<LoginPage onLogin={handleLogin} navigateTo={navigateTo} onSocialLogin={handleSocialLogin} />} />
                       <Route path="register" element={<RegisterPage navigateTo={navigateTo} />} />
-                      <Route path="account" element={<ProtectedRoute isAuthenticated={isAuthenticated}><AccountPageWrapper userProfile={userProfile} onUpdateProfile={handleUpdateUserProfile} onUpdateAvatar={handleUpdateAvatar} isAuthenticated={isAuthenticated} /></ProtectedRoute>} />
-                      <Route path="blog/add" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><AddBlogPostPageWrapper navigateTo={navigateTo} onSave={handleSaveBlogPost} isAuthenticated={isAuthenticated} isSuperUser={isSuperUser} navigateToLogin={() => navigateTo(Page.Login)} /></SuperUserRoute></ProtectedRoute>} />
-                      <Route path="blog/edit/:postId" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><EditBlogPostWrapper userAddedPosts={userAddedPosts} navigateTo={navigateTo} onSave={handleSaveBlogPost} isAuthenticated={isAuthenticated} isSuperUser={isSuperUser} /></SuperUserRoute></ProtectedRoute>} />
-                      <Route path="manage/photos" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><PhotoManagementPageWrapper portfolioItems={userAddedPortfolioItems} onDelete={handleDeletePortfolioItems} navigateTo={navigateTo} /></SuperUserRoute></ProtectedRoute>} />
-                      <Route path="manage/posts" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><PostManagementPageWrapper posts={userAddedPosts} onDelete={handleDeleteBlogPosts} onAdd={handleAddBlogPost} navigateTo={navigateTo} /></SuperUserRoute></ProtectedRoute>} />
+                      <Route path="account" element={<ProtectedRoute isAuthenticated={isAuthenticated}><AccountPage /></ProtectedRoute>} />
+                      <Route path="blog/add" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><AddBlogPostPage navigateTo={navigateTo} navigateToLogin={navigateToLogin} /></SuperUserRoute></ProtectedRoute>} />
+                      <Route path="blog/edit/:postId" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><EditBlogPostWrapper navigateTo={navigateTo} /></SuperUserRoute></ProtectedRoute>} />
+                      <Route path="manage/photos" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><PhotoManagementPage navigateTo={navigateTo} /></SuperUserRoute></ProtectedRoute>} />
+                      <Route path="manage/posts" element={<ProtectedRoute isAuthenticated={isAuthenticated}><SuperUserRoute isSuperUser={isSuperUser}><PostManagementPage navigateTo={navigateTo} /></SuperUserRoute></ProtectedRoute>} />
                       <Route path="*" element={<Navigate to="/" replace />} />
                   </Route>
               </Routes>
-              <BatchCodeModal isOpen={batchModalState.isOpen} onClose={() => setBatchModalState(s => ({...s, isOpen: false}))} onClearBatch={() => handleClearBatch(batchModalState.type)} title={batchModalState.title} jsonCode={batchModalState.jsonCode} targetPath={batchModalState.targetPath} />
+              <BatchCodeModalContainer />
           </>
         )}
       </div>
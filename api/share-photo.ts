@@ -0,0 +1,78 @@
+// Vercel Function：作品分享頁，依 API 資料替 index.html 加上該照片的 Open Graph 標籤
+// 社群平台的爬蟲不執行 JavaScript，只能從 HTML 讀到標題與圖片；瀏覽器載入後仍由前端路由開啟燈箱
+// vercel.json 將 /portfolio/photo/:id 與 /portfolio/album/:slug/photo/:id 改寫到這裡
+// 環境變數（於 Vercel 專案設定）：
+//   API_BASE_URL：後端 API 的絕對網址，未設定時沿用 VITE_API_BASE_URL
+//   SITE_URL：正式網址（結尾不需斜線），用於 og:url；未設定時使用請求的網域
+
+interface SharedPhoto {
+  imageUrl: string;
+  title?: string;
+  titleZh?: string;
+  description?: string;
+  descriptionZh?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 找不到照片、API 錯誤或逾時都回傳 undefined，頁面退回網站預設的標籤
+const fetchPhoto = async (id: string): Promise<SharedPhoto | undefined> => {
+  const apiBase = process.env.API_BASE_URL || process.env.VITE_API_BASE_URL;
+  if (!apiBase || !/^https?:\/\//.test(apiBase)) return undefined;
+  try {
+    const response = await fetch(`${apiBase.replace(/\/$/, '')}/content/portfolio/${encodeURIComponent(id)}`, {
+      signal: AbortSignal.timeout(3000),
+    });
+    if (!response.ok) return undefined;
+    const photo: Partial<SharedPhoto> | null = await response.json();
+    return typeof photo?.imageUrl === 'string' ? photo as SharedPhoto : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const withPhotoTags = (html: string, photo: SharedPhoto, pageUrl: string) => {
+  const title = [photo.title, photo.titleZh].filter(Boolean).join(' · ');
+  const tags: [string, string, string | undefined][] = [
+    ['property', 'og:title', title],
+    ['property', 'og:description', photo.description || photo.descriptionZh],
+    ['property', 'og:image', photo.imageUrl],
+    ['property', 'og:url', pageUrl],
+    ['property', 'og:type', 'article'],
+    ['name', 'twitter:card', 'summary_large_image'],
+    ['name', 'twitter:title', title],
+    ['name', 'twitter:image', photo.imageUrl],
+  ];
+  const meta = tags
+    .filter(([, , content]) => !!content)
+    .map(([attribute, key, content]) => `    <meta ${attribute}="${key}" content="${escapeHtml(content!)}" />`)
+    .join('\n');
+  return html
+    .replace(/<title>(.*?)<\/title>/, (match, siteTitle) => title ? `<title>${escapeHtml(title)} - ${siteTitle}</title>` : match)
+    .replace('</head>', () => `${meta}\n</head>`);
+};
+
+export async function GET(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const id = url.searchParams.get('id') ?? '';
+  const slug = url.searchParams.get('slug');
+  const photoPath = slug
+    ? `/portfolio/album/${encodeURIComponent(slug)}/photo/${encodeURIComponent(id)}`
+    : `/portfolio/photo/${encodeURIComponent(id)}`;
+  const siteUrl = (process.env.SITE_URL || url.origin).replace(/\/$/, '');
+
+  const [shell, photo] = await Promise.all([
+    fetch(`${url.origin}/index.html`).then(response => response.ok ? response.text() : undefined, () => undefined),
+    id ? fetchPhoto(id) : Promise.resolve(undefined),
+  ]);
+  if (!shell) return new Response('Bad Gateway', { status: 502 });
+
+  return new Response(photo ? withPhotoTags(shell, photo, `${siteUrl}${photoPath}`) : shell, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // 照片資料變動不頻繁，讓 CDN 短暫快取以免每次分享都打到後端
+      'Cache-Control': 'public, max-age=0, s-maxage=300, stale-while-revalidate=86400',
+    },
+  });
+}
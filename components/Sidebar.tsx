@@ -20,6 +20,7 @@ import PhotoIcon from './icons/PhotoIcon';
 import DocumentTextIcon from './icons/DocumentTextIcon';
 import CloseIcon from './icons/CloseIcon';
 import { useAuth } from '../src/contexts/AuthContext';
+import { photoBasePath } from '../src/hooks/usePhotoRoute';
 
 const motion: any = motionTyped;
 
@@ -141,7 +142,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </li>
               );
             }
-            const isActive = item.page === Page.Blog ? isBlogSectionActive : location.pathname === item.path;
+            const isActive = item.page === Page.Blog ? isBlogSectionActive : photoBasePath(location.pathname) === item.path;
             return ( <li key={item.path} className="mb-1"> <Link to={item.path} onClick={closeSidebar} className={`flex items-center rounded-full transition-all duration-200 ease-in-out relative ${isDesktopCollapsed ? 'w-12 h-12 justify-center mx-auto' : 'w-full py-3 px-4'} bg-transparent ${isActive ? `text-custom-cyan font-semibold` : `text-theme-secondary hover:text-custom-cyan`}`} aria-current={isActive ? 'page' : undefined} title={isDesktopCollapsed ? t(item.label) : undefined}> <item.icon className={`w-5 h-5 transition-colors duration-200 ease-in-out ${isDesktopCollapsed ? '' : 'mr-3'}`} /> <span className={`${isDesktopCollapsed ? 'lg:hidden' : ''}`}>{t(item.label)}</span> </Link> </li> );
           })}
         </ul>
@@ -0,0 +1,6 @@
+// 新增與編輯作品時可選的分類
+export const portfolioCategoryOptions: { value: string; labelKey: string }[] = [
+    { value: 'portfolioPage.filterStreet', labelKey: 'portfolioPage.filterStreet' },
+    { value: 'portfolioPage.filterPortrait', labelKey: 'portfolioPage.filterPortrait' },
+    { value: 'portfolioPage.filterSport', labelKey: 'portfolioPage.filterSport' },
+];
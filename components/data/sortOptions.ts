@@ -0,0 +1,20 @@
+import { SortOrder } from '../../src/types/api';
+
+// 列表頁共用的排序選項（值對應後端的 sort 參數）
+export const sortOptions: { value: SortOrder; labelKey: string }[] = [
+    { value: 'date-desc', labelKey: 'blogPage.sortDateDesc' },
+    { value: 'date-asc', labelKey: 'blogPage.sortDateAsc' },
+    { value: 'title-asc', labelKey: 'blogPage.sortTitleAsc' },
+    { value: 'title-desc', labelKey: 'blogPage.sortTitleDesc' },
+    { value: 'views-desc', labelKey: 'postManagementPage.sortByViewsDesc' },
+    { value: 'views-asc', labelKey: 'postManagementPage.sortByViewsAsc' },
+];
+
+// 作品集另外提供依分類排序
+export const portfolioSortOptions: { value: SortOrder; labelKey: string }[] = [
+    ...sortOptions.slice(0, 4),
+    { value: 'category-asc', labelKey: 'postManagementPage.sortCategoryAsc' },
+    { value: 'category-desc', labelKey: 'postManagementPage.sortCategoryDesc' },
+    ...sortOptions.slice(4),
+    { value: 'custom', labelKey: 'portfolioPage.sortCustom' },
+];
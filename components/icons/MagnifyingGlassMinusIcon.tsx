@@ -0,0 +1,14 @@
+
+import React from 'react';
+
+/**
+ * 放大鏡減號圖標組件 (MagnifyingGlassMinusIcon)。
+ * 這是一個無狀態的功能組件，用於渲染 SVG 圖標。
+ */
+const MagnifyingGlassMinusIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607ZM13.5 10.5h-6" />
+  </svg>
+);
+
+export default MagnifyingGlassMinusIcon;
@@ -3,7 +3,6 @@ import React, { useState, useEffect, ChangeEvent, FormEvent, useMemo } from 'rea
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'framer-motion';
 import SectionTitle from '../ui/SectionTitle';
-import { UserProfile } from '../../types';
 import { ACCENT_BG_COLOR, ACCENT_BG_HOVER_COLOR, ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
 import { sectionDelayShow } from '../../animationVariants';
 import ImageCropper from '../ui/ImageCropper';
@@ -11,21 +10,24 @@ import ChevronDownIcon from '../icons/ChevronDownIcon';
 import EyeIcon from '../icons/EyeIcon';
 import EyeSlashIcon from '../icons/EyeSlashIcon';
 import { UpdateUserRequest } from '../../src/types/auth';
+import { useSessionStore, useUserProfile } from '../../src/hooks/useStores';
+import { sessionStore } from '../../src/stores/sessionStore';
+import { useFormErrors } from '../../src/hooks/useFormErrors';
+import { ApiError } from '../../src/services/apiErrors';
+import FieldError from '../ui/FieldError';
+import { useMediaUpload } from '../../src/hooks/useMediaUpload';
 
-// 帳戶頁面屬性介面
-interface AccountPageProps {
-  userProfile: UserProfile; // 當前用戶資料
-  onUpdateProfile: (newProfileData: Partial<UserProfile>) => void; // 更新個人資料的回調函數
-  onUpdateAvatar: (newAvatarUrl: string) => void; // 更新頭像的回調函數
-  isAuthenticated: boolean; // 用戶是否已登入
-}
+// 依畫面順序排列，驗證失敗時聚焦第一個有錯的欄位
+const ACCOUNT_FIELDS = ['username', 'email', 'birthday', 'phone', 'password', 'confirmPassword'] as const;
 
 /**
  * 帳戶管理頁面組件。
  * 允許用戶查看和編輯他們的個人資料，包括頭像、基本資訊和密碼。
  */
-const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile, onUpdateAvatar, isAuthenticated }) => {
+const AccountPage: React.FC = () => {
   const { t } = useTranslation();
+  const userProfile = useUserProfile();
+  const isAuthenticated = useSessionStore(s => s.isAuthenticated);
 
   // 表單狀態
   const [initialProfile, setInitialProfile] = useState(userProfile); // 初始個人資料，用於比較是否有變更
@@ -34,9 +36,8 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
   const [gender, setGender] = useState(userProfile.gender || 'not_specified');
   const [birthday, setBirthday] = useState(userProfile.birthday || '');
   const [, setIsBirthdayFocused] = useState<boolean>(false);
-  // 上傳頭像時顯示遮罩與進度
-  const [isUploadingAvatar, setIsUploadingAvatar] = useState<boolean>(false);
-  const [uploadProgress, setUploadProgress] = useState<number>(0);
+  // 上傳頭像時顯示進度
+  const avatarUpload = useMediaUpload();
   const [address, setAddress] = useState(userProfile.address || '');
   const [phone, setPhone] = useState(userProfile.phone || '');
   
@@ -58,8 +59,10 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const form = useFormErrors(ACCOUNT_FIELDS);
+  const { errors } = form;
 
-  // 當 userProfile prop 改變時，重置所有表單狀態
+  // 當 userProfile 改變時，重置所有表單狀態
   useEffect(() => {
     setInitialProfile(userProfile);
     setUsername(userProfile.username);
@@ -107,58 +110,18 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
   }, [username, email, gender, birthday, address, phone, previewAvatarUrl, newPassword, initialProfile]);
 
 
-  // 處理頭像文件選擇
+  // 處理頭像文件選擇：上傳到媒體服務，拿到 URL 後預覽並標記修改
   const handleAvatarFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      // 直接上傳至 Cloudinary，拿到 URL 後預覽並標記修改
-      try {
-        setIsUploadingAvatar(true);
-        setUploadProgress(0);
-        const formData = new FormData();
-        formData.append('file', file);
-        const uploadPreset = (window as any).CLOUDINARY_UPLOAD_PRESET || process.env.CLOUDINARY_UPLOAD_PRESET;
-        const cloudName = (window as any).CLOUDINARY_CLOUD_NAME || process.env.CLOUDINARY_CLOUD_NAME;
-        if (!uploadPreset || !cloudName) throw new Error('缺少 Cloudinary 設定');
-        formData.append('upload_preset', String(uploadPreset));
-        await new Promise<void>((resolve, reject) => {
-          const xhr = new XMLHttpRequest();
-          xhr.open('POST', `https://api.cloudinary.com/v1_1/${cloudName}/image/upload`);
-          xhr.upload.onprogress = (ev: ProgressEvent<EventTarget>) => {
-            if (ev.lengthComputable) {
-              const percent = Math.round((ev.loaded / ev.total) * 100);
-              setUploadProgress(percent);
-            }
-          };
-          xhr.onload = () => {
-            if (xhr.status >= 200 && xhr.status < 300) {
-              try {
-                const data = JSON.parse(xhr.responseText);
-                let url: string = data.secure_url as string;
-                url = url.replace('/upload/', '/upload/q_auto,f_auto/');
-                setPreviewAvatarUrl(url);
-                setUploadProgress(100);
-                resolve();
-              } catch (err) {
-                reject(err);
-              }
-            } else {
-              reject(new Error('上傳失敗'));
-            }
-          };
-          xhr.onerror = () => reject(new Error('上傳失敗'));
-          xhr.onabort = () => reject(new Error('上傳中止'));
-          xhr.send(formData);
-        });
-        // 小停留讓使用者看見 100%
-        await new Promise(r => setTimeout(r, 300));
-      } catch (err) {
-        console.error('Avatar upload failed', err);
-      } finally {
-        setIsUploadingAvatar(false);
-        e.target.value = '';
-      }
-    }
+    e.target.value = '';
+    if (!file || !file.type.startsWith('image/')) return;
+    const url = await avatarUpload.upload(file);
+    if (url) setPreviewAvatarUrl(url);
+  };
+
+  const handleRetryAvatarUpload = async () => {
+    const url = await avatarUpload.retry();
+    if (url) setPreviewAvatarUrl(url);
   };
   
   // 處理圖片裁剪完成
@@ -203,6 +166,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
     setImageToCrop(null);
     setNewPassword('');
     setConfirmPassword('');
+    form.clearAll();
     // 不強制清空提示
   };
 
@@ -211,23 +175,14 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
     e.preventDefault();
     if (!isAuthenticated || !isDirty) return;
 
-    setIsSubmitting(true);
     setStatusMessage(null);
     setSubmitStatus('idle');
 
-    // 密碼驗證
-    if (newPassword && newPassword !== confirmPassword) {
-      setStatusMessage(t('accountPage.passwordsDoNotMatchError'));
-      setSubmitStatus('error');
-      setIsSubmitting(false);
-      return;
-    }
-    if (newPassword && newPassword.length < 6) {
-      setStatusMessage(t('registerPage.passwordPlaceholder'));
-      setSubmitStatus('error');
-      setIsSubmitting(false);
-      return;
-    }
+    // 與後端相同的規則；密碼只有在要變更時才檢查
+    const passwordValues = newPassword ? { password: newPassword, confirmPassword } : {};
+    if (!form.validate({ username, email, birthday, phone, ...passwordValues }, { required: ['username', 'email'] })) return;
+
+    setIsSubmitting(true);
     
     try {
       const payload: UpdateUserRequest = {
@@ -249,7 +204,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
       const updated = await mod.AuthService.updateMe(payload);
 
       // 對應本地顯示同步
-      onUpdateProfile({
+      sessionStore.updateProfile({
         username: updated.username,
         email: updated.email,
         gender: (updated as any).gender,
@@ -257,7 +212,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
         address: updated.address,
         phone: updated.phone,
       });
-      if (updated.avatarUrl) onUpdateAvatar(updated.avatarUrl);
+      if (updated.avatarUrl) sessionStore.updateAvatar(updated.avatarUrl);
       // 立即同步 AuthContext 與 localStorage，讓側邊欄立即反映
       try {
         const authMod = await import('../../src/contexts/AuthContext');
@@ -276,7 +231,9 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
       await new Promise(r => setTimeout(r, 1500));
     } catch (err: any) {
       setSubmitStatus('error');
-      setStatusMessage(err?.message || '更新失敗');
+      // 能對應到欄位的錯誤標示在輸入框，其餘顯示在按鈕旁
+      const onFields = err instanceof ApiError && form.showErrors(err.fieldErrors);
+      setStatusMessage(onFields ? null : err?.message || '更新失敗');
     } finally {
       setIsSubmitting(false);
       setTimeout(() => setSubmitStatus('idle'), 4000);
@@ -336,14 +293,20 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
                 )}
               </div>
             </div>
-            {isUploadingAvatar ? (
+            {avatarUpload.isUploading ? (
               <div className="mb-3 text-green-400 font-semibold text-sm text-center">
-                {t('accountPage.avatarUploading')} {uploadProgress}%
+                {t('accountPage.avatarUploading')} {avatarUpload.progress}%
+                <button type="button" onClick={avatarUpload.cancel} className="ml-2 text-custom-cyan hover:underline">{t('media.cancel')}</button>
               </div>
-            ) : uploadProgress === 100 ? (
+            ) : avatarUpload.status === 'success' ? (
               <div className="mb-3 text-green-400 font-semibold text-sm text-center">
                 {t('accountPage.avatarUploadSuccess')}
               </div>
+            ) : avatarUpload.status === 'error' ? (
+              <div className="mb-3 text-red-400 font-semibold text-sm text-center" role="alert">
+                {t('media.uploadFailed')}
+                <button type="button" onClick={handleRetryAvatarUpload} className="ml-2 text-custom-cyan hover:underline">{t('media.retry')}</button>
+              </div>
             ) : null}
             <div className="w-full max-w-sm flex justify-center">
               <input
@@ -380,15 +343,19 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
                         <label htmlFor="username" className="block text-sm font-medium text-theme-secondary mb-1">
                             {t('accountPage.usernameLabel')}
                         </label>
-                        <input type="text" id="username" value={username} onChange={(e) => setUsername(e.target.value)} required
-                            className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`} />
+                        <input type="text" id="username" value={username} onChange={(e) => { setUsername(e.target.value); form.clearField('username'); }} required
+                            {...form.fieldProps('username', 'username')}
+                            className={`w-full bg-theme-tertiary border ${form.borderClass('username')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`} />
+                        <FieldError id="username" message={errors.username} />
                     </div>
                     <div>
                         <label htmlFor="email" className="block text-sm font-medium text-theme-secondary mb-1">
                             {t('accountPage.emailLabel')}
                         </label>
-                        <input type="email" id="email" value={email} onChange={(e) => setEmail(e.target.value)} required
-                            className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`} />
+                        <input type="email" id="email" value={email} onChange={(e) => { setEmail(e.target.value); form.clearField('email'); }} required
+                            {...form.fieldProps('email', 'email')}
+                            className={`w-full bg-theme-tertiary border ${form.borderClass('email')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`} />
+                        <FieldError id="email" message={errors.email} />
                     </div>
                 </div>
                 <div className="grid sm:grid-cols-2 gap-6">
@@ -414,20 +381,24 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
                             id="birthday"
                             type="date"
                             value={/^(\d{4})\/(\d{2})\/(\d{2})$/.test(birthday) ? birthday.split('/').join('-') : ''}
-                            onChange={(e) => setBirthday(e.target.value ? e.target.value.split('-').join('/') : '')}
+                            onChange={(e) => { setBirthday(e.target.value ? e.target.value.split('-').join('/') : ''); form.clearField('birthday'); }}
+                            {...form.fieldProps('birthday', 'birthday')}
                             onFocus={() => setIsBirthdayFocused(true)}
                             onBlur={() => setIsBirthdayFocused(false)}
-                            className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS} custom-select-text ${!/^(\d{4})\/(\d{2})\/(\d{2})$/.test(birthday) ? 'hide-date-placeholder' : ''}`}
+                            className={`w-full bg-theme-tertiary border ${form.borderClass('birthday')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS} custom-select-text ${!/^(\d{4})\/(\d{2})\/(\d{2})$/.test(birthday) ? 'hide-date-placeholder' : ''}`}
                           />
                           {/* 保持空白，不顯示自訂 placeholder */}
                         </div>
+                        <FieldError id="birthday" message={errors.birthday} />
                     </div>
                 </div>
                  <div>
                     <label htmlFor="phone" className="block text-sm font-medium text-theme-secondary mb-1">{t('accountPage.phoneLabel')}</label>
-                    <input type="tel" id="phone" value={phone} onChange={e => setPhone(e.target.value)}
-                        className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+                    <input type="tel" id="phone" value={phone} onChange={e => { setPhone(e.target.value); form.clearField('phone'); }}
+                        {...form.fieldProps('phone', 'phone')}
+                        className={`w-full bg-theme-tertiary border ${form.borderClass('phone')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
                         placeholder={t('accountPage.phonePlaceholder')} />
+                    <FieldError id="phone" message={errors.phone} />
                 </div>
                 <div>
                     <label htmlFor="address" className="block text-sm font-medium text-theme-secondary mb-1">{t('accountPage.addressLabel')}</label>
@@ -450,11 +421,12 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
                         <input
                             type={showNewPassword ? 'text' : 'password'}
                             id="new_password" value={newPassword}
-                            onChange={e => setNewPassword(e.target.value)}
+                            onChange={e => { setNewPassword(e.target.value); form.clearField('password'); }}
+                            {...form.fieldProps('password', 'new_password')}
                             onFocus={() => setIsNewPasswordFocused(true)}
                             onBlur={() => setIsNewPasswordFocused(false)}
                             minLength={6}
-                            className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+                            className={`w-full bg-theme-tertiary border ${form.borderClass('password')} text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
                             placeholder={t('accountPage.newPasswordPlaceholder')} />
                         <AnimatePresence>
                           {(isNewPasswordFocused || newPassword) && (
@@ -473,6 +445,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
                           )}
                         </AnimatePresence>
                     </div>
+                    <FieldError id="new_password" message={errors.password} />
                 </div>
                 <div>
                     <label htmlFor="confirm_password" className="block text-sm font-medium text-theme-secondary mb-1">{t('accountPage.confirmPasswordLabel')}</label>
@@ -481,11 +454,12 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
                             type={showConfirmPassword ? 'text' : 'password'}
                             id="confirm_password"
                             value={confirmPassword}
-                            onChange={e => setConfirmPassword(e.target.value)}
+                            onChange={e => { setConfirmPassword(e.target.value); form.clearField('confirmPassword'); }}
+                            {...form.fieldProps('confirmPassword', 'confirm_password')}
                             onFocus={() => setIsConfirmPasswordFocused(true)}
                             onBlur={() => setIsConfirmPasswordFocused(false)}
                             minLength={6}
-                            className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+                            className={`w-full bg-theme-tertiary border ${form.borderClass('confirmPassword')} text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
                             placeholder={t('accountPage.confirmPasswordPlaceholder')} />
                         <AnimatePresence>
                           {(isConfirmPasswordFocused || confirmPassword) && (
@@ -504,6 +478,7 @@ const AccountPage: React.FC<AccountPageProps> = ({ userProfile, onUpdateProfile,
                           )}
                         </AnimatePresence>
                     </div>
+                    <FieldError id="confirm_password" message={errors.confirmPassword} />
                 </div>
             </div>
             {/* 操作按鈕 */}
@@ -1,7 +1,7 @@
-import React, { useState, useCallback, ChangeEvent, FormEvent, useEffect } from 'react';
+import React, { useState, useCallback, ChangeEvent, FormEvent, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion as motionTyped } from 'framer-motion';
-import { BlogPostData, Page } from '../../types';
+import { Page, PostStatus } from '../../types';
 import SectionTitle from '../ui/SectionTitle';
 import ArrowLeftIcon from '../icons/ArrowLeftIcon';
 import SparklesIcon from '../icons/SparklesIcon';
@@ -12,7 +12,18 @@ import ChevronDownIcon from '../icons/ChevronDownIcon';
 import CameraIcon from '../icons/CameraIcon';
 import MDEditor from '@uiw/react-md-editor';
 import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
-import { ApiService } from '../../src/services/api';
+import { outbox } from '../../src/services/outbox';
+import { contentStore } from '../../src/stores/contentStore';
+import { useSessionStore } from '../../src/hooks/useStores';
+import { useMediaUpload } from '../../src/hooks/useMediaUpload';
+import { EMPTY_POST_DRAFT, EMPTY_POST_SETTINGS, NEW_POST_AUTOSAVE_KEY, samePostSettings, usePostAutosave } from '../../src/hooks/usePostAutosave';
+import { useUnsavedChangesGuard } from '../../src/hooks/useUnsavedChangesGuard';
+import UploadProgress from '../ui/UploadProgress';
+import PostPublishSettings from '../ui/PostPublishSettings';
+import PostTagInput from '../ui/PostTagInput';
+import AutosaveRecoveryPanel from '../ui/AutosaveRecoveryPanel';
+import { hasValidPublishAt } from '../../src/services/postStatus';
+import ImagePreprocessSettings from '../ui/ImagePreprocessSettings';
 
 // 將 motionTyped 轉型為 any 以解決類型問題
 const motion: any = motionTyped;
@@ -47,9 +58,6 @@ const sanitizeSchema = {
 // 新增部落格文章頁面的屬性介面
 interface AddBlogPostPageProps {
   navigateTo: (page: Page, data?: any) => void; // 導航函數
-  onSave: (postData: BlogPostData) => void; // 保存文章的回調
-  isAuthenticated: boolean; // 用戶是否登入
-  isSuperUser: boolean; // 是否為超級用戶
   navigateToLogin: () => void; // 導航到登入頁的函數
 }
 
@@ -59,12 +67,10 @@ interface AddBlogPostPageProps {
  */
 const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
   navigateTo,
-  onSave,
-  isAuthenticated,
-  isSuperUser,
   navigateToLogin,
 }) => {
-  const { t } = useTranslation();
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
+  const { t, i18n } = useTranslation();
 
   // 表單狀態
   const [title, setTitle] = useState('');
@@ -72,9 +78,13 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
   const [content, setContent] = useState('');
   const [contentZh, setContentZh] = useState('');
   const [categoryKey, setCategoryKey] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [status, setStatus] = useState<PostStatus>('draft');
+  const [publishAt, setPublishAt] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
+  const media = useMediaUpload({ preprocess: true });
 
   // UI 狀態
   const [activeContentLang, setActiveContentLang] = useState<'en' | 'zh'>('en'); // 當前內容編輯器語言
@@ -85,6 +95,27 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
   const [isGeneratingContent, setIsGeneratingContent] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
+
+  // 定期自動儲存未儲存的內容，並在離開頁面前確認
+  const draftFields = useMemo(
+    () => ({ title, titleZh, content, contentZh, categoryKey, imageUrl: previewUrl ?? '' }),
+    [title, titleZh, content, contentZh, categoryKey, previewUrl],
+  );
+  const autosave = usePostAutosave({ storageKey: NEW_POST_AUTOSAVE_KEY, fields: draftFields, saved: EMPTY_POST_DRAFT });
+  const hasUnsavedSettings = !samePostSettings({ tags, status, publishAt }, EMPTY_POST_SETTINGS);
+  const allowNavigation = useUnsavedChangesGuard((autosave.isDirty || hasUnsavedSettings) && !isSubmitting, t('autosave.leaveConfirm'));
+
+  const handleRestoreAutosave = () => {
+    const restored = autosave.restore();
+    if (!restored) return;
+    setTitle(restored.title);
+    setTitleZh(restored.titleZh);
+    setContent(restored.content);
+    setContentZh(restored.contentZh);
+    setCategoryKey(restored.categoryKey);
+    setPreviewUrl(restored.imageUrl || null);
+  };
+
   // 監聽主題變化以更新編輯器顏色模式
   useEffect(() => {
     const observer = new MutationObserver(() => {
@@ -102,52 +133,25 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
     navigateTo(Page.Blog);
   }, [navigateTo]);
   
-  // 處理文件選擇變更
+  // 處理文件選擇：上傳到媒體服務，完成後以回傳的網址預覽
   const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (file.type.startsWith('image/')) {
-        setSelectedFile(file);
-        setImageUploadError(null);
-        
-        try {
-          // 直接上傳到 Cloudinary
-          const uploadPreset = process.env.CLOUDINARY_UPLOAD_PRESET;
-          const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
-          
-          if (!uploadPreset || !cloudName) {
-            throw new Error('缺少 Cloudinary 設定');
-          }
-          
-          const formData = new FormData();
-          formData.append('file', file);
-          formData.append('upload_preset', uploadPreset);
-          
-          const response = await fetch(`https://api.cloudinary.com/v1_1/${cloudName}/image/upload`, {
-            method: 'POST',
-            body: formData
-          });
-          
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(`Cloudinary 上傳失敗: ${errorData.error?.message || '未知錯誤'}`);
-          }
-          
-          const result = await response.json();
-          // 使用 Cloudinary URL 而不是 base64
-          setPreviewUrl(result.secure_url);
-        } catch (error) {
-          console.error('Image upload failed:', error);
-          setImageUploadError(t('blogPage.imageUploadError'));
-          setSelectedFile(null);
-          setPreviewUrl(null);
-        }
-      } else {
-        setSelectedFile(null);
-        setPreviewUrl(null);
-        setImageUploadError(t('blogPage.imageUploadError'));
-      }
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setSelectedFile(null);
+      setImageUploadError(t('blogPage.imageUploadError'));
+      return;
     }
+    setSelectedFile(file);
+    setImageUploadError(null);
+    const url = await media.upload(file);
+    if (url) setPreviewUrl(url);
+  };
+
+  const handleRetryUpload = async () => {
+    const url = await media.retry();
+    if (url) setPreviewUrl(url);
   };
 
   // 使用 AI 生成標題
@@ -180,7 +184,7 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
       });
       
       const base64Data = await base64Promise;
-      const imagePart = { inlineData: { mimeType: selectedFile?.type || 'image/jpeg', data: base64Data } };
+      const imagePart = { inlineData: { mimeType: blob.type || selectedFile?.type || 'image/jpeg', data: base64Data } };
       const prompt = `You are a professional blog writer. Analyze this image. Provide a concise, artistic, and evocative title. Respond with a single JSON object containing two keys: "titleEn" for the English title and "titleZh" for the Traditional Chinese title. Example: { "titleEn": "Urban Solitude", "titleZh": "城市孤影" }`;
 
       const aiResponse = await ai.models.generateContent({
@@ -243,7 +247,7 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
       });
       
       const base64Data = await base64Promise;
-      const imagePart = { inlineData: { mimeType: selectedFile?.type || 'image/jpeg', data: base64Data } };
+      const imagePart = { inlineData: { mimeType: blob.type || selectedFile?.type || 'image/jpeg', data: base64Data } };
       const prompt = `You are a professional blog writer. Analyze this image. Write a short, engaging blog post excerpt/summary about it (around 150-200 words). Respond with a single JSON object containing two keys: "contentEn" for the English content and "contentZh" for the Traditional Chinese content.`;
       
       const aiResponse = await ai.models.generateContent({
@@ -287,12 +291,17 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
       alert(t('blogPage.fillAllRequiredFields'));
       return;
     }
+    if (!hasValidPublishAt(status, publishAt)) {
+      alert(t('postStatus.publishAtInvalid'));
+      return;
+    }
 
     setIsSubmitting(true);
     
     try {
       const postData = {
         imageUrl: previewUrl,
+        imagePlaceholder: media.placeholder ?? undefined,
         title,
         titleZh,
         content,
@@ -300,14 +309,27 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
         excerpt: content.substring(0, 150),
         excerptZh: contentZh.substring(0, 150),
         categoryKey,
+        tags,
         isLocked: false,
-        isFeatured: false
+        isFeatured: false,
+        status,
+        publishAt: status === 'scheduled' ? publishAt : undefined,
       };
 
-      const newPost = await ApiService.createPost(postData);
+      const outcome = await outbox.send({ type: 'createPost', payload: postData });
+      // 已建立（或排入佇列），不再需要自動儲存的備份
+      autosave.clear();
+      allowNavigation();
+      if (outcome.queued) {
+        // 離線時文章先存入佇列，恢復連線後才會建立並取得 id
+        alert(t('outbox.queuedNotice'));
+        navigateTo(Page.Blog);
+        return;
+      }
+      const newPost = outcome.result;
       
-      // 調用 onSave 回調以更新父組件狀態
-      onSave(newPost);
+      // 寫入文章快取
+      contentStore.savePost(newPost);
       
       // 導航到新文章的詳情頁
       navigateTo(Page.BlogPostDetail, newPost);
@@ -339,6 +361,10 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
         animate="animate"
       >
         <form onSubmit={handleFormSubmit} className="space-y-6">
+          {autosave.recovered && (
+            <AutosaveRecoveryPanel autosave={autosave.recovered} saved={EMPTY_POST_DRAFT} onRestore={handleRestoreAutosave} onDiscard={autosave.discard} />
+          )}
+
           {/* 圖片上傳 */}
           <motion.div variants={fadeInUpItemVariants}>
             <label htmlFor="postImage" className="block text-sm font-medium text-theme-secondary mb-2">{t('blogPage.imageLabel')}</label>
@@ -353,6 +379,8 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
                 )}
             </label>
             <input type="file" id="postImage" accept="image/*" onChange={handleFileChange} className="hidden" />
+            <UploadProgress status={media.status} progress={media.progress} onCancel={media.cancel} onRetry={handleRetryUpload} originalSize={media.originalSize} processedSize={media.processedSize} />
+            <ImagePreprocessSettings value={media.preprocessOptions} onChange={media.setPreprocessOptions} disabled={media.isUploading} />
             {imageUploadError && <p className="text-red-500 text-sm mt-2">{imageUploadError}</p>}
           </motion.div>
 
@@ -376,6 +404,11 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
             </div>
           </motion.div>
 
+          {/* 標籤 */}
+          <motion.div variants={fadeInUpItemVariants}>
+            <PostTagInput value={tags} onChange={setTags} />
+          </motion.div>
+
           {/* 標題輸入 */}
           <motion.div variants={fadeInUpItemVariants} className="grid md:grid-cols-2 gap-6">
             <div>
@@ -433,10 +466,20 @@ const AddBlogPostPage: React.FC<AddBlogPostPageProps> = ({
             <p className="text-xs text-theme-muted text-center mt-2">{t('blogPage.aiFeatureInfo')}</p>
           </motion.div>
 
+          {/* 發布設定 */}
+          <motion.div variants={fadeInUpItemVariants}>
+            <PostPublishSettings status={status} publishAt={publishAt} onStatusChange={setStatus} onPublishAtChange={setPublishAt} />
+          </motion.div>
+
           {/* 表單操作按鈕 */}
-          <motion.div variants={fadeInUpItemVariants} className="flex justify-end space-x-4 pt-4 border-t border-theme-primary">
+          <motion.div variants={fadeInUpItemVariants} className="flex justify-end items-center space-x-4 pt-4 border-t border-theme-primary">
+            {autosave.lastSavedAt && (
+              <span className="mr-auto text-xs text-theme-muted">
+                {t('autosave.savedAt', { time: new Date(autosave.lastSavedAt).toLocaleTimeString(i18n.language, { timeStyle: 'short' }) })}
+              </span>
+            )}
             <button type="submit" disabled={isSubmitting} className={`${ACCENT_BG_COLOR} ${ACCENT_BG_HOVER_COLOR} text-zinc-900 font-semibold py-2.5 px-6 rounded-md transition-all disabled:opacity-50`}>
-              {t('blogPage.savePostButton')}
+              {status === 'draft' ? t('postStatus.saveDraftButton') : status === 'scheduled' ? t('postStatus.scheduleButton') : t('postStatus.publishButton')}
             </button>
             <button type="button" onClick={handleCancel} className="button-theme-neutral font-semibold py-2.5 px-6 rounded-md transition-colors">{t('blogPage.cancelButton')}</button>
           </motion.div>
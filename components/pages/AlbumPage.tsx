@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion as motionTyped } from 'framer-motion';
+import Masonry from 'react-masonry-css';
+import { Page, PortfolioAlbum, PortfolioItemData } from '../../types';
+import { useListSearchParams } from '../../src/hooks/useListSearchParams';
+import { usePortfolioItem, usePortfolioPage } from '../../src/hooks/useContentQueries';
+import { usePhotoRoute } from '../../src/hooks/usePhotoRoute';
+import { useSessionStore } from '../../src/hooks/useStores';
+import { SortOrder } from '../../src/types/api';
+import { portfolioSortOptions } from '../data/sortOptions';
+import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
+import { fadeInUpItemVariants, sectionDelayShow } from '../../animationVariants';
+import PortfolioCard from '../ui/PortfolioCard';
+import PortfolioSkeletonCard from '../ui/PortfolioSkeletonCard';
+import Pagination from '../ui/Pagination';
+import Lightbox from '../ui/Lightbox';
+import PortfolioItemEditor from '../ui/PortfolioItemEditor';
+import ArrowLeftIcon from '../icons/ArrowLeftIcon';
+import ChevronDownIcon from '../icons/ChevronDownIcon';
+
+const motion: any = motionTyped;
+
+const ITEMS_PER_PAGE = 12;
+
+interface AlbumPageProps {
+  album: PortfolioAlbum;
+  navigateTo: (page: Page, data?: any) => void;
+}
+
+/**
+ * 單一相簿頁面（/portfolio/album/:slug）
+ * 顯示相簿封面與說明，照片以分頁的 Masonry 排列，可開啟燈箱瀏覽（/portfolio/album/:slug/photo/:photoId）
+ */
+const AlbumPage: React.FC<AlbumPageProps> = ({ album, navigateTo }) => {
+  const { t, i18n } = useTranslation();
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
+  const { page, sort, setPage, setSort } = useListSearchParams({ pageSize: ITEMS_PER_PAGE });
+  const { photoId, openPhoto, showPhoto, closePhoto } = usePhotoRoute();
+  const [editingItem, setEditingItem] = useState<PortfolioItemData | null>(null);
+
+  const isZh = i18n.language === 'zh-Hant';
+  const title = isZh && album.titleZh ? album.titleZh : album.title;
+  const description = isZh && album.descriptionZh ? album.descriptionZh : album.description;
+
+  const { items, total, isLoading } = usePortfolioPage({
+    page,
+    pageSize: ITEMS_PER_PAGE,
+    sort,
+    album: album.id,
+    lang: i18n.language,
+  });
+  const coverUrl = album.coverUrl || album.coverImageUrl;
+  const totalPages = Math.ceil(total / ITEMS_PER_PAGE);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [page, album.id]);
+
+  // 不在目前這頁的照片（例如分享連結）單獨取得；不屬於此相簿或找不到時回到相簿
+  const listedItem = photoId ? items.find(item => item.id === photoId) : undefined;
+  const { data: fetchedItem, error: photoError } = usePortfolioItem(photoId, { enabled: !listedItem });
+  const selectedItem = listedItem ?? (fetchedItem?.id === photoId ? fetchedItem : undefined);
+  const isOutsideAlbum = !listedItem && !!fetchedItem && fetchedItem.id === photoId && !fetchedItem.albumIds?.includes(album.id);
+  useEffect(() => { if ((photoError && !listedItem) || isOutsideAlbum) closePhoto(); }, [photoError, listedItem, isOutsideAlbum, closePhoto]);
+  const handleSelectItem = useCallback((item: PortfolioItemData) => showPhoto(item.id), [showPhoto]);
+
+  const handleCloseEditor = useCallback(() => setEditingItem(null), []);
+  const handleItemSaved = useCallback((updated: PortfolioItemData) => {
+    // 移出此相簿的照片不再顯示於燈箱
+    if (updated.id === photoId && !updated.albumIds?.includes(album.id)) closePhoto();
+  }, [album.id, photoId, closePhoto]);
+
+  const breakpointColumnsObj = { default: 4, 1199: 3, 767: 2, 500: 1 };
+
+  return (
+    <div>
+      <motion.div {...sectionDelayShow(0)}>
+        <button onClick={() => navigateTo(Page.Portfolio)} className="button-theme-neutral font-semibold py-2 px-5 rounded-md transition-all flex items-center mb-8">
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          {t('albums.backToPortfolio')}
+        </button>
+      </motion.div>
+
+      {/* 相簿封面與說明 */}
+      <motion.header className="relative rounded-lg overflow-hidden shadow-xl mb-10 bg-theme-tertiary" {...sectionDelayShow(0.1)}>
+        {coverUrl && <img src={coverUrl} alt={title} className="w-full h-64 md:h-80 object-cover" />}
+        <div className={coverUrl ? 'absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent flex flex-col justify-end p-6 md:p-8 text-white' : 'p-6 md:p-8 text-theme-primary'}>
+          <h2 className="text-3xl md:text-4xl font-bold">{title}</h2>
+          {description && <p className={`mt-2 max-w-2xl ${coverUrl ? 'text-gray-200' : 'text-theme-secondary'}`}>{description}</p>}
+          <p className={`mt-3 text-sm ${coverUrl ? 'text-gray-300' : 'text-theme-secondary'}`}>{t('albums.photoCount', { count: total })}</p>
+        </div>
+      </motion.header>
+
+      <div className="flex justify-end mb-6">
+        <div className="relative">
+          <select value={sort} onChange={e => setSort(e.target.value as SortOrder)} className={`bg-theme-tertiary border border-theme-primary text-theme-primary text-sm font-medium rounded-md p-2 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none pr-8 cursor-pointer`} aria-label={t('blogPage.sortByLabel')}>
+            {portfolioSortOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
+          </select>
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary"> <ChevronDownIcon className="w-5 h-5" /> </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Masonry breakpointCols={breakpointColumnsObj} className="masonry-grid" columnClassName="masonry-grid_column">
+          {Array.from({ length: 8 }).map((_, index) => <PortfolioSkeletonCard key={index} index={index} />)}
+        </Masonry>
+      ) : items.length > 0 ? (
+        <Masonry breakpointCols={breakpointColumnsObj} className="masonry-grid" columnClassName="masonry-grid_column">
+          {items.map(item => (
+            <motion.div key={item.id} variants={fadeInUpItemVariants} initial="initial" animate="animate" className="w-full">
+              <PortfolioCard {...item} onClick={() => openPhoto(item.id)} />
+            </motion.div>
+          ))}
+        </Masonry>
+      ) : (
+        <p className="text-center text-theme-secondary py-16">{t('albums.empty')}</p>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-10">
+          <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+        </div>
+      )}
+
+      {selectedItem && <Lightbox currentItem={selectedItem} filteredItems={listedItem ? items : [selectedItem]} onClose={closePhoto} onSelectItem={handleSelectItem} onEdit={isSuperUser ? setEditingItem : undefined} />}
+      <PortfolioItemEditor item={editingItem} onClose={handleCloseEditor} onSaved={handleItemSaved} />
+    </div>
+  );
+};
+
+export default AlbumPage;
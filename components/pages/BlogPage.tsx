@@ -1,7 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion as motionTyped, AnimatePresence } from 'framer-motion';
-import { BlogPostData, Page } from '../../types';
+import { Page } from '../../types';
 import { sectionDelayShow, fadeInUpItemVariants, staggerContainerVariants } from '../../animationVariants';
 import BlogHeroCard from '../ui/BlogHeroCard';
 import { blogCategoryDefinitions } from '../data/blogData';
@@ -11,6 +11,7 @@ import BlogCard from '../ui/BlogCardMasonry';
 import SectionTitle from '../ui/SectionTitle';
 import TopicCard from '../ui/TopicCard';
 import SectionDivider from '../ui/SectionDivider';
+import { usePublishedPosts } from '../../src/hooks/useContentQueries';
 
 
 // 將 motionTyped 轉型為 any 以解決類型問題
@@ -19,12 +20,10 @@ const motion: any = motionTyped;
 // 部落格頁面的屬性介面
 export const BlogPage: React.FC<{
   navigateTo: (page: Page, data?: any) => void; // 導航函數
-  allPosts: BlogPostData[]; // 所有部落格文章數據
-  onDeletePosts: (postIds: string[]) => void; // 刪除文章的回調
-  isSuperUser: boolean; // 是否為超級用戶
   navigateToLogin: () => void; // 導航到登入頁的函數
-}> = ({ navigateTo, allPosts, onDeletePosts, isSuperUser, navigateToLogin }) => {
+}> = ({ navigateTo, navigateToLogin }) => {
   const { t } = useTranslation();
+  const { posts: allPosts } = usePublishedPosts();
   
   // 狀態管理
   const [activeTabKey, setActiveTabKey] = useState(blogCategoryDefinitions[0].titleKey); // 當前活動的分類標籤
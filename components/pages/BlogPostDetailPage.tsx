@@ -2,7 +2,7 @@ import React, { useEffect, useState, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion as motionTyped } from 'framer-motion';
 import { Link, useNavigate } from 'react-router-dom';
-import { Page, BlogPostData, Comment, UserProfile, CategoryInfo } from '../../types';
+import { Page, BlogPostData, CategoryInfo } from '../../types';
 import { ACCENT_FOCUS_VISIBLE_RING_CLASS } from '../../constants';
 import PencilSquareIcon from '../icons/PencilSquareIcon'; 
 import CommentSection from '../ui/CommentSection'; 
@@ -12,6 +12,13 @@ import ArrowLeftIcon from '../icons/ArrowLeftIcon';
 import MDEditor from '@uiw/react-md-editor';
 import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
 import PostNavigation from '../ui/PostNavigation';
+import PostStatusBadge from '../ui/PostStatusBadge';
+import { isPostPublished } from '../../src/services/postStatus';
+import ResponsiveImage from '../ui/ResponsiveImage';
+import { useComments, useTags } from '../../src/hooks/useContentQueries';
+import { tagLabel, tagPath } from '../../src/services/postTags';
+import { useSessionStore, useUserProfile } from '../../src/hooks/useStores';
+import { commentStore } from '../../src/stores/commentStore';
 
 const motion: any = motionTyped;
 
@@ -39,12 +46,6 @@ interface BlogPostDetailPageProps {
   post: BlogPostData; 
   allPosts: BlogPostData[];
   navigateTo: (page: Page, data?: any) => void; 
-  isAuthenticated: boolean;
-  comments: Comment[];
-  onAddComment: (postId: string, text: string, parentId?: string | null) => void;
-  onDeleteComment: (commentId: string) => void;
-  isSuperUser: boolean;
-  currentUserProfile: UserProfile;
   originCategoryInfo: CategoryInfo | null; // 來自哪個分類頁，若無則為 null
 }
 
@@ -52,15 +53,14 @@ const BlogPostDetailPage: React.FC<BlogPostDetailPageProps> = ({
   post, 
   allPosts,
   navigateTo, 
-  isAuthenticated,
-  comments,
-  onAddComment,
-  onDeleteComment,
-  isSuperUser,
-  currentUserProfile,
   originCategoryInfo
 }) => {
   const { t, i18n } = useTranslation();
+  const isAuthenticated = useSessionStore(s => s.isAuthenticated);
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
+  const currentUserProfile = useUserProfile();
+  // 只在進入文章頁時載入該篇留言
+  const { comments } = useComments(post.id);
   const navigate = useNavigate();
   const [colorMode, setColorMode] = useState<'light' | 'dark'>('dark');
   
@@ -80,6 +80,8 @@ const BlogPostDetailPage: React.FC<BlogPostDetailPageProps> = ({
   }, []);
 
   const categoryInfo = useMemo(() => getCategoryInfoFromKey(post.categoryKey), [post.categoryKey]);
+  const { tags } = useTags();
+  const postTags = useMemo(() => tags.filter(tag => post.tags?.includes(tag.slug)), [tags, post.tags]);
 
   const { displayTitle, displayContent, postCategory } = useMemo(() => {
     let title: string, content: string, category: string;
@@ -103,12 +105,13 @@ const BlogPostDetailPage: React.FC<BlogPostDetailPageProps> = ({
     <div className="-m-6 md:-m-12">
         {/* Hero Section */}
         <div className="relative h-screen min-h-[500px] text-white flex items-center justify-center">
-            <div 
-                className="absolute inset-0 bg-cover bg-center"
-                style={{ backgroundImage: `url(${post.imageUrl})` }}
-            />
+            <div className="absolute inset-0">
+                <ResponsiveImage src={post.imageUrl} alt="" sizes="100vw" placeholder={post.imagePlaceholder} priority fill className="w-full h-full" />
+            </div>
             <div className="absolute inset-0 bg-black opacity-60" />
             <div className="relative z-10 text-center max-w-4xl p-8">
+                {/* 超級使用者預覽草稿或排程文章時標示目前狀態 */}
+                {!isPostPublished(post) && <PostStatusBadge post={post} className="mb-4" />}
                 <h1 className="text-4xl md:text-6xl font-extrabold leading-tight mb-4">{displayTitle}</h1>
                 <div className={`text-sm font-medium uppercase tracking-wider text-custom-cyan`}>
                     <span>{new Date(post.date).toLocaleDateString(i18n.language, { year: 'numeric', month: 'long', day: 'numeric' })}</span>
@@ -178,6 +181,18 @@ const BlogPostDetailPage: React.FC<BlogPostDetailPageProps> = ({
                          />
                     </motion.div>
 
+                    {postTags.length > 0 && (
+                        <ul className="flex flex-wrap gap-2" aria-label={t('tags.label')}>
+                            {postTags.map(tag => (
+                                <li key={tag.slug}>
+                                    <Link to={tagPath(tag.slug)} className="inline-block text-sm font-medium py-1 px-3 rounded-full bg-theme-tertiary text-theme-secondary hover:text-custom-cyan transition-colors">
+                                        #{tagLabel(tag, i18n.language)}
+                                    </Link>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
                     <div className="border-t border-theme-primary">
                         <PostNavigation currentPost={post} allPosts={allPosts} />
                     </div>
@@ -187,8 +202,8 @@ const BlogPostDetailPage: React.FC<BlogPostDetailPageProps> = ({
                         comments={comments}
                         isAuthenticated={isAuthenticated}
                         currentUserProfile={currentUserProfile}
-                        onAddComment={onAddComment}
-                        onDeleteComment={onDeleteComment}
+                        onAddComment={commentStore.addComment}
+                        onDeleteComment={(commentId) => commentStore.deleteComment(post.id, commentId)}
                         isSuperUser={isSuperUser}
                     />
                 </article>
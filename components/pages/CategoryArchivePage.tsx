@@ -1,13 +1,19 @@
 // 引入 React 相關鉤子
-import React, { useMemo, useState, useCallback, ChangeEvent, useEffect } from 'react';
+import React, { useMemo, useState, ChangeEvent, useEffect } from 'react';
 // 引入翻譯鉤子
 import { useTranslation } from 'react-i18next';
 // 引入 Framer Motion 動畫庫
 import { motion as motionTyped } from 'framer-motion';
-// 引入 React Router 相關鉤子
-import { useSearchParams } from 'react-router-dom';
+// 引入列表查詢相關鉤子
+import { useListSearchParams } from '../../src/hooks/useListSearchParams';
+import { usePostsPage } from '../../src/hooks/useContentQueries';
+import { useSessionStore } from '../../src/hooks/useStores';
+import { contentStore } from '../../src/stores/contentStore';
+import { SortOrder } from '../../src/types/api';
+import { sortOptions } from '../data/sortOptions';
+import { tagLabel } from '../../src/services/postTags';
 // 引入應用程式的類型定義
-import { BlogPostData, Page, CategoryInfo } from '../../types';
+import { Page, CategoryInfo, PostTag } from '../../types';
 // 引入 UI 組件
 import SectionTitle from '../ui/SectionTitle';
 import Pagination from '../ui/Pagination';
@@ -30,123 +36,85 @@ const motion: any = motionTyped;
 
 // 定義每頁顯示的文章數量
 const ITEMS_PER_PAGE = 8;
-// 定義排序順序的類型
-type SortOrder = 'date-desc' | 'date-asc' | 'title-asc' | 'title-desc' | 'views-desc' | 'views-asc';
 
 // 分類封存頁面的屬性介面
 interface CategoryArchivePageProps {
   categoryInfo: CategoryInfo; // 當前分類的資訊
-  allPosts: BlogPostData[]; // 所有文章列表
+  tag?: PostTag; // 標籤頁：改為列出帶有此標籤的文章
   navigateTo: (page: Page, data?: any) => void; // 導航函數
-  onDeletePosts: (postIds: string[]) => void; // 刪除文章的回調
-  isAuthenticated: boolean; // 用戶是否登入
-  isSuperUser: boolean; // 是否為超級用戶
   navigateToLogin: () => void; // 導航到登入頁的函數
 }
 
 /**
  * 分類封存頁面組件。
  * 顯示特定分類下的所有文章，並提供分頁、排序和管理功能。
+ * 標籤頁（/blog/tag/:tag）也使用此頁面，以 tag 取代分類條件。
  */
 const CategoryArchivePage: React.FC<CategoryArchivePageProps> = ({
   categoryInfo,
-  allPosts,
+  tag,
   navigateTo,
-  onDeletePosts,
-  isAuthenticated,
-  isSuperUser,
   navigateToLogin,
 }) => {
   // 使用翻譯鉤子
   const { t, i18n } = useTranslation();
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
   
-  // 使用 URL 搜索參數來管理狀態
-  const [searchParams, setSearchParams] = useSearchParams();
-  const currentPage = parseInt(searchParams.get('page') || '1', 10);
-  const sortOrder = (searchParams.get('sort') as SortOrder) || 'date-desc';
-  const [searchTerm, setSearchTerm] = useState('');
+  // 使用 URL 搜索參數來管理狀態（?page=&sort=&q=），並直接驅動後端查詢
+  const listParams = useListSearchParams({ pageSize: ITEMS_PER_PAGE });
+  const { page: currentPage, sort: sortOrder, search } = listParams;
+  const [searchTerm, setSearchTerm] = useState(search);
+  const [isSearchEdited, setIsSearchEdited] = useState(false); // 使用者輸入後尚未寫入網址
 
   // UI 相關狀態
   const [isDeleteModeActive, setIsDeleteModeActive] = useState(false); // 是否處於刪除模式
   const [selectedIdsForDeletion, setSelectedIdsForDeletion] = useState<string[]>([]); // 選中待刪除的文章ID列表
-  const [paginatedPosts, setPaginatedPosts] = useState<BlogPostData[]>([]); // 當前頁面顯示的文章
 
-  // 處理排序變更的回調函數
-  const handleSortChange = useCallback((newSortOrder: SortOrder) => {
-    const newParams = new URLSearchParams(searchParams);
-    newParams.set('sort', newSortOrder);
-    newParams.set('page', '1'); // 變更排序後重置到第一頁
-    setSearchParams(newParams);
-  }, [searchParams, setSearchParams]);
+  // 處理排序變更（會重置到第一頁）
+  const handleSortChange = (newSortOrder: SortOrder) => listParams.setSort(newSortOrder);
   
-  // 處理分頁變更的回調函數
-  const handlePageChange = useCallback((newPage: number) => {
-      const newParams = new URLSearchParams(searchParams);
-      newParams.set('page', String(newPage));
-      setSearchParams(newParams);
-      window.scrollTo(0, 0);
-  }, [searchParams, setSearchParams]);
-
-  // 過濾和排序文章的 useMemo 鉤子
-  const sortedPosts = useMemo(() => {
-    let filtered;
+  // 處理分頁變更
+  const handlePageChange = (newPage: number) => {
+    listParams.setPage(newPage);
+    window.scrollTo(0, 0);
+  };
 
-    if (categoryInfo.titleKey === 'portfolioPage.filterAll') {
-      filtered = allPosts;
-    } else {
-      filtered = allPosts.filter(p => p.categoryKey && categoryInfo.categoryKeys.includes(p.categoryKey));
-    }
+  // 網址的搜尋字詞改變時（例如上一頁、下一頁）同步輸入框；只差在前後空白時保留使用者輸入的內容
+  useEffect(() => {
+    setSearchTerm(prev => (prev.trim() === search ? prev : search));
+    setIsSearchEdited(false);
+  }, [search]);
 
-    if (searchTerm.trim() !== '') {
-        const lowercasedTerm = searchTerm.toLowerCase();
-        filtered = filtered.filter(post => {
-            const title = (post.title || '').toLowerCase();
-            const titleZh = (post.titleZh || '').toLowerCase();
-            const content = (post.content || '').toLowerCase();
-            const contentZh = (post.contentZh || '').toLowerCase();
-            const excerpt = (post.excerpt || '').toLowerCase();
-            const excerptZh = (post.excerptZh || '').toLowerCase();
-            
-            return title.includes(lowercasedTerm) ||
-                   titleZh.includes(lowercasedTerm) ||
-                   content.includes(lowercasedTerm) ||
-                   contentZh.includes(lowercasedTerm) ||
-                   excerpt.includes(lowercasedTerm) ||
-                   excerptZh.includes(lowercasedTerm);
-        });
-    }
-    
-    return filtered.sort((a, b) => {
-      const titleA = (i18n.language === 'zh-Hant' && a.titleZh) ? a.titleZh : (a.title || '');
-      const titleB = (i18n.language === 'zh-Hant' && b.titleZh) ? b.titleZh : (b.title || '');
-      switch (sortOrder) {
-        case 'date-asc':
-          return new Date(a.date).getTime() - new Date(b.date).getTime();
-        case 'title-asc':
-          return titleA.localeCompare(titleB);
-        case 'title-desc':
-          return titleB.localeCompare(titleA);
-        case 'views-desc':
-          return (b.views || 0) - (a.views || 0);
-        case 'views-asc':
-          return (a.views || 0) - (b.views || 0);
-        case 'date-desc':
-        default:
-          return new Date(b.date).getTime() - new Date(a.date).getTime();
-      }
-    });
-  }, [allPosts, categoryInfo, sortOrder, i18n.language, searchTerm]);
+  const handleSearchChange = (term: string) => {
+    setSearchTerm(term);
+    setIsSearchEdited(true);
+  };
 
-  // 計算總頁數
-  const totalPages = Math.ceil(sortedPosts.length / ITEMS_PER_PAGE);
-  
-  // Effect: 當排序後的文章列表或當前頁碼改變時，更新要顯示的文章
+  // 使用者輸入停頓後才把搜尋字詞寫入網址，避免每個按鍵都發出請求
   useEffect(() => {
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    const endIndex = startIndex + ITEMS_PER_PAGE;
-    setPaginatedPosts(sortedPosts.slice(startIndex, endIndex));
-  }, [sortedPosts, currentPage]);
+    if (!isSearchEdited) return;
+    const timer = setTimeout(() => {
+      setIsSearchEdited(false);
+      if (searchTerm.trim() !== search) listParams.setSearch(searchTerm);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, isSearchEdited, search, listParams]);
 
+  // 'all' 分類與標籤頁不帶分類條件
+  const categories = tag || categoryInfo.titleKey === 'portfolioPage.filterAll' ? undefined : categoryInfo.categoryKeys;
+  const { items: paginatedPosts, total } = usePostsPage({
+    page: currentPage,
+    pageSize: ITEMS_PER_PAGE,
+    sort: sortOrder,
+    categories,
+    tag: tag?.slug,
+    search,
+    status: 'published', // 分類彙整是公開頁面，超級使用者在此也只看到已發布的文章
+    lang: i18n.language,
+  });
+
+  // 計算總頁數
+  const totalPages = Math.ceil(total / ITEMS_PER_PAGE);
 
   // 判斷用戶是否有管理權限
   const canManageContent = categoryInfo.isEditable && isSuperUser;
@@ -172,7 +140,7 @@ const CategoryArchivePage: React.FC<CategoryArchivePageProps> = ({
   
   // 確認刪除所選文章
   const handleDeleteConfirmed = () => {
-    onDeletePosts(selectedIdsForDeletion);
+    contentStore.deletePosts(selectedIdsForDeletion);
     setSelectedIdsForDeletion([]);
     setIsDeleteModeActive(false);
   };
@@ -200,7 +168,7 @@ const CategoryArchivePage: React.FC<CategoryArchivePageProps> = ({
   return (
     <div className="space-y-12">
       <motion.div {...sectionDelayShow(0)}>
-          <SectionTitle titleKey={categoryInfo.titleKey} />
+          <SectionTitle titleKey={categoryInfo.titleKey} titleOptions={tag ? { tag: tagLabel(tag, i18n.language) } : undefined} />
       </motion.div>
       
       <motion.div 
@@ -228,12 +196,7 @@ const CategoryArchivePage: React.FC<CategoryArchivePageProps> = ({
                       className={`bg-theme-tertiary border border-theme-primary text-theme-primary text-sm font-medium rounded-md p-2.5 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none pr-8 cursor-pointer`}
                       aria-label={t('blogPage.sortByLabel')}
                   >
-                      <option value="date-desc">{t('blogPage.sortDateDesc')}</option>
-                      <option value="date-asc">{t('blogPage.sortDateAsc')}</option>
-                      <option value="title-asc">{t('blogPage.sortTitleAsc')}</option>
-                      <option value="title-desc">{t('blogPage.sortTitleDesc')}</option>
-                      <option value="views-desc">{t('postManagementPage.sortByViewsDesc')}</option>
-                      <option value="views-asc">{t('postManagementPage.sortByViewsAsc')}</option>
+                      {sortOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                   </select>
                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary">
                       <ChevronDownIcon className="w-5 h-5" />
@@ -305,14 +268,11 @@ const CategoryArchivePage: React.FC<CategoryArchivePageProps> = ({
         {/* 側邊欄 */}
         <div className="lg:col-span-1">
           <CategorySidebar
-            allPosts={allPosts}
             navigateTo={navigateTo}
-            currentCategoryInfo={categoryInfo}
+            currentCategoryInfo={tag ? undefined : categoryInfo}
+            currentTag={tag?.slug}
             searchTerm={searchTerm}
-            onSearchChange={(term) => {
-              setSearchTerm(term);
-              handlePageChange(1);
-            }}
+            onSearchChange={handleSearchChange}
           />
         </div>
       </div>
@@ -1,11 +1,11 @@
 // 引入 React 相關鉤子
-import React, { useState, useCallback, ChangeEvent, FormEvent, useEffect } from 'react';
+import React, { useState, useCallback, ChangeEvent, FormEvent, useEffect, useMemo, useRef } from 'react';
 // 引入翻譯鉤子
 import { useTranslation } from 'react-i18next';
 // 引入 Framer Motion 動畫庫
 import { motion as motionTyped } from 'framer-motion';
 // 引入應用程式的類型定義
-import { BlogPostData, Page } from '../../types';
+import { BlogPostData, Page, PostStatus } from '../../types';
 // 引入 UI 組件
 import SectionTitle from '../ui/SectionTitle';
 import ArrowLeftIcon from '../icons/ArrowLeftIcon';
@@ -21,7 +21,19 @@ import ChevronDownIcon from '../icons/ChevronDownIcon';
 import CameraIcon from '../icons/CameraIcon';
 import MDEditor from '@uiw/react-md-editor';
 import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
-import { ApiService } from '../../src/services/api';
+import { outbox } from '../../src/services/outbox';
+import { isApiError } from '../../src/services/apiErrors';
+import { contentStore } from '../../src/stores/contentStore';
+import { useSessionStore } from '../../src/hooks/useStores';
+import { useMediaUpload } from '../../src/hooks/useMediaUpload';
+import { samePostSettings, toPostDraftFields, toPostSettingsFields, usePostAutosave } from '../../src/hooks/usePostAutosave';
+import { useUnsavedChangesGuard } from '../../src/hooks/useUnsavedChangesGuard';
+import UploadProgress from '../ui/UploadProgress';
+import PostPublishSettings from '../ui/PostPublishSettings';
+import PostTagInput from '../ui/PostTagInput';
+import AutosaveRecoveryPanel from '../ui/AutosaveRecoveryPanel';
+import PostRevisionHistory from '../ui/PostRevisionHistory';
+import { effectivePostStatus, hasValidPublishAt } from '../../src/services/postStatus';
 
 // 將 motionTyped 轉型為 any 以解決 Framer Motion 在某些情況下的類型推斷問題
 const motion: any = motionTyped;
@@ -57,9 +69,6 @@ const sanitizeSchema = {
 interface EditBlogPostPageProps {
   postToEdit: BlogPostData; // 要編輯的文章數據
   navigateTo: (page: Page, data?: any) => void; // 導航函數
-  onSave: (postData: BlogPostData) => void; // 儲存文章的回調
-  isAuthenticated: boolean; // 用戶是否登入
-  isSuperUser: boolean; // 是否為超級用戶
   navigateToLogin: () => void; // 導航到登入頁的函數
 }
 
@@ -70,11 +79,9 @@ interface EditBlogPostPageProps {
 const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
   postToEdit,
   navigateTo,
-  onSave,
-  isAuthenticated,
-  isSuperUser,
   navigateToLogin,
 }) => {
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
   const { t, i18n } = useTranslation();
 
   // 表單狀態
@@ -83,9 +90,13 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
   const [content, setContent] = useState('');
   const [contentZh, setContentZh] = useState('');
   const [categoryKey, setCategoryKey] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [status, setStatus] = useState<PostStatus>('published');
+  const [publishAt, setPublishAt] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
+  const media = useMediaUpload();
 
   // UI 狀態
   const [activeContentLang, setActiveContentLang] = useState<'en' | 'zh'>('en'); // 當前內容編輯器語言
@@ -96,17 +107,54 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
   const [isGeneratingContent, setIsGeneratingContent] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // 當 `postToEdit` prop 改變時，用其數據填充表單
+  // 表單內容所根據的文章版本，儲存時送回讓後端判斷是否已被其他人修改
+  const baseUpdatedAt = useRef<number | undefined>(undefined);
+
+  // 用文章的數據填充表單
+  const fillForm = useCallback((post: BlogPostData) => {
+    baseUpdatedAt.current = post.updatedAt;
+    setTitle(post.title || '');
+    setTitleZh(post.titleZh || '');
+    setContent(post.content || '');
+    setContentZh(post.contentZh || '');
+    setCategoryKey(post.categoryKey || '');
+    setTags(post.tags ?? []);
+    // 排程時間已過的文章直接顯示為已發布
+    setStatus(effectivePostStatus(post));
+    setPublishAt(post.publishAt || '');
+    setPreviewUrl(post.imageUrl);
+  }, []);
+
+  // 只在開始編輯另一篇文章時填充表單；同一篇文章重新取得後的新物件不會覆蓋編輯中的內容
+  const filledPostId = useRef<string | null>(null);
   useEffect(() => {
-    if (postToEdit) {
-        setTitle(postToEdit.title || '');
-        setTitleZh(postToEdit.titleZh || '');
-        setContent(postToEdit.content || '');
-        setContentZh(postToEdit.contentZh || '');
-        setCategoryKey(postToEdit.categoryKey || '');
-        setPreviewUrl(postToEdit.imageUrl);
-    }
-  }, [postToEdit]);
+    if (filledPostId.current === postToEdit.id) return;
+    filledPostId.current = postToEdit.id;
+    fillForm(postToEdit);
+  }, [postToEdit, fillForm]);
+
+  const savedDraft = useMemo(() => toPostDraftFields(postToEdit), [postToEdit]);
+
+  // 定期自動儲存未儲存的內容，並在離開頁面前確認
+  const draftFields = useMemo(
+    () => ({ title, titleZh, content, contentZh, categoryKey, imageUrl: previewUrl ?? '' }),
+    [title, titleZh, content, contentZh, categoryKey, previewUrl],
+  );
+  const autosave = usePostAutosave({ storageKey: `post:${postToEdit.id}`, postId: postToEdit.id, fields: draftFields, saved: savedDraft });
+  const savedSettings = useMemo(() => toPostSettingsFields(postToEdit), [postToEdit]);
+  const hasUnsavedSettings = !samePostSettings({ tags, status, publishAt }, savedSettings);
+  const allowNavigation = useUnsavedChangesGuard((autosave.isDirty || hasUnsavedSettings) && !isSubmitting, t('autosave.leaveConfirm'));
+
+  const handleRestoreAutosave = () => {
+    const restored = autosave.restore();
+    if (!restored) return;
+    setTitle(restored.title);
+    setTitleZh(restored.titleZh);
+    setContent(restored.content);
+    setContentZh(restored.contentZh);
+    setCategoryKey(restored.categoryKey);
+    setPreviewUrl(restored.imageUrl || postToEdit.imageUrl);
+  };
 
   // 監聽主題變化以更新編輯器顏色模式
   useEffect(() => {
@@ -125,22 +173,25 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
     navigateTo(Page.BlogPostDetail, postToEdit);
   }, [navigateTo, postToEdit]);
 
-  // 處理文件選擇
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+  // 處理文件選擇：上傳到媒體服務，完成後以回傳的網址預覽
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (file.type.startsWith('image/')) {
-        setSelectedFile(file);
-        const reader = new FileReader();
-        reader.onloadend = () => setPreviewUrl(reader.result as string);
-        reader.readAsDataURL(file);
-        setImageUploadError(null);
-      } else {
-        setSelectedFile(null);
-        setPreviewUrl(null);
-        setImageUploadError(t('blogPage.imageUploadError'));
-      }
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setSelectedFile(null);
+      setImageUploadError(t('blogPage.imageUploadError'));
+      return;
     }
+    setSelectedFile(file);
+    setImageUploadError(null);
+    const url = await media.upload(file);
+    if (url) setPreviewUrl(url);
+  };
+
+  const handleRetryUpload = async () => {
+    const url = await media.retry();
+    if (url) setPreviewUrl(url);
   };
 
   // 使用 AI 生成標題
@@ -280,12 +331,18 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
       alert(t('blogPage.fillAllRequiredFields'));
       return;
     }
+    if (!hasValidPublishAt(status, publishAt)) {
+      alert(t('postStatus.publishAtInvalid'));
+      return;
+    }
 
     setIsSubmitting(true);
     
     try {
       const postData = {
         imageUrl: previewUrl,
+        // 換了圖片時改用新圖的預覽，沒有則以空字串清除舊圖的預覽
+        imagePlaceholder: (previewUrl === media.url ? media.placeholder : previewUrl === postToEdit.imageUrl ? postToEdit.imagePlaceholder : null) ?? '',
         title,
         titleZh,
         content,
@@ -293,20 +350,29 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
         excerpt: content.substring(0, 150),
         excerptZh: contentZh.substring(0, 150),
         categoryKey,
+        tags,
         isLocked: postToEdit.isLocked,
-        isFeatured: postToEdit.isFeatured
+        isFeatured: postToEdit.isFeatured,
+        status,
+        // 不是排程文章時以空字串清除先前的排程時間
+        publishAt: status === 'scheduled' ? publishAt : '',
       };
 
-      const updatedPost = await ApiService.updatePost(postToEdit.id, postData);
+      const outcome = await outbox.send({ type: 'updatePost', postId: postToEdit.id, payload: postData, baseUpdatedAt: baseUpdatedAt.current });
+      // 離線時先以本地內容顯示，恢復連線後再送出
+      const updatedPost = outcome.queued ? { ...postToEdit, ...postData } : outcome.result;
+      autosave.clear();
+      allowNavigation();
       
-      // 調用 onSave 回調以更新父組件狀態
-      onSave(updatedPost);
+      // 寫入文章快取
+      contentStore.savePost(updatedPost);
       
       // 導航回文章詳情頁
       navigateTo(Page.BlogPostDetail, updatedPost);
     } catch (error) {
       console.error('更新文章失敗:', error);
-      alert('更新文章失敗，請重試');
+      // 文章在開始編輯後被修改過時顯示後端的衝突訊息
+      alert(isApiError(error, 'conflict') ? error.message : '更新文章失敗，請重試');
     } finally {
       setIsSubmitting(false);
     }
@@ -334,6 +400,10 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
         animate="animate"
       >
         <form onSubmit={handleFormSubmit} className="space-y-6">
+          {autosave.recovered && (
+            <AutosaveRecoveryPanel autosave={autosave.recovered} saved={savedDraft} onRestore={handleRestoreAutosave} onDiscard={autosave.discard} />
+          )}
+
           {/* 圖片上傳 */}
           <motion.div variants={fadeInUpItemVariants}>
             <label htmlFor="postImage" className="block text-sm font-medium text-theme-secondary mb-2">{t('blogPage.imageLabel')}</label>
@@ -348,6 +418,7 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
                 )}
             </label>
             <input type="file" id="postImage" accept="image/*" onChange={handleFileChange} className="hidden" />
+            <UploadProgress status={media.status} progress={media.progress} onCancel={media.cancel} onRetry={handleRetryUpload} />
             {imageUploadError && <p className="text-red-500 text-sm mt-2">{imageUploadError}</p>}
           </motion.div>
 
@@ -371,6 +442,11 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
             </div>
           </motion.div>
 
+          {/* 標籤 */}
+          <motion.div variants={fadeInUpItemVariants}>
+            <PostTagInput value={tags} onChange={setTags} />
+          </motion.div>
+
           {/* 標題輸入 (中英) */}
           <motion.div variants={fadeInUpItemVariants} className="grid md:grid-cols-2 gap-6">
             <div>
@@ -428,8 +504,18 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
             <p className="text-xs text-theme-muted text-center mt-2">{t('blogPage.aiFeatureInfo')}</p>
           </motion.div>
 
+          {/* 發布設定 */}
+          <motion.div variants={fadeInUpItemVariants}>
+            <PostPublishSettings status={status} publishAt={publishAt} onStatusChange={setStatus} onPublishAtChange={setPublishAt} />
+          </motion.div>
+
           {/* 表單操作按鈕 */}
-          <motion.div variants={fadeInUpItemVariants} className="flex justify-end space-x-4 pt-4 border-t border-theme-primary">
+          <motion.div variants={fadeInUpItemVariants} className="flex justify-end items-center space-x-4 pt-4 border-t border-theme-primary">
+            {autosave.lastSavedAt && (
+              <span className="mr-auto text-xs text-theme-muted">
+                {t('autosave.savedAt', { time: new Date(autosave.lastSavedAt).toLocaleTimeString(i18n.language, { timeStyle: 'short' }) })}
+              </span>
+            )}
             <button type="submit" disabled={isSubmitting} className={`${ACCENT_BG_COLOR} ${ACCENT_BG_HOVER_COLOR} text-zinc-900 font-semibold py-2.5 px-6 rounded-md transition-all disabled:opacity-50`}>
               {t('blogPage.saveChangesButton')}
             </button>
@@ -437,6 +523,9 @@ const EditBlogPostPage: React.FC<EditBlogPostPageProps> = ({
           </motion.div>
         </form>
       </motion.div>
+
+      {/* 修訂紀錄 */}
+      <PostRevisionHistory post={postToEdit} onRestored={fillForm} />
     </div>
   );
 };
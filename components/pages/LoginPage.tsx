@@ -12,7 +12,9 @@ import SocialLoginButton from '../ui/SocialLoginButton';
 import EyeIcon from '../icons/EyeIcon';
 import EyeSlashIcon from '../icons/EyeSlashIcon';
 import { useAuth } from '../../src/contexts/AuthContext';
-import { ApiError } from '../../src/services/api';
+import { useFormErrors } from '../../src/hooks/useFormErrors';
+import FieldError from '../ui/FieldError';
+import { FormField, FormValues } from '../../src/services/formValidation';
 import { LoginRequest } from '../../src/types/auth';
 
 const motion: any = motionTyped;
@@ -24,10 +26,13 @@ interface LoginPageProps {
   onSocialLogin: (provider: SocialLoginProvider) => void;
 }
 
+// 依畫面順序排列，驗證失敗時聚焦第一個有錯的欄位
+const LOGIN_FIELDS = ['username', 'email', 'password'] as const;
+
 const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
   const { t } = useTranslation();
   const navigate = useNavigate();
-  const { login, register, clearError, isAuthenticated, error: authError } = useAuth() as any;
+  const { login, register, clearError, isAuthenticated, error: authError, fieldErrors: authFieldErrors } = useAuth();
   
   // 表單狀態
   const [isLoginMode] = useState(true);
@@ -41,23 +46,23 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
   // 註冊模式才需確認密碼；目前頁面以路由分離註冊頁，暫不使用
   const [isPasswordFocused, setIsPasswordFocused] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useFormErrors(LOGIN_FIELDS);
 
   // 進入頁時清空殘留錯誤；若已登入，直接回首頁
   useEffect(() => {
     clearError();
-    setError(null);
+    form.clearAll();
     if (isAuthenticated) {
       navigate('/');
     }
     return () => clearError();
   }, [clearError, isAuthenticated, navigate]);
 
-  // 將全域的認證錯誤同步到本地錯誤，確保畫面穩定顯示
+  // 將全域的認證錯誤對應到欄位；帳密錯誤這類無欄位的錯誤顯示在表單下方
   useEffect(() => {
-    if (authError) setError(authError);
-  }, [authError]);
+    if (authError) form.showErrors(authFieldErrors, authError);
+  }, [authError, authFieldErrors]);
 
   /**
    * 處理表單輸入變化
@@ -69,11 +74,9 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
       [name]: value
     }));
     
-    // 清除錯誤信息（僅清本頁錯誤）
-    if (error) {
-      clearError();
-      setError(null);
-    }
+    // 清除該欄位的錯誤；表單層級的錯誤（例如帳密錯誤）也一併清除
+    form.clearField(name as typeof LOGIN_FIELDS[number]);
+    if (authError) clearError();
   };
 
   /**
@@ -81,7 +84,11 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
    */
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    setError(null);
+    // 登入只檢查必填，格式交給後端判斷，避免擋下舊帳號
+    const values: FormValues = isLoginMode
+      ? { username: formData.username, password: formData.password }
+      : { username: formData.username, email: formData.email, password: formData.password, confirmPassword: formData.confirmPassword };
+    if (!form.validate(values, { required: Object.keys(values) as FormField[], checkFormat: !isLoginMode })) return;
     setIsSubmitting(true);
     
     try {
@@ -96,19 +103,12 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
           navigate('/');
           return;
         }
-        // 登入失敗，顯示錯誤（以 Context 錯誤為主）直到使用者修改輸入
-        setError(authError || '用戶名或密碼錯誤');
+        // 登入失敗：錯誤由 Context 帶入並顯示，直到使用者修改輸入
         setIsSubmitting(false);
         return;
         
       } else {
         // 註冊模式
-        if (formData.password !== formData.confirmPassword) {
-          setError('密碼確認不匹配');
-          setIsSubmitting(false);
-          return;
-        }
-        
         const registered = await register({
           username: formData.username,
           email: formData.email,
@@ -121,20 +121,14 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
           navigate('/');
           return;
         }
-        setError('註冊失敗');
         setIsSubmitting(false);
         return;
       }
     } catch (error) {
       console.error('Login/Register error:', error);
       
-      // 設置錯誤訊息
-      if (error instanceof ApiError) {
-        setError(error.message);
-      } else {
-        const errorMessage = error instanceof Error ? error.message : '操作失敗';
-        setError(errorMessage);
-      }
+      // 設置錯誤訊息，能對應到欄位的標示在輸入框上
+      form.showError(error, '操作失敗');
       
       // 錯誤維持顯示，直到使用者修改輸入
     } finally {
@@ -174,11 +168,13 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
               name="username"
               value={formData.username}
               onChange={handleInputChange}
+              {...form.fieldProps('username', 'username')}
               required
-              className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+              className={`w-full bg-theme-tertiary border ${form.borderClass('username')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
               placeholder={t('loginPage.usernamePlaceholder')}
               autoComplete="username"
             />
+            <FieldError id="username" message={form.errors.username} />
           </motion.div>
 
           {/* 郵箱輸入（僅註冊模式顯示） */}
@@ -193,11 +189,13 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
                 name="email"
                 value={formData.email}
                 onChange={handleInputChange}
+                {...form.fieldProps('email', 'email')}
                 required={!isLoginMode}
-                className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+                className={`w-full bg-theme-tertiary border ${form.borderClass('email')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
                 placeholder={t('loginPage.emailPlaceholder')}
                 autoComplete="email"
               />
+              <FieldError id="email" message={form.errors.email} />
             </motion.div>
           )}
 
@@ -212,10 +210,11 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
                 name="password"
                 value={formData.password}
                 onChange={handleInputChange}
+                {...form.fieldProps('password', 'password_id')}
                 onFocus={() => setIsPasswordFocused(true)}
                 onBlur={() => setIsPasswordFocused(false)}
                 required
-                className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+                className={`w-full bg-theme-tertiary border ${form.borderClass('password')} text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
                 placeholder={t('loginPage.passwordPlaceholder')}
                 autoComplete="current-password"
               />
@@ -240,6 +239,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
                 )}
               </AnimatePresence>
             </div>
+            <FieldError id="password_id" message={form.errors.password} />
           </motion.div>
 
            <motion.div variants={fadeInUpItemVariants}>
@@ -258,9 +258,9 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
                 </div>
             </motion.div>
 
-          {(error || authError) && (
+          {form.formError && (
             <motion.p variants={fadeInUpItemVariants} className="text-red-500 text-sm text-center" role="alert">
-              {error ?? authError}
+              {form.formError}
             </motion.p>
           )}
 
@@ -1,7 +1,7 @@
-import React, { useState, useMemo, ChangeEvent, useEffect } from 'react';
+import React, { useState, ChangeEvent, useEffect, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'framer-motion';
-import { PortfolioItemData, Page } from '../../types';
+import { Page, PortfolioItemData } from '../../types';
 import SectionTitle from '../ui/SectionTitle';
 import PlusIcon from '../icons/PlusIcon';
 import TrashIcon from '../icons/TrashIcon';
@@ -12,10 +12,18 @@ import PencilIcon from '../icons/PencilIcon';
 import EyeIcon from '../icons/EyeIcon';
 import PaginationControls from '../ui/PaginationControls';
 import ConfirmationModal from '../ui/ConfirmationModal';
+import PortfolioItemEditor from '../ui/PortfolioItemEditor';
+import AlbumManager from '../ui/AlbumManager';
+import FeaturedOrderManager from '../ui/FeaturedOrderManager';
 import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
 import { staggerContainerVariants, sectionDelayShow } from '../../animationVariants';
+import { portfolioSortOptions } from '../data/sortOptions';
+import { useListSearchParams } from '../../src/hooks/useListSearchParams';
+import { queryKeys, usePortfolioPage } from '../../src/hooks/useContentQueries';
+import { useDragReorder } from '../../src/hooks/useDragReorder';
+import { ListQuery, SortOrder } from '../../src/types/api';
+import { contentStore } from '../../src/stores/contentStore';
 
-type SortOrder = 'date-desc' | 'date-asc' | 'title-asc' | 'title-desc' | 'views-desc' | 'views-asc';
 type ViewMode = 'list' | 'grid';
 
 const portfolioCategoryOptions = [
@@ -26,57 +34,38 @@ const portfolioCategoryOptions = [
 ];
 
 interface PhotoManagementPageProps {
-  portfolioItems: PortfolioItemData[];
-  onDelete: (itemIds: string[]) => void;
   navigateTo: (page: Page, data?: any) => void;
 }
 
-const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ portfolioItems = [], onDelete, navigateTo }) => {
+const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ navigateTo }) => {
   const { t, i18n } = useTranslation();
   
+  const { page: currentPage, pageSize: itemsPerPage, sort: sortOrder, category: filterCategory, setPage: setCurrentPage, setPageSize: setItemsPerPage, setSort: setSortOrder, setCategory: setFilterCategory } = useListSearchParams();
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
-  const [sortOrder, setSortOrder] = useState<SortOrder>('date-desc');
-  const [filterCategory, setFilterCategory] = useState('all');
   const [viewMode, setViewMode] = useState<ViewMode>('list');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(10);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<PortfolioItemData | null>(null);
+  const handleCloseEditor = useCallback(() => setEditingItem(null), []);
 
   useEffect(() => {
     window.scrollTo(0, 0);
   }, [currentPage]);
   
-  const processedItems = useMemo(() => {
-    let items = [...portfolioItems];
-    
-    // Filtering
-    if (filterCategory !== 'all') {
-      items = items.filter(item => item.categoryKey === filterCategory);
-    }
-
-    // Sorting
-    items.sort((a, b) => {
-        const titleA = (i18n.language === 'zh-Hant' && a.titleZh) ? a.titleZh : (a.title || '');
-        const titleB = (i18n.language === 'zh-Hant' && b.titleZh) ? b.titleZh : (b.title || '');
-        switch (sortOrder) {
-            case 'date-asc': return new Date(a.date || 0).getTime() - new Date(b.date || 0).getTime();
-            case 'title-asc': return titleA.localeCompare(titleB);
-            case 'title-desc': return titleB.localeCompare(titleA);
-            case 'views-desc': return (b.views || 0) - (a.views || 0);
-            case 'views-asc': return (a.views || 0) - (b.views || 0);
-            case 'date-desc':
-            default: return new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime();
-        }
-    });
-
-    return items;
-  }, [portfolioItems, filterCategory, sortOrder, i18n.language]);
-
-  const paginatedItems = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return processedItems.slice(startIndex, startIndex + itemsPerPage);
-  }, [processedItems, currentPage, itemsPerPage]);
+  // 分類篩選、排序與分頁皆交由後端處理
+  const pageQuery = useMemo<ListQuery>(() => ({
+    page: currentPage,
+    pageSize: itemsPerPage,
+    sort: sortOrder,
+    categories: filterCategory === 'all' ? undefined : [filterCategory],
+    lang: i18n.language,
+  }), [currentPage, itemsPerPage, sortOrder, filterCategory, i18n.language]);
+  const { items: paginatedItems, total } = usePortfolioPage(pageQuery);
+
+  // 自訂排序時可在網格檢視中拖曳調整順序
+  const isReorderable = viewMode === 'grid' && sortOrder === 'custom';
+  const handleReorder = useCallback((ids: string[]) => contentStore.reorderPortfolioItems(ids, queryKeys.portfolioPage(pageQuery)), [pageQuery]);
+  const { items: gridItems, draggingId, itemProps } = useDragReorder(paginatedItems, handleReorder, isReorderable);
 
   const handleSelectAll = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.checked) {
@@ -97,10 +86,10 @@ const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ portfolioItem
   
   const handleConfirmDelete = () => {
     if (itemToDelete) {
-      onDelete([itemToDelete]);
+      contentStore.deletePortfolioItems([itemToDelete]);
       setItemToDelete(null);
     } else if (selectedIds.length > 0) {
-      onDelete(selectedIds);
+      contentStore.deletePortfolioItems(selectedIds);
       setSelectedIds([]);
     }
     setIsDeleteModalOpen(false);
@@ -155,12 +144,7 @@ const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ portfolioItem
                       onChange={(e) => setSortOrder(e.target.value as SortOrder)}
                       className={`bg-theme-tertiary border-transparent text-theme-primary rounded-md py-2 pl-3 pr-8 text-sm focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none cursor-pointer`}
                   >
-                      <option value="date-desc">{t('blogPage.sortDateDesc')}</option>
-                      <option value="date-asc">{t('blogPage.sortDateAsc')}</option>
-                      <option value="title-asc">{t('blogPage.sortTitleAsc')}</option>
-                      <option value="title-desc">{t('blogPage.sortTitleDesc')}</option>
-                      <option value="views-desc">{t('postManagementPage.sortByViewsDesc')}</option>
-                      <option value="views-asc">{t('postManagementPage.sortByViewsAsc')}</option>
+                      {portfolioSortOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                   </select>
                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary">
                       <ChevronDownIcon className="w-4 h-4" />
@@ -203,7 +187,7 @@ const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ portfolioItem
                                 <td className="px-6 py-4">{item.views || 0}</td>
                                 <td className="px-6 py-4">
                                 <div className="flex items-center space-x-3">
-                                    <button className="text-theme-secondary hover:text-custom-cyan disabled:opacity-50" disabled onClick={(e) => e.stopPropagation()}><PencilIcon className="w-4 h-4"/></button>
+                                    <button onClick={(e) => { e.stopPropagation(); setEditingItem(item); }} className="text-theme-secondary hover:text-custom-cyan" aria-label={t('photoManagementPage.editPhoto')}><PencilIcon className="w-4 h-4"/></button>
                                     <button onClick={(e) => { e.stopPropagation(); openDeleteModal(item.id); }} className="text-theme-secondary hover:text-red-500"><TrashIcon className="w-4 h-4"/></button>
                                 </div>
                                 </td>
@@ -213,11 +197,17 @@ const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ portfolioItem
                         </tbody>
                     </table>
                 ) : (
+                    <>
+                    <p className="text-sm text-theme-secondary mb-4">
+                        {isReorderable ? t('photoManagementPage.reorderHint') : (
+                            <button onClick={() => setSortOrder('custom')} className="hover:text-custom-cyan underline-offset-2 hover:underline">{t('photoManagementPage.switchToCustomOrder')}</button>
+                        )}
+                    </p>
                     <motion.div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6" variants={staggerContainerVariants(0.05)} initial="initial" animate="animate">
-                        {paginatedItems.map((item) => {
+                        {gridItems.map((item) => {
                             const displayTitle = (i18n.language === 'zh-Hant' && item.titleZh) ? item.titleZh : (item.title || '');
                             return (
-                                <motion.div key={item.id} className={`bg-theme-secondary rounded-lg shadow-lg border-2 group relative cursor-pointer ${selectedIds.includes(item.id) ? 'border-custom-cyan' : 'border-transparent'}`} onClick={() => handleSelectOne(item.id)}>
+                                <div key={item.id} {...itemProps(item.id)} className={`bg-theme-secondary rounded-lg shadow-lg border-2 group relative ${isReorderable ? 'cursor-move' : 'cursor-pointer'} ${draggingId === item.id ? 'opacity-50' : ''} ${selectedIds.includes(item.id) ? 'border-custom-cyan' : 'border-transparent'}`} onClick={() => handleSelectOne(item.id)}>
                                     <div className="absolute top-2 right-2 z-10">
                                         <input type="checkbox" className="form-checkbox h-5 w-5 rounded text-custom-cyan bg-theme-tertiary border-theme-primary focus:ring-custom-cyan pointer-events-none" checked={selectedIds.includes(item.id)} readOnly/>
                                     </div>
@@ -231,14 +221,15 @@ const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ portfolioItem
                                             <span className="flex items-center"><EyeIcon className="w-3 h-3 mr-1"/> {item.views || 0}</span>
                                         </div>
                                         <div className="flex items-center space-x-3 mt-4 pt-2 border-t border-theme-primary">
-                                            <button className="text-theme-secondary hover:text-custom-cyan disabled:opacity-50" disabled onClick={(e) => e.stopPropagation()}><PencilIcon className="w-4 h-4"/></button>
+                                            <button onClick={(e) => { e.stopPropagation(); setEditingItem(item); }} className="text-theme-secondary hover:text-custom-cyan" aria-label={t('photoManagementPage.editPhoto')}><PencilIcon className="w-4 h-4"/></button>
                                             <button onClick={(e) => { e.stopPropagation(); openDeleteModal(item.id); }} className="text-theme-secondary hover:text-red-500"><TrashIcon className="w-4 h-4"/></button>
                                         </div>
                                     </div>
-                                </motion.div>
+                                </div>
                             );
                         })}
                     </motion.div>
+                    </>
                 )
             ) : (
                 <div className="text-center py-16 text-theme-secondary">{t('photoManagementPage.noItemsFound')}</div>
@@ -246,9 +237,12 @@ const PhotoManagementPage: React.FC<PhotoManagementPageProps> = ({ portfolioItem
         </div>
 
         <div className="mt-6">
-          <PaginationControls currentPage={currentPage} totalItems={processedItems.length} itemsPerPage={itemsPerPage} onPageChange={setCurrentPage} onItemsPerPageChange={setItemsPerPage} />
+          <PaginationControls currentPage={currentPage} totalItems={total} itemsPerPage={itemsPerPage} onPageChange={setCurrentPage} onItemsPerPageChange={setItemsPerPage} />
         </div>
       </motion.div>
+      <FeaturedOrderManager />
+      <AlbumManager />
+      <PortfolioItemEditor item={editingItem} onClose={handleCloseEditor} />
       <ConfirmationModal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} onConfirm={handleConfirmDelete} title={t('photoManagementPage.deleteConfirmationTitle')} message={t('photoManagementPage.deleteConfirmationMessage', { count: itemToDelete ? 1 : selectedIds.length })} />
     </div>
   );
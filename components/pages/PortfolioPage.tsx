@@ -3,7 +3,7 @@ import React, { useState, useMemo, useCallback, ChangeEvent, FormEvent, useEffec
 import { useTranslation } from 'react-i18next';
 import PortfolioCard from '../ui/PortfolioCard';
 import Lightbox from '../ui/Lightbox';
-import { PortfolioItemData } from '../../types'; 
+import { PhotoExif, PortfolioItemData } from '../../types'; 
 import { motion as motionTyped, AnimatePresence } from 'framer-motion';
 import { sectionDelayShow, staggerContainerVariants, fadeInUpItemVariants } from '../../animationVariants'; 
 import Masonry from 'react-masonry-css';
@@ -14,33 +14,37 @@ import PlusIcon from '../icons/PlusIcon';
 import TrashIcon from '../icons/TrashIcon';
 import SparklesIcon from '../icons/SparklesIcon';
 import { GoogleGenAI } from '@google/genai';
-import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
+import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS, FEATURED_CAROUSEL_SIZE } from '../../constants';
 import ChevronDownIcon from '../icons/ChevronDownIcon';
 import CameraIcon from '../icons/CameraIcon';
 import { ApiService } from '../../src/services/api';
+import { useListSearchParams } from '../../src/hooks/useListSearchParams';
+import { useAlbums, usePortfolioFacets, usePortfolioItem, usePortfolioPage, usePortfolioPages } from '../../src/hooks/useContentQueries';
+import { usePhotoRoute } from '../../src/hooks/usePhotoRoute';
+import { SortOrder } from '../../src/types/api';
+import { portfolioSortOptions } from '../data/sortOptions';
+import { portfolioCategoryOptions } from '../data/portfolioCategories';
+import { useSessionStore } from '../../src/hooks/useStores';
+import { useMediaUpload } from '../../src/hooks/useMediaUpload';
+import UploadProgress from '../ui/UploadProgress';
+import ImagePreprocessSettings from '../ui/ImagePreprocessSettings';
+import PhotoExifInfo from '../ui/PhotoExifInfo';
+import PortfolioItemEditor from '../ui/PortfolioItemEditor';
+import AlbumCard from '../ui/AlbumCard';
+import { readPhotoExif } from '../../src/services/exif';
+import { contentStore } from '../../src/stores/contentStore';
 
 // 將 motionTyped 轉型為 any 以解決 Framer Motion 在某些情況下的類型推斷問題
 const motion: any = motionTyped;
 
-// 新增作品時的分類選項
-const addProjectCategoryOptions = [
-  { value: 'portfolioPage.filterStreet', labelKey: 'portfolioPage.filterStreet' },
-  { value: 'portfolioPage.filterPortrait', labelKey: 'portfolioPage.filterPortrait' },
-  { value: 'portfolioPage.filterSport', labelKey: 'portfolioPage.filterSport' },
-];
-
-// 定義每頁顯示的項目數量、無限滾動加載的數量和排序鍵類型
+// 無限滾動每次載入一頁的項目數量
 const ITEMS_PER_PAGE = 12;
-const ITEMS_TO_LOAD = 6;
-type SortKey = 'date-desc' | 'date-asc' | 'views-desc' | 'views-asc' | 'title-asc' | 'title-desc' | 'category-asc' | 'category-desc';
+
+// 篩選選項載入前使用的穩定空陣列
+const EMPTY_OPTIONS: string[] = [];
 
 // 作品集頁面的屬性介面
 interface PortfolioPageProps {
-  userAddedPortfolioItems: PortfolioItemData[];
-  onAddPortfolioItem: (item: PortfolioItemData) => void;
-  onDeletePortfolioItems: (itemIds: string[]) => void;
-  isAuthenticated: boolean;
-  isSuperUser: boolean;
   navigateToLogin: () => void;
 }
 
@@ -52,28 +56,25 @@ const filterCategories = ['portfolioPage.filterAll', 'portfolioPage.filterStreet
  * 顯示作品集項目，支持篩選、排序、無限滾動、燈箱預覽以及管理員的 CRUD 操作。
  */
 export const PortfolioPage: React.FC<PortfolioPageProps> = ({
-  userAddedPortfolioItems,
-  onAddPortfolioItem,
-  onDeletePortfolioItems,
-  isAuthenticated,
-  isSuperUser,
   navigateToLogin,
 }) => {
   const { t, i18n } = useTranslation();
+  const isSuperUser = useSessionStore(s => s.isSuperUser);
   const loaderRef = useRef<HTMLDivElement>(null);
 
-  // 狀態管理
-  const [activeFilter, setActiveFilter] = useState<string>('portfolioPage.filterAll');
-  const [selectedItem, setSelectedItem] = useState<PortfolioItemData | null>(null);
+  // 狀態管理；分類、排序與機身 / 鏡頭篩選保存在網址 ?category=&sort=&camera=&lens=
+  const { category, sort: sortKey, camera, lens, setCategory, setSort: setSortKey, setCamera, setLens } = useListSearchParams();
+  const activeFilter = category === 'all' ? 'portfolioPage.filterAll' : category;
+  // 燈箱開啟的照片保存在網址 /portfolio/photo/:photoId，可直接分享，按上一頁即關閉
+  const { photoId, openPhoto, showPhoto, closePhoto } = usePhotoRoute();
   const [lightboxItemsSource, setLightboxItemsSource] = useState<PortfolioItemData[] | null>(null);
-  const [displayCount, setDisplayCount] = useState(ITEMS_PER_PAGE);
-  const [isLoading, setIsLoading] = useState(true);
+  const [editingItem, setEditingItem] = useState<PortfolioItemData | null>(null);
+  const [pageCount, setPageCount] = useState(1);
 
   // 管理員功能相關狀態
   const [isAdding, setIsAdding] = useState(false);
   const [isDeleteModeActive, setIsDeleteModeActive] = useState(false);
   const [selectedIdsForDeletion, setSelectedIdsForDeletion] = useState<string[]>([]);
-  const [sortKey, setSortKey] = useState<SortKey>('date-desc');
   
   // 表單相關狀態
   const [newPhotoTitle, setNewPhotoTitle] = useState('');
@@ -82,67 +83,51 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
+  const [photoExif, setPhotoExif] = useState<PhotoExif | null>(null);
+  const media = useMediaUpload({ preprocess: true });
   const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
 
-  // 所有作品項目，按日期排序
-  const allPortfolioItems = useMemo(() => {
-    return [...userAddedPortfolioItems].sort((a,b) => (b.date ? new Date(b.date).getTime() : 0) - (a.date ? new Date(a.date).getTime() : 0)); 
-  }, [userAddedPortfolioItems]);
-
-  // 用於輪播的項目，優先顯示精選項目
+  // 用於輪播的項目，優先依管理者排列的順序顯示精選項目，不足時以最新作品補齊
+  const { items: featuredItems } = usePortfolioPage({ page: 1, pageSize: FEATURED_CAROUSEL_SIZE, sort: 'featured-custom', featured: true });
+  const { items: latestItems } = usePortfolioPage({ page: 1, pageSize: FEATURED_CAROUSEL_SIZE, sort: 'date-desc' });
   const carouselItems = useMemo(() => {
-    // 1. 分離精選和非精選項目
-    const featuredItems = allPortfolioItems
-      .filter(item => item.isFeatured)
-      .sort((a, b) => (b.date ? new Date(b.date).getTime() : 0) - (a.date ? new Date(a.date).getTime() : 0));
-
-    const nonFeaturedItems = allPortfolioItems
-      .filter(item => !item.isFeatured)
-      .sort((a, b) => (b.date ? new Date(b.date).getTime() : 0) - (a.date ? new Date(a.date).getTime() : 0));
-    
-    // 2. 組合列表並取前 8 個
-    const combined = [...featuredItems, ...nonFeaturedItems];
-    return combined.slice(0, 8);
-  }, [allPortfolioItems]);
+    const featuredIds = new Set(featuredItems.map(item => item.id));
+    return [...featuredItems, ...latestItems.filter(item => !featuredIds.has(item.id))].slice(0, FEATURED_CAROUSEL_SIZE);
+  }, [featuredItems, latestItems]);
 
+  // 篩選與排序由後端處理；無限滾動時逐頁請求下一頁再接在後面
+  const {
+    items: filteredItems,
+    total,
+    isLoading,
+    isFetchingMore,
+    error: pageError,
+  } = usePortfolioPages({
+    pageSize: ITEMS_PER_PAGE,
+    sort: sortKey,
+    categories: category === 'all' ? undefined : [category],
+    camera: camera || undefined,
+    lens: lens || undefined,
+    lang: i18n.language,
+  }, pageCount);
 
-  // 根據當前排序鍵排序所有項目
-  const sortedItems = useMemo(() => {
-    return [...allPortfolioItems].sort((a, b) => {
-      const titleA = (i18n.language === 'zh-Hant' && a.titleZh) ? a.titleZh : (a.title || a.id);
-      const titleB = (i18n.language === 'zh-Hant' && b.titleZh) ? b.titleZh : (b.title || b.id);
-      const categoryA = t(a.categoryKey || '');
-      const categoryB = t(b.categoryKey || '');
-      switch (sortKey) {
-        case 'date-asc': return (a.date ? new Date(a.date).getTime() : 0) - (b.date ? new Date(b.date).getTime() : 0);
-        case 'title-asc': return titleA.localeCompare(titleB);
-        case 'title-desc': return titleB.localeCompare(titleA);
-        case 'category-asc': return categoryA.localeCompare(categoryB);
-        case 'category-desc': return categoryB.localeCompare(categoryA);
-        case 'views-desc': return (b.views || 0) - (a.views || 0);
-        case 'views-asc': return (a.views || 0) - (b.views || 0);
-        case 'date-desc': default: return (b.date ? new Date(b.date).getTime() : 0) - (a.date ? new Date(a.date).getTime() : 0);
-      }
-    });
-  }, [allPortfolioItems, sortKey, i18n.language, t]);
-
-  // 根據當前篩選器過濾項目
-  const filteredItems = useMemo(() => {
-    if (activeFilter === 'portfolioPage.filterAll') return sortedItems;
-    return sortedItems.filter(item => item.categoryKey === activeFilter);
-  }, [activeFilter, sortedItems]);
+  // 機身與鏡頭篩選的選項由後端彙整所有作品的拍攝資訊
+  const { data: facets } = usePortfolioFacets();
+  const cameraOptions = facets?.cameras ?? EMPTY_OPTIONS;
+  const lensOptions = facets?.lenses ?? EMPTY_OPTIONS;
 
-  // 獲取當前要顯示的項目（用於無限滾動）
-  const itemsToDisplay = useMemo(() => filteredItems.slice(0, displayCount), [filteredItems, displayCount]);
+  const { albums } = useAlbums();
+  // 切換分類或排序時顯示骨架（第一頁尚未載入）；載入更多時保留現有項目
+  const itemsToDisplay = filteredItems;
   
   // 重置表單
-  const resetForm = useCallback(() => { setNewPhotoTitle(''); setNewPhotoTitleZh(''); setNewPhotoCategory(''); setSelectedFile(null); setPreviewUrl(null); setImageUploadError(null); }, []);
+  const resetForm = useCallback(() => { setNewPhotoTitle(''); setNewPhotoTitleZh(''); setNewPhotoCategory(''); setSelectedFile(null); setPreviewUrl(null); setImageUploadError(null); setPhotoExif(null); media.reset(); }, [media.reset]);
 
   // 處理管理員操作
   const handleShowAddForm = () => { if (!isSuperUser) { navigateToLogin(); return; } setIsAdding(true); setIsDeleteModeActive(false); setSelectedIdsForDeletion([]); };
   const handleCancelForm = () => { setIsAdding(false); resetForm(); };
   const handleToggleDeleteMode = () => { if (!isSuperUser) { navigateToLogin(); return; } setIsDeleteModeActive(prev => !prev); setSelectedIdsForDeletion([]); setIsAdding(false); };
-  const handleDeleteConfirmed = () => { onDeletePortfolioItems(selectedIdsForDeletion); setSelectedIdsForDeletion([]); setIsDeleteModeActive(false); };
+  const handleDeleteConfirmed = () => { contentStore.deletePortfolioItems(selectedIdsForDeletion); setSelectedIdsForDeletion([]); setIsDeleteModeActive(false); };
   const handleToggleSelectionForDeletion = (id: string) => { setSelectedIdsForDeletion(prev => prev.includes(id) ? prev.filter(pId => pId !== id) : [...prev, id]); };
   
   // 全選/取消全選
@@ -153,20 +138,17 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
   // 計算可刪除項目的數量
   const deletableItemsCount = useMemo(() => filteredItems.filter(item => !item.isStatic).length, [filteredItems]);
 
-  // 處理加載動畫
-  useEffect(() => { setIsLoading(true); const timer = setTimeout(() => setIsLoading(false), 600); return () => clearTimeout(timer); }, [activeFilter]);
-  useEffect(() => { setDisplayCount(ITEMS_PER_PAGE); }, [activeFilter]);
+  // 切換分類、排序或器材篩選時回到第一頁
+  useEffect(() => { setPageCount(1); }, [category, sortKey, camera, lens]);
 
   // 無限滾動的 Intersection Observer
   useEffect(() => {
     const observer = new IntersectionObserver(
       (entries) => {
         // 當觀察的元素進入視口時
-        if (entries[0].isIntersecting && !isLoading && displayCount < filteredItems.length) {
-          // 模擬延遲加載以顯示加載指示器
-          setTimeout(() => {
-            setDisplayCount(prev => Math.min(prev + ITEMS_TO_LOAD, filteredItems.length));
-          }, 300);
+        // 有頁面載入失敗時停止，等重新驗證後再繼續
+        if (entries[0].isIntersecting && !isLoading && !isFetchingMore && !pageError && filteredItems.length < total) {
+          setPageCount(prev => prev + 1);
         }
       },
       { rootMargin: "200px" } // 在元素進入視口前 200px 就開始加載
@@ -183,59 +165,58 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
         observer.unobserve(currentLoader);
       }
     };
-  }, [displayCount, filteredItems.length, isLoading]);
+  }, [filteredItems.length, total, isLoading, isFetchingMore, pageError]);
   
   // 燈箱相關操作
-  const openLightbox = useCallback((itemToOpen: PortfolioItemData, sourceItems: PortfolioItemData[]) => { if (isDeleteModeActive) return; setSelectedItem(itemToOpen); setLightboxItemsSource(sourceItems); }, [isDeleteModeActive]);
-  const closeLightbox = useCallback(() => { setSelectedItem(null); setLightboxItemsSource(null); }, []);
+  const openLightbox = useCallback((itemToOpen: PortfolioItemData, sourceItems: PortfolioItemData[]) => { if (isDeleteModeActive) return; setLightboxItemsSource(sourceItems); openPhoto(itemToOpen.id); }, [isDeleteModeActive, openPhoto]);
+
+  // 由分享連結進入時照片可能不在已載入的列表中，改為單獨取得；找不到時回到列表
+  const listedItem = useMemo(() => {
+    if (!photoId) return undefined;
+    return [lightboxItemsSource ?? [], filteredItems]
+      .map(items => items.find(item => item.id === photoId))
+      .find(item => !!item);
+  }, [photoId, lightboxItemsSource, filteredItems]);
+  const { data: fetchedItem, error: photoError } = usePortfolioItem(photoId, { enabled: !listedItem });
+  const selectedItem = listedItem ?? (fetchedItem?.id === photoId ? fetchedItem : undefined);
+  const lightboxItems = useMemo(() => {
+    if (!selectedItem) return [];
+    if (lightboxItemsSource) return lightboxItemsSource;
+    return filteredItems.some(item => item.id === selectedItem.id) ? filteredItems : [selectedItem];
+  }, [selectedItem, lightboxItemsSource, filteredItems]);
+  useEffect(() => { if (!photoId) setLightboxItemsSource(null); }, [photoId]);
+  useEffect(() => { if (photoError && !listedItem) closePhoto(); }, [photoError, listedItem, closePhoto]);
+  const handleSelectItem = useCallback((item: PortfolioItemData) => showPhoto(item.id), [showPhoto]);
+
+  // 燈箱中編輯後，以更新後的內容取代目前顯示的項目
+  const handleCloseEditor = useCallback(() => setEditingItem(null), []);
+  const handleItemSaved = useCallback((updated: PortfolioItemData) => {
+    setLightboxItemsSource(prev => prev?.map(item => (item.id === updated.id ? updated : item)) ?? prev);
+  }, []);
 
   // 處理篩選器變更
-  const handleFilterChange = (newCategoryValue: string) => { setActiveFilter(newCategoryValue); setSelectedItem(null); };
+  const handleFilterChange = (newCategoryValue: string) => { setCategory(newCategoryValue === 'portfolioPage.filterAll' ? 'all' : newCategoryValue); };
   
-  // 處理文件上傳
+  // 處理文件選擇：先讀取 EXIF（前處理會去除），再上傳到媒體服務，完成後以回傳的網址預覽
   const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type.startsWith("image/")) {
-        setSelectedFile(file);
-        setImageUploadError(null);
-        
-        try {
-          // 直接上傳到 Cloudinary
-          const uploadPreset = process.env.CLOUDINARY_UPLOAD_PRESET;
-          const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
-          
-          if (!uploadPreset || !cloudName) {
-            throw new Error('缺少 Cloudinary 設定');
-          }
-          
-          const formData = new FormData();
-          formData.append('file', file);
-          formData.append('upload_preset', uploadPreset);
-          
-          const response = await fetch(`https://api.cloudinary.com/v1_1/${cloudName}/image/upload`, {
-            method: 'POST',
-            body: formData
-          });
-          
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(`Cloudinary 上傳失敗: ${errorData.error?.message || '未知錯誤'}`);
-          }
-          
-          const result = await response.json();
-          // 使用 Cloudinary URL 而不是 base64
-          setPreviewUrl(result.secure_url);
-        } catch (error) {
-          console.error('Image upload failed:', error);
-          setImageUploadError(t('portfolioPage.imageUploadError'));
-          setSelectedFile(null);
-          setPreviewUrl(null);
-        }
-    } else {
-        setImageUploadError(t('portfolioPage.imageUploadError'));
-        setSelectedFile(null);
-        setPreviewUrl(null);
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setSelectedFile(null);
+      setImageUploadError(t('portfolioPage.imageUploadError'));
+      return;
     }
+    setSelectedFile(file);
+    setImageUploadError(null);
+    setPhotoExif(await readPhotoExif(file));
+    const url = await media.upload(file);
+    if (url) setPreviewUrl(url);
+  };
+
+  const handleRetryUpload = async () => {
+    const url = await media.retry();
+    if (url) setPreviewUrl(url);
   };
 
   // 使用 AI 生成標題
@@ -267,7 +248,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
       });
       
       const base64Data = await base64Promise;
-      const imagePart = { inlineData: { mimeType: selectedFile?.type || 'image/jpeg', data: base64Data } };
+      const imagePart = { inlineData: { mimeType: blob.type || selectedFile?.type || 'image/jpeg', data: base64Data } };
       const prompt = `You are a professional photographer providing a title for a portfolio image. Analyze this image. Provide a concise, artistic, and evocative title. Respond with a single JSON object containing two keys: "titleEn" for the English title and "titleZh" for the Traditional Chinese title. Example: { "titleEn": "Urban Solitude", "titleZh": "城市孤影" }`;
       
       const aiResponse = await ai.models.generateContent({ 
@@ -312,17 +293,19 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
       // 使用後端 API 創建作品項目
       const newItemData = {
         imageUrl: previewUrl,
+        imagePlaceholder: media.placeholder ?? undefined,
         title: newPhotoTitle,
         titleZh: newPhotoTitleZh,
         categoryKey: newPhotoCategory,
-        isFeatured: false
+        isFeatured: false,
+        exif: photoExif ?? undefined,
       };
       
       // 調用後端 API
       const newItem = await ApiService.createPortfolioItem(newItemData);
       
-      // 調用父組件的回調以更新狀態
-      onAddPortfolioItem(newItem);
+      // 寫入作品快取
+      contentStore.addPortfolioItem(newItem);
       handleCancelForm();
     } catch (error) {
       console.error('創建作品項目失敗:', error);
@@ -363,6 +346,12 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
                             {previewUrl ? ( <img src={previewUrl} alt="Preview" className="max-h-full max-w-full object-contain rounded-md" /> ) : ( <div className="text-center text-theme-secondary p-4"> <CameraIcon className="w-12 h-12 mx-auto mb-2" /> <p className="text-sm">{t('blogPage.imagePreviewPlaceholder')}</p> </div> )}
                         </label>
                         <input type="file" id="photoUpload" accept="image/*" onChange={handleFileChange} className="hidden" />
+                        <div className="w-full">
+                            <UploadProgress status={media.status} progress={media.progress} onCancel={media.cancel} onRetry={handleRetryUpload} originalSize={media.originalSize} processedSize={media.processedSize} />
+                            <ImagePreprocessSettings value={media.preprocessOptions} onChange={media.setPreprocessOptions} disabled={media.isUploading} />
+                            {imageUploadError && <p className="text-red-500 text-sm mt-2">{imageUploadError}</p>}
+                            {photoExif && <PhotoExifInfo exif={photoExif} className="mt-3" />}
+                        </div>
                     </div>
                     {/* 右側：詳細資訊與 AI 功能 */}
                     <div className="space-y-6">
@@ -379,7 +368,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
                             <div className="relative">
                                 <select id="photoCategory" value={newPhotoCategory} onChange={e => setNewPhotoCategory(e.target.value)} required className={`w-full bg-theme-tertiary border border-theme-secondary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none ${!newPhotoCategory ? 'text-theme-secondary' : 'text-theme-primary'}`}>
                                     <option value="" disabled>{t('blogPage.categorySelectPlaceholder')}</option>
-                                    {addProjectCategoryOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
+                                    {portfolioCategoryOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                                 </select>
                                 <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-theme-primary"> <ChevronDownIcon className="w-5 h-5" /> </div>
                             </div>
@@ -399,6 +388,16 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
         )}
       </AnimatePresence>
 
+      {/* 相簿 */}
+      {albums.length > 0 && (
+        <motion.section className="my-12" {...sectionDelayShow(0.15)} aria-labelledby="portfolio-albums-title">
+          <h3 id="portfolio-albums-title" className="text-2xl font-semibold text-theme-primary mb-6">{t('albums.sectionTitle')}</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {albums.map(album => <AlbumCard key={album.id} album={album} />)}
+          </div>
+        </motion.section>
+      )}
+
       {/* 篩選與排序控制欄 */}
       <div className="my-8">
         {/* 桌面版 */}
@@ -411,8 +410,8 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
             </motion.div>
             <div className="absolute right-0 top-1/2 -translate-y-1/2">
                 <div className="relative">
-                    <select value={sortKey} onChange={e => setSortKey(e.target.value as SortKey)} className={`bg-theme-tertiary border border-theme-primary text-theme-primary text-sm font-medium rounded-md p-2 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none pr-8 cursor-pointer`} aria-label={t('blogPage.sortByLabel')}>
-                        <option value="date-desc">{t('blogPage.sortDateDesc')}</option><option value="date-asc">{t('blogPage.sortDateAsc')}</option><option value="title-asc">{t('blogPage.sortTitleAsc')}</option><option value="title-desc">{t('blogPage.sortTitleDesc')}</option><option value="category-asc">{t('postManagementPage.sortCategoryAsc')}</option><option value="category-desc">{t('postManagementPage.sortCategoryDesc')}</option><option value="views-desc">{t('postManagementPage.sortByViewsDesc')}</option><option value="views-asc">{t('postManagementPage.sortByViewsAsc')}</option>
+                    <select value={sortKey} onChange={e => setSortKey(e.target.value as SortOrder)} className={`bg-theme-tertiary border border-theme-primary text-theme-primary text-sm font-medium rounded-md p-2 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none pr-8 cursor-pointer`} aria-label={t('blogPage.sortByLabel')}>
+                        {portfolioSortOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                     </select>
                     <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary"> <ChevronDownIcon className="w-5 h-5" /> </div>
                 </div>
@@ -431,14 +430,31 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
                 </div>
                 <div>
                     <div className="relative">
-                        <select value={sortKey} onChange={e => setSortKey(e.target.value as SortKey)} className={`bg-theme-tertiary border border-theme-primary text-theme-primary text-sm font-medium rounded-md p-2 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none pr-8 cursor-pointer`} aria-label={t('blogPage.sortByLabel')}>
-                             <option value="date-desc">{t('blogPage.sortDateDesc')}</option><option value="date-asc">{t('blogPage.sortDateAsc')}</option><option value="title-asc">{t('blogPage.sortTitleAsc')}</option><option value="title-desc">{t('blogPage.sortTitleDesc')}</option><option value="category-asc">{t('postManagementPage.sortCategoryAsc')}</option><option value="category-desc">{t('postManagementPage.sortCategoryDesc')}</option><option value="views-desc">{t('postManagementPage.sortByViewsDesc')}</option><option value="views-asc">{t('postManagementPage.sortByViewsAsc')}</option>
+                        <select value={sortKey} onChange={e => setSortKey(e.target.value as SortOrder)} className={`bg-theme-tertiary border border-theme-primary text-theme-primary text-sm font-medium rounded-md p-2 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none pr-8 cursor-pointer`} aria-label={t('blogPage.sortByLabel')}>
+                             {portfolioSortOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                         </select>
                         <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary"> <ChevronDownIcon className="w-5 h-5" /> </div>
                     </div>
                 </div>
             </div>
         </div>
+        {/* 機身與鏡頭篩選，有拍攝資訊的作品時才顯示 */}
+        {(cameraOptions.length > 0 || lensOptions.length > 0) && (
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+            {[
+              { id: 'cameraFilter', value: camera, options: cameraOptions, onChange: setCamera, allKey: 'portfolioPage.filterAllCameras' },
+              { id: 'lensFilter', value: lens, options: lensOptions, onChange: setLens, allKey: 'portfolioPage.filterAllLenses' },
+            ].filter(filter => filter.options.length > 0).map(filter => (
+              <div key={filter.id} className="relative">
+                <select id={filter.id} value={filter.value} onChange={e => filter.onChange(e.target.value)} className={`bg-theme-tertiary border border-theme-primary text-theme-primary text-sm font-medium rounded-md p-2 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none pr-8 cursor-pointer`} aria-label={t(filter.allKey)}>
+                  <option value="">{t(filter.allKey)}</option>
+                  {filter.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary"> <ChevronDownIcon className="w-5 h-5" /> </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
       
       {/* 內容網格 */}
@@ -448,17 +464,18 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({
             <Masonry breakpointCols={breakpointColumnsObj} className="masonry-grid" columnClassName="masonry-grid_column">
               {itemsToDisplay.map((item) => ( <motion.div key={item.id} layout variants={fadeInUpItemVariants} initial="initial" animate="animate" exit="initial" transition={{ duration: 0.5, delay: 0.05 }} className="w-full"> <PortfolioCard {...item} onClick={() => openLightbox(item, filteredItems)} isDeleteModeActive={isDeleteModeActive} isSelectedForDeletion={selectedIdsForDeletion.includes(item.id)} onToggleSelectionForDeletion={handleToggleSelectionForDeletion} isCardDisabled={isDeleteModeActive && !!item.isStatic} /> </motion.div> ))}
             </Masonry>
-            {itemsToDisplay.length === 0 && ( <motion.div className="col-span-full text-center text-theme-secondary py-10" initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}> <p className="flex items-center justify-center space-x-2"> <span>{t(allPortfolioItems.length > 0 ? 'portfolioPage.noItemsFound' : 'portfolioPage.noItemsOnView')}</span> </p> </motion.div> )}
+            {itemsToDisplay.length === 0 && ( <motion.div className="col-span-full text-center text-theme-secondary py-10" initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}> <p className="flex items-center justify-center space-x-2"> <span>{t(latestItems.length > 0 ? 'portfolioPage.noItemsFound' : 'portfolioPage.noItemsOnView')}</span> </p> </motion.div> )}
           </motion.div>
            {/* Loader for infinite scroll */}
           <div ref={loaderRef} className="h-10 text-center text-theme-secondary">
-             {displayCount < filteredItems.length && !isLoading && t('loading')}
+             {filteredItems.length < total && !isLoading && t('loading')}
           </div>
         </>
       )}
 
       {/* 燈箱 */}
-      {selectedItem && lightboxItemsSource && ( <Lightbox currentItem={selectedItem} filteredItems={lightboxItemsSource} onClose={closeLightbox} onSelectItem={setSelectedItem} /> )}
+      {selectedItem && ( <Lightbox currentItem={selectedItem} filteredItems={lightboxItems} onClose={closePhoto} onSelectItem={handleSelectItem} onEdit={isSuperUser ? setEditingItem : undefined} /> )}
+      <PortfolioItemEditor item={editingItem} onClose={handleCloseEditor} onSaved={handleItemSaved} />
     </div>
   );
 };
\ No newline at end of file
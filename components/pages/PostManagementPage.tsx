@@ -1,7 +1,7 @@
-import React, { useState, useMemo, ChangeEvent, useEffect } from 'react';
+import React, { useState, ChangeEvent, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
-import { BlogPostData, Page } from '../../types';
+import { Page, PostStatus } from '../../types';
 import SectionTitle from '../ui/SectionTitle';
 import PlusIcon from '../icons/PlusIcon';
 import TrashIcon from '../icons/TrashIcon';
@@ -10,13 +10,18 @@ import Squares2X2Icon from '../icons/Squares2X2Icon';
 import ChevronDownIcon from '../icons/ChevronDownIcon';
 import PencilIcon from '../icons/PencilIcon';
 import { blogCategoryDefinitions } from '../data/blogData';
+import { sortOptions } from '../data/sortOptions';
 import PaginationControls from '../ui/PaginationControls';
 import ConfirmationModal from '../ui/ConfirmationModal';
+import PostStatusBadge from '../ui/PostStatusBadge';
 import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
 import { staggerContainerVariants, sectionDelayShow, fadeInUpItemVariants } from '../../animationVariants';
+import { useListSearchParams } from '../../src/hooks/useListSearchParams';
+import { useCommentCounts, usePostsPage } from '../../src/hooks/useContentQueries';
+import { SortOrder } from '../../src/types/api';
+import { contentStore } from '../../src/stores/contentStore';
 
 
-type SortOrder = 'date-desc' | 'date-asc' | 'title-asc' | 'title-desc' | 'views-desc' | 'views-asc';
 type ViewMode = 'list' | 'grid';
 
 const postCategoryOptions = [
@@ -24,62 +29,38 @@ const postCategoryOptions = [
     ...blogCategoryDefinitions.map(def => ({ value: def.titleKey, labelKey: def.titleKey }))
 ];
 
+const POST_STATUSES: PostStatus[] = ['draft', 'scheduled', 'published'];
+
 
 interface PostManagementPageProps {
-  posts: BlogPostData[];
-  onDelete: (postIds: string[]) => void;
   navigateTo: (page: Page, data?: any) => void;
 }
 
-const PostManagementPage: React.FC<PostManagementPageProps> = ({ posts = [], onDelete, navigateTo }) => {
+const PostManagementPage: React.FC<PostManagementPageProps> = ({ navigateTo }) => {
   const { t, i18n } = useTranslation();
 
+  const { page: currentPage, pageSize: itemsPerPage, sort: sortOrder, category: filterCategory, status: rawStatus, setPage: setCurrentPage, setPageSize: setItemsPerPage, setSort: setSortOrder, setCategory: setFilterCategory, setStatus: setFilterStatus } = useListSearchParams();
+  const filterStatus = POST_STATUSES.find(status => status === rawStatus);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
-  const [sortOrder, setSortOrder] = useState<SortOrder>('date-desc');
-  const [filterCategory, setFilterCategory] = useState('all');
   const [viewMode, setViewMode] = useState<ViewMode>('list');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(10);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
 
   useEffect(() => {
     window.scrollTo(0, 0);
   }, [currentPage]);
-  
-  const processedPosts = useMemo(() => {
-    let items = [...posts];
-
-    // Filtering
-    if (filterCategory !== 'all') {
-        const activeCategoryDef = blogCategoryDefinitions.find(def => def.titleKey === filterCategory);
-        if (activeCategoryDef) {
-            items = items.filter(post => post.categoryKey && activeCategoryDef.categoryKeys.includes(post.categoryKey));
-        }
-    }
 
-    // Sorting
-    items.sort((a, b) => {
-        const titleA = (i18n.language === 'zh-Hant' && a.titleZh) ? a.titleZh : (a.title || '');
-        const titleB = (i18n.language === 'zh-Hant' && b.titleZh) ? b.titleZh : (b.title || '');
-        switch (sortOrder) {
-            case 'date-asc': return new Date(a.date).getTime() - new Date(b.date).getTime();
-            case 'title-asc': return titleA.localeCompare(titleB);
-            case 'title-desc': return titleB.localeCompare(titleA);
-            case 'views-desc': return (b.views || 0) - (a.views || 0);
-            case 'views-asc': return (a.views || 0) - (b.views || 0);
-            case 'date-desc':
-            default: return new Date(b.date).getTime() - new Date(a.date).getTime();
-        }
-    });
-
-    return items;
-  }, [posts, filterCategory, sortOrder, i18n.language]);
-
-  const paginatedPosts = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return processedPosts.slice(startIndex, startIndex + itemsPerPage);
-  }, [processedPosts, currentPage, itemsPerPage]);
+  // 分類與狀態篩選、排序與分頁皆交由後端處理
+  const activeCategoryDef = blogCategoryDefinitions.find(def => def.titleKey === filterCategory);
+  const { items, total } = usePostsPage({
+    page: currentPage,
+    pageSize: itemsPerPage,
+    sort: sortOrder,
+    categories: activeCategoryDef?.categoryKeys,
+    status: filterStatus,
+    lang: i18n.language,
+  });
+  const paginatedPosts = useCommentCounts(items);
 
   const handleSelectAll = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.checked) {
@@ -100,10 +81,10 @@ const PostManagementPage: React.FC<PostManagementPageProps> = ({ posts = [], onD
   
   const handleConfirmDelete = () => {
     if (itemToDelete) {
-      onDelete([itemToDelete]);
+      contentStore.deletePosts([itemToDelete]);
       setItemToDelete(null);
     } else if (selectedIds.length > 0) {
-      onDelete(selectedIds);
+      contentStore.deletePosts(selectedIds);
       setSelectedIds([]);
     }
     setIsDeleteModalOpen(false);
@@ -152,18 +133,27 @@ const PostManagementPage: React.FC<PostManagementPageProps> = ({ posts = [], onD
                       <ChevronDownIcon className="w-4 h-4" />
                   </div>
               </div>
+              <div className="relative">
+                  <select
+                      value={filterStatus ?? ''}
+                      onChange={(e) => setFilterStatus(e.target.value)}
+                      aria-label={t('postStatus.filterLabel')}
+                      className={`bg-theme-tertiary border-transparent text-theme-primary rounded-md py-2 pl-3 pr-8 text-sm focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none cursor-pointer`}
+                  >
+                      <option value="">{t('postStatus.filterAll')}</option>
+                      {POST_STATUSES.map(status => <option key={status} value={status}>{t(`postStatus.${status}`)}</option>)}
+                  </select>
+                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary">
+                      <ChevronDownIcon className="w-4 h-4" />
+                  </div>
+              </div>
               <div className="relative">
                   <select
                       value={sortOrder}
                       onChange={(e) => setSortOrder(e.target.value as SortOrder)}
                       className={`bg-theme-tertiary border-transparent text-theme-primary rounded-md py-2 pl-3 pr-8 text-sm focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS} custom-select-text appearance-none cursor-pointer`}
                   >
-                      <option value="date-desc">{t('blogPage.sortDateDesc')}</option>
-                      <option value="date-asc">{t('blogPage.sortDateAsc')}</option>
-                      <option value="title-asc">{t('blogPage.sortTitleAsc')}</option>
-                      <option value="title-desc">{t('blogPage.sortTitleDesc')}</option>
-                      <option value="views-desc">{t('postManagementPage.sortByViewsDesc')}</option>
-                      <option value="views-asc">{t('postManagementPage.sortByViewsAsc')}</option>
+                      {sortOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                   </select>
                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-theme-primary">
                       <ChevronDownIcon className="w-4 h-4" />
@@ -187,6 +177,7 @@ const PostManagementPage: React.FC<PostManagementPageProps> = ({ posts = [], onD
                       <th scope="col" className="px-6 py-3">{t('postManagementPage.titleHeader', i18n.language.startsWith('zh') ? '標題' : 'Title')}</th>
                       <th scope="col" className="px-6 py-3">{t('postManagementPage.image', '圖片')}</th>
                       <th scope="col" className="px-6 py-3">{t('postManagementPage.category')}</th>
+                      <th scope="col" className="px-6 py-3">{t('postStatus.label')}</th>
                       <th scope="col" className="px-6 py-3">{t('postManagementPage.views')}</th>
                       <th scope="col" className="px-6 py-3">{t('postManagementPage.comments')}</th>
                       <th scope="col" className="px-6 py-3">{t('postManagementPage.actions')}</th>
@@ -202,6 +193,7 @@ const PostManagementPage: React.FC<PostManagementPageProps> = ({ posts = [], onD
                           <td className="px-6 py-4 font-medium text-theme-primary whitespace-nowrap">{displayTitle}</td>
                           <td className="px-6 py-4"><img src={post.imageUrl} alt={displayTitle} className="w-16 h-10 object-cover rounded"/></td>
                           <td className="px-6 py-4">{post.categoryKey ? t(post.categoryKey) : 'N/A'}</td>
+                          <td className="px-6 py-4"><PostStatusBadge post={post} /></td>
                           <td className="px-6 py-4">{post.views || 0}</td>
                           <td className="px-6 py-4">{post.commentsCount || 0}</td>
                           <td className="px-6 py-4">
@@ -228,6 +220,7 @@ const PostManagementPage: React.FC<PostManagementPageProps> = ({ posts = [], onD
                                 <div className="p-4">
                                     <p className="font-medium text-theme-primary whitespace-nowrap truncate" title={displayTitle}>{displayTitle}</p>
                                     <p className="text-xs text-theme-secondary">{post.categoryKey ? t(post.categoryKey) : 'N/A'}</p>
+                                    <PostStatusBadge post={post} className="mt-2" />
                                     <div className="flex justify-between text-xs text-theme-secondary mt-2">
                                         <span>{t('postManagementPage.views')}: {post.views || 0}</span>
                                         <span>{t('postManagementPage.comments')}: {post.commentsCount || 0}</span>
@@ -248,7 +241,7 @@ const PostManagementPage: React.FC<PostManagementPageProps> = ({ posts = [], onD
         </div>
 
         <div className="mt-6">
-          <PaginationControls currentPage={currentPage} totalItems={processedPosts.length} itemsPerPage={itemsPerPage} onPageChange={setCurrentPage} onItemsPerPageChange={setItemsPerPage} />
+          <PaginationControls currentPage={currentPage} totalItems={total} itemsPerPage={itemsPerPage} onPageChange={setCurrentPage} onItemsPerPageChange={setItemsPerPage} />
         </div>
       </motion.div>
       <ConfirmationModal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} onConfirm={handleConfirmDelete} title={t('postManagementPage.deleteConfirmationTitle')} message={t('postManagementPage.deleteConfirmationMessage', { count: itemToDelete ? 1 : selectedIds.length })} />
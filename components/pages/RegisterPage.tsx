@@ -9,7 +9,8 @@ import { ACCENT_BG_COLOR, ACCENT_BG_HOVER_COLOR, ACCENT_BORDER_COLOR, ACCENT_FOC
 import { sectionDelayShow, staggerContainerVariants, fadeInUpItemVariants } from '../../animationVariants';
 import UserPlusIcon from '../icons/UserPlusIcon';
 import { useAuth } from '../../src/contexts/AuthContext';
-import { ApiError } from '../../src/services/api';
+import { useFormErrors } from '../../src/hooks/useFormErrors';
+import FieldError from '../ui/FieldError';
 import EyeIcon from '../icons/EyeIcon';
 import EyeSlashIcon from '../icons/EyeSlashIcon';
 
@@ -19,9 +20,12 @@ interface RegisterPageProps {
   navigateTo: (page: Page) => void; 
 }
 
+// 依畫面順序排列，驗證失敗時聚焦第一個有錯的欄位
+const REGISTER_FIELDS = ['username', 'email', 'password', 'confirmPassword'] as const;
+
 const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
   const { t } = useTranslation();
-  const { register, error: authError, clearError } = useAuth();
+  const { register, error: authError, fieldErrors: authFieldErrors, clearError } = useAuth();
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -30,63 +34,32 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
   const [isConfirmPasswordFocused, setIsConfirmPasswordFocused] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [usernameError, setUsernameError] = useState<string | null>(null);
-  const [emailError, setEmailError] = useState<string | null>(null);
+  const form = useFormErrors(REGISTER_FIELDS);
+  const { errors } = form;
 
   useEffect(() => { // 進入頁面時清空殘留錯誤
-    setError(null);
-    setUsernameError(null);
-    setEmailError(null);
+    form.clearAll();
     setSuccessMessage(null);
     return () => {
       clearError();
     };
   }, [clearError]);
 
-  // 將全域的 authError 轉成欄位級錯誤或一般錯誤
+  // 將 Context 內的錯誤對應到欄位；沒有對應欄位時顯示在表單下方
   useEffect(() => {
-    if (!authError) return;
-    const msg = authError;
-    // 與後端比對後的訊息透過 Context 帶入，這裡做局部更新
-    if (/用戶名.*已存在|Username already exists/i.test(msg)) {
-      setUsernameError(msg);
-      setEmailError(null);
-      setError(null);
-      return;
-    }
-    if (/郵箱.*已被使用|郵箱已存在|Email already exists/i.test(msg)) {
-      setEmailError(msg);
-      setUsernameError(null);
-      setError(null);
-      return;
-    }
-    setError(msg);
-  }, [authError]);
+    if (authError) form.showErrors(authFieldErrors, authError);
+  }, [authError, authFieldErrors]);
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    setError(null);
-    setUsernameError(null);
-    setEmailError(null);
     setSuccessMessage(null);
-    setIsSubmitting(true);
 
-    // 驗證使用者名稱長度
-    if (username.length < 3) {
-      setUsernameError('使用者名稱至少需要3個字元');
-      setIsSubmitting(false);
-      return;
-    }
-
-    if (password !== confirmPassword) {
-      setError(t('registerPage.passwordsDoNotMatchError'));
-      setIsSubmitting(false);
-      return;
-    }
+    // 先以與後端相同的規則檢查，避免多送一次請求
+    if (!form.validate({ username, email, password, confirmPassword }, { required: [...REGISTER_FIELDS] })) return;
 
+    setIsSubmitting(true);
     try {
       const ok = await register({
         username,
@@ -98,34 +71,24 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
         setSuccessMessage(t('registerPage.registrationSuccessMessage'));
         // 成功後直接刷新進首頁，避免側邊欄先更新
         window.location.href = '/';
-      } else if (authError) {
-        // 顯示 Context 內的錯誤或通用錯誤
-        setError(authError);
       }
+      // 失敗時錯誤由 Context 帶入，交給上方的 effect 顯示
     } catch (err: unknown) {
-      if (err instanceof ApiError) {
-        const m = err.message || '';
-        if (/用戶名.*已存在|Username already exists/i.test(m)) {
-          setUsernameError(m);
-        } else if (/郵箱.*已被使用|郵箱已存在|Email already exists/i.test(m)) {
-          setEmailError(m);
-        } else {
-          setError(m);
-        }
-      } else if (err instanceof Error) {
-        setError(err.message);
-      } else {
-        setError('註冊失敗');
-      }
       // 不清除表單數據，讓用戶可以看到錯誤並修正
+      form.showError(err, '註冊失敗');
+    } finally {
       setIsSubmitting(false);
-      return; // 直接返回，不執行後面的 finally 塊
     }
-    
-    // 只有在沒有錯誤時才執行這裡
-    setIsSubmitting(false);
   };
 
+  // 修改欄位時清掉該欄位與 Context 內的錯誤
+  const handleFieldChange = (field: typeof REGISTER_FIELDS[number], setter: (value: string) => void) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setter(e.target.value);
+      form.clearField(field);
+      if (authError) clearError();
+    };
+
   return (
     <div className="max-w-md mx-auto space-y-8 py-12 md:py-16">
       <motion.div {...sectionDelayShow(0)}>
@@ -151,27 +114,15 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
               type="text"
               id="reg-username"
               value={username}
-              onChange={(e) => {
-                setUsername(e.target.value);
-                if (usernameError) setUsernameError(null);
-              }}
+              onChange={handleFieldChange('username', setUsername)}
+              {...form.fieldProps('username', 'reg-username')}
               required
               minLength={3}
-              className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+              className={`w-full bg-theme-tertiary border ${form.borderClass('username')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
               placeholder={t('registerPage.usernamePlaceholder')}
               autoComplete="username"
             />
-            {usernameError && (
-              <motion.p 
-                initial={{ opacity: 0, y: -10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="text-red-400 text-sm mt-1 flex items-center"
-                role="alert"
-              >
-                <span className="mr-1">⚠️</span>
-                {usernameError}
-              </motion.p>
-            )}
+            <FieldError id="reg-username" message={errors.username} />
           </motion.div>
 
           <motion.div variants={fadeInUpItemVariants}>
@@ -182,26 +133,14 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
               type="email"
               id="reg-email"
               value={email}
-              onChange={(e) => {
-                setEmail(e.target.value);
-                if (emailError) setEmailError(null);
-              }}
+              onChange={handleFieldChange('email', setEmail)}
+              {...form.fieldProps('email', 'reg-email')}
               required
-              className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+              className={`w-full bg-theme-tertiary border ${form.borderClass('email')} text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
               placeholder={t('registerPage.emailPlaceholder')}
               autoComplete="email"
             />
-            {emailError && (
-              <motion.p 
-                initial={{ opacity: 0, y: -10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="text-red-400 text-sm mt-1 flex items-center"
-                role="alert"
-              >
-                <span className="mr-1">⚠️</span>
-                {emailError}
-              </motion.p>
-            )}
+            <FieldError id="reg-email" message={errors.email} />
           </motion.div>
 
           <motion.div variants={fadeInUpItemVariants}>
@@ -213,12 +152,13 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
                 type={showPassword ? 'text' : 'password'}
                 id="reg-password"
                 value={password}
-                onChange={(e) => setPassword(e.target.value)}
+                onChange={handleFieldChange('password', setPassword)}
+                {...form.fieldProps('password', 'reg-password')}
                 onFocus={() => setIsPasswordFocused(true)}
                 onBlur={() => setIsPasswordFocused(false)}
                 required
                 minLength={6}
-                className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+                className={`w-full bg-theme-tertiary border ${form.borderClass('password')} text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
                 placeholder={t('registerPage.passwordPlaceholder')}
                 autoComplete="new-password"
               />
@@ -243,6 +183,7 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
                 )}
               </AnimatePresence>
             </div>
+            <FieldError id="reg-password" message={errors.password} />
           </motion.div>
 
           <motion.div variants={fadeInUpItemVariants}>
@@ -254,12 +195,13 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
                 type={showConfirmPassword ? 'text' : 'password'}
                 id="reg-confirm-password"
                 value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
+                onChange={handleFieldChange('confirmPassword', setConfirmPassword)}
+                {...form.fieldProps('confirmPassword', 'reg-confirm-password')}
                 onFocus={() => setIsConfirmPasswordFocused(true)}
                 onBlur={() => setIsConfirmPasswordFocused(false)}
                 required
                 minLength={6}
-                className={`w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
+                className={`w-full bg-theme-tertiary border ${form.borderClass('confirmPassword')} text-theme-primary rounded-md p-3 pr-10 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`}
                 placeholder={t('registerPage.confirmPasswordPlaceholder')}
                 autoComplete="new-password"
               />
@@ -284,16 +226,17 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ navigateTo }) => {
                 )}
               </AnimatePresence>
             </div>
+            <FieldError id="reg-confirm-password" message={errors.confirmPassword} />
           </motion.div>
 
-          {(!usernameError && !emailError && (error || authError)) && (
+          {form.formError && (
             <motion.p 
               variants={fadeInUpItemVariants} 
               className="text-red-400 text-sm text-center flex items-center justify-center" 
               role="alert"
             >
               <span className="mr-1">⚠️</span>
-              {error ?? authError}
+              {form.formError}
             </motion.p>
           )}
 
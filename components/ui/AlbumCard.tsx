@@ -0,0 +1,48 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion as motionTyped } from 'framer-motion';
+import { PortfolioAlbum } from '../../types';
+import { ACCENT_FOCUS_VISIBLE_RING_CLASS } from '../../constants';
+import CameraIcon from '../icons/CameraIcon';
+import ResponsiveImage from './ResponsiveImage';
+
+const motion: any = motionTyped;
+
+interface AlbumCardProps {
+  album: PortfolioAlbum;
+}
+
+/**
+ * 相簿卡片：封面、標題與照片數，點擊前往 /portfolio/album/:slug
+ */
+const AlbumCard: React.FC<AlbumCardProps> = ({ album }) => {
+  const { t, i18n } = useTranslation();
+  const isZh = i18n.language === 'zh-Hant';
+  const title = isZh && album.titleZh ? album.titleZh : album.title;
+  const description = isZh && album.descriptionZh ? album.descriptionZh : album.description;
+  const coverUrl = album.coverUrl || album.coverImageUrl;
+
+  return (
+    <motion.div whileHover={{ y: -4 }} transition={{ type: 'spring', stiffness: 300, damping: 20 }}>
+      <Link
+        to={`/portfolio/album/${album.slug}`}
+        className={`group block relative aspect-[4/3] rounded-lg overflow-hidden shadow-lg bg-theme-tertiary ${ACCENT_FOCUS_VISIBLE_RING_CLASS}`}
+      >
+        {coverUrl ? (
+          <ResponsiveImage src={coverUrl} alt={title} sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw" fill className="w-full h-full" imgClassName="transition-transform duration-500 group-hover:scale-105" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-theme-secondary"><CameraIcon className="w-10 h-10" /></div>
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-black/75 via-black/10 to-transparent" />
+        <div className="absolute bottom-0 left-0 right-0 p-4 text-white">
+          <h3 className="text-lg font-semibold truncate">{title}</h3>
+          {description && <p className="text-xs text-gray-200 line-clamp-1 mt-0.5">{description}</p>}
+          <p className="text-xs text-gray-300 mt-1">{t('albums.photoCount', { count: album.itemCount ?? 0 })}</p>
+        </div>
+      </Link>
+    </motion.div>
+  );
+};
+
+export default AlbumCard;
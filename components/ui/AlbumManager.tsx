@@ -0,0 +1,269 @@
+import React, { useMemo, useState, FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion as motionTyped, AnimatePresence } from 'framer-motion';
+import { PortfolioAlbum } from '../../types';
+import { AlbumPayload } from '../../src/types/api';
+import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
+import { useAlbums, usePortfolio } from '../../src/hooks/useContentQueries';
+import { useFormErrors } from '../../src/hooks/useFormErrors';
+import { contentStore } from '../../src/stores/contentStore';
+import FieldError from './FieldError';
+import ConfirmationModal from './ConfirmationModal';
+import PlusIcon from '../icons/PlusIcon';
+import PencilIcon from '../icons/PencilIcon';
+import TrashIcon from '../icons/TrashIcon';
+import ChevronUpIcon from '../icons/ChevronUpIcon';
+import ChevronDownIcon from '../icons/ChevronDownIcon';
+import PhotoIcon from '../icons/PhotoIcon';
+
+const motion: any = motionTyped;
+
+const ALBUM_FIELDS = ['title', 'slug'] as const;
+
+interface AlbumFormValues {
+  title: string;
+  titleZh: string;
+  slug: string;
+  description: string;
+  descriptionZh: string;
+  coverImageUrl: string; // 空字串表示以相簿中的第一張照片為封面
+}
+
+const EMPTY_VALUES: AlbumFormValues = { title: '', titleZh: '', slug: '', description: '', descriptionZh: '', coverImageUrl: '' };
+
+const toValues = (album: PortfolioAlbum): AlbumFormValues => ({
+  title: album.title,
+  titleZh: album.titleZh || '',
+  slug: album.slug,
+  description: album.description || '',
+  descriptionZh: album.descriptionZh || '',
+  coverImageUrl: album.coverImageUrl || '',
+});
+
+// 由英文標題產生網址代稱：'Street Life 2024' → 'street-life-2024'
+const slugify = (value: string) =>
+  value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const inputClass = (border: string) =>
+  `w-full bg-theme-tertiary border ${border} text-theme-primary rounded-md p-2.5 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`;
+
+/**
+ * 作品管理頁中的相簿管理：新增、編輯、刪除與調整順序
+ * 封面從相簿內的照片挑選；照片要加入哪些相簿在作品編輯對話框中設定
+ */
+const AlbumManager: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { albums } = useAlbums();
+  const { items } = usePortfolio();
+  const form = useFormErrors(ALBUM_FIELDS);
+  const { errors } = form;
+  // null：表單關閉；'new'：新增；其餘為編輯中的相簿 id
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [values, setValues] = useState<AlbumFormValues>(EMPTY_VALUES);
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [albumToDelete, setAlbumToDelete] = useState<PortfolioAlbum | null>(null);
+
+  const albumPhotos = useMemo(
+    () => (editingId && editingId !== 'new' ? items.filter(item => item.albumIds?.includes(editingId)) : []),
+    [items, editingId],
+  );
+
+  const displayTitle = (album: PortfolioAlbum) => (i18n.language === 'zh-Hant' && album.titleZh ? album.titleZh : album.title);
+  const firstPhotoUrl = (albumId: string) => items.find(item => item.albumIds?.includes(albumId))?.imageUrl;
+
+  const openForm = (album?: PortfolioAlbum) => {
+    form.clearAll();
+    setEditingId(album ? album.id : 'new');
+    setValues(album ? toValues(album) : EMPTY_VALUES);
+    setIsSlugEdited(!!album);
+  };
+
+  const closeForm = () => {
+    form.clearAll();
+    setEditingId(null);
+  };
+
+  const update = <K extends keyof AlbumFormValues>(key: K, value: AlbumFormValues[K]) =>
+    setValues(prev => ({ ...prev, [key]: value }));
+
+  // 尚未手動修改代稱時，跟著英文標題自動產生
+  const handleTitleChange = (title: string) => {
+    setValues(prev => ({ ...prev, title, slug: isSlugEdited ? prev.slug : slugify(title) }));
+    form.clearField('title');
+    if (!isSlugEdited) form.clearField('slug');
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editingId) return;
+    const fieldErrors: Record<string, string[]> = {};
+    if (!values.title.trim()) fieldErrors.title = [t('apiErrors.codes.FIELD_REQUIRED')];
+    if (!values.slug) fieldErrors.slug = [t('apiErrors.codes.FIELD_REQUIRED')];
+    if (form.showErrors(fieldErrors)) return;
+
+    const payload: AlbumPayload = {
+      slug: values.slug,
+      title: values.title.trim(),
+      titleZh: values.titleZh.trim() || undefined,
+      description: values.description.trim() || undefined,
+      descriptionZh: values.descriptionZh.trim() || undefined,
+      coverImageUrl: values.coverImageUrl || undefined,
+    };
+    setIsSaving(true);
+    try {
+      if (editingId === 'new') await contentStore.createAlbum(payload);
+      else await contentStore.updateAlbum(editingId, payload);
+      closeForm();
+    } catch (error) {
+      console.error('儲存相簿失敗:', error);
+      form.showError(error, t('albums.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 與相鄰的相簿交換位置，送出完整的新順序
+  const moveAlbum = (index: number, offset: -1 | 1) => {
+    const ids = albums.map(album => album.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    contentStore.reorderAlbums(ids);
+  };
+
+  const handleConfirmDelete = () => {
+    if (albumToDelete) {
+      contentStore.deleteAlbum(albumToDelete.id);
+      if (editingId === albumToDelete.id) closeForm();
+    }
+    setAlbumToDelete(null);
+  };
+
+  return (
+    <motion.section className="bg-theme-secondary p-6 rounded-lg shadow-xl" initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} aria-labelledby="album-manager-title">
+      <div className="flex justify-between items-center mb-6">
+        <h3 id="album-manager-title" className="text-xl font-semibold text-theme-primary">{t('albums.manageTitle')}</h3>
+        <button onClick={() => openForm()} className="button-theme-accent font-semibold py-2 px-4 rounded-md flex items-center">
+          <PlusIcon className="w-5 h-5 mr-2" />
+          {t('albums.newAlbum')}
+        </button>
+      </div>
+
+      {/* 新增 / 編輯表單 */}
+      <AnimatePresence>
+        {editingId && (
+          <motion.form key={editingId} onSubmit={handleSubmit} className="overflow-hidden mb-6" initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }}>
+            <div className="bg-theme-tertiary/40 rounded-lg p-5 space-y-4">
+              <h4 className="font-semibold text-theme-primary">{editingId === 'new' ? t('albums.newAlbum') : t('albums.editAlbum')}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="albumTitle" className="block text-sm font-medium text-theme-secondary mb-1">{t('albums.titleEnLabel')}</label>
+                  <input type="text" id="albumTitle" value={values.title} onChange={e => handleTitleChange(e.target.value)} {...form.fieldProps('title', 'albumTitle')} className={inputClass(form.borderClass('title'))} />
+                  <FieldError id="albumTitle" message={errors.title} />
+                </div>
+                <div>
+                  <label htmlFor="albumTitleZh" className="block text-sm font-medium text-theme-secondary mb-1">{t('albums.titleZhLabel')}</label>
+                  <input type="text" id="albumTitleZh" value={values.titleZh} onChange={e => update('titleZh', e.target.value)} className={inputClass('border-theme-secondary')} />
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor="albumSlug" className="block text-sm font-medium text-theme-secondary mb-1">{t('albums.slugLabel')}</label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-theme-secondary whitespace-nowrap">/portfolio/album/</span>
+                    <input
+                      type="text"
+                      id="albumSlug"
+                      value={values.slug}
+                      onChange={e => { update('slug', e.target.value); setIsSlugEdited(true); form.clearField('slug'); }}
+                      onBlur={() => update('slug', slugify(values.slug))}
+                      {...form.fieldProps('slug', 'albumSlug')}
+                      className={inputClass(form.borderClass('slug'))}
+                    />
+                  </div>
+                  <FieldError id="albumSlug" message={errors.slug} />
+                </div>
+                <div>
+                  <label htmlFor="albumDescription" className="block text-sm font-medium text-theme-secondary mb-1">{t('albums.descriptionEnLabel')}</label>
+                  <textarea id="albumDescription" rows={2} value={values.description} onChange={e => update('description', e.target.value)} className={inputClass('border-theme-secondary')} />
+                </div>
+                <div>
+                  <label htmlFor="albumDescriptionZh" className="block text-sm font-medium text-theme-secondary mb-1">{t('albums.descriptionZhLabel')}</label>
+                  <textarea id="albumDescriptionZh" rows={2} value={values.descriptionZh} onChange={e => update('descriptionZh', e.target.value)} className={inputClass('border-theme-secondary')} />
+                </div>
+              </div>
+
+              {/* 封面：從相簿內的照片挑選 */}
+              <fieldset>
+                <legend className="block text-sm font-medium text-theme-secondary mb-2">{t('albums.coverLabel')}</legend>
+                {albumPhotos.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    <button type="button" onClick={() => update('coverImageUrl', '')} className={`w-20 h-14 rounded-md border-2 text-xs text-theme-secondary bg-theme-tertiary ${values.coverImageUrl === '' ? 'border-custom-cyan' : 'border-transparent'}`} aria-pressed={values.coverImageUrl === ''}>
+                      {t('albums.coverAuto')}
+                    </button>
+                    {albumPhotos.map(photo => (
+                      <button key={photo.id} type="button" onClick={() => update('coverImageUrl', photo.imageUrl)} className={`w-20 h-14 rounded-md border-2 overflow-hidden ${values.coverImageUrl === photo.imageUrl ? 'border-custom-cyan' : 'border-transparent'}`} aria-pressed={values.coverImageUrl === photo.imageUrl}>
+                        <img src={photo.imageUrl} alt={photo.title} className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-theme-secondary">{t('albums.coverHint')}</p>
+                )}
+              </fieldset>
+
+              {form.formError && <p className="text-red-400 text-sm" role="alert">{form.formError}</p>}
+              <div className="flex justify-end space-x-3 pt-2">
+                <button type="submit" disabled={isSaving} className="button-theme-accent font-semibold py-2 px-5 rounded-md transition-all disabled:opacity-50">
+                  {isSaving ? t('portfolioPage.savingButton') : t('portfolioPage.saveChangesButton')}
+                </button>
+                <button type="button" onClick={closeForm} className="button-theme-neutral font-semibold py-2 px-5 rounded-md transition-colors">{t('portfolioPage.cancelButton')}</button>
+              </div>
+            </div>
+          </motion.form>
+        )}
+      </AnimatePresence>
+
+      {/* 相簿列表，依顯示順序排列 */}
+      {albums.length > 0 ? (
+        <ul className="divide-y divide-theme-primary">
+          {albums.map((album, index) => {
+            const coverUrl = album.coverImageUrl || firstPhotoUrl(album.id);
+            return (
+              <li key={album.id} className="flex items-center gap-4 py-3">
+                <div className="flex flex-col">
+                  <button onClick={() => moveAlbum(index, -1)} disabled={index === 0} className="text-theme-secondary hover:text-custom-cyan disabled:opacity-30" aria-label={t('albums.moveUp')}><ChevronUpIcon className="w-4 h-4" /></button>
+                  <button onClick={() => moveAlbum(index, 1)} disabled={index === albums.length - 1} className="text-theme-secondary hover:text-custom-cyan disabled:opacity-30" aria-label={t('albums.moveDown')}><ChevronDownIcon className="w-4 h-4" /></button>
+                </div>
+                {coverUrl ? (
+                  <img src={coverUrl} alt="" className="w-16 h-10 object-cover rounded" />
+                ) : (
+                  <div className="w-16 h-10 rounded bg-theme-tertiary flex items-center justify-center text-theme-secondary"><PhotoIcon className="w-5 h-5" /></div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-theme-primary truncate">{displayTitle(album)}</p>
+                  <p className="text-xs text-theme-secondary truncate">/portfolio/album/{album.slug} · {t('albums.photoCount', { count: album.itemCount ?? 0 })}</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button onClick={() => openForm(album)} className="text-theme-secondary hover:text-custom-cyan" aria-label={t('albums.editAlbum')}><PencilIcon className="w-4 h-4" /></button>
+                  <button onClick={() => setAlbumToDelete(album)} className="text-theme-secondary hover:text-red-500" aria-label={t('albums.deleteAlbum')}><TrashIcon className="w-4 h-4" /></button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-center py-8 text-theme-secondary">{t('albums.noAlbums')}</p>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!albumToDelete}
+        onClose={() => setAlbumToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title={t('albums.deleteConfirmationTitle')}
+        message={t('albums.deleteConfirmationMessage', { title: albumToDelete ? displayTitle(albumToDelete) : '' })}
+      />
+    </motion.section>
+  );
+};
+
+export default AlbumManager;
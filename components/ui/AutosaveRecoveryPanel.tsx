@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PostAutosave } from '../../src/types/api';
+import { PostDraftFields } from '../../src/hooks/usePostAutosave';
+import { collapseUnchanged, DiffLine, diffLines } from '../../src/services/textDiff';
+
+interface AutosaveRecoveryPanelProps {
+  autosave: PostAutosave;
+  saved: PostDraftFields; // 比較的基準：最後儲存的版本（新文章為空白）
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const ROW_CLASSES: Record<DiffLine['type'], string> = {
+  same: 'text-theme-secondary',
+  added: 'bg-green-500/20 text-green-400',
+  removed: 'bg-red-500/20 text-red-400 line-through',
+};
+
+const ROW_PREFIX: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+/**
+ * 開啟編輯頁時發現未儲存的自動儲存內容，詢問是否還原並列出與儲存版本的差異
+ */
+const AutosaveRecoveryPanel: React.FC<AutosaveRecoveryPanelProps> = ({ autosave, saved, onRestore, onDiscard }) => {
+  const { t, i18n } = useTranslation();
+
+  const changes = useMemo(() => {
+    const fields: { key: keyof PostDraftFields; label: string; format?: (value: string) => string }[] = [
+      { key: 'imageUrl', label: t('blogPage.imageLabel') },
+      { key: 'categoryKey', label: t('blogPage.categoryLabel'), format: value => (value ? t(value) : '') },
+      { key: 'title', label: t('blogPage.titleEnLabel') },
+      { key: 'titleZh', label: t('blogPage.titleZhLabel') },
+      { key: 'content', label: `${t('blogPage.contentLabel')} (${t('blogPage.editorLangEn')})` },
+      { key: 'contentZh', label: `${t('blogPage.contentLabel')} (${t('blogPage.editorLangZh')})` },
+    ];
+    return fields
+      .filter(field => autosave[field.key] !== saved[field.key])
+      .map(({ key, label, format = (value: string) => value }) => ({
+        key,
+        label,
+        rows: collapseUnchanged(diffLines(format(saved[key]), format(autosave[key])), line => line.type !== 'same'),
+      }));
+  }, [autosave, saved, t]);
+
+  const savedAt = new Date(autosave.savedAt).toLocaleString(i18n.language, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div role="alert" className="border border-custom-cyan rounded-lg p-4 bg-theme-tertiary">
+      <p className="font-semibold text-theme-primary">{t('autosave.recoveryTitle')}</p>
+      <p className="text-sm text-theme-secondary mt-1">{t('autosave.recoveryMessage', { time: savedAt })}</p>
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer select-none text-theme-secondary hover:text-custom-cyan">{t('autosave.showChanges', { count: changes.length })}</summary>
+        <div className="mt-3 space-y-4">
+          {changes.map(change => (
+            <div key={change.key}>
+              <p className="text-xs font-semibold uppercase tracking-wider text-theme-secondary mb-1">{change.label}</p>
+              <pre className="text-xs font-mono bg-theme-secondary rounded-md p-2 overflow-x-auto max-h-64 whitespace-pre-wrap break-words">
+                {change.rows.map((row, index) => row.type === 'skipped' ? (
+                  <div key={index} className="text-theme-muted italic">{t('autosave.unchangedLines', { count: row.count })}</div>
+                ) : (
+                  <div key={index} className={ROW_CLASSES[row.type]}>{ROW_PREFIX[row.type]} {row.text || ' '}</div>
+                ))}
+              </pre>
+            </div>
+          ))}
+        </div>
+      </details>
+      <div className="flex flex-wrap gap-3 mt-4">
+        <button type="button" onClick={onRestore} className="button-theme-accent font-semibold py-2 px-4 rounded-md text-sm">{t('autosave.restoreButton')}</button>
+        <button type="button" onClick={onDiscard} className="button-theme-neutral font-semibold py-2 px-4 rounded-md text-sm">{t('autosave.discardButton')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default AutosaveRecoveryPanel;
@@ -9,6 +9,7 @@ import EyeIcon from '../icons/EyeIcon';
 // 引入 Framer Motion 動畫庫
 import { motion } from 'framer-motion';
 import { stripMarkdown } from '../../utils';
+import ResponsiveImage from './ResponsiveImage';
 
 // 卡片圖片的動畫變體
 const imageVariants = {
@@ -104,12 +105,16 @@ const BlogCard: React.FC<BlogCardProps> = ({
     >
       {/* 圖片容器 */}
       <div className="relative rounded-t-lg overflow-hidden">
-        <motion.img
-          src={post.imageUrl}
-          alt={displayTitle}
-          className="w-full h-48 object-cover"
-          variants={imageVariants}
-        />
+        <motion.div variants={imageVariants}>
+          <ResponsiveImage
+            src={post.imageUrl}
+            alt={displayTitle}
+            sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+            placeholder={post.imagePlaceholder}
+            fill
+            className="w-full h-48"
+          />
+        </motion.div>
         {/* 在刪除模式下顯示的勾選框 */}
         {isDeleteModeActive && (
           <div className="absolute top-3 right-3 bg-theme-secondary/50 p-1 rounded-md pointer-events-none backdrop-blur-sm">
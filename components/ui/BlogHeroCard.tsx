@@ -16,6 +16,7 @@ import { fadeInUpItemVariants } from '../../animationVariants';
 import ChevronLeftIcon from '../icons/ChevronLeftIcon';
 import ChevronRightIcon from '../icons/ChevronRightIcon';
 import { stripMarkdown } from '../../utils';
+import ResponsiveImage from './ResponsiveImage';
 
 // 輪播卡片屬性介面
 interface BlogHeroCarouselProps {
@@ -52,15 +53,15 @@ const SingleSlide: React.FC<{ post: BlogPostData; isActive: boolean; onClick: ()
   return (
     <div className="w-full h-full relative overflow-hidden">
         {/* 背景圖片，帶有縮放動畫 */}
-        <motion.img
+        <motion.div
           key={post.id + "-img"}
-          src={post.imageUrl}
-          alt={displayTitle}
-          className="absolute inset-0 w-full h-full max-w-full max-h-full object-cover"
+          className="absolute inset-0"
           variants={imageVariants}
           initial="inactive"
           animate={isActive ? "active" : "inactive"}
-        />
+        >
+          <ResponsiveImage src={post.imageUrl} alt={displayTitle} sizes="100vw" placeholder={post.imagePlaceholder} priority={isActive} fill className="w-full h-full" />
+        </motion.div>
         {/* 遮罩層 */}
         <div className="absolute inset-0 bg-black opacity-40" />
         {/* 內容區域 */}
@@ -6,6 +6,8 @@ import { useTranslation } from 'react-i18next';
 import { BlogPostData, Page } from '../../types';
 // 引入 UI 組件
 import RecentPostItem from './RecentPostItem';
+import TagCloud from './TagCloud';
+import { countTags } from '../../src/services/postTags';
 
 // 側邊欄區塊標題組件
 const SidebarSectionTitle: React.FC<{ titleKey: string }> = ({ titleKey }) => {
@@ -51,16 +53,17 @@ const BreakingPostCard: React.FC<{ post: BlogPostData; onClick: () => void }> =
 // 組件屬性介面
 interface BlogSidebarProps {
   allPosts: BlogPostData[]; // 所有文章列表
-  navigateTo: (page: Page, data?: BlogPostData) => void; // 導航函數
+  navigateTo: (page: Page, data?: any) => void; // 導航函數
 }
 
 /**
  * 部落格頁面的側邊欄組件。
- * 顯示焦點文章和熱門文章列表。
+ * 顯示焦點文章、熱門文章列表和標籤雲。
  */
 const BlogSidebar: React.FC<BlogSidebarProps> = ({ allPosts, navigateTo }) => {
 
   // 根據點讚數對文章進行排序，以找出熱門文章
+  const tagCounts = useMemo(() => countTags(allPosts), [allPosts]);
   const popularPosts = useMemo(() => {
     return [...allPosts].sort((a, b) => (b.likes || 0) - (a.likes || 0));
   }, [allPosts]);
@@ -94,6 +97,12 @@ const BlogSidebar: React.FC<BlogSidebarProps> = ({ allPosts, navigateTo }) => {
           </div>
         </section>
       )}
+
+      {/* 標籤雲區塊 */}
+      <section>
+        <SidebarSectionTitle titleKey="tags.cloudTitle" />
+        <TagCloud counts={tagCounts} onSelect={tag => navigateTo(Page.TagArchive, tag)} />
+      </section>
     </aside>
   );
 };
@@ -5,12 +5,14 @@ import { useTranslation } from 'react-i18next';
 // 引入 Framer Motion 動畫庫
 import { motion } from 'framer-motion';
 // 引入類型定義和數據
-import { BlogPostData, Page, CategoryInfo } from '../../types';
+import { Page, CategoryInfo } from '../../types';
 import { blogCategoryDefinitions } from '../data/blogData';
+import { usePostFacets, usePostsPage } from '../../src/hooks/useContentQueries';
 // 引入動畫變體
 import { staggerContainerVariants, fadeInUpItemVariants } from '../../animationVariants';
 import SearchIcon from '../icons/SearchIcon';
 import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
+import TagCloud from './TagCloud';
 
 // 側邊欄區塊標題組件
 const SidebarSectionTitle: React.FC<{ titleKey: string }> = ({ titleKey }) => {
@@ -32,49 +34,48 @@ const SidebarSectionTitle: React.FC<{ titleKey: string }> = ({ titleKey }) => {
 
 // 組件屬性介面
 interface CategorySidebarProps {
-  allPosts: BlogPostData[]; // 所有文章列表
   navigateTo: (page: Page, data?: any) => void; // 導航函數
   currentCategoryInfo?: CategoryInfo; // 當前分類資訊，可選
+  currentTag?: string; // 當前標籤的 slug，標籤頁使用
   searchTerm: string;
   onSearchChange: (term: string) => void;
 }
 
+// 側邊欄列出的文章數
+const LIST_SIZE = 5;
+
 /**
  * 分類頁面的側邊欄組件。
- * 顯示所有分類及其文章數量，以及最受歡迎的文章列表。
+ * 顯示所有分類及其文章數量、標籤雲，以及最受歡迎的文章列表。
+ * 文章數來自後端的統計，列表只請求一頁，不必下載全部文章。
  */
-const CategorySidebar: React.FC<CategorySidebarProps> = ({ allPosts, navigateTo, currentCategoryInfo, searchTerm, onSearchChange }) => {
+const CategorySidebar: React.FC<CategorySidebarProps> = ({ navigateTo, currentCategoryInfo, currentTag, searchTerm, onSearchChange }) => {
   const { t, i18n } = useTranslation();
+  const { data: facets } = usePostFacets('published');
 
   // 計算每個大分類下的文章數量
   const categoryCounts = useMemo(() => {
     const counts: { [key: string]: number } = {};
     blogCategoryDefinitions.forEach(def => {
-      const allCategoryKeys = def.categoryKeys;
-      const count = allPosts.filter(p => p.categoryKey && allCategoryKeys.includes(p.categoryKey)).length;
-      counts[def.titleKey] = count;
+      counts[def.titleKey] = def.categoryKeys.reduce((sum, key) => sum + (facets?.categories[key] ?? 0), 0);
     });
     return counts;
-  }, [allPosts]);
+  }, [facets]);
+  const tagCounts = useMemo(() => new Map(Object.entries(facets?.tags ?? {})), [facets]);
 
-  // 根據是否存在 currentCategoryInfo，決定顯示熱門文章還是最新文章
-  const { titleKey, postsToList } = useMemo(() => {
-    if (currentCategoryInfo) {
-      // 顯示其他分類的最新文章
-      const currentKeys = new Set(currentCategoryInfo.categoryKeys);
-      const latestPostsFromOthers = allPosts
-        .filter(p => !p.categoryKey || !currentKeys.has(p.categoryKey))
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        .slice(0, 5);
-      return { titleKey: 'blogSidebar.otherCategoryPosts', postsToList: latestPostsFromOthers };
-    } else {
-      // 預設行為：顯示熱門文章
-      const popularPosts = [...allPosts]
-        .sort((a, b) => (b.views || 0) - (a.views || 0))
-        .slice(0, 5);
-      return { titleKey: 'blogSidebar.popularPosts', postsToList: popularPosts };
-    }
-  }, [allPosts, currentCategoryInfo]);
+  // 有 currentCategoryInfo 時顯示其他分類的最新文章（「全部」沒有分類鍵，顯示所有分類），否則顯示熱門文章
+  const otherCategoryKeys = currentCategoryInfo?.categoryKeys.length
+    ? blogCategoryDefinitions.filter(def => def.titleKey !== currentCategoryInfo.titleKey).flatMap(def => def.categoryKeys)
+    : undefined;
+  const titleKey = currentCategoryInfo ? 'blogSidebar.otherCategoryPosts' : 'blogSidebar.popularPosts';
+  const { items: postsToList } = usePostsPage({
+    page: 1,
+    pageSize: LIST_SIZE,
+    sort: currentCategoryInfo ? 'date-desc' : 'views-desc',
+    categories: otherCategoryKeys,
+    status: 'published',
+    lang: i18n.language,
+  });
 
   return (
     <motion.aside
@@ -111,7 +112,7 @@ const CategorySidebar: React.FC<CategorySidebarProps> = ({ allPosts, navigateTo,
             >
               <span className="font-medium">{t('portfolioPage.filterAll')}</span>
               <span className="bg-theme-tertiary text-theme-muted text-xs font-semibold px-2 py-0.5 rounded-md">
-                {allPosts.length}
+                {facets?.total ?? 0}
               </span>
             </button>
           </li>
@@ -131,6 +132,12 @@ const CategorySidebar: React.FC<CategorySidebarProps> = ({ allPosts, navigateTo,
         </ul>
       </motion.section>
 
+      {/* 標籤雲區塊 */}
+      <motion.section variants={fadeInUpItemVariants}>
+        <SidebarSectionTitle titleKey="tags.cloudTitle" />
+        <TagCloud counts={tagCounts} activeSlug={currentTag} onSelect={tag => navigateTo(Page.TagArchive, tag)} />
+      </motion.section>
+
       {/* 最新/熱門文章列表區塊 */}
       {postsToList.length > 0 && (
         <motion.section variants={fadeInUpItemVariants}>
@@ -115,6 +115,9 @@ const CommentItem: React.FC<CommentItemProps> = ({
     setIsReplying(false); // 關閉回覆表單
   };
 
+  // 尚在離線佇列中的留言還沒有正式 id，不能回覆或刪除
+  const isQueued = !!comment.syncStatus;
+
   // 處理刪除操作：打開確認模態框
   const handleDelete = () => { setIsDeleteModalOpen(true); };
   // 確認刪除：調用父組件的刪除回調
@@ -153,19 +156,25 @@ const CommentItem: React.FC<CommentItemProps> = ({
             <span className="text-theme-muted text-xs">·</span>
             {/* 顯示相對時間 */}
             <TimeAgo date={comment.date} />
+            {/* 離線佇列的同步狀態 */}
+            {comment.syncStatus && (
+              <span className={`text-xs px-1.5 py-0.5 rounded ${comment.syncStatus === 'failed' || comment.syncStatus === 'conflict' ? 'bg-red-500/20 text-red-400' : 'bg-yellow-500/20 text-yellow-500'}`}>
+                {t(`outbox.status.${comment.syncStatus}`)}
+              </span>
+            )}
           </div>
           <p className="text-theme-primary text-base my-2 whitespace-pre-wrap break-words">{comment.text}</p>
 
           <div className="flex items-center space-x-4 text-xs">
             {/* 回覆按鈕 (需登入) */}
-            {isAuthenticated && (
+            {isAuthenticated && !isQueued && (
                 <button onClick={() => setIsReplying(!isReplying)} className="flex items-center text-theme-secondary hover:text-custom-cyan font-semibold transition-colors">
                     <ReplyIcon className="w-4 h-4 mr-1"/>
                     {t('comments.replyButton')}
                 </button>
             )}
             {/* 刪除按鈕 (需超級用戶權限) */}
-            {isSuperUser && (
+            {isSuperUser && !isQueued && (
                 <button onClick={handleDelete} className="flex items-center text-red-500 hover:text-red-400 font-semibold transition-colors">
                     <TrashIcon className="w-4 h-4 mr-1"/>
                     {t('comments.deleteButton')}
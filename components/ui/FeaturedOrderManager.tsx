@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion as motionTyped } from 'framer-motion';
+import { FEATURED_CAROUSEL_SIZE } from '../../constants';
+import { usePortfolio } from '../../src/hooks/useContentQueries';
+import { useDragReorder } from '../../src/hooks/useDragReorder';
+import { compareBy, portfolioListFields } from '../../src/services/listQuery';
+import { contentStore } from '../../src/stores/contentStore';
+
+const motion: any = motionTyped;
+
+/**
+ * 作品管理頁中的精選輪播排序
+ * 拖曳調整全部精選作品的順序，前 FEATURED_CAROUSEL_SIZE 張會出現在作品集頁的輪播
+ */
+const FeaturedOrderManager: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { items } = usePortfolio();
+  const featuredItems = useMemo(
+    () => items.filter(item => item.isFeatured).sort(compareBy(portfolioListFields, 'featured-custom')),
+    [items],
+  );
+  const { items: orderedItems, draggingId, itemProps } = useDragReorder(featuredItems, contentStore.reorderFeaturedItems);
+
+  return (
+    <motion.section className="bg-theme-secondary p-6 rounded-lg shadow-xl" initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} aria-labelledby="featured-order-title">
+      <h3 id="featured-order-title" className="text-xl font-semibold text-theme-primary">{t('photoManagementPage.featuredOrderTitle')}</h3>
+      <p className="text-sm text-theme-secondary mt-1 mb-5">{t('photoManagementPage.featuredOrderHint', { count: FEATURED_CAROUSEL_SIZE })}</p>
+      {orderedItems.length > 0 ? (
+        <ol className="flex flex-wrap gap-3">
+          {orderedItems.map((item, index) => {
+            const displayTitle = (i18n.language === 'zh-Hant' && item.titleZh) ? item.titleZh : (item.title || '');
+            const isShown = index < FEATURED_CAROUSEL_SIZE;
+            return (
+              <li
+                key={item.id}
+                {...itemProps(item.id)}
+                className={`relative w-32 rounded-md overflow-hidden border-2 cursor-move transition-opacity ${isShown ? 'border-custom-cyan' : 'border-transparent opacity-50'} ${draggingId === item.id ? 'opacity-30' : ''}`}
+                title={isShown ? displayTitle : `${displayTitle} — ${t('photoManagementPage.notInCarousel')}`}
+              >
+                <img src={item.imageUrl} alt={displayTitle} className="w-full h-20 object-cover pointer-events-none" />
+                <span className="absolute top-1 left-1 bg-black/60 text-white text-xs rounded px-1.5">{index + 1}</span>
+                <p className="text-xs text-theme-primary truncate px-1.5 py-1">{displayTitle}</p>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p className="text-center py-8 text-theme-secondary">{t('photoManagementPage.noFeaturedItems')}</p>
+      )}
+    </motion.section>
+  );
+};
+
+export default FeaturedOrderManager;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { motion as motionTyped } from 'framer-motion';
+
+const motion: any = motionTyped;
+
+interface FieldErrorProps {
+  id: string; // 對應輸入框的 id，錯誤訊息的 id 為 `${id}-error`
+  message?: string | null;
+}
+
+/**
+ * 顯示在輸入框下方的欄位錯誤
+ */
+const FieldError: React.FC<FieldErrorProps> = ({ id, message }) => {
+  if (!message) return null;
+  return (
+    <motion.p
+      id={`${id}-error`}
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="text-red-400 text-sm mt-1 flex items-center"
+      role="alert"
+    >
+      <span className="mr-1">⚠️</span>
+      {message}
+    </motion.p>
+  );
+};
+
+export default FieldError;
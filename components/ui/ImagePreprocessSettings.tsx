@@ -0,0 +1,63 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { PreprocessFormat, PreprocessOptions } from '../../src/services/imagePreprocess';
+
+interface ImagePreprocessSettingsProps {
+  value: PreprocessOptions;
+  onChange: (value: PreprocessOptions) => void;
+  disabled?: boolean;
+}
+
+const MAX_DIMENSIONS = [1280, 1920, 2560, 3840];
+const FORMATS: PreprocessFormat[] = ['webp', 'avif', 'jpeg'];
+
+const selectClass = 'bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-1.5 text-sm';
+
+/**
+ * 上傳前處理的設定：最大邊長、輸出格式、畫質與是否保留 EXIF
+ */
+const ImagePreprocessSettings: React.FC<ImagePreprocessSettingsProps> = ({ value, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const update = (patch: Partial<PreprocessOptions>) => onChange({ ...value, ...patch });
+
+  return (
+    <details className="mt-2 w-full text-sm text-theme-secondary">
+      <summary className="cursor-pointer select-none hover:text-custom-cyan">{t('media.preprocess.title')}</summary>
+      <fieldset disabled={disabled} className="mt-2 grid grid-cols-2 gap-3 items-center">
+        <label htmlFor="preprocessMaxSize">{t('media.preprocess.maxSize')}</label>
+        <select
+          id="preprocessMaxSize"
+          value={value.maxWidth}
+          onChange={e => update({ maxWidth: Number(e.target.value), maxHeight: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {MAX_DIMENSIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+        </select>
+
+        <label htmlFor="preprocessFormat">{t('media.preprocess.format')}</label>
+        <select id="preprocessFormat" value={value.format} onChange={e => update({ format: e.target.value as PreprocessFormat })} className={selectClass}>
+          {FORMATS.map(format => <option key={format} value={format}>{format.toUpperCase()}</option>)}
+        </select>
+
+        <label htmlFor="preprocessQuality">{t('media.preprocess.quality', { quality: Math.round(value.quality * 100) })}</label>
+        <input
+          type="range"
+          id="preprocessQuality"
+          min={50}
+          max={100}
+          step={5}
+          value={Math.round(value.quality * 100)}
+          onChange={e => update({ quality: Number(e.target.value) / 100 })}
+          className="accent-custom-cyan"
+        />
+
+        <label htmlFor="preprocessKeepExif" className="col-span-2 flex items-center gap-2">
+          <input type="checkbox" id="preprocessKeepExif" checked={value.keepExif} onChange={e => update({ keepExif: e.target.checked })} />
+          {t('media.preprocess.keepExif')}
+        </label>
+      </fieldset>
+    </details>
+  );
+};
+
+export default ImagePreprocessSettings;
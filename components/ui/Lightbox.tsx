@@ -16,6 +16,17 @@ import ChevronDownIcon from '../icons/ChevronDownIcon';
 import ChevronUpIcon from '../icons/ChevronUpIcon';
 import ChevronLeftIcon from '../icons/ChevronLeftIcon';
 import ChevronRightIcon from '../icons/ChevronRightIcon';
+import InformationCircleIcon from '../icons/InformationCircleIcon';
+import PencilIcon from '../icons/PencilIcon';
+import MagnifyingGlassPlusIcon from '../icons/MagnifyingGlassPlusIcon';
+import MagnifyingGlassMinusIcon from '../icons/MagnifyingGlassMinusIcon';
+import SpinnerIcon from '../icons/SpinnerIcon';
+import PhotoExifInfo from './PhotoExifInfo';
+import ZoomMinimap from './ZoomMinimap';
+import { useDocumentMeta } from '../../src/hooks/useDocumentMeta';
+import { MAX_ZOOM, useZoomPan } from '../../src/hooks/useZoomPan';
+import { useProgressiveImage } from '../../src/hooks/useProgressiveImage';
+import { cloudinaryVariant } from '../../src/services/mediaProviders';
 
 // 將 motionTyped 轉型為 any 以解決 Framer Motion 在某些情況下的類型推斷問題
 const motion: any = motionTyped;
@@ -26,8 +37,20 @@ interface LightboxProps {
   filteredItems: PortfolioItemData[]; // 所有可供瀏覽的項目列表
   onClose: () => void; // 關閉燈箱的回調
   onSelectItem: (item: PortfolioItemData) => void; // 選擇新項目的回調
+  onEdit?: (item: PortfolioItemData) => void; // 編輯當前項目（僅超級使用者提供）
 }
 
+// 在輸入框中打字時不觸發燈箱的快捷鍵（例如上層的編輯對話框）
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Cloudinary 圖片先載入適合螢幕的尺寸，放大後才載入原始解析度；小地圖使用縮圖
+const DISPLAY_TRANSFORMATION = 'c_limit,w_2048,q_auto,f_auto';
+const FULL_RESOLUTION_TRANSFORMATION = 'q_auto:best,f_auto';
+const MINIMAP_TRANSFORMATION = 'c_limit,w_256,q_auto,f_auto';
+const THUMBNAIL_TRANSFORMATION = 'c_fill,w_160,h_160,q_auto,f_auto';
+const KEYBOARD_PAN_STEP = 100;
+
 // 主圖片的進入/退出動畫變體
 const imageVariants = {
   enter: (direction: number) => ({ x: direction > 0 ? 100 : -100, opacity: 0 }),
@@ -38,9 +61,10 @@ const imageVariants = {
 /**
  * 燈箱組件。
  * 提供一個全螢幕的圖片瀏覽器，支持鍵盤、滑鼠滾輪和觸控滑動導航，並包含一個可摺疊的縮圖輪播。
+ * 圖片可縮放與平移（見 useZoomPan），放大時以小地圖標示位置，且暫停滑動與滾輪換頁。
  * 在行動裝置橫向模式下提供沉浸式體驗。
  */
-const Lightbox: React.FC<LightboxProps> = ({ currentItem, filteredItems, onClose, onSelectItem }) => {
+const Lightbox: React.FC<LightboxProps> = ({ currentItem, filteredItems, onClose, onSelectItem, onEdit }) => {
   const { t, i18n } = useTranslation();
   // 狀態管理
   const [direction, setDirection] = useState(0);
@@ -49,8 +73,9 @@ const Lightbox: React.FC<LightboxProps> = ({ currentItem, filteredItems, onClose
   const lastWheelNavTime = useRef(0);
   const carouselRef = useRef<HTMLDivElement>(null);
   const [isMobileLandscape, setIsMobileLandscape] = useState(false); // 新增狀態
+  const [isInfoVisible, setIsInfoVisible] = useState(false); // 拍攝資訊面板，切換作品時保持開啟
 
-  const { id, imageUrl, title, titleZh } = currentItem;
+  const { id, imageUrl, title, titleZh, exif } = currentItem;
   
   const lightboxRoot = useMemo(() => document.getElementById('lightbox-root'), []);
 
@@ -96,11 +121,29 @@ const Lightbox: React.FC<LightboxProps> = ({ currentItem, filteredItems, onClose
   const handlePrevious = useCallback(() => handleNavigation(current => (current - 1 + filteredItems.length) % filteredItems.length), [handleNavigation, filteredItems.length]);
   const handleThumbnailClick = (index: number) => { if (index !== currentIndex) handleNavigation(() => index); };
 
+  const handleSwipe = useCallback((swipeDirection: 1 | -1) => (swipeDirection > 0 ? handleNext() : handlePrevious()), [handleNext, handlePrevious]);
+  const { zoom, isZoomed, isGesturing, viewport, containerRef, surfaceRef, imageRef, surfaceProps, zoomIn, zoomOut, resetZoom, panBy, panTo } = useZoomPan({ resetKey: id, onSwipe: handleSwipe });
+  const { src: displayImageUrl, isLoadingFull } = useProgressiveImage(
+    cloudinaryVariant(imageUrl, DISPLAY_TRANSFORMATION),
+    cloudinaryVariant(imageUrl, FULL_RESOLUTION_TRANSFORMATION),
+    isZoomed,
+  );
+
+  // 放大時方向鍵改為平移、Escape 先還原尺寸
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    if (event.key === 'Escape') onClose();
+    if (isEditableTarget(event.target)) return;
+    const panKeys: Record<string, [number, number]> = {
+      ArrowLeft: [KEYBOARD_PAN_STEP, 0], ArrowRight: [-KEYBOARD_PAN_STEP, 0], ArrowUp: [0, KEYBOARD_PAN_STEP], ArrowDown: [0, -KEYBOARD_PAN_STEP],
+    };
+    if (isZoomed && event.key in panKeys) { event.preventDefault(); panBy(...panKeys[event.key]); }
+    else if (event.key === 'Escape') { if (isZoomed) resetZoom(); else onClose(); }
     else if (event.key === 'ArrowRight') handleNext();
     else if (event.key === 'ArrowLeft') handlePrevious();
-  }, [onClose, handleNext, handlePrevious]);
+    else if (event.key === '+' || event.key === '=') zoomIn();
+    else if (event.key === '-') zoomOut();
+    else if (event.key === '0') resetZoom();
+    else if (event.key === 'i' && exif) setIsInfoVisible(v => !v);
+  }, [onClose, handleNext, handlePrevious, exif, isZoomed, panBy, resetZoom, zoomIn, zoomOut]);
 
   useEffect(() => {
     const originalOverflow = document.body.style.overflow;
@@ -132,14 +175,16 @@ const Lightbox: React.FC<LightboxProps> = ({ currentItem, filteredItems, onClose
     return (i18n.language === 'zh-Hant' && titleZh) ? titleZh : (title || '');
   }, [title, titleZh, i18n.language]);
   
+  // 分享目前的網址時帶上這張照片的標題與圖片
+  useDocumentMeta({
+    title: displayTitle,
+    description: (i18n.language === 'zh-Hant' && currentItem.descriptionZh) ? currentItem.descriptionZh : currentItem.description,
+    image: imageUrl,
+    url: window.location.href,
+  });
+
   const transitionConfig = { duration: 0.4, ease: [0.4, 0, 0.2, 1] as const };
   
-  const onDragEnd = (_e: MouseEvent | TouchEvent | PointerEvent, info: any) => {
-    const swipe = Math.abs(info.offset.x) * info.velocity.x;
-    if (swipe < -10000) handleNext();
-    else if (swipe > 10000) handlePrevious();
-  };
-  
   // 根據狀態動態生成 CSS class
   const isLightTheme = document.body.classList.contains('theme-light');
   const overlayClasses = isLightTheme ? 'bg-white' : 'bg-black';
@@ -158,13 +203,53 @@ const Lightbox: React.FC<LightboxProps> = ({ currentItem, filteredItems, onClose
         <button onClick={onClose} className={`absolute top-4 right-4 z-50 p-2 rounded-full flex items-center justify-center transition-colors duration-200 ease-in-out focus:outline-none ${ACCENT_FOCUS_VISIBLE_RING_CLASS} group`} aria-label={t('lightbox.close')}>
           <CloseIcon className={`w-8 h-8 ${iconColorClasses} ${iconHoverClasses} transition-colors`} />
         </button>
-        <div className={`relative flex-grow w-full flex flex-col items-center justify-center px-4 sm:px-16 overflow-hidden group ${imageContainerPaddingClasses}`} onWheel={(e) => { const now = Date.now(); if (now - lastWheelNavTime.current < 450) return; lastWheelNavTime.current = now; if (e.deltaY > 1) handleNext(); else if (e.deltaY < -1) handlePrevious(); }}>
+        {onEdit && (
+          <button onClick={() => onEdit(currentItem)} className={`absolute top-4 ${exif ? 'right-28' : 'right-16'} z-50 p-2 rounded-full flex items-center justify-center transition-colors duration-200 ease-in-out focus:outline-none ${ACCENT_FOCUS_VISIBLE_RING_CLASS}`} aria-label={t('lightbox.edit')}>
+            <PencilIcon className={`w-7 h-7 ${iconColorClasses} ${iconHoverClasses} transition-colors`} />
+          </button>
+        )}
+        {exif && (
+          <button onClick={() => setIsInfoVisible(v => !v)} className={`absolute top-4 right-16 z-50 p-2 rounded-full flex items-center justify-center transition-colors duration-200 ease-in-out focus:outline-none ${ACCENT_FOCUS_VISIBLE_RING_CLASS}`} aria-label={t('lightbox.toggleInfo')} aria-pressed={isInfoVisible}>
+            <InformationCircleIcon className={`w-8 h-8 ${isInfoVisible ? 'text-custom-cyan' : iconColorClasses} ${iconHoverClasses} transition-colors`} />
+          </button>
+        )}
+        <div className="absolute top-4 left-4 z-50 flex flex-col items-start gap-3">
+          <div className={`flex items-center rounded-full shadow-lg ${toggleButtonClasses}`}>
+            <button onClick={zoomOut} disabled={!isZoomed} className={`p-2 rounded-full transition-colors disabled:opacity-40 focus:outline-none ${ACCENT_FOCUS_VISIBLE_RING_CLASS} ${iconHoverClasses}`} aria-label={t('lightbox.zoomOut')}>
+              <MagnifyingGlassMinusIcon className="w-6 h-6" />
+            </button>
+            <button onClick={resetZoom} disabled={!isZoomed} className={`w-14 text-sm font-medium tabular-nums transition-colors focus:outline-none ${ACCENT_FOCUS_VISIBLE_RING_CLASS} ${iconHoverClasses}`} aria-label={t('lightbox.resetZoom')}>
+              {Math.round(zoom.scale * 100)}%
+            </button>
+            <button onClick={zoomIn} disabled={zoom.scale >= MAX_ZOOM} className={`p-2 rounded-full transition-colors disabled:opacity-40 focus:outline-none ${ACCENT_FOCUS_VISIBLE_RING_CLASS} ${iconHoverClasses}`} aria-label={t('lightbox.zoomIn')}>
+              <MagnifyingGlassPlusIcon className="w-6 h-6" />
+            </button>
+          </div>
+          {viewport && <ZoomMinimap imageUrl={cloudinaryVariant(imageUrl, MINIMAP_TRANSFORMATION)} viewport={viewport} onNavigate={panTo} />}
+          {isLoadingFull && (
+            <p className={`flex items-center text-xs ${iconColorClasses}`} role="status">
+              <SpinnerIcon className="animate-spin w-4 h-4 mr-2" />
+              {t('lightbox.loadingFullResolution')}
+            </p>
+          )}
+        </div>
+        <AnimatePresence>
+          {exif && isInfoVisible && (
+            <motion.div key="lightbox-info-panel" className="absolute top-16 right-4 z-40 w-72 max-w-[calc(100%-2rem)] rounded-lg bg-theme-secondary/90 backdrop-blur-sm shadow-xl p-4" initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} transition={{ duration: 0.2 }}>
+              <h4 className="text-sm font-semibold text-custom-cyan mb-3">{t('exif.title')}</h4>
+              <PhotoExifInfo exif={exif} />
+            </motion.div>
+          )}
+        </AnimatePresence>
+        <div ref={containerRef} className={`relative flex-grow w-full flex flex-col items-center justify-center px-4 sm:px-16 overflow-hidden group ${imageContainerPaddingClasses}`} onWheel={(e) => { if (isZoomed || e.ctrlKey || e.metaKey) return; const now = Date.now(); if (now - lastWheelNavTime.current < 450) return; lastWheelNavTime.current = now; if (e.deltaY > 1) handleNext(); else if (e.deltaY < -1) handlePrevious(); }}>
           <motion.div className="w-full h-full flex items-center justify-center transition-all duration-300 ease-in-out" animate={{ paddingBottom: isMobileLandscape ? '0rem' : (isCarouselVisible ? '13rem' : '10rem') }}>
             <AnimatePresence initial={false} custom={direction} mode="wait">
-              <motion.img key={id + "_img"} src={imageUrl} alt={displayTitle} className="block max-w-full max-h-full object-contain rounded-lg shadow-2xl" custom={direction} variants={imageVariants} initial="enter" animate="center" exit="exit" transition={transitionConfig} drag="x" dragConstraints={{ left: 0, right: 0 }} dragElastic={0.5} onDragEnd={onDragEnd} />
+              <motion.div key={id + "_img"} ref={surfaceRef} className="w-full h-full flex items-center justify-center select-none" style={{ touchAction: 'none', cursor: isZoomed ? (isGesturing ? 'grabbing' : 'grab') : undefined }} custom={direction} variants={imageVariants} initial="enter" animate="center" exit="exit" transition={transitionConfig} {...surfaceProps}>
+                <img ref={imageRef} src={displayImageUrl} alt={displayTitle} draggable="false" className="block max-w-full max-h-full object-contain rounded-lg shadow-2xl" style={{ transform: `translate3d(${zoom.x}px, ${zoom.y}px, 0) scale(${zoom.scale})`, transition: isGesturing ? 'none' : 'transform 0.2s ease-out' }} />
+              </motion.div>
             </AnimatePresence>
           </motion.div>
-          {filteredItems.length > 1 && !isMobileLandscape && (
+          {filteredItems.length > 1 && !isMobileLandscape && !isZoomed && (
             <div className="absolute inset-x-0 top-0" style={{ bottom: isCarouselVisible ? '136px' : '0' }}>
               <div className="absolute top-0 left-0 h-full w-1/2 z-10 cursor-pointer hidden lg:flex items-center justify-start" onClick={handlePrevious} role="button" aria-label={t('lightbox.previous')}>
                 <div className={`p-2 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-300 ml-4 sm:ml-8`}><ChevronLeftIcon className={`w-12 h-12 transition-colors ${iconColorClasses} ${iconHoverClasses}`} /></div>
@@ -193,7 +278,7 @@ const Lightbox: React.FC<LightboxProps> = ({ currentItem, filteredItems, onClose
                                <div className="flex items-center no-select py-2 px-2 w-max mx-auto">
                                 {filteredItems.map((item, index) => (
                                     <div key={item.id} onClick={() => handleThumbnailClick(index)} className={`relative flex-shrink-0 w-20 h-20 mx-1 rounded-md overflow-hidden cursor-pointer ${thumbnailBgClasses}`}>
-                                        <img src={item.imageUrl} alt="" draggable="false" className="w-full h-full object-cover"/>
+                                        <img src={cloudinaryVariant(item.imageUrl, THUMBNAIL_TRANSFORMATION)} alt="" loading="lazy" draggable="false" className="w-full h-full object-cover"/>
                                         {currentIndex === index && ( <motion.div layoutId="lightbox-thumbnail-border" className={`absolute inset-0 border-2 ${ACCENT_BORDER_COLOR} rounded-md`}></motion.div> )}
                                     </div>
                                 ))}
@@ -0,0 +1,40 @@
+// 引入 React
+import React from 'react';
+// 引入翻譯鉤子
+import { useTranslation } from 'react-i18next';
+// 引入 Framer Motion 動畫庫
+import { motion as motionTyped, AnimatePresence } from 'framer-motion';
+// 引入網路狀態鉤子
+import { useOnlineStatus } from '../../src/hooks/useOnlineStatus';
+
+// 將 motionTyped 轉型為 any 以解決 Framer Motion 在某些情況下的類型推斷問題
+const motion: any = motionTyped;
+
+/**
+ * 離線提示橫幅。
+ * 網路中斷時固定顯示於畫面頂端，恢復連線後自動收起。
+ */
+const OfflineBanner: React.FC = () => {
+  const { t } = useTranslation();
+  const isOnline = useOnlineStatus();
+
+  return (
+    <AnimatePresence>
+      {!isOnline && (
+        <motion.div
+          role="status"
+          aria-live="polite"
+          className="fixed top-0 inset-x-0 z-50 bg-yellow-500 text-gray-900 text-sm font-medium text-center px-4 py-2 shadow-lg"
+          initial={{ y: '-100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '-100%' }}
+          transition={{ duration: 0.3 }}
+        >
+          {t('offline.banner')}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,87 @@
+// 引入 React 相關鉤子
+import React, { useState } from 'react';
+// 引入翻譯鉤子
+import { useTranslation } from 'react-i18next';
+// 引入 Framer Motion 動畫庫
+import { motion as motionTyped, AnimatePresence } from 'framer-motion';
+// 引入離線佇列
+import { outbox, OutboxEntry } from '../../src/services/outbox';
+import { useOutbox } from '../../src/hooks/useOutbox';
+
+// 將 motionTyped 轉型為 any 以解決 Framer Motion 在某些情況下的類型推斷問題
+const motion: any = motionTyped;
+
+// 每個項目顯示的簡短內容
+const describe = (entry: OutboxEntry): string => {
+  const { op } = entry;
+  switch (op.type) {
+    case 'addComment': return op.preview.text;
+    case 'createPost':
+    case 'updatePost':
+    case 'updatePortfolioItem': return op.payload.title || op.payload.titleZh || '';
+    default: return '';
+  }
+};
+
+/**
+ * 離線寫入佇列面板。
+ * 有待同步的變更時顯示於左下角，列出每個項目的狀態，失敗或衝突時可重試或捨棄。
+ */
+const OutboxPanel: React.FC = () => {
+  const { t } = useTranslation();
+  const entries = useOutbox();
+  const [isOpen, setIsOpen] = useState(false);
+  const hasProblem = entries.some(e => e.status === 'failed' || e.status === 'conflict');
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 left-6 z-40 max-w-sm">
+      <AnimatePresence>
+        {isOpen && (
+          <motion.ul
+            className="mb-3 bg-theme-secondary border border-theme-primary rounded-lg shadow-xl divide-y divide-theme-primary max-h-80 overflow-y-auto"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+          >
+            {entries.map(entry => (
+              <li key={entry.id} className="p-3 text-sm">
+                <div className="flex justify-between items-center space-x-3">
+                  <span className="font-semibold text-theme-primary">{t(`outbox.op.${entry.op.type}`)}</span>
+                  <span className={entry.status === 'failed' || entry.status === 'conflict' ? 'text-red-400' : 'text-yellow-500'}>
+                    {t(`outbox.status.${entry.status}`)}
+                  </span>
+                </div>
+                {describe(entry) && <p className="text-theme-secondary truncate mt-1">{describe(entry)}</p>}
+                {entry.status === 'conflict' && <p className="text-red-400 text-xs mt-1">{t('outbox.conflictHint')}</p>}
+                {entry.error && <p className="text-theme-muted text-xs mt-1 break-words">{entry.error}</p>}
+                {entry.status !== 'sending' && (
+                  <div className="flex justify-end space-x-3 mt-2 text-xs">
+                    {/* 待送項目也可手動重送，不必等下一次自動重試 */}
+                    {(entry.status === 'pending' || entry.status === 'failed' || entry.status === 'conflict') && (
+                      <button onClick={() => outbox.retry(entry.id)} className="text-custom-cyan hover:underline">
+                        {/* 衝突的文章編輯重送時會覆寫伺服器上較新的內容 */}
+                        {t(entry.status === 'conflict' && entry.op.type === 'updatePost' ? 'outbox.overwrite' : 'outbox.retry')}
+                      </button>
+                    )}
+                    <button onClick={() => outbox.discard(entry.id)} className="text-theme-secondary hover:text-red-400">{t('outbox.discard')}</button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`px-4 py-2 rounded-full shadow-lg text-sm font-semibold ${hasProblem ? 'bg-red-500 text-white' : 'bg-yellow-500 text-gray-900'}`}
+        aria-expanded={isOpen}
+      >
+        {t('outbox.title')} ({entries.length})
+      </button>
+    </div>
+  );
+};
+
+export default OutboxPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { PhotoExif } from '../../types';
+
+interface PhotoExifInfoProps {
+  exif: PhotoExif;
+  variant?: 'panel' | 'summary'; // panel：逐項列出；summary：卡片懸停時的精簡版
+  className?: string;
+}
+
+const formatFocalLength = (mm: number) => `${Math.round(mm)}mm`;
+const formatAperture = (f: number) => `f/${Number(f.toFixed(1))}`;
+const formatExposureTime = (seconds: number) => (seconds < 1 ? `1/${Math.round(1 / seconds)}s` : `${Number(seconds.toFixed(1))}s`);
+const formatIso = (iso: number) => `ISO ${iso}`;
+
+// 焦距 · 光圈 · 快門 · ISO，缺少的項目略過
+const exposureLine = (exif: PhotoExif): string =>
+  [
+    exif.focalLength && formatFocalLength(exif.focalLength),
+    exif.aperture && formatAperture(exif.aperture),
+    exif.exposureTime && formatExposureTime(exif.exposureTime),
+    exif.iso && formatIso(exif.iso),
+  ].filter(Boolean).join(' · ');
+
+/**
+ * 顯示照片的拍攝資訊（機身、鏡頭、曝光參數與拍攝時間）
+ */
+const PhotoExifInfo: React.FC<PhotoExifInfoProps> = ({ exif, variant = 'panel', className = '' }) => {
+  const { t, i18n } = useTranslation();
+
+  if (variant === 'summary') {
+    const exposure = exposureLine(exif);
+    if (!exif.camera && !exposure) return null;
+    return (
+      <div className={`text-xs text-gray-200 space-y-0.5 ${className}`}>
+        {exif.camera && <p className="font-medium">{exif.camera}</p>}
+        {exposure && <p>{exposure}</p>}
+      </div>
+    );
+  }
+
+  const rows: [string, string | undefined][] = [
+    ['exif.camera', exif.camera],
+    ['exif.lens', exif.lens],
+    ['exif.focalLength', exif.focalLength ? formatFocalLength(exif.focalLength) : undefined],
+    ['exif.aperture', exif.aperture ? formatAperture(exif.aperture) : undefined],
+    ['exif.shutterSpeed', exif.exposureTime ? formatExposureTime(exif.exposureTime) : undefined],
+    ['exif.iso', exif.iso ? String(exif.iso) : undefined],
+    ['exif.takenAt', exif.takenAt ? new Date(exif.takenAt).toLocaleString(i18n.language, { dateStyle: 'medium', timeStyle: 'short' }) : undefined],
+  ];
+  const visibleRows = rows.filter(([, value]) => value);
+  if (visibleRows.length === 0) return null;
+
+  return (
+    <dl className={`grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm ${className}`}>
+      {visibleRows.map(([labelKey, value]) => (
+        <React.Fragment key={labelKey}>
+          <dt className="text-theme-secondary">{t(labelKey)}</dt>
+          <dd className="text-theme-primary">{value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
+
+export default PhotoExifInfo;
@@ -9,6 +9,8 @@ import { PortfolioItemData } from '../../types';
 // 引入常數和圖標
 import { ACCENT_COLOR, ACCENT_FOCUS_VISIBLE_RING_CLASS } from '../../constants';
 import EyeIcon from '../icons/EyeIcon';
+import PhotoExifInfo from './PhotoExifInfo';
+import ResponsiveImage from './ResponsiveImage';
 
 // 將 motionTyped 轉型為 any 以解決 Framer Motion 在某些情況下的類型推斷問題
 const motion: any = motionTyped;
@@ -22,6 +24,9 @@ interface PortfolioCardProps extends PortfolioItemData {
   isCardDisabled?: boolean; // 卡片是否被禁用
 }
 
+// 作品集與相簿頁的瀑布流欄數：預設 4 欄，1199px 以下 3 欄、767px 以下 2 欄、500px 以下 1 欄
+const GRID_IMAGE_SIZES = '(min-width: 1200px) 25vw, (min-width: 768px) 33vw, (min-width: 501px) 50vw, 100vw';
+
 // 懸停遮罩層的動畫變體
 const overlayHoverVariants = {
   rest: { opacity: 0 },
@@ -51,7 +56,7 @@ const cardMotionVariants = {
  * 具有 3D 懸停效果，並能響應刪除模式。
  */
 const PortfolioCard: React.FC<PortfolioCardProps> = (props) => {
-  const { id, imageUrl, onClick, title, titleZh, isDeleteModeActive, isSelectedForDeletion, onToggleSelectionForDeletion, isCardDisabled } = props;
+  const { id, imageUrl, imagePlaceholder, onClick, title, titleZh, exif, isDeleteModeActive, isSelectedForDeletion, onToggleSelectionForDeletion, isCardDisabled } = props;
   const { t, i18n } = useTranslation();
 
   // Framer Motion 的 motion values，用於追踪滑鼠位置
@@ -129,7 +134,7 @@ const PortfolioCard: React.FC<PortfolioCardProps> = (props) => {
       transition={{ type: "spring", stiffness: 300, damping: 20 }}
     >
       <div className="relative overflow-hidden w-full h-full rounded-lg bg-theme-secondary" style={{ transform: "translateZ(20px)"}}>
-        <img src={imageUrl} alt={displayTitle} className="w-full h-auto object-cover" />
+        <ResponsiveImage src={imageUrl} alt={displayTitle} sizes={GRID_IMAGE_SIZES} placeholder={imagePlaceholder} />
         {/* 懸停時的遮罩層 */}
         {!isDeleteModeActive && (
           <motion.div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center p-4" variants={overlayHoverVariants}>
@@ -140,6 +145,11 @@ const PortfolioCard: React.FC<PortfolioCardProps> = (props) => {
                 <motion.h4 variants={overlayItemVariants} className={`text-xl font-semibold ${ACCENT_COLOR} text-center`}>
                     {displayTitle}
                 </motion.h4>
+                {exif && (
+                    <motion.div variants={overlayItemVariants}>
+                        <PhotoExifInfo exif={exif} variant="summary" className="mt-2" />
+                    </motion.div>
+                )}
             </motion.div>
           </motion.div>
         )}
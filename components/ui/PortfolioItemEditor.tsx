@@ -0,0 +1,289 @@
+import React, { useEffect, useState, ChangeEvent, FormEvent } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { motion as motionTyped, AnimatePresence } from 'framer-motion';
+import { PhotoExif, PortfolioItemData } from '../../types';
+import { PortfolioItemPayload } from '../../src/types/api';
+import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
+import { portfolioCategoryOptions } from '../data/portfolioCategories';
+import { useMediaUpload } from '../../src/hooks/useMediaUpload';
+import { readPhotoExif } from '../../src/services/exif';
+import { outbox } from '../../src/services/outbox';
+import { contentStore } from '../../src/stores/contentStore';
+import { useAlbums } from '../../src/hooks/useContentQueries';
+import CloseIcon from '../icons/CloseIcon';
+import CameraIcon from '../icons/CameraIcon';
+import UploadProgress from './UploadProgress';
+import ImagePreprocessSettings from './ImagePreprocessSettings';
+
+const motion: any = motionTyped;
+
+interface PortfolioItemEditorProps {
+  item: PortfolioItemData | null; // 要編輯的作品，null 時關閉
+  onClose: () => void;
+  onSaved?: (item: PortfolioItemData) => void;
+}
+
+interface EditorValues {
+  title: string;
+  titleZh: string;
+  description: string;
+  descriptionZh: string;
+  categoryKey: string;
+  date: string; // yyyy-mm-dd
+  projectLinkUrl: string;
+  projectLinkText: string;
+  isFeatured: boolean;
+  albumIds: string[];
+}
+
+const toValues = (item: PortfolioItemData): EditorValues => ({
+  title: item.title || '',
+  titleZh: item.titleZh || '',
+  description: item.description || '',
+  descriptionZh: item.descriptionZh || '',
+  categoryKey: item.categoryKey || '',
+  date: item.date ? item.date.slice(0, 10) : '',
+  projectLinkUrl: item.projectLinkUrl || '',
+  projectLinkText: item.projectLinkText || '',
+  isFeatured: !!item.isFeatured,
+  albumIds: item.albumIds ?? [],
+});
+
+// 日期沒改時保留原本的時間部分
+const toDate = (value: string, original?: string): string | undefined => {
+  if (!value) return undefined;
+  if (original && original.slice(0, 10) === value) return original;
+  return new Date(`${value}T00:00:00`).toISOString();
+};
+
+const inputClass = `w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-2.5 focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`;
+
+/**
+ * 編輯作品的對話框：文字欄位、分類、日期、專案連結、精選、所屬相簿，以及替換圖片
+ * 儲存經由離線佇列送出，離線時先以本地內容顯示
+ */
+const PortfolioItemEditor: React.FC<PortfolioItemEditorProps> = ({ item, onClose, onSaved }) => {
+  const { t, i18n } = useTranslation();
+  const { albums } = useAlbums();
+  const modalRoot = document.getElementById('lightbox-root');
+  const [values, setValues] = useState<EditorValues | null>(null);
+  const [imageUrl, setImageUrl] = useState('');
+  const [exif, setExif] = useState<PhotoExif | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+  const media = useMediaUpload({ preprocess: true });
+  const { reset: resetMedia } = media;
+
+  // 開啟或切換作品時以作品內容重設表單
+  useEffect(() => {
+    resetMedia();
+    if (!item) return;
+    setValues(toValues(item));
+    setImageUrl(item.imageUrl);
+    setExif(item.exif);
+  }, [item, resetMedia]);
+
+  // 以 capture 攔截 Escape，避免同時關閉底下的燈箱
+  useEffect(() => {
+    if (!item) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [item, onClose]);
+
+  const update = <K extends keyof EditorValues>(key: K, value: EditorValues[K]) =>
+    setValues(prev => (prev ? { ...prev, [key]: value } : prev));
+
+  const toggleAlbum = (albumId: string) =>
+    setValues(prev => prev && {
+      ...prev,
+      albumIds: prev.albumIds.includes(albumId) ? prev.albumIds.filter(id => id !== albumId) : [...prev.albumIds, albumId],
+    });
+
+  // 替換圖片：先讀取新照片的 EXIF，再上傳
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      alert(t('portfolioPage.imageUploadError'));
+      return;
+    }
+    const newExif = await readPhotoExif(file);
+    const url = await media.upload(file);
+    if (url) {
+      setImageUrl(url);
+      setExif(newExif ?? undefined);
+    }
+  };
+
+  const handleRetryUpload = async () => {
+    const url = await media.retry();
+    if (url) setImageUrl(url);
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!item || !values) return;
+    if (!values.title.trim() || !values.titleZh.trim() || !values.categoryKey || !imageUrl) {
+      alert(t('portfolioPage.fillAllRequiredFields'));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const payload: PortfolioItemPayload = {
+        imageUrl,
+        // 換了圖片時改用新圖的預覽，沒有則以空字串清除舊圖的預覽
+        imagePlaceholder: (imageUrl === media.url ? media.placeholder : imageUrl === item.imageUrl ? item.imagePlaceholder : null) ?? '',
+        title: values.title.trim(),
+        titleZh: values.titleZh.trim(),
+        description: values.description.trim() || undefined,
+        descriptionZh: values.descriptionZh.trim() || undefined,
+        categoryKey: values.categoryKey,
+        date: toDate(values.date, item.date),
+        projectLinkUrl: values.projectLinkUrl.trim() || undefined,
+        projectLinkText: values.projectLinkText.trim() || undefined,
+        isFeatured: values.isFeatured,
+        albumIds: values.albumIds,
+        exif,
+      };
+      const outcome = await outbox.send({ type: 'updatePortfolioItem', itemId: item.id, payload });
+      // 離線時先以本地內容顯示，恢復連線後再送出
+      const updatedItem = outcome.queued ? { ...item, ...payload } : outcome.result;
+      contentStore.updatePortfolioItem(updatedItem);
+      onSaved?.(updatedItem);
+      onClose();
+    } catch (error) {
+      console.error('更新作品項目失敗:', error);
+      alert(t('portfolioPage.updateFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!modalRoot) return null;
+
+  const content = (
+    <AnimatePresence>
+      {item && values && (
+        <motion.div
+          className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className="bg-theme-secondary rounded-lg shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+            initial={{ scale: 0.95, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 20 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+            onClick={(e: React.MouseEvent) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="portfolio-editor-title"
+          >
+            <div className="flex justify-between items-center mb-6">
+              <h3 id="portfolio-editor-title" className="text-xl font-semibold text-theme-primary">{t('portfolioPage.editFormTitle')}</h3>
+              <button type="button" onClick={onClose} className="p-1 rounded-full text-theme-secondary hover:bg-theme-hover hover:text-theme-primary transition-colors" aria-label={t('lightbox.close')}>
+                <CloseIcon className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+                {/* 圖片：點擊以替換 */}
+                <div>
+                  <label htmlFor="editPhotoUpload" className="relative cursor-pointer aspect-square w-full rounded-lg border-2 border-dashed border-theme-primary flex items-center justify-center bg-theme-tertiary/50 transition-colors hover:border-custom-cyan overflow-hidden group">
+                    <img src={imageUrl} alt={values.title} className="max-h-full max-w-full object-contain rounded-md" />
+                    <span className="absolute inset-0 flex flex-col items-center justify-center bg-black/50 text-white text-sm opacity-0 group-hover:opacity-100 transition-opacity">
+                      <CameraIcon className="w-8 h-8 mb-1" />
+                      {t('portfolioPage.replaceImage')}
+                    </span>
+                  </label>
+                  <input type="file" id="editPhotoUpload" accept="image/*" onChange={handleFileChange} className="hidden" />
+                  <UploadProgress status={media.status} progress={media.progress} onCancel={media.cancel} onRetry={handleRetryUpload} originalSize={media.originalSize} processedSize={media.processedSize} />
+                  <ImagePreprocessSettings value={media.preprocessOptions} onChange={media.setPreprocessOptions} disabled={media.isUploading} />
+                </div>
+                {/* 文字欄位 */}
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="editPhotoTitleEn" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.titleEnLabel')}</label>
+                    <input type="text" id="editPhotoTitleEn" value={values.title} onChange={e => update('title', e.target.value)} required className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor="editPhotoTitleZh" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.titleZhLabel')}</label>
+                    <input type="text" id="editPhotoTitleZh" value={values.titleZh} onChange={e => update('titleZh', e.target.value)} required className={inputClass} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label htmlFor="editPhotoCategory" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.categoryLabel')}</label>
+                      <select id="editPhotoCategory" value={values.categoryKey} onChange={e => update('categoryKey', e.target.value)} required className={`${inputClass} custom-select-text`}>
+                        <option value="" disabled>{t('blogPage.categorySelectPlaceholder')}</option>
+                        {portfolioCategoryOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="editPhotoDate" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.dateLabel')}</label>
+                      <input type="date" id="editPhotoDate" value={values.date} onChange={e => update('date', e.target.value)} className={inputClass} />
+                    </div>
+                  </div>
+                  <label htmlFor="editPhotoFeatured" className="flex items-center gap-2 text-sm text-theme-primary cursor-pointer">
+                    <input type="checkbox" id="editPhotoFeatured" checked={values.isFeatured} onChange={e => update('isFeatured', e.target.checked)} className="form-checkbox h-4 w-4 rounded text-custom-cyan bg-theme-tertiary border-theme-secondary focus:ring-custom-cyan" />
+                    {t('portfolioPage.featuredLabel')}
+                  </label>
+                  {albums.length > 0 && (
+                    <fieldset>
+                      <legend className="block text-sm font-medium text-theme-secondary mb-1">{t('albums.albumsLabel')}</legend>
+                      <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {albums.map(album => (
+                          <label key={album.id} className="flex items-center gap-2 text-sm text-theme-primary cursor-pointer">
+                            <input type="checkbox" checked={values.albumIds.includes(album.id)} onChange={() => toggleAlbum(album.id)} className="form-checkbox h-4 w-4 rounded text-custom-cyan bg-theme-tertiary border-theme-secondary focus:ring-custom-cyan" />
+                            {i18n.language === 'zh-Hant' && album.titleZh ? album.titleZh : album.title}
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="editPhotoDescriptionEn" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.descriptionEnLabel')}</label>
+                  <textarea id="editPhotoDescriptionEn" rows={3} value={values.description} onChange={e => update('description', e.target.value)} placeholder={t('portfolioPage.descriptionEnPlaceholder')} className={inputClass} />
+                </div>
+                <div>
+                  <label htmlFor="editPhotoDescriptionZh" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.descriptionZhLabel')}</label>
+                  <textarea id="editPhotoDescriptionZh" rows={3} value={values.descriptionZh} onChange={e => update('descriptionZh', e.target.value)} placeholder={t('portfolioPage.descriptionZhPlaceholder')} className={inputClass} />
+                </div>
+                <div>
+                  <label htmlFor="editPhotoLinkUrl" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.projectLinkUrlLabel')}</label>
+                  <input type="url" id="editPhotoLinkUrl" value={values.projectLinkUrl} onChange={e => update('projectLinkUrl', e.target.value)} placeholder="https://" className={inputClass} />
+                </div>
+                <div>
+                  <label htmlFor="editPhotoLinkText" className="block text-sm font-medium text-theme-secondary mb-1">{t('portfolioPage.projectLinkTextLabel')}</label>
+                  <input type="text" id="editPhotoLinkText" value={values.projectLinkText} onChange={e => update('projectLinkText', e.target.value)} placeholder={t('portfolioPage.projectLinkText')} className={inputClass} />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-4 pt-4 border-t border-theme-primary">
+                <button type="submit" disabled={isSaving || media.isUploading} className="button-theme-accent font-semibold py-2.5 px-6 rounded-md transition-all disabled:opacity-50">
+                  {isSaving ? t('portfolioPage.savingButton') : t('portfolioPage.saveChangesButton')}
+                </button>
+                <button type="button" onClick={onClose} className="button-theme-neutral font-semibold py-2.5 px-6 rounded-md transition-colors">{t('portfolioPage.cancelButton')}</button>
+              </div>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+
+  return createPortal(content, modalRoot);
+};
+
+export default PortfolioItemEditor;
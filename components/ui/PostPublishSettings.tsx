@@ -0,0 +1,67 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { PostStatus } from '../../types';
+import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
+
+interface PostPublishSettingsProps {
+  status: PostStatus;
+  publishAt: string; // ISO 字串，未設定時為空字串
+  onStatusChange: (status: PostStatus) => void;
+  onPublishAtChange: (publishAt: string) => void;
+}
+
+const STATUSES: PostStatus[] = ['draft', 'scheduled', 'published'];
+
+// <input type="datetime-local"> 使用本地時間且不含時區，與 ISO 字串互相轉換
+const toLocalInputValue = (iso: string): string => {
+  const date = new Date(iso);
+  if (!iso || Number.isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromLocalInputValue = (value: string): string => {
+  const date = new Date(value);
+  return value && !Number.isNaN(date.getTime()) ? date.toISOString() : '';
+};
+
+/**
+ * 文章的發布設定：草稿、排程或立即發布，排程時選擇發布時間
+ */
+const PostPublishSettings: React.FC<PostPublishSettingsProps> = ({ status, publishAt, onStatusChange, onPublishAtChange }) => {
+  const { t } = useTranslation();
+
+  return (
+    <fieldset>
+      <legend className="block text-sm font-medium text-theme-secondary mb-2">{t('postStatus.label')}</legend>
+      <div className="flex flex-wrap gap-2">
+        {STATUSES.map(option => (
+          <label
+            key={option}
+            className={`cursor-pointer text-sm font-semibold py-2 px-4 rounded-md transition-colors focus-within:ring-2 focus-within:ring-custom-cyan ${status === option ? 'bg-custom-cyan text-zinc-900' : 'bg-theme-tertiary text-theme-secondary hover:text-theme-primary'}`}
+          >
+            <input type="radio" name="postStatus" value={option} checked={status === option} onChange={() => onStatusChange(option)} className="sr-only" />
+            {t(`postStatus.${option}`)}
+          </label>
+        ))}
+      </div>
+      {status === 'scheduled' && (
+        <div className="mt-4">
+          <label htmlFor="postPublishAt" className="block text-sm font-medium text-theme-secondary mb-1">{t('postStatus.publishAtLabel')}</label>
+          <input
+            id="postPublishAt"
+            type="datetime-local"
+            value={toLocalInputValue(publishAt)}
+            min={toLocalInputValue(new Date().toISOString())}
+            onChange={e => onPublishAtChange(fromLocalInputValue(e.target.value))}
+            required
+            className={`w-full sm:w-auto bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-3 focus:${ACCENT_BORDER_COLOR} ${ACCENT_FOCUS_RING_CLASS}`}
+          />
+          <p className="text-xs text-theme-muted mt-1">{t('postStatus.publishAtHint')}</p>
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default PostPublishSettings;
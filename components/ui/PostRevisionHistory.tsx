@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BlogPostData } from '../../types';
+import { PostRevision, PostRevisionField } from '../../src/types/api';
+import { usePostRevisions } from '../../src/hooks/useContentQueries';
+import { collapseUnchanged, diffLines, DiffLine, toSideBySide } from '../../src/services/textDiff';
+import { toRevisionSnapshot } from '../../src/services/postRevisions';
+import { contentStore } from '../../src/stores/contentStore';
+import ConfirmationModal from './ConfirmationModal';
+import ClockIcon from '../icons/ClockIcon';
+import ChevronDownIcon from '../icons/ChevronDownIcon';
+
+type DiffLanguage = 'en' | 'zh';
+
+const FIELD_LABEL_KEYS: Record<PostRevisionField, string> = {
+  title: 'blogPage.titleEnLabel',
+  titleZh: 'blogPage.titleZhLabel',
+  content: 'revisions.fieldContent',
+  contentZh: 'revisions.fieldContentZh',
+  categoryKey: 'blogPage.categoryLabel',
+  imageUrl: 'blogPage.imageLabel',
+  status: 'postStatus.label',
+  publishAt: 'postStatus.publishAtLabel',
+};
+
+const CELL_CLASSES: Record<DiffLine['type'], string> = {
+  same: 'text-theme-secondary',
+  added: 'bg-green-500/20 text-green-400',
+  removed: 'bg-red-500/20 text-red-400',
+};
+
+// 並排顯示的一欄；沒有對應行時留白
+const DiffCell: React.FC<{ line?: DiffLine }> = ({ line }) => (
+  <td className={`align-top px-2 py-0.5 w-1/2 whitespace-pre-wrap break-words ${line ? CELL_CLASSES[line.type] : 'bg-theme-tertiary'}`}>
+    {line ? line.text || ' ' : ''}
+  </td>
+);
+
+interface SideBySideDiffProps {
+  before: string;
+  after: string;
+}
+
+const SideBySideDiff: React.FC<SideBySideDiffProps> = ({ before, after }) => {
+  const { t } = useTranslation();
+  const rows = useMemo(
+    () => collapseUnchanged(toSideBySide(diffLines(before, after)), row => row.left?.type !== 'same'),
+    [before, after],
+  );
+  if (before === after) return <p className="text-sm text-theme-secondary italic">{t('revisions.noDifferences')}</p>;
+  return (
+    <div className="overflow-auto max-h-96 rounded-md bg-theme-secondary">
+      <table className="w-full table-fixed text-xs font-mono">
+        <thead className="sticky top-0 bg-theme-tertiary text-theme-primary">
+          <tr>
+            <th className="text-left font-semibold px-2 py-1">{t('revisions.selectedVersion')}</th>
+            <th className="text-left font-semibold px-2 py-1">{t('revisions.currentVersion')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => 'type' in row ? (
+            <tr key={index}>
+              <td colSpan={2} className="px-2 py-0.5 text-theme-muted italic">{t('autosave.unchangedLines', { count: row.count })}</td>
+            </tr>
+          ) : (
+            <tr key={index}>
+              <DiffCell line={row.left} />
+              <DiffCell line={row.right} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+interface PostRevisionHistoryProps {
+  post: BlogPostData; // 目前儲存的版本，作為比較的基準
+  onRestored?: (post: BlogPostData) => void; // 還原成功後，以還原的內容更新編輯中的表單
+}
+
+/**
+ * 編輯頁中的修訂紀錄
+ * 列出每次儲存的時間、作者與變更欄位；選取版本後依語言並排比較 Markdown 內容，可還原為新的一次儲存
+ */
+const PostRevisionHistory: React.FC<PostRevisionHistoryProps> = ({ post, onRestored }) => {
+  const { t, i18n } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [language, setLanguage] = useState<DiffLanguage>(i18n.language.startsWith('zh') ? 'zh' : 'en');
+  const [revisionToRestore, setRevisionToRestore] = useState<PostRevision | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { revisions, isLoading, error } = usePostRevisions(post.id, { enabled: isOpen });
+
+  // 預設選取最新版本之前的一筆，最新一筆通常就是目前的內容
+  useEffect(() => {
+    if (revisions.length === 0 || revisions.some(r => r.id === selectedId)) return;
+    setSelectedId((revisions[1] ?? revisions[0]).id);
+  }, [revisions, selectedId]);
+
+  const selected = revisions.find(r => r.id === selectedId) ?? null;
+  const current = useMemo(() => toRevisionSnapshot(post), [post]);
+
+  const formatTime = (time: number) => new Date(time).toLocaleString(i18n.language, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const handleConfirmRestore = async () => {
+    const revision = revisionToRestore;
+    setRevisionToRestore(null);
+    if (!revision) return;
+    setIsRestoring(true);
+    const restored = await contentStore.restorePostRevision(post, revision);
+    setIsRestoring(false);
+    if (restored) onRestored?.(restored);
+  };
+
+  const titleField = language === 'en' ? 'title' : 'titleZh';
+  const contentField = language === 'en' ? 'content' : 'contentZh';
+
+  return (
+    <section className="bg-theme-secondary p-6 rounded-lg shadow-xl max-w-4xl mx-auto" aria-labelledby="post-revisions-title">
+      <button type="button" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen} className="w-full flex items-center justify-between text-left">
+        <span id="post-revisions-title" className="flex items-center text-xl font-semibold text-theme-primary">
+          <ClockIcon className="w-5 h-5 mr-2" />
+          {t('revisions.title')}
+        </span>
+        <ChevronDownIcon className={`w-5 h-5 text-theme-secondary transform transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-6">
+          {isLoading && revisions.length === 0 ? (
+            <p className="text-sm text-theme-secondary">{t('revisions.loading')}</p>
+          ) : error && revisions.length === 0 ? (
+            <p className="text-sm text-red-500">{t('revisions.loadError')}</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-theme-secondary">{t('revisions.empty')}</p>
+          ) : (
+            <div className="grid md:grid-cols-3 gap-6">
+              <ol className="space-y-2 md:max-h-[32rem] md:overflow-y-auto">
+                {revisions.map((revision, index) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={`w-full text-left rounded-md p-3 border-2 transition-colors ${revision.id === selectedId ? 'border-custom-cyan bg-theme-tertiary' : 'border-transparent bg-theme-tertiary hover:bg-theme-hover'}`}
+                    >
+                      <span className="block text-sm font-medium text-theme-primary">{formatTime(revision.createdAt)}</span>
+                      <span className="block text-xs text-theme-secondary">
+                        {revision.authorName ? t('revisions.savedBy', { name: revision.authorName }) : t('revisions.originalVersion')}
+                        {index === 0 && ` · ${t('revisions.latest')}`}
+                      </span>
+                      {revision.changedFields.length > 0 && (
+                        <span className="flex flex-wrap gap-1 mt-2">
+                          {revision.changedFields.map(field => (
+                            <span key={field} className="text-xs px-1.5 py-0.5 rounded bg-theme-secondary text-theme-secondary">{t(FIELD_LABEL_KEYS[field])}</span>
+                          ))}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              {selected && (
+                <div className="md:col-span-2 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex space-x-1 p-0.5 bg-theme-tertiary rounded-lg">
+                      <button type="button" onClick={() => setLanguage('en')} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${language === 'en' ? 'bg-theme-secondary shadow' : 'text-theme-secondary hover:text-theme-primary'}`}>{t('blogPage.editorLangEn')}</button>
+                      <button type="button" onClick={() => setLanguage('zh')} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${language === 'zh' ? 'bg-theme-secondary shadow' : 'text-theme-secondary hover:text-theme-primary'}`}>{t('blogPage.editorLangZh')}</button>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setRevisionToRestore(selected)}
+                      disabled={isRestoring}
+                      className="button-theme-accent font-semibold py-2 px-4 rounded-md text-sm disabled:opacity-50"
+                    >
+                      {t('revisions.restoreButton')}
+                    </button>
+                  </div>
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wider text-theme-secondary mb-1">{t(FIELD_LABEL_KEYS[titleField])}</p>
+                    <SideBySideDiff before={selected.snapshot[titleField] ?? ''} after={current[titleField] ?? ''} />
+                  </div>
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wider text-theme-secondary mb-1">{t(FIELD_LABEL_KEYS[contentField])}</p>
+                    <SideBySideDiff before={selected.snapshot[contentField] ?? ''} after={current[contentField] ?? ''} />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!revisionToRestore}
+        onClose={() => setRevisionToRestore(null)}
+        onConfirm={handleConfirmRestore}
+        title={t('revisions.restoreConfirmTitle')}
+        message={t('revisions.restoreConfirmMessage', { time: revisionToRestore ? formatTime(revisionToRestore.createdAt) : '' })}
+      />
+    </section>
+  );
+};
+
+export default PostRevisionHistory;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { BlogPostData, PostStatus } from '../../types';
+import { effectivePostStatus } from '../../src/services/postStatus';
+
+const STATUS_CLASSES: Record<PostStatus, string> = {
+  draft: 'bg-theme-tertiary text-theme-secondary',
+  scheduled: 'bg-yellow-500/20 text-yellow-500',
+  published: 'bg-green-500/20 text-green-500',
+};
+
+interface PostStatusBadgeProps {
+  post: Pick<BlogPostData, 'status' | 'publishAt'>;
+  className?: string;
+}
+
+/**
+ * 文章發布狀態的標籤；排程中的文章一併顯示預定發布時間
+ */
+const PostStatusBadge: React.FC<PostStatusBadgeProps> = ({ post, className = '' }) => {
+  const { t, i18n } = useTranslation();
+  const status = effectivePostStatus(post);
+  const label = status === 'scheduled' && post.publishAt
+    ? t('postStatus.scheduledFor', { date: new Date(post.publishAt).toLocaleString(i18n.language, { dateStyle: 'medium', timeStyle: 'short' }) })
+    : t(`postStatus.${status}`);
+
+  return (
+    <span className={`inline-block text-xs font-semibold px-2 py-0.5 rounded whitespace-nowrap ${STATUS_CLASSES[status]} ${className}`}>{label}</span>
+  );
+};
+
+export default PostStatusBadge;
@@ -0,0 +1,223 @@
+import React, { KeyboardEvent, useId, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTags } from '../../src/hooks/useContentQueries';
+import { ApiError } from '../../src/services/apiErrors';
+import { matchesTag, tagLabel, toTagSlug } from '../../src/services/postTags';
+import { contentStore } from '../../src/stores/contentStore';
+import { ACCENT_BORDER_COLOR, ACCENT_FOCUS_RING_CLASS } from '../../constants';
+import CloseIcon from '../icons/CloseIcon';
+import PlusIcon from '../icons/PlusIcon';
+
+interface PostTagInputProps {
+  value: string[]; // 已選標籤的 slug
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const inputClass = `w-full bg-theme-tertiary border border-theme-secondary text-theme-primary rounded-md p-2 text-sm focus:${ACCENT_BORDER_COLOR} placeholder-theme ${ACCENT_FOCUS_RING_CLASS}`;
+
+/**
+ * 文章標籤輸入框
+ * - 輸入時從現有標籤中自動完成，方向鍵選擇、Enter 加入、在空白輸入框按退格鍵移除最後一個
+ * - 沒有相符的標籤時可建立新標籤，建立前先填寫英文與中文名稱
+ */
+const PostTagInput: React.FC<PostTagInputProps> = ({ value, onChange }) => {
+  const { t, i18n } = useTranslation();
+  const { tags } = useTags();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [draft, setDraft] = useState<{ name: string; nameZh: string } | null>(null); // 新標籤的名稱，確認後才建立
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listId = useId();
+
+  const tagsBySlug = useMemo(() => new Map(tags.map(tag => [tag.slug, tag])), [tags]);
+  const suggestions = useMemo(
+    () => tags.filter(tag => !value.includes(tag.slug) && matchesTag(tag, query)).slice(0, MAX_SUGGESTIONS),
+    [tags, value, query],
+  );
+  const querySlug = toTagSlug(query);
+  const canCreate = !!querySlug && !tagsBySlug.has(querySlug);
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+  const showOptions = isOpen && !draft && optionCount > 0;
+
+  const labelOf = (slug: string) => {
+    const tag = tagsBySlug.get(slug);
+    return tag ? tagLabel(tag, i18n.language) : slug;
+  };
+
+  const addTag = (slug: string) => {
+    if (!value.includes(slug)) onChange([...value, slug]);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const removeTag = (slug: string) => onChange(value.filter(s => s !== slug));
+
+  // 輸入的文字先放在目前語言的名稱欄位
+  const startCreate = () => {
+    const name = query.trim();
+    setDraft(i18n.language === 'zh-Hant' ? { name: '', nameZh: name } : { name, nameZh: '' });
+    setError(null);
+  };
+
+  const saveDraft = async () => {
+    if (!draft || isSaving) return;
+    const name = draft.name.trim() || draft.nameZh.trim();
+    const slug = toTagSlug(name);
+    if (!slug) {
+      setError(t('tags.nameRequired'));
+      return;
+    }
+    if (tagsBySlug.has(slug)) {
+      addTag(slug);
+      setDraft(null);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const tag = await contentStore.saveTag(slug, { name, nameZh: draft.nameZh.trim() || undefined });
+      if (tag) addTag(tag.slug);
+      setDraft(null);
+    } catch (err) {
+      console.error('建立標籤失敗:', err);
+      setError(err instanceof ApiError && err.message ? err.message : t('tags.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectOption = (index: number) => {
+    if (index < suggestions.length) addTag(suggestions[index].slug);
+    else if (canCreate) startCreate();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && optionCount > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(i => (i + 1) % optionCount);
+    } else if (e.key === 'ArrowUp' && optionCount > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(i => (i - 1 + optionCount) % optionCount);
+    } else if (e.key === 'Enter') {
+      // 不送出整個文章表單
+      e.preventDefault();
+      if (optionCount > 0 && query.trim()) selectOption(Math.min(activeIndex, optionCount - 1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const handleDraftKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      saveDraft();
+    } else if (e.key === 'Escape') {
+      setDraft(null);
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor="postTags" className="block text-sm font-medium text-theme-secondary mb-1">{t('tags.label')}</label>
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 bg-theme-tertiary border border-theme-secondary rounded-md p-2 focus-within:ring-2 focus-within:ring-custom-cyan">
+          {value.map(slug => (
+            <span key={slug} className="inline-flex items-center bg-theme-secondary text-theme-primary text-sm rounded-full pl-3 pr-1 py-0.5">
+              {labelOf(slug)}
+              <button
+                type="button"
+                onClick={() => removeTag(slug)}
+                className="ml-1 p-0.5 rounded-full text-theme-secondary hover:text-custom-cyan transition-colors"
+                aria-label={t('tags.remove', { tag: labelOf(slug) })}
+              >
+                <CloseIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+          <input
+            id="postTags"
+            type="text"
+            value={query}
+            onChange={e => { setQuery(e.target.value); setIsOpen(true); setActiveIndex(0); }}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => setIsOpen(false)}
+            onKeyDown={handleKeyDown}
+            placeholder={value.length === 0 ? t('tags.placeholder') : ''}
+            role="combobox"
+            aria-expanded={showOptions}
+            aria-controls={listId}
+            aria-autocomplete="list"
+            aria-activedescendant={showOptions ? `${listId}-${activeIndex}` : undefined}
+            className="flex-grow min-w-[8rem] bg-transparent text-theme-primary text-sm p-1 placeholder-theme focus:outline-none"
+          />
+        </div>
+        {showOptions && (
+          <ul id={listId} role="listbox" className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-theme-secondary border border-theme-primary rounded-md shadow-xl py-1">
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag.slug}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // 按下時不讓輸入框失焦，否則選單會在點擊生效前關閉
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => addTag(tag.slug)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex justify-between px-3 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-theme-tertiary text-custom-cyan' : 'text-theme-primary'}`}
+              >
+                <span>{tagLabel(tag, i18n.language)}</span>
+                <span className="text-xs text-theme-muted">{tag.slug}</span>
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                id={`${listId}-${suggestions.length}`}
+                role="option"
+                aria-selected={activeIndex === suggestions.length}
+                onMouseDown={e => e.preventDefault()}
+                onClick={startCreate}
+                onMouseEnter={() => setActiveIndex(suggestions.length)}
+                className={`flex items-center px-3 py-2 text-sm cursor-pointer ${activeIndex === suggestions.length ? 'bg-theme-tertiary text-custom-cyan' : 'text-theme-secondary'}`}
+              >
+                <PlusIcon className="w-4 h-4 mr-2" />
+                {t('tags.create', { tag: query.trim() })}
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+      {draft && (
+        <div className="mt-3 p-4 rounded-md border border-theme-primary bg-theme-tertiary/50 space-y-3">
+          <p className="text-sm font-semibold text-theme-primary">{t('tags.newTagTitle')}</p>
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="newTagName" className="block text-xs font-medium text-theme-secondary mb-1">{t('tags.nameLabel')}</label>
+              <input id="newTagName" type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} onKeyDown={handleDraftKeyDown} autoFocus className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="newTagNameZh" className="block text-xs font-medium text-theme-secondary mb-1">{t('tags.nameZhLabel')}</label>
+              <input id="newTagNameZh" type="text" value={draft.nameZh} onChange={e => setDraft({ ...draft, nameZh: e.target.value })} onKeyDown={handleDraftKeyDown} className={inputClass} />
+            </div>
+          </div>
+          <p className="text-xs text-theme-muted">{t('tags.slugPreview', { slug: toTagSlug(draft.name.trim() || draft.nameZh.trim()) || '—' })}</p>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setDraft(null)} className="button-theme-neutral text-sm font-semibold py-1.5 px-4 rounded-md transition-colors">{t('tags.cancelButton')}</button>
+            <button type="button" onClick={saveDraft} disabled={isSaving} className="button-theme-accent text-sm font-semibold py-1.5 px-4 rounded-md transition-all disabled:opacity-50">{t('tags.createButton')}</button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+      <p className="text-xs text-theme-muted mt-1">{t('tags.hint')}</p>
+    </div>
+  );
+};
+
+export default PostTagInput;
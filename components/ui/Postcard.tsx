@@ -7,6 +7,7 @@ import { BlogPostData, Page } from '../../types';
 // 引入圖標組件
 import { ChevronRightIcon } from 'lucide-react';
 import { stripMarkdown } from '../../utils';
+import ResponsiveImage from './ResponsiveImage';
 
 // 組件屬性介面
 interface PostcardProps {
@@ -37,7 +38,9 @@ const Postcard: React.FC<PostcardProps> = ({ post, navigateTo }) => {
     // 使用 'postcard' class 來應用在 index.html 中定義的明信片樣式
     <div className="postcard" onClick={handleCardClick} role="button" tabIndex={0} onKeyDown={(e) => e.key === 'Enter' && handleCardClick()}>
       {/* 背景圖片 */}
-      <img src={post.imageUrl} alt={displayTitle} className="postcard-image" />
+      <div className="postcard-image">
+        <ResponsiveImage src={post.imageUrl} alt={displayTitle} sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw" placeholder={post.imagePlaceholder} fill className="w-full h-full" />
+      </div>
       {/* 漸變遮罩層 */}
       <div className="postcard-overlay" />
       {/* 內容區域 */}
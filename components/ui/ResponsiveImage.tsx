@@ -0,0 +1,75 @@
+import React, { useCallback, useState } from 'react';
+import { cloudinarySrcSet, cloudinaryVariant, isCloudinaryUrl } from '../../src/services/mediaProviders';
+
+// srcset 的候選寬度；src 退回中間尺寸，供不支援 srcset 的瀏覽器使用
+const DEFAULT_WIDTHS = [320, 480, 640, 800, 1024, 1280, 1600, 1920, 2560];
+const FALLBACK_TRANSFORMATION = 'c_limit,w_1024,q_auto,f_auto';
+// 沒有儲存預覽時，以 Cloudinary 產生極小的模糊圖代替
+const PLACEHOLDER_TRANSFORMATION = 'c_limit,w_32,q_auto:low,e_blur:200,f_auto';
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  sizes: string; // 圖片在版面中的顯示寬度，例如 '(min-width: 1200px) 25vw, 100vw'
+  placeholder?: string; // 隨資料儲存的低畫質預覽（data URL）
+  priority?: boolean; // 首屏圖片：立即載入並提高優先權，其餘延遲到接近可視區才載入
+  fill?: boolean; // 填滿已有尺寸的容器；否則高度依圖片比例
+  widths?: number[];
+  className?: string; // 外層容器的 class，fill 時由此決定尺寸
+  imgClassName?: string; // 圖片本身的額外 class（尺寸由元件決定）
+}
+
+/**
+ * 響應式圖片
+ * - Cloudinary 圖片依寬度產生 srcset / sizes，由瀏覽器挑選合適的尺寸；其他網址直接使用原圖
+ * - 載入完成前顯示模糊的低畫質預覽（沒有預覽時顯示閃爍的佔位區塊），完成後淡入
+ * - 未依比例決定高度時，預覽圖先撐開版面，避免瀑布流載入時跳動
+ */
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({
+  src, alt, sizes, placeholder, priority = false, fill = false, widths = DEFAULT_WIDTHS, className = '', imgClassName = '',
+}) => {
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const isLoaded = loadedSrc === src;
+  const isCloudinary = isCloudinaryUrl(src);
+  const placeholderUrl = placeholder || (isCloudinary ? cloudinaryVariant(src, PLACEHOLDER_TRANSFORMATION) : undefined);
+
+  // 已在快取中的圖片可能在綁定 onLoad 前就完成載入
+  const imageRef = useCallback((image: HTMLImageElement | null) => {
+    if (image?.complete && image.naturalWidth > 0) setLoadedSrc(src);
+  }, [src]);
+
+  // 依比例決定高度時，載入前由預覽圖（或固定高度的佔位區塊）佔位，圖片先疊在上方
+  const fillClasses = 'absolute inset-0 w-full h-full object-cover';
+  const flowClasses = 'block w-full h-auto';
+
+  return (
+    <div className={`relative overflow-hidden ${className}`}>
+      {!isLoaded && (placeholderUrl ? (
+        <img
+          src={placeholderUrl}
+          alt=""
+          aria-hidden="true"
+          className={`${fill ? fillClasses : flowClasses} ${imgClassName}`}
+          style={{ filter: 'blur(16px)', transform: 'scale(1.1)' }}
+        />
+      ) : (
+        <div className={`${fill ? 'absolute inset-0' : 'w-full h-64'} bg-theme-tertiary shimmer-bg`} aria-hidden="true" />
+      ))}
+      <img
+        ref={imageRef}
+        src={isCloudinary ? cloudinaryVariant(src, FALLBACK_TRANSFORMATION) : src}
+        srcSet={cloudinarySrcSet(src, widths)}
+        sizes={isCloudinary ? sizes : undefined}
+        alt={alt}
+        loading={priority ? 'eager' : 'lazy'}
+        fetchPriority={priority ? 'high' : undefined}
+        decoding="async"
+        onLoad={() => setLoadedSrc(src)}
+        onError={() => setLoadedSrc(src)}
+        className={`${fill || !isLoaded ? fillClasses : flowClasses} ${imgClassName} transition-opacity duration-500 ${isLoaded ? 'opacity-100' : 'opacity-0'}`}
+      />
+    </div>
+  );
+};
+
+export default ResponsiveImage;
@@ -1,14 +1,16 @@
 
 import { useEffect } from 'react';
 import { useLocation } from 'react-router-dom';
+import { photoBasePath } from '../../src/hooks/usePhotoRoute';
 
 /**
  * A component that scrolls the window to the top on every route change.
  * It also manually controls the browser's scroll restoration to prevent "jumpy" navigation.
+ * Opening or switching photos in the lightbox (/photo/:id) keeps the list's scroll position.
  * This should be placed inside the Router component.
  */
 function ScrollToTop() {
-  const { pathname } = useLocation();
+  const pathname = photoBasePath(useLocation().pathname);
 
   useEffect(() => {
     // This is the definitive fix for the "double refresh" issue.
@@ -8,6 +8,7 @@ import { ACCENT_SOLID_BG_COLOR } from '../../constants';
 // 組件屬性介面
 interface SectionTitleProps {
   titleKey: string; // 標題的翻譯鍵
+  titleOptions?: Record<string, string>; // 標題翻譯的插值參數 (可選)
   subtitleKey?: string; // 副標題的翻譯鍵 (可選)
 }
 
@@ -15,12 +16,12 @@ interface SectionTitleProps {
  * 區塊標題組件。
  * 用於在頁面中創建一個標準化的、帶有裝飾性下劃線的標題。
  */
-const SectionTitle: React.FC<SectionTitleProps> = ({ titleKey, subtitleKey }) => {
+const SectionTitle: React.FC<SectionTitleProps> = ({ titleKey, titleOptions, subtitleKey }) => {
   const { t } = useTranslation();
   return (
     <div className="text-center md:text-left">
       <h2 className="text-3xl md:text-4xl font-bold text-theme-primary relative inline-block">
-        {t(titleKey)}
+        {t(titleKey, titleOptions)}
         {/* 裝飾性下劃線 */}
         <span className={`absolute -bottom-2 left-0 w-16 h-1 ${ACCENT_SOLID_BG_COLOR}`}></span>
       </h2>
@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PostTag } from '../../types';
+import { useTags } from '../../src/hooks/useContentQueries';
+import { tagLabel } from '../../src/services/postTags';
+
+interface TagCloudProps {
+  counts: Map<string, number>; // 每個標籤 slug 的文章數，通常只計算已發布的文章
+  onSelect: (tag: PostTag) => void;
+  activeSlug?: string; // 目前所在的標籤頁
+  limit?: number;
+}
+
+// 依文章數由少到多對應的字級
+const SIZE_CLASSES = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+/**
+ * 標籤雲：顯示有文章的標籤，文章越多字越大
+ * 只保留使用最多的 limit 個標籤，再依名稱排列
+ */
+const TagCloud: React.FC<TagCloudProps> = ({ counts, onSelect, activeSlug, limit = 30 }) => {
+  const { t, i18n } = useTranslation();
+  const { tags } = useTags();
+
+  const entries = useMemo(() => {
+    const used = tags
+      .map(tag => ({ tag, count: counts.get(tag.slug) ?? 0 }))
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+    const min = Math.min(...used.map(entry => entry.count));
+    const range = Math.max(...used.map(entry => entry.count)) - min;
+    // 文章數都相同時一律使用中間的字級
+    const sizeOf = (count: number) =>
+      SIZE_CLASSES[range === 0 ? Math.floor(SIZE_CLASSES.length / 2) : Math.round(((count - min) / range) * (SIZE_CLASSES.length - 1))];
+    return used
+      .map(entry => ({ ...entry, label: tagLabel(entry.tag, i18n.language), size: sizeOf(entry.count) }))
+      .sort((a, b) => a.label.localeCompare(b.label, i18n.language));
+  }, [counts, tags, limit, i18n.language]);
+
+  if (entries.length === 0) return <p className="text-sm text-theme-secondary">{t('tags.empty')}</p>;
+
+  return (
+    <ul className="flex flex-wrap items-baseline gap-x-3 gap-y-2">
+      {entries.map(({ tag, count, label, size }) => (
+        <li key={tag.slug}>
+          <button
+            type="button"
+            onClick={() => onSelect(tag)}
+            className={`${size} font-medium transition-colors hover:text-custom-cyan ${tag.slug === activeSlug ? 'text-custom-cyan' : 'text-theme-secondary'}`}
+            title={t('tags.postCount', { count })}
+            aria-current={tag.slug === activeSlug ? 'page' : undefined}
+          >
+            #{label}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default TagCloud;
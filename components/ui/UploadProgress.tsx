@@ -0,0 +1,63 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { MediaUploadStatus } from '../../src/hooks/useMediaUpload';
+import { formatFileSize } from '../../src/services/imagePreprocess';
+
+interface UploadProgressProps {
+  status: MediaUploadStatus;
+  progress: number;
+  onCancel: () => void;
+  onRetry: () => void;
+  errorMessage?: string; // 失敗時顯示的訊息，預設為通用的上傳失敗
+  originalSize?: number | null; // 有前處理時顯示前後大小
+  processedSize?: number | null;
+}
+
+/**
+ * 上傳進度列，上傳中可取消，失敗時可重試
+ */
+const UploadProgress: React.FC<UploadProgressProps> = ({ status, progress, onCancel, onRetry, errorMessage, originalSize, processedSize }) => {
+  const { t } = useTranslation();
+  const sizes = originalSize != null && processedSize != null && status !== 'error' && (
+    <p className="mt-2 text-xs text-theme-secondary">
+      {t('media.sizeComparison', {
+        original: formatFileSize(originalSize),
+        processed: formatFileSize(processedSize),
+        saved: Math.max(0, Math.round((1 - processedSize / originalSize) * 100)),
+      })}
+    </p>
+  );
+  if (status === 'processing') {
+    return (
+      <div className="mt-2 flex items-center justify-between text-sm text-theme-secondary">
+        <span>{t('media.processing')}</span>
+        <button type="button" onClick={onCancel} className="text-custom-cyan hover:underline">{t('media.cancel')}</button>
+      </div>
+    );
+  }
+  if (status === 'uploading') {
+    return (
+      <div className="mt-2 space-y-1">
+        {sizes}
+        <div className="flex items-center justify-between text-sm text-theme-secondary">
+          <span>{t('media.uploading', { progress })}</span>
+          <button type="button" onClick={onCancel} className="text-custom-cyan hover:underline">{t('media.cancel')}</button>
+        </div>
+        <div className="h-1.5 w-full rounded bg-theme-tertiary overflow-hidden">
+          <div className="h-full bg-custom-cyan transition-all duration-200" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+    );
+  }
+  if (status === 'error') {
+    return (
+      <div className="mt-2 flex items-center justify-between text-sm text-red-500" role="alert">
+        <span>{errorMessage || t('media.uploadFailed')}</span>
+        <button type="button" onClick={onRetry} className="text-custom-cyan hover:underline">{t('media.retry')}</button>
+      </div>
+    );
+  }
+  return sizes || null;
+};
+
+export default UploadProgress;
@@ -0,0 +1,45 @@
+import React, { PointerEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ZoomViewport } from '../../src/hooks/useZoomPan';
+
+interface ZoomMinimapProps {
+  imageUrl: string;
+  viewport: ZoomViewport;
+  onNavigate: (fractionX: number, fractionY: number) => void; // 以圖片上的比例位置為新的可視區中心
+}
+
+/**
+ * 燈箱放大時的小地圖，以方框標示目前可視的範圍，點擊或拖曳可移動到其他位置
+ */
+const ZoomMinimap: React.FC<ZoomMinimapProps> = ({ imageUrl, viewport, onNavigate }) => {
+  const { t } = useTranslation();
+
+  const navigate = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
+  return (
+    <div
+      className="relative w-32 rounded-md overflow-hidden shadow-lg border border-white/30 cursor-crosshair"
+      style={{ touchAction: 'none' }}
+      onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); navigate(e); }}
+      onPointerMove={e => { if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e); }}
+      role="img"
+      aria-label={t('lightbox.minimap')}
+    >
+      <img src={imageUrl} alt="" draggable="false" className="block w-full h-auto opacity-70" />
+      <div
+        className="absolute border-2 border-custom-cyan pointer-events-none"
+        style={{
+          left: `${viewport.left * 100}%`,
+          top: `${viewport.top * 100}%`,
+          width: `${viewport.width * 100}%`,
+          height: `${viewport.height * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
+
+export default ZoomMinimap;
@@ -51,4 +51,7 @@ export const ACCENT_FOCUS_VISIBLE_RING_CLASS = 'focus-visible-ring-custom-cyan';
 // 用於文件選擇器按鈕的背景
 export const ACCENT_FILE_BG_CLASS = 'file-bg-custom-cyan';
 // 用於文件選擇器按鈕的懸停背景
-export const ACCENT_FILE_BG_HOVER_CLASS = 'hover-file-bg-custom-cyan-hover';
\ No newline at end of file
+export const ACCENT_FILE_BG_HOVER_CLASS = 'hover-file-bg-custom-cyan-hover';
+
+// 作品集輪播最多顯示的作品數；精選作品依管理頁排列的順序取前幾張
+export const FEATURED_CAROUSEL_SIZE = 8;
\ No newline at end of file
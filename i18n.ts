@@ -27,7 +27,7 @@ i18n
 
     backend: {
       // 使用 Vite 的環境變數來構建絕對路徑，確保在任何部署環境下都能正確加載
-      loadPath: `${(import.meta as any).env.BASE_URL}locales/{{lng}}/{{ns}}.json`,
+      loadPath: `${import.meta.env.BASE_URL}locales/{{lng}}/{{ns}}.json`,
     },
 
     interpolation: {
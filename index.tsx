@@ -7,6 +7,8 @@ import App from './App';
 import { i18n } from './i18n'; // 初始化 i18next 並導入實例
 import ScrollToTop from './components/ui/ScrollToTop';
 import { AuthProvider } from './src/contexts/AuthContext';
+import { registerServiceWorker } from './src/services/serviceWorker';
+import { isMockApiEnabled, MOCK_API_AVAILABLE } from './src/mocks/config';
 
 // Dynamically create and set a circular favicon from the existing square icon.
 // This is done via JavaScript/Canvas because SVG favicons can't load external images.
@@ -50,6 +52,8 @@ const setCircularFavicon = () => {
 
 // Execute the function to set the favicon
 setCircularFavicon();
+// 註冊 Service Worker 以支援離線瀏覽
+registerServiceWorker();
 // 獲取根 DOM 元素
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -60,16 +64,27 @@ if (!rootElement) {
 // 使用 ReactDOM.createRoot 創建一個 React 根
 const root = ReactDOM.createRoot(rootElement);
 
-// 渲染應用程式
-root.render(
-  <React.Suspense fallback="Loading...">
-    <I18nextProvider i18n={i18n}>
-      <BrowserRouter>
-        <AuthProvider>
-          <ScrollToTop />
-          <App />
-        </AuthProvider>
-      </BrowserRouter>
-    </I18nextProvider>
-  </React.Suspense>
-);
+const start = async () => {
+  // 啟用模擬後端時，先攔截 fetch 再渲染，避免第一批請求打到真正的 API
+  // 以建置時的常數把關，正式建置不會產生模擬後端的 chunk
+  if (MOCK_API_AVAILABLE && isMockApiEnabled()) {
+    const { startMockServer } = await import('./src/mocks/mockServer');
+    startMockServer();
+  }
+
+  // 渲染應用程式
+  root.render(
+    <React.Suspense fallback="Loading...">
+      <I18nextProvider i18n={i18n}>
+        <BrowserRouter>
+          <AuthProvider>
+            <ScrollToTop />
+            <App />
+          </AuthProvider>
+        </BrowserRouter>
+      </I18nextProvider>
+    </React.Suspense>
+  );
+};
+
+start();
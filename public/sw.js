@@ -0,0 +1,129 @@
+/**
+ * Service Worker：讓部落格在離線時仍可瀏覽
+ * - 安裝時預先快取 App Shell 與翻譯檔
+ * - 頁面導覽：網路優先，離線時回傳快取的 index.html（SPA 由前端路由處理）
+ * - 打包後的 JS/CSS、CDN 樣式與字型、翻譯檔：先回傳快取，再於背景更新
+ * - 讀取過的文章 API：網路優先，離線時回傳上次的回應；帶 Authorization 的回應可能含草稿，不寫入快取
+ * - Cloudinary 與站內圖片：快取優先，並限制數量
+ */
+
+// v2：清除舊版可能存有登入者草稿的 API 快取
+const VERSION = 'v2';
+const SHELL_CACHE = `shell-${VERSION}`;
+const STATIC_CACHE = `static-${VERSION}`;
+const API_CACHE = `api-${VERSION}`;
+const IMAGE_CACHE = `images-${VERSION}`;
+const CURRENT_CACHES = [SHELL_CACHE, STATIC_CACHE, API_CACHE, IMAGE_CACHE];
+
+const MAX_IMAGE_ENTRIES = 200;
+const MAX_API_ENTRIES = 100;
+const MAX_SHELL_ENTRIES = 50; // 導覽過的網址，不含預先快取的 App Shell
+
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/images/icon/icon.jpg',
+  '/locales/en/translation.json',
+  '/locales/zh-Hant/translation.json',
+];
+
+// 第三方樣式、字型與模組來源
+const STATIC_HOSTS = ['cdn.jsdelivr.net', 'esm.sh', 'unpkg.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// 清除舊版本的快取
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !CURRENT_CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, MAX_SHELL_ENTRIES).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  if (isPostsApi(url)) {
+    // 登入後的請求只在離線時讀取匿名的快取，不寫入，避免登出後仍能讀到草稿
+    event.respondWith(networkFirst(request, API_CACHE, MAX_API_ENTRIES, !request.headers.has('Authorization')));
+    return;
+  }
+
+  if (request.destination === 'image' && (url.hostname === 'res.cloudinary.com' || (url.origin === self.location.origin && url.pathname.startsWith('/images/')))) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+    return;
+  }
+
+  if (
+    (url.origin === self.location.origin && (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/locales/')))
+    || STATIC_HOSTS.includes(url.hostname)
+  ) {
+    event.respondWith(staleWhileRevalidate(request, STATIC_CACHE));
+  }
+});
+
+// 文章列表、單篇文章與分頁查詢（不含其他寫入或管理端點）
+const isPostsApi = url => /\/content\/posts(\/[^/]+)?$/.test(url.pathname);
+
+// 只快取成功的回應；跨域圖片為 opaque 回應，也一併保存
+const isCacheable = response => response && (response.ok || response.type === 'opaque');
+
+const putInCache = async (cacheName, request, response, maxEntries) => {
+  if (!isCacheable(response)) return;
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+  if (maxEntries) await trimCache(cache, maxEntries);
+};
+
+// 超過上限時刪除最早放入的項目；預先快取的 App Shell 不計入也不刪除
+const trimCache = async (cache, maxEntries) => {
+  const keys = (await cache.keys()).filter(key => !SHELL_URLS.includes(new URL(key.url).pathname));
+  if (keys.length <= maxEntries) return;
+  await Promise.all(keys.slice(0, keys.length - maxEntries).map(key => cache.delete(key)));
+};
+
+const networkFirst = async (request, cacheName, maxEntries, store = true) => {
+  try {
+    const response = await fetch(request);
+    if (store) await putInCache(cacheName, request, response.clone(), maxEntries);
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  await putInCache(cacheName, request, response.clone(), maxEntries);
+  return response;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  const network = fetch(request)
+    .then(async response => {
+      await putInCache(cacheName, request, response.clone());
+      return response;
+    })
+    .catch(() => undefined);
+  return cached || (await network) || Response.error();
+};
@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { AuthService } from '../services/authService';
+import { ApiService } from '../services/api';
+import { outbox } from '../services/outbox';
+import { ApiError, FieldErrors } from '../services/apiErrors';
 import { User, LoginRequest, RegisterRequest, AuthResponse } from '../types/auth';
 
 interface AuthContextType {
@@ -8,6 +11,7 @@ interface AuthContextType {
   isAuthenticated: boolean;
   loading: boolean;
   error: string | null;
+  fieldErrors: FieldErrors; // 後端回傳的欄位錯誤，表單依此標示輸入框
   
   // 方法
   login: (credentials: LoginRequest) => Promise<boolean>;
@@ -28,6 +32,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  // 記錄錯誤訊息與欄位錯誤，供登入、註冊頁顯示
+  const reportError = (error: unknown, fallback: string): void => {
+    setError(error instanceof Error ? error.message : fallback);
+    setFieldErrors(error instanceof ApiError ? error.fieldErrors : {});
+  };
+
+  /**
+   * 註冊令牌刷新：ApiService 收到 401 時以刷新令牌換取新令牌，
+   * 刷新失敗才清除登入狀態
+   */
+  useEffect(() => {
+    ApiService.configureAuth({
+      refresh: async () => {
+        const response = await AuthService.refreshToken();
+        // 佇列中因憑證失效而保留的寫入，換到新令牌後立即重送
+        if (response.token) outbox.resume();
+        return response.token || null;
+      },
+      onAuthFailure: () => {
+        setUser(null);
+        setIsAuthenticated(false);
+      },
+    });
+  }, []);
+
+  // 登入後重送先前因憑證失效而保留在佇列中的寫入
+  useEffect(() => {
+    if (isAuthenticated) outbox.resume();
+  }, [isAuthenticated]);
 
   /**
    * 初始化認證狀態
@@ -73,6 +108,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const login = async (credentials: LoginRequest): Promise<boolean> => {
     setLoading(true);
     setError(null);
+    setFieldErrors({});
     
     try {
       const response: AuthResponse = await AuthService.login(
@@ -86,12 +122,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       return true;
     } catch (error) {
       console.error('Login error in AuthContext:', error);
-      const rawMessage = error instanceof Error ? error.message : '登入失敗';
-      // 將與認證相關的錯誤統一為「用戶名或密碼錯誤」以利前端判斷
-      const normalized = /用戶|密碼|認證|憑證|Invalid|credential/i.test(rawMessage)
-        ? '用戶名或密碼錯誤'
-        : rawMessage;
-      setError(normalized);
+      // ApiError 的訊息已依錯誤代碼在地化（例如 INVALID_CREDENTIALS）
+      reportError(error, '登入失敗');
       return false;
     } finally {
       setLoading(false);
@@ -104,6 +136,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const register = async (userData: RegisterRequest): Promise<boolean> => {
     setLoading(true);
     setError(null);
+    setFieldErrors({});
     
     try {
       const response: AuthResponse = await AuthService.register(userData);
@@ -114,8 +147,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       return true;
     } catch (error) {
       console.error('Registration error in AuthContext:', error);
-      const errorMessage = error instanceof Error ? error.message : '註冊失敗';
-      setError(errorMessage);
+      reportError(error, '註冊失敗');
       return false;
     } finally {
       setLoading(false);
@@ -162,6 +194,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    */
   const clearError = (): void => {
     setError(null);
+    setFieldErrors({});
   };
 
   const value: AuthContextType = {
@@ -169,6 +202,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isAuthenticated,
     loading,
     error,
+    fieldErrors,
     login,
     register,
     logout,
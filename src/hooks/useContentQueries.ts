@@ -0,0 +1,235 @@
+import { useMemo } from 'react';
+import { BlogPostData, Comment, PortfolioAlbum, PortfolioItemData, PostStatus, PostTag } from '../../types';
+import { ApiService } from '../services/api';
+import { toSearchParams } from '../services/listQuery';
+import { isPostPublished } from '../services/postStatus';
+import { ListQuery, PageResponse, PostRevision } from '../types/api';
+import { useQueries, useQuery } from './useQuery';
+import { entriesOfType, isInFlight, useOutbox } from './useOutbox';
+
+// 所有內容查詢的 key，變更後以前綴失效相關快取
+export const queryKeys = {
+  posts: ['posts'] as const,
+  postsPage: (query: ListQuery) => ['posts', 'page', toSearchParams(query)] as const,
+  postFacets: (status?: PostStatus) => ['posts', 'facets', status ?? 'all'] as const,
+  postRevisions: (postId: string) => ['posts', 'revisions', postId] as const, // 在 posts 之下，文章儲存後一併重新驗證
+  portfolio: ['portfolio'] as const,
+  portfolioPage: (query: ListQuery) => ['portfolio', 'page', toSearchParams(query)] as const,
+  portfolioItem: (id: string) => ['portfolio', 'item', id] as const,
+  portfolioFacets: ['portfolio', 'facets'] as const,
+  albums: ['albums'] as const,
+  tags: ['tags'] as const,
+  comments: ['comments'] as const,
+  postComments: (postId: string) => ['comments', 'post', postId] as const,
+  commentCountsPrefix: ['comments', 'counts'] as const,
+  commentCounts: (postIds: string[]) => ['comments', 'counts', postIds.join(',')] as const,
+};
+
+const EMPTY_POSTS: BlogPostData[] = [];
+const EMPTY_PORTFOLIO: PortfolioItemData[] = [];
+const EMPTY_COMMENTS: Comment[] = [];
+const EMPTY_ALBUMS: PortfolioAlbum[] = [];
+const EMPTY_TAGS: PostTag[] = [];
+const EMPTY_REVISIONS: PostRevision[] = [];
+
+// 套用離線佇列中尚未送出的文章編輯與刪除，重新整理或重新驗證後畫面仍一致
+const useQueuedPosts = (posts: BlogPostData[]): BlogPostData[] => {
+  const entries = useOutbox();
+  return useMemo(() => {
+    const inFlight = entries.filter(isInFlight);
+    const deleted = new Set(entriesOfType(inFlight, 'deletePost').map(e => e.op.postId));
+    const updates = new Map(entriesOfType(inFlight, 'updatePost').map(e => [e.op.postId, e.op.payload]));
+    if (deleted.size === 0 && updates.size === 0) return posts;
+    return posts.filter(p => !deleted.has(p.id)).map(p => (updates.has(p.id) ? { ...p, ...updates.get(p.id) } : p));
+  }, [posts, entries]);
+};
+
+const useQueuedPortfolio = (items: PortfolioItemData[]): PortfolioItemData[] => {
+  const entries = useOutbox();
+  return useMemo(() => {
+    const inFlight = entries.filter(isInFlight);
+    const deleted = new Set(entriesOfType(inFlight, 'deletePortfolioItem').map(e => e.op.itemId));
+    const updates = new Map(entriesOfType(inFlight, 'updatePortfolioItem').map(e => [e.op.itemId, e.op.payload]));
+    if (deleted.size === 0 && updates.size === 0) return items;
+    return items.filter(i => !deleted.has(i.id)).map(i => (updates.has(i.id) ? { ...i, ...updates.get(i.id) } : i));
+  }, [items, entries]);
+};
+
+/**
+ * 部落格文章列表（持久化，重新整理後先顯示快取）
+ */
+export const usePosts = () => {
+  const query = useQuery(queryKeys.posts, signal => ApiService.getPosts(signal), { persist: true });
+  return { ...query, posts: useQueuedPosts(query.data ?? EMPTY_POSTS) };
+};
+
+/**
+ * 作品集列表（持久化，重新整理後先顯示快取）
+ * 會下載全部作品，只供管理員的排序與相簿管理使用；公開頁面改用分頁與 facets 查詢
+ */
+export const usePortfolio = () => {
+  const query = useQuery(queryKeys.portfolio, signal => ApiService.getPortfolio(signal), { persist: true });
+  return { ...query, items: useQueuedPortfolio(query.data ?? EMPTY_PORTFOLIO) };
+};
+
+/**
+ * 無限滾動的作品列表：以固定的 pageSize 逐頁請求第 1 到 pageCount 頁再依序接起來
+ * 每一頁各自快取，載入更多時只請求新的一頁；之前有作品新增時可能出現重複的項目，以 id 去除
+ */
+export const usePortfolioPages = (query: Omit<ListQuery, 'page'>, pageCount: number) => {
+  const params = toSearchParams({ ...query, page: 1 });
+  const queries = useMemo(() => Array.from({ length: pageCount }, (_, index) => {
+    const pageQuery: ListQuery = { ...query, page: index + 1 };
+    return {
+      key: queryKeys.portfolioPage(pageQuery),
+      fetcher: (signal: AbortSignal) => ApiService.getPortfolioPage(pageQuery, signal),
+    };
+  }), [params, pageCount]);
+  const pages = useQueries<PageResponse<PortfolioItemData>>(queries);
+
+  // 只接到第一個尚未載入的頁面為止，避免順序錯亂
+  const { items, total, loadedCount } = useMemo(() => {
+    const firstMissing = pages.findIndex(page => page.data === undefined);
+    const loaded = firstMissing === -1 ? pages : pages.slice(0, firstMissing);
+    const seen = new Set<string>();
+    const items = loaded.flatMap(page => page.data!.items).filter(item => {
+      if (seen.has(item.id)) return false;
+      seen.add(item.id);
+      return true;
+    });
+    return { items, total: loaded[loaded.length - 1]?.data?.total ?? 0, loadedCount: loaded.length };
+  }, [pages]);
+  return {
+    items: useQueuedPortfolio(items),
+    total,
+    isLoading: loadedCount === 0 && !pages[0]?.error,
+    // 下一頁失敗時不算載入中，讓呼叫端可以停止請求更多
+    isFetchingMore: loadedCount > 0 && loadedCount < pages.length && !pages[loadedCount].error,
+    error: pages.find(page => page.error)?.error,
+  };
+};
+
+/**
+ * 單張作品，供分享連結直接開啟燈箱時使用；列表中已有這張作品時不必另外請求
+ */
+export const usePortfolioItem = (id: string | undefined, options: { enabled?: boolean } = {}) => {
+  const { enabled = true } = options;
+  return useQuery(
+    queryKeys.portfolioItem(id ?? ''),
+    signal => ApiService.getPortfolioItem(id!, signal),
+    { enabled: enabled && !!id, staleTime: 60_000 },
+  );
+};
+
+/**
+ * 作品集相簿，依排序欄位排列（持久化，重新整理後先顯示快取）
+ */
+export const useAlbums = () => {
+  const query = useQuery(queryKeys.albums, signal => ApiService.getAlbums(signal), { persist: true });
+  const data = query.data ?? EMPTY_ALBUMS;
+  const albums = useMemo(() => [...data].sort((a, b) => a.order - b.order), [data]);
+  return { ...query, albums };
+};
+
+/**
+ * 文章標籤（持久化，重新整理後先顯示快取）
+ */
+export const useTags = () => {
+  const query = useQuery(queryKeys.tags, signal => ApiService.getTags(signal), { persist: true });
+  return { ...query, tags: query.data ?? EMPTY_TAGS };
+};
+
+/**
+ * 文章分頁查詢，換頁時保留上一頁資料直到新資料抵達
+ */
+export const usePostsPage = (query: ListQuery, options: { enabled?: boolean } = {}) => {
+  const result = useQuery(queryKeys.postsPage(query), signal => ApiService.getPostsPage(query, signal), { ...options, keepPreviousData: true });
+  return { ...result, items: useQueuedPosts(result.data?.items ?? EMPTY_POSTS), total: result.data?.total ?? 0 };
+};
+
+/**
+ * 文章總數與各分類、各標籤的文章數，供側邊欄使用
+ */
+export const usePostFacets = (status?: PostStatus) =>
+  useQuery(queryKeys.postFacets(status), signal => ApiService.getPostFacets(status, signal), { staleTime: 60_000 });
+
+/**
+ * 作品篩選用的機身與鏡頭選項
+ */
+export const usePortfolioFacets = () =>
+  useQuery(queryKeys.portfolioFacets, signal => ApiService.getPortfolioFacets(signal), { staleTime: 60_000 });
+
+/**
+ * 文章的修訂紀錄，開啟歷史面板時才載入
+ */
+export const usePostRevisions = (postId: string, options: { enabled?: boolean } = {}) => {
+  const { enabled = true } = options;
+  const query = useQuery(queryKeys.postRevisions(postId), signal => ApiService.getPostRevisions(postId, signal), { enabled });
+  return { ...query, revisions: query.data ?? EMPTY_REVISIONS };
+};
+
+/**
+ * 作品分頁查詢，換頁時保留上一頁資料直到新資料抵達
+ */
+export const usePortfolioPage = (query: ListQuery, options: { enabled?: boolean } = {}) => {
+  const result = useQuery(queryKeys.portfolioPage(query), signal => ApiService.getPortfolioPage(query, signal), { ...options, keepPreviousData: true });
+  return { ...result, items: useQueuedPortfolio(result.data?.items ?? EMPTY_PORTFOLIO), total: result.data?.total ?? 0 };
+};
+
+/**
+ * 單篇文章的留言，於文章頁掛載時才載入；快取可在頁面間重複使用
+ * 離線佇列中的留言會附上同步狀態一併顯示
+ */
+export const useComments = (postId: string | undefined) => {
+  const query = useQuery(
+    queryKeys.postComments(postId ?? ''),
+    signal => ApiService.getCommentsByPost(postId!, signal),
+    { enabled: !!postId, staleTime: 60_000 },
+  );
+  const entries = useOutbox();
+  const comments = useMemo(() => {
+    const base = query.data ?? EMPTY_COMMENTS;
+    const queued = entriesOfType(entries, 'addComment').filter(e => e.op.payload.postId === postId);
+    const deleted = new Set(entriesOfType(entries.filter(isInFlight), 'deleteComment').map(e => e.op.commentId));
+    if (queued.length === 0 && deleted.size === 0) return base;
+    return [
+      ...base.filter(c => !deleted.has(c.id)),
+      ...queued.map(e => ({ ...e.op.preview, id: `outbox-${e.id}`, syncStatus: e.status })),
+    ];
+  }, [query.data, entries, postId]);
+  return { ...query, comments };
+};
+
+/**
+ * 以一次批次請求取得指定文章的留言數，合併到文章資料上
+ * 批次請求失敗時沿用文章本身的 commentsCount
+ */
+export const useCommentCounts = (posts: BlogPostData[]): BlogPostData[] => {
+  const postIds = useMemo(() => posts.map(p => p.id).sort(), [posts]);
+  const counts = useQuery(
+    queryKeys.commentCounts(postIds),
+    signal => ApiService.getCommentCounts(postIds, signal),
+    { enabled: postIds.length > 0, staleTime: 60_000 },
+  ).data;
+  return useMemo(
+    () => counts ? posts.map(p => (p.id in counts ? { ...p, commentsCount: counts[p.id] } : p)) : posts,
+    [posts, counts],
+  );
+};
+
+/**
+ * 全部文章並附上留言數
+ */
+export const usePostsWithCommentCounts = () => {
+  const { posts, ...rest } = usePosts();
+  return { ...rest, posts: useCommentCounts(posts) };
+};
+
+/**
+ * 公開頁面使用的已發布文章
+ * 後端不會回傳草稿給一般訪客，但超級使用者的快取中含有草稿與排程文章，因此仍在前端過濾
+ */
+export const usePublishedPosts = () => {
+  const { posts, ...rest } = usePostsWithCommentCounts();
+  return { ...rest, posts: useMemo(() => posts.filter(post => isPostPublished(post)), [posts]) };
+};
@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+
+export interface DocumentMeta {
+  title: string;
+  description?: string;
+  image?: string;
+  url?: string;
+}
+
+// 設定 <meta> 的內容，回傳還原用的函式；原本沒有的標籤會在還原時移除
+const setMetaTag = (attribute: 'property' | 'name', key: string, content: string): (() => void) => {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  const created = !element;
+  if (!element) {
+    element = document.createElement('meta');
+    element.setAttribute(attribute, key);
+    document.head.appendChild(element);
+  }
+  const previous = element.getAttribute('content');
+  element.setAttribute('content', content);
+  return () => {
+    if (created) element.remove();
+    else element.setAttribute('content', previous ?? '');
+  };
+};
+
+/**
+ * 在元件掛載期間覆寫頁面標題與 Open Graph / Twitter 標籤，卸載或內容改變時還原
+ * 分享按鈕與會執行 JavaScript 的爬蟲會讀到目前照片的資訊；靜態作品另有建置時產生的分享頁
+ * @param meta 為 null 時不做任何變更
+ */
+export const useDocumentMeta = (meta: DocumentMeta | null): void => {
+  const { title, description, image, url } = meta ?? {};
+  useEffect(() => {
+    if (!title) return;
+    const previousTitle = document.title;
+    document.title = `${title} - ${previousTitle}`;
+    const entries: [attribute: 'property' | 'name', key: string, content: string | undefined][] = [
+      ['property', 'og:title', title],
+      ['property', 'og:description', description],
+      ['property', 'og:image', image],
+      ['property', 'og:url', url],
+      ['property', 'og:type', 'article'],
+      ['name', 'twitter:card', image ? 'summary_large_image' : 'summary'],
+      ['name', 'twitter:title', title],
+      ['name', 'twitter:image', image],
+    ];
+    const restores = entries
+      .filter((entry): entry is [attribute: 'property' | 'name', key: string, content: string] => !!entry[2])
+      .map(([attribute, key, content]) => setMetaTag(attribute, key, content));
+    return () => {
+      document.title = previousTitle;
+      restores.forEach(restore => restore());
+    };
+  }, [title, description, image, url]);
+};
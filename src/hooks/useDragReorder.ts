@@ -0,0 +1,82 @@
+import { DragEvent, KeyboardEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+const moveId = (ids: string[], fromId: string, toId: string): string[] => {
+  const from = ids.indexOf(fromId);
+  const to = ids.indexOf(toId);
+  if (from === -1 || to === -1 || from === to) return ids;
+  const next = [...ids];
+  next.splice(from, 1);
+  next.splice(to, 0, fromId);
+  return next;
+};
+
+const sameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * 以原生 HTML5 拖放調整列表順序
+ * - 拖曳經過其他項目時即時預覽新位置，放開後才呼叫 onReorder
+ * - 聚焦項目時可用 Alt + 方向鍵前後移動一格
+ * - 送出後保留新順序，直到 items 換成重新取得的資料
+ */
+export const useDragReorder = <T extends { id: string }>(items: T[], onReorder: (ids: string[]) => void, enabled = true) => {
+  const [order, setOrder] = useState<string[] | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const dropped = useRef(false);
+
+  useEffect(() => { setOrder(null); }, [items]);
+
+  const ids = useMemo(() => order ?? items.map(item => item.id), [order, items]);
+  const orderedItems = useMemo(() => {
+    if (!order) return items;
+    const byId = new Map(items.map(item => [item.id, item]));
+    return order.map(id => byId.get(id)).filter((item): item is T => !!item);
+  }, [order, items]);
+
+  const commit = useCallback((next: string[]) => {
+    setOrder(next);
+    if (!sameOrder(next, items.map(item => item.id))) onReorder(next);
+  }, [items, onReorder]);
+
+  const itemProps = (id: string) => {
+    if (!enabled) return {};
+    return {
+      draggable: true,
+      tabIndex: 0,
+      'aria-grabbed': draggingId === id,
+      onDragStart: (e: DragEvent<HTMLElement>) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', id);
+        dropped.current = false;
+        setDraggingId(id);
+        setOrder(ids);
+      },
+      onDragOver: (e: DragEvent<HTMLElement>) => {
+        if (!draggingId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (id !== draggingId) setOrder(prev => moveId(prev ?? ids, draggingId, id));
+      },
+      onDrop: (e: DragEvent<HTMLElement>) => {
+        if (!draggingId) return;
+        e.preventDefault();
+        dropped.current = true;
+        commit(ids);
+      },
+      // 放在列表外或按 Escape 取消時回到原本的順序
+      onDragEnd: () => {
+        if (!dropped.current) setOrder(null);
+        setDraggingId(null);
+      },
+      onKeyDown: (e: KeyboardEvent<HTMLElement>) => {
+        if (!e.altKey) return;
+        const offset = e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? -1 : e.key === 'ArrowRight' || e.key === 'ArrowDown' ? 1 : 0;
+        const target = ids[ids.indexOf(id) + offset];
+        if (!offset || !target) return;
+        e.preventDefault();
+        commit(moveId(ids, id, target));
+      },
+    };
+  };
+
+  return { items: orderedItems, draggingId, itemProps };
+};
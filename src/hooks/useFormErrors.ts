@@ -0,0 +1,85 @@
+import { useCallback, useRef, useState } from 'react';
+import { ApiError, FieldErrors } from '../services/apiErrors';
+import { FormValues, validateForm } from '../services/formValidation';
+
+/**
+ * 表單錯誤橋接：把前端驗證或後端回傳的欄位錯誤對應到輸入框
+ * - 每個欄位只顯示第一則錯誤，並聚焦第一個有錯的欄位（依 fields 的順序）
+ * - 沒有對應欄位的錯誤顯示在表單層級的 formError
+ * fields 請傳入固定的陣列（例如模組層級常數），避免每次渲染都重建 callback
+ */
+export const useFormErrors = <F extends string>(fields: readonly F[]) => {
+  const [errors, setErrors] = useState<Partial<Record<F, string>>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const inputs = useRef(new Map<F, HTMLElement>());
+
+  /**
+   * 顯示欄位錯誤
+   * @param message 沒有任何欄位可對應時顯示的表單層級訊息
+   * @returns 是否有錯誤落在欄位上
+   */
+  const showErrors = useCallback((fieldErrors: FieldErrors, message: string | null = null): boolean => {
+    const next: Partial<Record<F, string>> = {};
+    fields.forEach(field => {
+      const first = fieldErrors[field]?.[0];
+      if (first) next[field] = first;
+    });
+    const firstInvalid = fields.find(field => next[field]);
+    setErrors(next);
+    setFormError(firstInvalid ? null : message);
+    if (firstInvalid) inputs.current.get(firstInvalid)?.focus();
+    return !!firstInvalid;
+  }, [fields]);
+
+  // 將請求失敗的錯誤對應到表單；非 ApiError 只顯示訊息
+  const showError = useCallback((error: unknown, fallback: string): void => {
+    if (error instanceof ApiError) showErrors(error.fieldErrors, error.message || fallback);
+    else showErrors({}, error instanceof Error ? error.message : fallback);
+  }, [showErrors]);
+
+  /**
+   * 送出前的前端驗證，規則與後端一致
+   * @returns 全部通過時為 true
+   */
+  const validate = useCallback((values: FormValues, options?: Parameters<typeof validateForm>[1]): boolean => {
+    const found = validateForm(values, options);
+    if (Object.keys(found).length === 0) {
+      setErrors({});
+      setFormError(null);
+      return true;
+    }
+    showErrors(found);
+    return false;
+  }, [showErrors]);
+
+  // 使用者修改欄位時清除該欄位的錯誤
+  const clearField = useCallback((field: F) => {
+    setErrors(prev => {
+      if (!prev[field]) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+    setFormError(null);
+  }, []);
+
+  const clearAll = useCallback(() => {
+    setErrors({});
+    setFormError(null);
+  }, []);
+
+  // 綁定到輸入框：註冊聚焦用的 ref 與無障礙屬性
+  const fieldProps = (field: F, id: string) => ({
+    ref: (el: HTMLElement | null) => {
+      if (el) inputs.current.set(field, el);
+      else inputs.current.delete(field);
+    },
+    'aria-invalid': errors[field] ? true : undefined,
+    'aria-describedby': errors[field] ? `${id}-error` : undefined,
+  });
+
+  // 有錯誤的欄位以紅框標示
+  const borderClass = (field: F) => (errors[field] ? 'border-red-500' : 'border-theme-secondary');
+
+  return { errors, formError, setFormError, showErrors, showError, validate, clearField, clearAll, fieldProps, borderClass };
+};
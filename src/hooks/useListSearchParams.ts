@@ -0,0 +1,62 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { SortOrder } from '../types/api';
+
+const SORT_ORDERS: SortOrder[] = ['date-desc', 'date-asc', 'title-asc', 'title-desc', 'views-desc', 'views-asc', 'category-asc', 'category-desc', 'custom'];
+
+interface ListSearchParamDefaults {
+  sort?: SortOrder;
+  pageSize?: number;
+  category?: string;
+}
+
+/**
+ * 以網址參數 ?page=&size=&sort=&category=&q=&camera=&lens=&status= 保存列表狀態
+ * 重新整理或分享連結時會回到相同的頁面與排序
+ */
+export const useListSearchParams = (defaults: ListSearchParamDefaults = {}) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { sort: defaultSort = 'date-desc', pageSize: defaultPageSize = 10, category: defaultCategory = 'all' } = defaults;
+
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const pageSize = Math.max(1, parseInt(searchParams.get('size') || String(defaultPageSize), 10) || defaultPageSize);
+  const rawSort = searchParams.get('sort') as SortOrder | null;
+  const sort = rawSort && SORT_ORDERS.includes(rawSort) ? rawSort : defaultSort;
+  const category = searchParams.get('category') || defaultCategory;
+  const search = searchParams.get('q') || '';
+  const camera = searchParams.get('camera') || '';
+  const lens = searchParams.get('lens') || '';
+  const status = searchParams.get('status') || '';
+
+  // 更新參數；除了換頁之外的變更都回到第一頁
+  const update = useCallback((changes: Record<string, string | number | null>, resetPage = true) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === '') next.delete(key);
+        else next.set(key, String(value));
+      });
+      if (resetPage) next.set('page', '1');
+      return next;
+    });
+  }, [setSearchParams]);
+
+  return useMemo(() => ({
+    page,
+    pageSize,
+    sort,
+    category,
+    search,
+    camera,
+    lens,
+    status,
+    setPage: (newPage: number) => update({ page: newPage }, false),
+    setPageSize: (newSize: number) => update({ size: newSize }),
+    setSort: (newSort: SortOrder) => update({ sort: newSort }),
+    setCategory: (newCategory: string) => update({ category: newCategory === defaultCategory ? null : newCategory }),
+    setSearch: (term: string) => update({ q: term.trim() || null }),
+    setCamera: (value: string) => update({ camera: value || null }),
+    setLens: (value: string) => update({ lens: value || null }),
+    setStatus: (value: string) => update({ status: value || null }),
+  }), [page, pageSize, sort, category, search, camera, lens, status, update, defaultCategory]);
+};
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '../services/apiErrors';
+import { imagePreprocessor, loadPreprocessOptions, PreprocessOptions, savePreprocessOptions } from '../services/imagePreprocess';
+import { mediaService, MediaUploadOptions } from '../services/mediaService';
+
+export type MediaUploadStatus = 'idle' | 'processing' | 'uploading' | 'success' | 'error';
+
+export interface MediaUploadState {
+  status: MediaUploadStatus;
+  progress: number; // 0–100
+  url: string | null;
+  placeholder: string | null; // 前處理產生的低畫質預覽，與圖片網址一起儲存
+  error: unknown;
+  originalSize: number | null; // 前處理前後的檔案大小，未前處理時為 null
+  processedSize: number | null;
+}
+
+const IDLE: MediaUploadState = { status: 'idle', progress: 0, url: null, placeholder: null, error: null, originalSize: null, processedSize: null };
+
+interface UseMediaUploadOptions extends Pick<MediaUploadOptions, 'retries'> {
+  preprocess?: boolean; // 上傳前先縮小並重新編碼，設定會記在 localStorage
+}
+
+/**
+ * 單一檔案的上傳狀態，提供進度、取消與重試
+ * 元件卸載時自動取消進行中的上傳
+ */
+export const useMediaUpload = ({ preprocess = false, ...options }: UseMediaUploadOptions = {}) => {
+  const [state, setState] = useState<MediaUploadState>(IDLE);
+  const [preprocessOptions, setPreprocessOptionsState] = useState<PreprocessOptions>(loadPreprocessOptions);
+  const controllerRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<File | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * 上傳檔案；新的上傳會取消前一次
+   * @returns 上傳後的網址，失敗或被取消時為 null
+   */
+  const upload = useCallback(async (file: File): Promise<string | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    fileRef.current = file;
+    setState({ ...IDLE, status: preprocess ? 'processing' : 'uploading' });
+    try {
+      if (preprocess) {
+        const processed = await imagePreprocessor.process(file, preprocessOptions, controller.signal);
+        file = processed.file;
+        setState({ ...IDLE, status: 'uploading', originalSize: processed.originalSize, processedSize: processed.processedSize, placeholder: processed.placeholder ?? null });
+      }
+      const { url } = await mediaService.upload(file, {
+        ...options,
+        signal: controller.signal,
+        onProgress: progress => setState(s => (controllerRef.current === controller ? { ...s, progress } : s)),
+      });
+      if (controllerRef.current === controller) setState(s => ({ ...s, status: 'success', progress: 100, url }));
+      return url;
+    } catch (error) {
+      if (controllerRef.current === controller) {
+        setState(s => (isAbortError(error) ? IDLE : { ...s, status: 'error', progress: 0, url: null, error }));
+      }
+      if (!isAbortError(error)) console.error('Media upload failed:', error);
+      return null;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, [options.retries, preprocess, preprocessOptions]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState(IDLE);
+  }, []);
+
+  // 以上一次選擇的檔案重新上傳
+  const retry = useCallback(() => (fileRef.current ? upload(fileRef.current) : Promise.resolve(null)), [upload]);
+
+  const reset = useCallback(() => {
+    cancel();
+    fileRef.current = null;
+  }, [cancel]);
+
+  // 更新前處理設定，下一次上傳生效
+  const setPreprocessOptions = useCallback((next: PreprocessOptions) => {
+    setPreprocessOptionsState(next);
+    savePreprocessOptions(next);
+  }, []);
+
+  return {
+    ...state,
+    isUploading: state.status === 'processing' || state.status === 'uploading',
+    upload,
+    cancel,
+    retry,
+    reset,
+    preprocessOptions,
+    setPreprocessOptions,
+  };
+};
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+/**
+ * 目前瀏覽器是否連上網路
+ */
+export const useOnlineStatus = (): boolean =>
+  useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
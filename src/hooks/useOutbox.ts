@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import { outbox, OutboxEntry, OutboxOperation, OutboxOperationType } from '../services/outbox';
+
+const subscribe = (listener: () => void) => outbox.subscribe(listener);
+const getSnapshot = () => outbox.getEntries();
+
+/**
+ * 訂閱離線寫入佇列中的所有項目
+ */
+export const useOutbox = (): OutboxEntry[] => useSyncExternalStore(subscribe, getSnapshot);
+
+// 取出指定類型的項目，並收窄 op 的型別
+export const entriesOfType = <K extends OutboxOperationType>(entries: OutboxEntry[], type: K) =>
+  entries.filter((e): e is OutboxEntry<Extract<OutboxOperation, { type: K }>> => e.op.type === type);
+
+// 尚未送出（或正在送出）的項目；失敗與衝突的項目不再視為即將生效
+export const isInFlight = (entry: OutboxEntry) => entry.status === 'pending' || entry.status === 'sending';
@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+// 燈箱的網址：/portfolio/photo/:photoId 與 /portfolio/album/:slug/photo/:photoId
+const PHOTO_SEGMENT = /\/photo\/([^/]+)\/?$/;
+
+export const photoIdFromPath = (pathname: string): string | undefined => {
+  const match = PHOTO_SEGMENT.exec(pathname);
+  return match ? decodeURIComponent(match[1]) : undefined;
+};
+
+// 去掉照片段落後的列表網址，例如 /portfolio/album/street/photo/1 → /portfolio/album/street
+export const photoBasePath = (pathname: string): string => pathname.replace(PHOTO_SEGMENT, '') || '/';
+
+export const photoPath = (basePath: string, photoId: string): string =>
+  `${basePath.replace(/\/$/, '')}/photo/${encodeURIComponent(photoId)}`;
+
+interface PhotoRouteState {
+  lightboxFrom?: string; // 由列表開啟燈箱時記下，關閉時以上一頁返回
+}
+
+/**
+ * 以網址控制燈箱：開啟時新增一筆歷史紀錄，切換照片時取代目前的紀錄
+ * 因此瀏覽器的上一頁會直接關閉燈箱；由分享連結進入時改為導向列表頁
+ * 篩選與排序的查詢參數在開啟、切換與關閉時都會保留
+ */
+export const usePhotoRoute = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const photoId = photoIdFromPath(location.pathname);
+  const basePath = photoBasePath(location.pathname);
+  const state = location.state as PhotoRouteState | null;
+
+  const openPhoto = useCallback((id: string) => {
+    navigate({ pathname: photoPath(basePath, id), search: location.search }, { state: { lightboxFrom: basePath } satisfies PhotoRouteState });
+  }, [navigate, basePath, location.search]);
+
+  const showPhoto = useCallback((id: string) => {
+    navigate({ pathname: photoPath(basePath, id), search: location.search }, { replace: true, state });
+  }, [navigate, basePath, location.search, state]);
+
+  const closePhoto = useCallback(() => {
+    if (state?.lightboxFrom === basePath) navigate(-1);
+    else navigate({ pathname: basePath, search: location.search }, { replace: true });
+  }, [navigate, basePath, location.search, state]);
+
+  return { photoId, openPhoto, showPhoto, closePhoto };
+};
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BlogPostData, PostStatus } from '../../types';
+import { ApiService } from '../services/api';
+import { loadLocalAutosave, removeLocalAutosave, saveLocalAutosave } from '../services/autosaveStorage';
+import { effectivePostStatus } from '../services/postStatus';
+import { PostAutosave, PostAutosavePayload } from '../types/api';
+
+export type PostDraftFields = PostAutosavePayload;
+
+export const EMPTY_POST_DRAFT: PostDraftFields = { title: '', titleZh: '', content: '', contentZh: '', categoryKey: '', imageUrl: '' };
+
+export const NEW_POST_AUTOSAVE_KEY = 'post:new';
+
+const LOCAL_INTERVAL_MS = 5_000;
+const SERVER_INTERVAL_MS = 30_000;
+
+const FIELD_KEYS = Object.keys(EMPTY_POST_DRAFT) as (keyof PostDraftFields)[];
+
+export const sameDraftFields = (a: PostDraftFields, b: PostDraftFields): boolean => FIELD_KEYS.every(key => a[key] === b[key]);
+
+export const toPostDraftFields = (post: BlogPostData): PostDraftFields => ({
+  title: post.title || '',
+  titleZh: post.titleZh || '',
+  content: post.content || '',
+  contentZh: post.contentZh || '',
+  categoryKey: post.categoryKey || '',
+  imageUrl: post.imageUrl,
+});
+
+// 標籤與發布設定不寫入自動儲存，但仍算是未儲存的變更，離開頁面前要確認
+export interface PostSettingsFields {
+  tags: string[];
+  status: PostStatus;
+  publishAt: string;
+}
+
+export const EMPTY_POST_SETTINGS: PostSettingsFields = { tags: [], status: 'draft', publishAt: '' };
+
+// 排程時間已過的文章視為已發布，與編輯頁填入表單的值一致
+export const toPostSettingsFields = (post: BlogPostData): PostSettingsFields => ({
+  tags: post.tags ?? [],
+  status: effectivePostStatus(post),
+  publishAt: post.publishAt || '',
+});
+
+export const samePostSettings = (a: PostSettingsFields, b: PostSettingsFields): boolean =>
+  a.status === b.status && a.publishAt === b.publishAt
+  && a.tags.length === b.tags.length && a.tags.every((tag, index) => tag === b.tags[index]);
+
+const pickDraftFields = ({ savedAt: _savedAt, ...fields }: PostAutosave): PostDraftFields => fields;
+
+interface UsePostAutosaveOptions {
+  storageKey: string; // 本機備份的鍵：新文章為 NEW_POST_AUTOSAVE_KEY，編輯時為 'post:<id>'
+  postId?: string; // 文章已有 id 時另外存一份到後端，換裝置也能還原
+  fields: PostDraftFields; // 目前表單的內容
+  saved: PostDraftFields; // 最後儲存的版本，用來判斷是否有未儲存的變更
+}
+
+/**
+ * 文章編輯器的自動儲存
+ * - 內容與最後儲存的版本不同時，每 5 秒寫入 IndexedDB，離開分頁時也會寫入一次
+ * - 有 postId 時每 30 秒同步一份到後端；離線或失敗時等下一輪再送
+ * - 開啟頁面時讀取本機與後端較新的一份，和儲存的版本不同就交由頁面詢問是否還原；
+ *   使用者回應之前暫停自動儲存，以免覆蓋待還原的內容
+ * - 表單與儲存的版本相同時只是不寫入，不會刪除備份（表單可能是被外部重設的）；
+ *   備份只在 clear()（文章已儲存）或 discard()（放棄還原）時刪除
+ */
+export const usePostAutosave = ({ storageKey, postId, fields, saved }: UsePostAutosaveOptions) => {
+  const [recovered, setRecovered] = useState<PostAutosave | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const fieldsRef = useRef(fields);
+  const savedRef = useRef(saved);
+  fieldsRef.current = fields;
+  savedRef.current = saved;
+  const lastLocal = useRef<PostDraftFields | null>(null);
+  const lastServer = useRef<PostDraftFields | null>(null);
+  const isCleared = useRef(false);
+
+  const removeAutosaves = useCallback(() => {
+    lastLocal.current = null;
+    lastServer.current = null;
+    removeLocalAutosave(storageKey);
+    if (postId) ApiService.deletePostAutosave(postId).catch(() => undefined);
+  }, [storageKey, postId]);
+
+  // 讀取先前的自動儲存
+  useEffect(() => {
+    const controller = new AbortController();
+    let cancelled = false;
+    isCleared.current = false;
+    setIsReady(false);
+    setRecovered(null);
+    Promise.all([
+      loadLocalAutosave(storageKey),
+      postId ? ApiService.getPostAutosave(postId, controller.signal).catch(() => null) : Promise.resolve(null),
+    ]).then(([local, remote]) => {
+      if (cancelled) return;
+      const latest = [local, remote]
+        .filter((autosave): autosave is PostAutosave => !!autosave)
+        .sort((a, b) => b.savedAt - a.savedAt)[0];
+      if (latest && !sameDraftFields(pickDraftFields(latest), savedRef.current)) setRecovered(latest);
+      else if (latest) removeAutosaves();
+      setIsReady(true);
+    });
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [storageKey, postId, removeAutosaves]);
+
+  const saveLocal = useCallback(() => {
+    if (isCleared.current) return;
+    const current = fieldsRef.current;
+    if (sameDraftFields(current, savedRef.current)) return;
+    if (lastLocal.current && sameDraftFields(lastLocal.current, current)) return;
+    const savedAt = Date.now();
+    lastLocal.current = current;
+    saveLocalAutosave(storageKey, { ...current, savedAt });
+    setLastSavedAt(savedAt);
+  }, [storageKey]);
+
+  const saveServer = useCallback(() => {
+    if (isCleared.current || !postId || !navigator.onLine) return;
+    const current = fieldsRef.current;
+    if (sameDraftFields(current, savedRef.current)) return;
+    if (lastServer.current && sameDraftFields(lastServer.current, current)) return;
+    ApiService.savePostAutosave(postId, current)
+      .then(() => { lastServer.current = current; })
+      .catch(() => undefined);
+  }, [postId]);
+
+  useEffect(() => {
+    if (!isReady || recovered) return;
+    const localTimer = setInterval(saveLocal, LOCAL_INTERVAL_MS);
+    const serverTimer = postId ? setInterval(saveServer, SERVER_INTERVAL_MS) : undefined;
+    const handleHide = () => { if (document.visibilityState === 'hidden') saveLocal(); };
+    window.addEventListener('pagehide', saveLocal);
+    document.addEventListener('visibilitychange', handleHide);
+    return () => {
+      clearInterval(localTimer);
+      clearInterval(serverTimer);
+      window.removeEventListener('pagehide', saveLocal);
+      document.removeEventListener('visibilitychange', handleHide);
+    };
+  }, [isReady, recovered, postId, saveLocal, saveServer]);
+
+  // 套用待還原的內容，由頁面寫回表單；備份保留到下次自動儲存時更新
+  const restore = useCallback((): PostDraftFields | null => {
+    if (!recovered) return null;
+    setRecovered(null);
+    return pickDraftFields(recovered);
+  }, [recovered]);
+
+  const discard = useCallback(() => {
+    setRecovered(null);
+    removeAutosaves();
+  }, [removeAutosaves]);
+
+  // 成功儲存文章後呼叫：刪除備份並停止自動儲存
+  const clear = useCallback(() => {
+    isCleared.current = true;
+    removeAutosaves();
+  }, [removeAutosaves]);
+
+  return {
+    recovered,
+    isDirty: !sameDraftFields(fields, saved),
+    lastSavedAt,
+    restore,
+    discard,
+    clear,
+  };
+};
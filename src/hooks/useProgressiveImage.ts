@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * 先顯示 previewUrl，enabled 後在背景載入 fullUrl，載入完成才切換，避免放大時畫面閃白
+ * 兩者相同（例如非 Cloudinary 的圖片）時不另外載入；載入失敗則維持預覽圖
+ */
+export const useProgressiveImage = (previewUrl: string, fullUrl: string, enabled: boolean) => {
+  const [loadedUrl, setLoadedUrl] = useState<string | null>(null);
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const isLoaded = loadedUrl === fullUrl;
+  const shouldLoad = enabled && fullUrl !== previewUrl && !isLoaded && failedUrl !== fullUrl;
+
+  useEffect(() => {
+    if (!shouldLoad) return;
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => { if (!cancelled) setLoadedUrl(fullUrl); };
+    image.onerror = () => { if (!cancelled) setFailedUrl(fullUrl); };
+    image.src = fullUrl;
+    return () => { cancelled = true; };
+  }, [shouldLoad, fullUrl]);
+
+  return { src: isLoaded ? fullUrl : previewUrl, isLoadingFull: shouldLoad };
+};
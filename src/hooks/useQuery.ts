@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { queryClient, hashKey, QueryFetcher, QueryKey, QueryOptions, QueryState } from '../services/queryClient';
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  isLoading: boolean; // 尚無任何資料且正在取得
+  isPreviousData: boolean; // 目前顯示的是前一個 key 的資料（keepPreviousData）
+  refetch: () => Promise<T>;
+}
+
+/**
+ * 訂閱查詢快取中的一個 key
+ * 掛載時若資料不存在或已過期，會在背景取得；已有快取時先回傳快取內容
+ * fetcher 收到的 AbortSignal 會在元件卸載或切換 key 後取消請求
+ */
+export const useQuery = <T,>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options: QueryOptions & { enabled?: boolean; keepPreviousData?: boolean } = {},
+): UseQueryResult<T> => {
+  const hash = hashKey(key);
+  const { enabled = true, staleTime, persist, keepPreviousData = false } = options;
+
+  // 保留最新的 fetcher，避免每次渲染都重新註冊
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback((listener: () => void) => queryClient.subscribe(key, listener), [hash]);
+  const getSnapshot = useCallback(() => queryClient.getState<T>(key), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+    queryClient.ensureQuery(key, signal => fetcherRef.current(signal), { staleTime, persist });
+  }, [hash, enabled, staleTime, persist]);
+
+  const refetch = useCallback(() => queryClient.fetchQuery<T>(key, signal => fetcherRef.current(signal)), [hash]);
+
+  // 切換 key（例如換頁）時先保留上一頁的資料，避免畫面閃爍
+  const previousDataRef = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) previousDataRef.current = state.data;
+  const isPreviousData = keepPreviousData && state.data === undefined && previousDataRef.current !== undefined;
+  const data = isPreviousData ? previousDataRef.current : state.data;
+
+  return {
+    ...state,
+    data,
+    isLoading: data === undefined && (state.isFetching || (enabled && state.updatedAt === 0 && !state.error)),
+    isPreviousData,
+    refetch,
+  };
+};
+
+export interface QueryDescriptor<T> {
+  key: QueryKey;
+  fetcher: QueryFetcher<T>;
+}
+
+/**
+ * 同時訂閱多個 key，例如無限滾動已載入的每一頁；每個 key 各自快取與重新驗證
+ * 回傳的陣列與 queries 順序相同，任一查詢的狀態改變時才會換成新的陣列
+ */
+export const useQueries = <T,>(
+  queries: QueryDescriptor<T>[],
+  options: QueryOptions & { enabled?: boolean } = {},
+): QueryState<T>[] => {
+  const hashes = queries.map(query => hashKey(query.key)).join('\n');
+  const { enabled = true, staleTime, persist } = options;
+
+  const queriesRef = useRef(queries);
+  queriesRef.current = queries;
+
+  const subscribe = useCallback((listener: () => void) => {
+    const unsubscribes = queriesRef.current.map(query => queryClient.subscribe(query.key, listener));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [hashes]);
+  const snapshotRef = useRef<QueryState<T>[]>([]);
+  const getSnapshot = useCallback(() => {
+    const next = queriesRef.current.map(query => queryClient.getState<T>(query.key));
+    const previous = snapshotRef.current;
+    if (next.length === previous.length && next.every((state, index) => state === previous[index])) return previous;
+    snapshotRef.current = next;
+    return next;
+  }, [hashes]);
+  const states = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+    queriesRef.current.forEach(query => {
+      queryClient.ensureQuery(query.key, signal => query.fetcher(signal), { staleTime, persist });
+    });
+  }, [hashes, enabled, staleTime, persist]);
+
+  return states;
+};
@@ -0,0 +1,30 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { useTranslation } from 'react-i18next';
+import { UserProfile } from '../../types';
+import { Store } from '../stores/createStore';
+import { uiStore, UiState } from '../stores/uiStore';
+import { sessionStore, SessionState } from '../stores/sessionStore';
+import { contentStore, ContentState } from '../stores/contentStore';
+
+/**
+ * 訂閱 store 中的一部分狀態；selector 應回傳原始值或 store 內既有的參考，
+ * 只有選到的值改變時元件才會重新渲染
+ */
+export const useStore = <T extends object, S>(store: Store<T>, selector: (state: T) => S): S =>
+  useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+
+export const useUiStore = <S,>(selector: (state: UiState) => S): S => useStore(uiStore, selector);
+
+export const useSessionStore = <S,>(selector: (state: SessionState) => S): S => useStore(sessionStore, selector);
+
+export const useContentStore = <S,>(selector: (state: ContentState) => S): S => useStore(contentStore, selector);
+
+/**
+ * 目前使用者的個人資料；未登入時顯示名稱依語言切換
+ */
+export const useUserProfile = (): UserProfile => {
+  const { t } = useTranslation();
+  const profile = useSessionStore(s => s.profile);
+  const fallbackName = t('sidebar.profileName');
+  return useMemo(() => (profile.username ? profile : { ...profile, username: fallbackName }), [profile, fallbackName]);
+};
@@ -0,0 +1,37 @@
+import { useCallback, useContext, useEffect, useRef } from 'react';
+import { UNSAFE_NavigationContext } from 'react-router-dom';
+
+/**
+ * 有未儲存的變更時，離開頁面前先確認
+ * - 站內導覽：BrowserRouter 沒有 useBlocker，改為攔截 navigator 的 push / replace / go（連結與 navigate() 都會經過）
+ * - 關閉分頁或重新整理：beforeunload
+ * 瀏覽器的上一頁按鈕在歷史紀錄改變後才會通知，無法攔截，內容仍有自動儲存可以還原
+ * @returns allowNavigation，儲存成功後呼叫，之後的導覽不再詢問
+ */
+export const useUnsavedChangesGuard = (when: boolean, message: string) => {
+  const { navigator } = useContext(UNSAFE_NavigationContext);
+  const isAllowed = useRef(false);
+
+  useEffect(() => {
+    if (!when) return;
+    const confirmLeave = () => isAllowed.current || window.confirm(message);
+    const { push, replace, go } = navigator;
+    navigator.push = (...args: Parameters<typeof push>) => { if (confirmLeave()) push(...args); };
+    navigator.replace = (...args: Parameters<typeof replace>) => { if (confirmLeave()) replace(...args); };
+    navigator.go = (delta: number) => { if (confirmLeave()) go(delta); };
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (isAllowed.current) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      navigator.push = push;
+      navigator.replace = replace;
+      navigator.go = go;
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [when, message, navigator]);
+
+  return useCallback(() => { isAllowed.current = true; }, []);
+};
@@ -0,0 +1,85 @@
+import { useEffect } from 'react';
+import { uiStore } from '../stores/uiStore';
+
+/**
+ * 監聽視窗大小與捲動位置並寫入 uiStore。
+ * 呼叫端本身不訂閱這些狀態，捲動時只有用到對應欄位的元件會重新渲染。
+ */
+export const useViewportTracking = (): void => {
+  // Effect for handling window resize events to update view-related states.
+  useEffect(() => {
+    const handleResize = () => {
+      const isMobileView = window.innerWidth < 1024;
+      uiStore.setState(s => ({
+        isMobileView,
+        isLandscape: isMobileView && window.matchMedia("(orientation: landscape)").matches,
+        // Close mobile sidebar on resize to desktop
+        isSidebarOpen: isMobileView ? s.isSidebarOpen : false,
+      }));
+    };
+
+    handleResize(); // Initial check on mount
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Effect for handling scroll events, throttled for performance.
+  useEffect(() => {
+    let ticking = false;
+    let lastScrollY = 0;
+
+    const handleScroll = () => {
+      const currentScrollY = window.scrollY;
+      const { isMobileView, isMobileHeaderVisible } = uiStore.getState();
+
+      // Update header visibility based on scroll direction on mobile
+      let headerVisible = isMobileHeaderVisible;
+      if (!isMobileView || currentScrollY < 50) {
+        headerVisible = true; // Always visible on desktop
+      } else if (currentScrollY - lastScrollY > 5) {
+        headerVisible = false;
+      } else if (currentScrollY - lastScrollY < -5) {
+        headerVisible = true;
+      }
+
+      uiStore.setState({
+        isMobileHeaderVisible: headerVisible,
+        showBackToTop: currentScrollY > 400,
+        isScrolled: currentScrollY > 50,
+      });
+
+      lastScrollY = currentScrollY <= 0 ? 0 : currentScrollY;
+      ticking = false;
+    };
+
+    const throttledScrollHandler = () => {
+      if (!ticking) {
+        window.requestAnimationFrame(handleScroll);
+        ticking = true;
+      }
+    };
+
+    window.addEventListener('scroll', throttledScrollHandler, { passive: true });
+
+    // Initial call to set states correctly on mount
+    throttledScrollHandler();
+
+    return () => {
+      window.removeEventListener('scroll', throttledScrollHandler);
+    };
+  }, []);
+
+  // 行動版側邊欄開啟時鎖住頁面捲動
+  useEffect(() => {
+    const lockScroll = () => {
+      const { isMobileView, isSidebarOpen } = uiStore.getState();
+      document.body.style.overflow = isMobileView && isSidebarOpen ? 'hidden' : '';
+    };
+    lockScroll();
+    const unsubscribe = uiStore.subscribe(lockScroll);
+    return () => {
+      unsubscribe();
+      document.body.style.overflow = '';
+    };
+  }, []);
+};
@@ -0,0 +1,268 @@
+import { PointerEvent, useCallback, useEffect, useRef, useState } from 'react';
+
+export interface ZoomState {
+  scale: number;
+  x: number; // 相對於可視區中心的平移（px）
+  y: number;
+}
+
+// 目前可視範圍在圖片上的位置，皆為 0~1 的比例
+export interface ZoomViewport {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+const ZOOM_STEP = 1.5;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP = 10; // 移動距離在此之內視為點擊
+const SWIPE_THRESHOLD = 10000; // 與原本的拖曳換頁相同：位移 × 速度（px/s）
+
+const IDENTITY: ZoomState = { scale: 1, x: 0, y: 0 };
+
+const clampNumber = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface Point { x: number; y: number; }
+
+interface Gesture {
+  start: Point;
+  startZoom: ZoomState;
+  pinchDistance?: number;
+  pinchCenter?: Point;
+  isMultiTouch: boolean; // 曾出現雙指時不再當作點擊或換頁
+  lastX: number;
+  lastTime: number;
+  velocityX: number;
+}
+
+interface UseZoomPanOptions {
+  resetKey: string; // 改變時（例如切換照片）回到原尺寸
+  onSwipe: (direction: 1 | -1) => void;
+}
+
+/**
+ * 燈箱圖片的縮放與平移
+ * - 雙指縮放、雙擊（點兩下）放大 / 還原、Ctrl 或 ⌘ + 滾輪縮放（觸控板的雙指縮放也會送出這種事件）
+ * - 放大後拖曳或滾輪平移，圖片邊緣不會離開可視區
+ * - 未放大時單指水平拖曳即為換頁的滑動；放大中或雙指操作時不會觸發換頁
+ * 手勢以 Pointer Events 處理，surfaceRef 為接收手勢的區域，imageRef 為套用變換的圖片
+ */
+export const useZoomPan = ({ resetKey, onSwipe }: UseZoomPanOptions) => {
+  const [zoom, setZoomState] = useState<ZoomState>(IDENTITY);
+  const [isGesturing, setIsGesturing] = useState(false);
+  const zoomRef = useRef(zoom);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<Gesture | null>(null);
+  const lastTap = useRef({ time: 0, x: 0, y: 0 });
+
+  const setZoom = useCallback((next: ZoomState) => {
+    zoomRef.current = next;
+    setZoomState(next);
+  }, []);
+
+  useEffect(() => { setZoom(IDENTITY); }, [resetKey, setZoom]);
+
+  // 限制倍率與平移範圍；縮回原尺寸時歸零
+  const clamp = useCallback((next: ZoomState): ZoomState => {
+    const image = imageRef.current;
+    const surface = surfaceRef.current;
+    const scale = clampNumber(next.scale, 1, MAX_ZOOM);
+    if (scale === 1 || !image || !surface) return IDENTITY;
+    const maxX = Math.max(0, (image.offsetWidth * scale - surface.clientWidth) / 2);
+    const maxY = Math.max(0, (image.offsetHeight * scale - surface.clientHeight) / 2);
+    return { scale, x: clampNumber(next.x, -maxX, maxX), y: clampNumber(next.y, -maxY, maxY) };
+  }, []);
+
+  // 畫面座標轉為相對於可視區中心的位置
+  const fromCenter = useCallback((clientX: number, clientY: number): Point => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+  }, []);
+
+  // 以 point 為中心縮放，讓該點下的畫面內容保持不動
+  const zoomTo = useCallback((scale: number, point: Point = { x: 0, y: 0 }, from: ZoomState = zoomRef.current) => {
+    const next = clampNumber(scale, 1, MAX_ZOOM);
+    const ratio = next / from.scale;
+    setZoom(clamp({ scale: next, x: point.x - (point.x - from.x) * ratio, y: point.y - (point.y - from.y) * ratio }));
+  }, [clamp, setZoom]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    const current = zoomRef.current;
+    setZoom(clamp({ ...current, x: current.x + dx, y: current.y + dy }));
+  }, [clamp, setZoom]);
+
+  // 將圖片上的比例位置 (0~1) 移到可視區中心，供小地圖使用
+  const panTo = useCallback((fractionX: number, fractionY: number) => {
+    const image = imageRef.current;
+    const current = zoomRef.current;
+    if (!image) return;
+    setZoom(clamp({
+      ...current,
+      x: (0.5 - fractionX) * image.offsetWidth * current.scale,
+      y: (0.5 - fractionY) * image.offsetHeight * current.scale,
+    }));
+  }, [clamp, setZoom]);
+
+  // 滾輪需要 preventDefault 以免觸發瀏覽器的頁面縮放，因此以原生事件監聽
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      const deltaX = e.deltaMode === 1 ? e.deltaX * 16 : e.deltaX;
+      const deltaY = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        zoomTo(zoomRef.current.scale * Math.exp(-clampNumber(deltaY, -50, 50) * 0.01), fromCenter(e.clientX, e.clientY));
+      } else if (zoomRef.current.scale > 1) {
+        e.preventDefault();
+        panBy(-deltaX, -deltaY);
+      }
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoomTo, panBy, fromCenter]);
+
+  const startPinch = (g: Gesture) => {
+    const [a, b] = [...pointers.current.values()];
+    g.isMultiTouch = true;
+    g.pinchDistance = Math.hypot(a.x - b.x, a.y - b.y);
+    g.pinchCenter = fromCenter((a.x + b.x) / 2, (a.y + b.y) / 2);
+    g.startZoom = zoomRef.current.scale > 1 ? zoomRef.current : IDENTITY;
+  };
+
+  const handleTap = (clientX: number, clientY: number, time: number) => {
+    const previous = lastTap.current;
+    if (time - previous.time < DOUBLE_TAP_MS && Math.hypot(clientX - previous.x, clientY - previous.y) < TAP_SLOP * 3) {
+      lastTap.current = { time: 0, x: 0, y: 0 };
+      if (zoomRef.current.scale > 1) setZoom(IDENTITY);
+      else zoomTo(DOUBLE_TAP_ZOOM, fromCenter(clientX, clientY), IDENTITY);
+    } else {
+      lastTap.current = { time, x: clientX, y: clientY };
+    }
+  };
+
+  const onPointerDown = (e: PointerEvent<HTMLElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) {
+      gesture.current = {
+        start: { x: e.clientX, y: e.clientY },
+        startZoom: zoomRef.current,
+        isMultiTouch: false,
+        lastX: e.clientX,
+        lastTime: e.timeStamp,
+        velocityX: 0,
+      };
+      setIsGesturing(true);
+    } else if (pointers.current.size === 2 && gesture.current) {
+      startPinch(gesture.current);
+    }
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLElement>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const g = gesture.current;
+    if (!g) return;
+
+    if (pointers.current.size >= 2 && g.pinchDistance && g.pinchCenter) {
+      // 以雙指中點為中心縮放，中點移動時一併平移
+      const [a, b] = [...pointers.current.values()];
+      const center = fromCenter((a.x + b.x) / 2, (a.y + b.y) / 2);
+      const scale = clampNumber(g.startZoom.scale * Math.hypot(a.x - b.x, a.y - b.y) / g.pinchDistance, 1, MAX_ZOOM);
+      const ratio = scale / g.startZoom.scale;
+      setZoom(clamp({
+        scale,
+        x: center.x - (g.pinchCenter.x - g.startZoom.x) * ratio,
+        y: center.y - (g.pinchCenter.y - g.startZoom.y) * ratio,
+      }));
+      return;
+    }
+
+    const dx = e.clientX - g.start.x;
+    const dy = e.clientY - g.start.y;
+    if (g.startZoom.scale > 1) {
+      setZoom(clamp({ ...g.startZoom, x: g.startZoom.x + dx, y: g.startZoom.y + dy }));
+    } else if (!g.isMultiTouch) {
+      // 未放大時的水平滑動，帶有彈性的跟手位移
+      if (e.timeStamp > g.lastTime) g.velocityX = ((e.clientX - g.lastX) / (e.timeStamp - g.lastTime)) * 1000;
+      g.lastX = e.clientX;
+      g.lastTime = e.timeStamp;
+      setZoom({ scale: 1, x: dx * 0.5, y: 0 });
+    }
+  };
+
+  const onPointerUp = (e: PointerEvent<HTMLElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const g = gesture.current;
+    if (!g) return;
+
+    // 雙指放開一指後，以剩下的手指繼續平移
+    if (pointers.current.size > 0) {
+      const [rest] = [...pointers.current.values()];
+      g.start = rest;
+      g.startZoom = zoomRef.current;
+      g.pinchDistance = undefined;
+      g.pinchCenter = undefined;
+      return;
+    }
+
+    gesture.current = null;
+    setIsGesturing(false);
+    if (g.isMultiTouch || g.startZoom.scale > 1) return;
+
+    const dx = e.clientX - g.start.x;
+    const dy = e.clientY - g.start.y;
+    setZoom(IDENTITY);
+    if (e.type !== 'pointerup') return;
+    if (Math.hypot(dx, dy) < TAP_SLOP) {
+      handleTap(e.clientX, e.clientY, e.timeStamp);
+      return;
+    }
+    // 停頓後才放開時不算快速滑動
+    const velocityX = e.timeStamp - g.lastTime > 100 ? 0 : g.velocityX;
+    const swipe = Math.abs(dx) * velocityX;
+    if (swipe < -SWIPE_THRESHOLD) onSwipe(1);
+    else if (swipe > SWIPE_THRESHOLD) onSwipe(-1);
+  };
+
+  const image = imageRef.current;
+  const surface = surfaceRef.current;
+  let viewport: ZoomViewport | null = null;
+  if (zoom.scale > 1 && image && surface) {
+    const scaledWidth = image.offsetWidth * zoom.scale;
+    const scaledHeight = image.offsetHeight * zoom.scale;
+    const width = Math.min(1, surface.clientWidth / scaledWidth);
+    const height = Math.min(1, surface.clientHeight / scaledHeight);
+    viewport = {
+      left: clampNumber(0.5 - (surface.clientWidth / 2 + zoom.x) / scaledWidth, 0, 1 - width),
+      top: clampNumber(0.5 - (surface.clientHeight / 2 + zoom.y) / scaledHeight, 0, 1 - height),
+      width,
+      height,
+    };
+  }
+
+  return {
+    zoom,
+    isZoomed: zoom.scale > 1,
+    isGesturing,
+    viewport,
+    containerRef,
+    surfaceRef,
+    imageRef,
+    surfaceProps: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+    zoomIn: () => zoomTo(zoomRef.current.scale * ZOOM_STEP),
+    zoomOut: () => zoomTo(zoomRef.current.scale / ZOOM_STEP),
+    resetZoom: () => setZoom(IDENTITY),
+    panBy,
+    panTo,
+  };
+};
@@ -0,0 +1,26 @@
+const STORAGE_KEY = 'mockApi';
+
+/**
+ * 模擬後端只在開發模式，或建置時設定 VITE_USE_MOCK_API=true 時才會打包
+ * 建置時即決定的常數，正式建置時 index.tsx 中動態載入模擬後端的程式碼會被移除
+ */
+export const MOCK_API_AVAILABLE: boolean =
+  import.meta.env.DEV || import.meta.env.VITE_USE_MOCK_API === 'true';
+
+/**
+ * 是否改用瀏覽器內的模擬後端（僅限 MOCK_API_AVAILABLE 時）
+ * - 環境變數 VITE_USE_MOCK_API=true 時預設啟用
+ * - 網址加上 ?mock=on / ?mock=off 可切換，並記在 localStorage；?mock=reset 會重設模擬資料
+ */
+export const isMockApiEnabled = (): boolean => {
+  if (!MOCK_API_AVAILABLE || typeof window === 'undefined') return false;
+  const param = new URLSearchParams(window.location.search).get('mock');
+  if (param === 'on' || param === 'off') localStorage.setItem(STORAGE_KEY, param);
+  if (param === 'reset') localStorage.setItem(STORAGE_KEY, 'on');
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) return stored === 'on';
+  return import.meta.env.VITE_USE_MOCK_API === 'true';
+};
+
+export const shouldResetMockDb = (): boolean =>
+  new URLSearchParams(window.location.search).get('mock') === 'reset';
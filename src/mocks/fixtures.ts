@@ -0,0 +1,102 @@
+/**
+ * 模擬後端的種子資料
+ * 文章與作品沿用 src/data 中的靜態資料，另外補上測試帳號與留言
+ */
+import { BlogPostData, Comment, PortfolioAlbum, PortfolioItemData, PostTag } from '../../types';
+import { PostAutosave, PostRevision } from '../types/api';
+import { User, UserRole } from '../types/auth';
+import staticPosts from '../data/staticPosts.json';
+import staticPortfolio from '../data/staticPortfolio.json';
+
+// 模擬資料庫中的帳號多存一份密碼
+export interface MockUser extends User {
+  password: string;
+}
+
+export interface MockDb {
+  users: MockUser[];
+  posts: BlogPostData[];
+  portfolio: PortfolioItemData[];
+  albums: PortfolioAlbum[];
+  tags: PostTag[];
+  comments: Comment[];
+  postRevisions: PostRevision[];
+  postAutosaves: Record<string, PostAutosave>; // postId -> 編輯中自動儲存的內容
+  refreshTokens: Record<string, string>; // refreshToken -> userId
+  nextId: number;
+}
+
+const SEEDED_AT = '2025-07-01T00:00:00.000Z';
+
+// 測試帳號：admin 具備超級使用者權限，reader 為一般會員
+export const seedUsers = (): MockUser[] => [
+  {
+    id: '1',
+    username: 'admin',
+    password: 'admin123',
+    email: 'admin@example.com',
+    avatarUrl: '/images/icon/icon.jpg',
+    role: UserRole.SUPER_USER,
+    gender: 'not_specified',
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  },
+  {
+    id: '2',
+    username: 'reader',
+    password: 'reader123',
+    email: 'reader@example.com',
+    avatarUrl: '',
+    role: UserRole.USER,
+    gender: 'not_specified',
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  },
+];
+
+const seedComments = (posts: BlogPostData[]): Comment[] => {
+  const [first, second] = posts;
+  if (!first) return [];
+  const comments: Comment[] = [
+    { id: 'c1', postId: first.id, userId: '2', username: 'reader', avatarUrl: '', date: '2025-07-12T08:00:00.000Z', text: 'Beautiful shot!', parentId: null },
+    { id: 'c2', postId: first.id, userId: '1', username: 'admin', avatarUrl: '/images/icon/icon.jpg', date: '2025-07-12T09:30:00.000Z', text: '謝謝你的留言！', parentId: 'c1' },
+  ];
+  if (second) {
+    comments.push({ id: 'c3', postId: second.id, userId: '2', username: 'reader', avatarUrl: '', date: '2025-07-13T10:00:00.000Z', text: 'Looking forward to the next post.', parentId: null });
+  }
+  return comments;
+};
+
+const seedTags = (): PostTag[] => [
+  { slug: 'street', name: 'Street', nameZh: '街拍' },
+  { slug: 'portrait', name: 'Portrait', nameZh: '人像' },
+  { slug: 'city', name: 'City', nameZh: '城市' },
+  { slug: 'kendama', name: 'Kendama', nameZh: '劍玉' },
+  { slug: 'juggling', name: 'Juggling', nameZh: '雜耍' },
+  { slug: 'practice', name: 'Practice', nameZh: '練習' },
+];
+
+// 靜態文章沒有標籤，依標題補上幾個，讓標籤雲與標籤頁有內容
+const SEED_POST_TAGS: Record<string, string[]> = {
+  'old man': ['street', 'portrait'],
+  'Urban Reflections': ['street', 'city'],
+  'kendama': ['kendama', 'practice'],
+  '雜耍球': ['juggling', 'practice'],
+};
+
+export const createSeedDb = (): MockDb => {
+  const posts = (staticPosts as BlogPostData[]).map(post => ({ ...post, tags: SEED_POST_TAGS[post.title ?? ''] ?? [] }));
+  const comments = seedComments(posts);
+  return {
+    users: seedUsers(),
+    posts: posts.map(post => ({ ...post, commentsCount: comments.filter(c => c.postId === post.id).length })),
+    portfolio: (staticPortfolio as PortfolioItemData[]).map(item => ({ ...item })),
+    albums: [],
+    tags: seedTags(),
+    comments,
+    postRevisions: [],
+    postAutosaves: {},
+    refreshTokens: {},
+    nextId: 1000,
+  };
+};
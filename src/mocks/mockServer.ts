@@ -0,0 +1,579 @@
+/**
+ * 瀏覽器內的模擬後端
+ * 攔截送往 /api 的 fetch，依路由回傳與 Spring 後端相同格式的資料，資料存在 localStorage
+ * 不需要啟動後端即可瀏覽全站，包含登入、留言與超級使用者的文章、作品管理
+ */
+import { BlogPostData, Comment, PortfolioAlbum, PortfolioItemData, PostStatus, PostTag } from '../../types';
+import { User, UserRole } from '../types/auth';
+import { ListQuery, SortOrder } from '../types/api';
+import { applyListQuery, compareBy, ListFields, portfolioListFields, postListFields } from '../services/listQuery';
+import { effectivePostStatus, isPostPublished } from '../services/postStatus';
+import { changedRevisionFields, POST_REVISION_FIELDS, toRevisionSnapshot } from '../services/postRevisions';
+import { isValidTagSlug } from '../services/postTags';
+import { createSeedDb, MockDb, MockUser } from './fixtures';
+import { shouldResetMockDb } from './config';
+
+const STORAGE_KEY = 'mockApiDb';
+const LATENCY_MS = 250;
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 設短一點，方便測試刷新令牌流程
+
+interface MockRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  headers: Headers;
+  user: MockUser | null;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+type Handler = (req: MockRequest) => MockResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+let db: MockDb = createSeedDb();
+
+const loadDb = (): MockDb => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    // 舊版資料沒有相簿、修訂紀錄與自動儲存欄位
+    if (stored) return { albums: [], tags: [], postRevisions: [], postAutosaves: {}, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Could not restore mock database', error);
+  }
+  return createSeedDb();
+};
+
+const saveDb = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch (error) {
+    console.error('Could not persist mock database', error);
+  }
+};
+
+const ok = (body?: unknown): MockResponse => ({ status: 200, body });
+// 錯誤回應格式與後端一致：{ success, message, code, errors }
+const fail = (status: number, message: string, code?: string, errors?: Record<string, string[]>): MockResponse =>
+  ({ status, body: { success: false, message, code, errors } });
+const noContent = (): MockResponse => ({ status: 204 });
+
+const nextId = (prefix: string) => `${prefix}-${db.nextId++}`;
+
+const toPublicUser = ({ password, ...user }: MockUser): User => user;
+
+// --- 令牌 ---
+
+const issueTokens = (user: MockUser) => {
+  const token = `mock.${user.id}.${Date.now() + ACCESS_TOKEN_TTL_MS}`;
+  const refreshToken = `mock-refresh.${user.id}.${Math.random().toString(36).slice(2)}`;
+  db.refreshTokens[refreshToken] = user.id;
+  return { token, refreshToken };
+};
+
+const userFromToken = (headers: Headers): MockUser | null => {
+  const match = /^Bearer mock\.([^.]+)\.(\d+)$/.exec(headers.get('Authorization') ?? '');
+  if (!match || Number(match[2]) < Date.now()) return null;
+  return db.users.find(u => u.id === match[1]) ?? null;
+};
+
+const isSuperUser = (user: MockUser | null) =>
+  !!user && (user.role === UserRole.SUPER_USER || user.role === UserRole.ADMIN);
+
+// 包裝需要登入或超級使用者權限的路由
+const requireUser = (handler: Handler): Handler => req =>
+  req.user ? handler(req) : fail(401, '請先登入', 'AUTH_REQUIRED');
+
+const requireSuperUser = (handler: Handler): Handler => req => {
+  if (!req.user) return fail(401, '請先登入', 'AUTH_REQUIRED');
+  return isSuperUser(req.user) ? handler(req) : fail(403, '權限不足', 'FORBIDDEN');
+};
+
+// --- 列表查詢 ---
+
+const toListQuery = (query: URLSearchParams): ListQuery => ({
+  page: Number(query.get('page')) || 1,
+  pageSize: Number(query.get('size')) || 10,
+  sort: (query.get('sort') as SortOrder) || 'date-desc',
+  categories: query.get('category')?.split(',').filter(Boolean),
+  search: query.get('q') ?? undefined,
+  featured: query.has('featured') ? query.get('featured') === 'true' : undefined,
+  camera: query.get('camera') ?? undefined,
+  lens: query.get('lens') ?? undefined,
+  album: query.get('album') ?? undefined,
+  status: (query.get('status') as PostStatus | null) ?? undefined,
+  tag: query.get('tag') ?? undefined,
+  lang: query.get('lang') ?? undefined,
+});
+
+// 帶分頁參數時回傳 { items, total, page, size }，否則回傳整個陣列
+const listResponse = <T,>(items: T[], query: URLSearchParams, fields: ListFields<T>): MockResponse => {
+  if (!query.has('page')) return ok(items);
+  const page = applyListQuery(items, toListQuery(query), fields);
+  return ok({ items: page.items, total: page.total, page: page.page, size: page.pageSize });
+};
+
+const withCommentCounts = (post: BlogPostData): BlogPostData => ({
+  ...post,
+  commentsCount: db.comments.filter(c => c.postId === post.id).length,
+});
+
+// --- 路由 ---
+
+const routes: Route[] = [];
+
+const route = (method: string, path: string, handler: Handler) => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key) => { keys.push(key); return '([^/]+)'; });
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+};
+
+// 驗證註冊資料，訊息與後端一致以便沿用 ApiService 的在地化對照
+interface FieldFailure {
+  status: number;
+  field: string;
+  code: string;
+  message: string;
+}
+
+const validateRegistration = (body: any): FieldFailure | null => {
+  const { username = '', email = '', password = '', confirmPassword = '' } = body ?? {};
+  if (username.length < 3 || username.length > 50) return { status: 400, field: 'username', code: 'USERNAME_LENGTH', message: '用戶名長度必須在3-50個字符之間' };
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) return { status: 400, field: 'email', code: 'EMAIL_INVALID', message: '郵箱格式不正確' };
+  if (password.length < 6) return { status: 400, field: 'password', code: 'PASSWORD_TOO_SHORT', message: '密碼長度至少6個字符' };
+  if (password !== confirmPassword) return { status: 400, field: 'confirmPassword', code: 'PASSWORD_MISMATCH', message: '密碼確認不匹配' };
+  return validateUnique(username, email);
+};
+
+// self 為正在編輯的使用者，自己原本的名稱與信箱不算重複
+const validateUnique = (username: string, email: string, self?: MockUser): FieldFailure | null => {
+  if (db.users.some(u => u !== self && u.username === username)) return { status: 409, field: 'username', code: 'USERNAME_TAKEN', message: '用戶名已存在' };
+  if (db.users.some(u => u !== self && u.email === email)) return { status: 409, field: 'email', code: 'EMAIL_TAKEN', message: '郵箱已被使用' };
+  return null;
+};
+
+// 更新個人資料時只檢查有帶上的欄位
+const validateProfile = (body: any, self: MockUser): FieldFailure | null => {
+  const { username = self.username, email = self.email, password, phone, birthday } = body ?? {};
+  if (username.length < 3 || username.length > 50) return { status: 400, field: 'username', code: 'USERNAME_LENGTH', message: '用戶名長度必須在3-50個字符之間' };
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) return { status: 400, field: 'email', code: 'EMAIL_INVALID', message: '郵箱格式不正確' };
+  if (password && password.length < 6) return { status: 400, field: 'password', code: 'PASSWORD_TOO_SHORT', message: '密碼長度至少6個字符' };
+  if (phone && !/^\+?[\d\s()-]{7,20}$/.test(phone)) return { status: 400, field: 'phone', code: 'PHONE_INVALID', message: '電話號碼格式不正確' };
+  if (birthday && Number.isNaN(Date.parse(String(birthday).replace(/\//g, '-')))) return { status: 400, field: 'birthday', code: 'BIRTHDAY_INVALID', message: '生日日期不正確' };
+  return validateUnique(username, email, self);
+};
+
+route('POST', '/auth/login', ({ body }) => {
+  const user = db.users.find(u => u.username === body?.username);
+  if (!user || user.password !== body?.password) return fail(401, '用戶名或密碼錯誤', 'INVALID_CREDENTIALS');
+  return ok({ success: true, message: '登入成功', ...issueTokens(user), user: toPublicUser(user) });
+});
+
+route('POST', '/auth/register', ({ body }) => {
+  const error = validateRegistration(body);
+  if (error) return fail(error.status, error.message, error.code, { [error.field]: [error.message] });
+  const now = new Date().toISOString();
+  const user: MockUser = {
+    id: nextId('user'),
+    username: body.username,
+    email: body.email,
+    password: body.password,
+    avatarUrl: '',
+    role: UserRole.USER,
+    gender: 'not_specified',
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.users.push(user);
+  return ok({ success: true, message: '註冊成功', ...issueTokens(user), user: toPublicUser(user) });
+});
+
+route('POST', '/auth/refresh', ({ body }) => {
+  const userId = db.refreshTokens[body?.refreshToken];
+  const user = db.users.find(u => u.id === userId);
+  if (!user) return fail(401, '刷新令牌無效', 'REFRESH_TOKEN_INVALID');
+  delete db.refreshTokens[body.refreshToken];
+  return ok({ ...issueTokens(user), user: toPublicUser(user) });
+});
+
+route('POST', '/auth/logout', ({ headers }) => {
+  const refreshToken = headers.get('Refresh-Token');
+  if (refreshToken) delete db.refreshTokens[refreshToken];
+  return ok({ success: true, message: '已登出' });
+});
+
+route('GET', '/auth/me', requireUser(({ user }) => ok({ user: toPublicUser(user!) })));
+
+route('PUT', '/auth/me', requireUser(({ user, body }) => {
+  const error = validateProfile(body, user!);
+  if (error) return fail(error.status, error.message, error.code, { [error.field]: [error.message] });
+  const { password, ...profile } = body ?? {};
+  Object.assign(user!, profile, password ? { password } : {}, { updatedAt: new Date().toISOString() });
+  return ok({ user: toPublicUser(user!) });
+}));
+
+// 草稿與尚未到時間的排程文章只回傳給超級使用者，其他人查詢時如同不存在
+const visiblePosts = (user: MockUser | null): BlogPostData[] =>
+  isSuperUser(user) ? db.posts : db.posts.filter(post => isPostPublished(post));
+
+// 發布日期：排程文章以排程時間為準，草稿改為發布時以發布當下為準
+const publicationDate = (body: Partial<BlogPostData>, previous?: BlogPostData): string | undefined => {
+  if (body.status === 'scheduled' && body.publishAt) return body.publishAt;
+  if (body.status === 'published' && (!previous || effectivePostStatus(previous) !== 'published')) return new Date().toISOString();
+  return undefined;
+};
+
+// 文章只保留已存在的標籤，重複的只留一個
+const withKnownTags = <T extends Partial<BlogPostData>>(body: T): T => {
+  if (!Array.isArray(body.tags)) return body;
+  const tags = [...new Set(body.tags)].filter(slug => db.tags.some(tag => tag.slug === slug));
+  return { ...body, tags };
+};
+
+// 每次儲存記錄一筆修訂；內容沒有變動時不記錄
+// 尚無紀錄的文章第一次被修改時，先把修改前的內容存成沒有作者的原始版本，才能還原到第一次編輯之前
+const recordRevision = (post: BlogPostData, user: MockUser | null, previous?: BlogPostData) => {
+  const snapshot = toRevisionSnapshot(post);
+  const changedFields = previous ? changedRevisionFields(toRevisionSnapshot(previous), snapshot) : [...POST_REVISION_FIELDS];
+  if (changedFields.length === 0) return;
+  if (previous && !db.postRevisions.some(r => r.postId === post.id)) {
+    db.postRevisions.push({ id: nextId('mock-revision'), postId: post.id, createdAt: previous.createdAt, changedFields: [], snapshot: toRevisionSnapshot(previous) });
+  }
+  db.postRevisions.push({
+    id: nextId('mock-revision'),
+    postId: post.id,
+    authorId: user?.id,
+    authorName: user?.username,
+    createdAt: Date.now(),
+    changedFields,
+    snapshot,
+  });
+};
+
+route('GET', '/content/posts', ({ query, user }) => listResponse(visiblePosts(user).map(withCommentCounts), query, postListFields));
+
+// 需註冊在 /content/posts/:id 之前，否則 facets 會被當成 id
+route('GET', '/content/posts/facets', ({ query, user }) => {
+  const status = query.get('status');
+  const posts = visiblePosts(user).filter(post => !status || effectivePostStatus(post) === status);
+  const categories: Record<string, number> = {};
+  const tags: Record<string, number> = {};
+  posts.forEach(post => {
+    if (post.categoryKey) categories[post.categoryKey] = (categories[post.categoryKey] ?? 0) + 1;
+    new Set(post.tags).forEach(slug => { tags[slug] = (tags[slug] ?? 0) + 1; });
+  });
+  return ok({ total: posts.length, categories, tags });
+});
+
+route('GET', '/content/posts/:id', ({ params, user }) => {
+  const post = visiblePosts(user).find(p => p.id === params.id);
+  return post ? ok(withCommentCounts(post)) : fail(404, '找不到文章', 'POST_NOT_FOUND');
+});
+
+route('POST', '/content/posts', requireSuperUser(({ body, user }) => {
+  const now = Date.now();
+  const post: BlogPostData = {
+    views: 0, likes: 0, commentsCount: 0, ...withKnownTags(body),
+    id: nextId('mock-post'),
+    date: publicationDate(body) ?? new Date(now).toISOString(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.posts.unshift(post);
+  recordRevision(post, user);
+  return ok(post);
+}));
+
+// 帶 If-Match 的更新必須以目前的版本為基準，否則表示文章在這之後被修改過
+const isStaleWrite = (post: BlogPostData, headers: Headers): boolean => {
+  const expected = headers.get('If-Match');
+  return !!expected && expected !== `"${post.updatedAt ?? post.createdAt}"`;
+};
+
+route('PUT', '/content/posts/:id', requireSuperUser(({ params, body, headers, user }) => {
+  const post = db.posts.find(p => p.id === params.id);
+  if (!post) return fail(404, '找不到文章', 'POST_NOT_FOUND');
+  if (isStaleWrite(post, headers)) return fail(412, '文章已被其他人修改', 'POST_MODIFIED');
+  const previous = { ...post };
+  const date = publicationDate(body, post);
+  Object.assign(post, withKnownTags(body), { id: post.id, updatedAt: Date.now() }, date ? { date } : {});
+  recordRevision(post, user, previous);
+  return ok(withCommentCounts(post));
+}));
+
+route('DELETE', '/content/posts/:id', requireSuperUser(({ params }) => {
+  if (!db.posts.some(p => p.id === params.id)) return fail(404, '找不到文章', 'POST_NOT_FOUND');
+  db.posts = db.posts.filter(p => p.id !== params.id);
+  db.comments = db.comments.filter(c => c.postId !== params.id);
+  db.postRevisions = db.postRevisions.filter(r => r.postId !== params.id);
+  delete db.postAutosaves[params.id];
+  return noContent();
+}));
+
+route('GET', '/content/posts/:id/revisions', requireSuperUser(({ params }) => {
+  if (!db.posts.some(p => p.id === params.id)) return fail(404, '找不到文章', 'POST_NOT_FOUND');
+  return ok(db.postRevisions.filter(r => r.postId === params.id).sort((a, b) => b.createdAt - a.createdAt));
+}));
+
+route('GET', '/content/posts/:id/autosave', requireSuperUser(({ params }) => {
+  const autosave = db.postAutosaves[params.id];
+  return autosave ? ok(autosave) : noContent();
+}));
+
+route('PUT', '/content/posts/:id/autosave', requireSuperUser(({ params, body }) => {
+  if (!db.posts.some(p => p.id === params.id)) return fail(404, '找不到文章', 'POST_NOT_FOUND');
+  const { title, titleZh, content, contentZh, categoryKey, imageUrl } = body;
+  db.postAutosaves[params.id] = { title, titleZh, content, contentZh, categoryKey, imageUrl, savedAt: Date.now() };
+  return ok(db.postAutosaves[params.id]);
+}));
+
+route('DELETE', '/content/posts/:id/autosave', requireSuperUser(({ params }) => {
+  delete db.postAutosaves[params.id];
+  return noContent();
+}));
+
+route('GET', '/content/portfolio', ({ query }) => listResponse(db.portfolio, query, portfolioListFields));
+
+// 需註冊在 /content/portfolio/:id 之前
+route('GET', '/content/portfolio/facets', () => {
+  const distinct = (values: (string | undefined)[]) => [...new Set(values.filter((v): v is string => !!v))].sort();
+  return ok({
+    cameras: distinct(db.portfolio.map(item => item.exif?.camera)),
+    lenses: distinct(db.portfolio.map(item => item.exif?.lens)),
+  });
+});
+
+route('GET', '/content/portfolio/:id', ({ params }) => {
+  const item = db.portfolio.find(i => i.id === params.id);
+  return item ? ok(item) : fail(404, '找不到作品', 'PORTFOLIO_ITEM_NOT_FOUND');
+});
+
+route('POST', '/content/portfolio', requireSuperUser(({ body }) => {
+  const item: PortfolioItemData = { views: 0, ...body, id: nextId('mock-portfolio'), date: new Date().toISOString() };
+  db.portfolio.unshift(item);
+  return ok(item);
+}));
+
+const findPortfolioItems = (ids: unknown[]) =>
+  ids.map(id => db.portfolio.find(i => i.id === id)).filter((item): item is PortfolioItemData => !!item);
+
+// 以下兩個路由需註冊在 /content/portfolio/:id 之前
+route('PUT', '/content/portfolio/order', requireSuperUser(({ body }) => {
+  const ids: unknown = body?.ids;
+  if (!Array.isArray(ids)) return fail(400, '缺少作品順序', 'FIELD_REQUIRED', { ids: ['此欄位為必填'] });
+  // 先依目前的自訂順序替所有作品編上連續的位置，再把傳入作品佔用的位置依新順序重新分配
+  [...db.portfolio].sort(compareBy(portfolioListFields, 'custom')).forEach((item, index) => { item.position = index + 1; });
+  const moved = findPortfolioItems(ids);
+  const slots = moved.map(item => item.position!).sort((a, b) => a - b);
+  moved.forEach((item, index) => { item.position = slots[index]; });
+  return noContent();
+}));
+
+route('PUT', '/content/portfolio/featured-order', requireSuperUser(({ body }) => {
+  const ids: unknown = body?.ids;
+  if (!Array.isArray(ids)) return fail(400, '缺少作品順序', 'FIELD_REQUIRED', { ids: ['此欄位為必填'] });
+  findPortfolioItems(ids).forEach((item, index) => { item.featuredPosition = index + 1; });
+  return noContent();
+}));
+
+route('PUT', '/content/portfolio/:id', requireSuperUser(({ params, body }) => {
+  const item = db.portfolio.find(i => i.id === params.id);
+  if (!item) return fail(404, '找不到作品', 'PORTFOLIO_ITEM_NOT_FOUND');
+  Object.assign(item, body, { id: item.id });
+  return ok(item);
+}));
+
+route('DELETE', '/content/portfolio/:id', requireSuperUser(({ params }) => {
+  if (!db.portfolio.some(i => i.id === params.id)) return fail(404, '找不到作品', 'PORTFOLIO_ITEM_NOT_FOUND');
+  db.portfolio = db.portfolio.filter(i => i.id !== params.id);
+  return noContent();
+}));
+
+// --- 相簿 ---
+
+// 回應中附上照片數與實際封面（未指定時為相簿中的第一張照片）
+const withItemCount = (album: PortfolioAlbum): PortfolioAlbum => {
+  const items = db.portfolio.filter(i => i.albumIds?.includes(album.id));
+  return { ...album, itemCount: items.length, coverUrl: album.coverImageUrl || items[0]?.imageUrl };
+};
+
+const sortedAlbums = () => [...db.albums].sort((a, b) => a.order - b.order).map(withItemCount);
+
+// self 為正在編輯的相簿，自己原本的網址代稱不算重複
+const validateAlbum = (body: any, self?: PortfolioAlbum): FieldFailure | null => {
+  if (!body?.title?.trim()) return { status: 400, field: 'title', code: 'FIELD_REQUIRED', message: '此欄位為必填' };
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(body?.slug ?? '')) return { status: 400, field: 'slug', code: 'ALBUM_SLUG_INVALID', message: '網址代稱只能包含小寫英文、數字與連字號' };
+  if (db.albums.some(a => a !== self && a.slug === body.slug)) return { status: 409, field: 'slug', code: 'ALBUM_SLUG_TAKEN', message: '網址代稱已被使用' };
+  return null;
+};
+
+const albumFields = ({ slug, title, titleZh, description, descriptionZh, coverImageUrl }: any) =>
+  ({ slug, title: title.trim(), titleZh, description, descriptionZh, coverImageUrl });
+
+route('GET', '/content/albums', () => ok(sortedAlbums()));
+
+route('POST', '/content/albums', requireSuperUser(({ body }) => {
+  const error = validateAlbum(body);
+  if (error) return fail(error.status, error.message, error.code, { [error.field]: [error.message] });
+  const order = Math.max(0, ...db.albums.map(a => a.order)) + 1;
+  const album: PortfolioAlbum = { ...albumFields(body), id: nextId('mock-album'), order };
+  db.albums.push(album);
+  return ok(withItemCount(album));
+}));
+
+// 需註冊在 /content/albums/:id 之前，否則 order 會被當成 id
+route('PUT', '/content/albums/order', requireSuperUser(({ body }) => {
+  const ids: unknown = body?.ids;
+  if (!Array.isArray(ids)) return fail(400, '缺少相簿順序', 'FIELD_REQUIRED', { ids: ['此欄位為必填'] });
+  db.albums.forEach(album => {
+    const index = ids.indexOf(album.id);
+    // 沒列出的相簿排在最後，維持原本的相對順序
+    album.order = index === -1 ? ids.length + album.order : index + 1;
+  });
+  return ok(sortedAlbums());
+}));
+
+route('PUT', '/content/albums/:id', requireSuperUser(({ params, body }) => {
+  const album = db.albums.find(a => a.id === params.id);
+  if (!album) return fail(404, '找不到相簿', 'ALBUM_NOT_FOUND');
+  const error = validateAlbum(body, album);
+  if (error) return fail(error.status, error.message, error.code, { [error.field]: [error.message] });
+  Object.assign(album, albumFields(body));
+  return ok(withItemCount(album));
+}));
+
+// 刪除相簿不會刪除照片，只移除照片上的相簿關聯
+route('DELETE', '/content/albums/:id', requireSuperUser(({ params }) => {
+  if (!db.albums.some(a => a.id === params.id)) return fail(404, '找不到相簿', 'ALBUM_NOT_FOUND');
+  db.albums = db.albums.filter(a => a.id !== params.id);
+  db.portfolio.forEach(item => {
+    if (item.albumIds?.includes(params.id)) item.albumIds = item.albumIds.filter(id => id !== params.id);
+  });
+  return noContent();
+}));
+
+// --- 標籤 ---
+
+const sortedTags = () => [...db.tags].sort((a, b) => a.name.localeCompare(b.name));
+
+route('GET', '/content/tags', () => ok(sortedTags()));
+
+// 以 slug 建立或更新標籤；文章編輯頁輸入新標籤時建立
+route('PUT', '/content/tags/:slug', requireSuperUser(({ params, body }) => {
+  if (!isValidTagSlug(params.slug)) return fail(400, '標籤網址代稱不正確', 'TAG_SLUG_INVALID', { slug: ['標籤網址代稱不正確'] });
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) return fail(400, '此欄位為必填', 'FIELD_REQUIRED', { name: ['此欄位為必填'] });
+  const nameZh = typeof body?.nameZh === 'string' && body.nameZh.trim() ? body.nameZh.trim() : undefined;
+  const tag: PostTag = { slug: params.slug, name, nameZh };
+  db.tags = [...db.tags.filter(t => t.slug !== tag.slug), tag];
+  return ok(tag);
+}));
+
+route('GET', '/comments/post/:postId', ({ params }) =>
+  ok(db.comments.filter(c => c.postId === params.postId).sort((a, b) => a.date.localeCompare(b.date))));
+
+route('GET', '/comments/counts', ({ query }) => {
+  const counts: Record<string, number> = {};
+  (query.get('postIds') ?? '').split(',').filter(Boolean).forEach(postId => {
+    counts[postId] = db.comments.filter(c => c.postId === postId).length;
+  });
+  return ok(counts);
+});
+
+route('POST', '/comments', requireUser(({ user, body }) => {
+  if (!db.posts.some(p => p.id === body?.postId)) return fail(404, '找不到文章', 'POST_NOT_FOUND');
+  if (!body?.text?.trim()) return fail(400, '留言內容不可為空', 'COMMENT_EMPTY', { text: ['留言內容不可為空'] });
+  const comment: Comment = {
+    id: nextId('mock-comment'),
+    postId: body.postId,
+    userId: user!.id,
+    username: user!.username,
+    avatarUrl: user!.avatarUrl,
+    date: new Date().toISOString(),
+    text: body.text,
+    parentId: body.parentId ?? null,
+  };
+  db.comments.push(comment);
+  return ok(comment);
+}));
+
+// 連同所有子留言一併刪除
+route('DELETE', '/comments/:id', requireSuperUser(({ params }) => {
+  if (!db.comments.some(c => c.id === params.id)) return fail(404, '找不到留言', 'COMMENT_NOT_FOUND');
+  const toDelete = new Set([params.id]);
+  let size = 0;
+  while (size !== toDelete.size) {
+    size = toDelete.size;
+    db.comments.forEach(c => { if (c.parentId && toDelete.has(c.parentId)) toDelete.add(c.id); });
+  }
+  db.comments = db.comments.filter(c => !toDelete.has(c.id));
+  return noContent();
+}));
+
+// --- fetch 攔截 ---
+
+// 取出 /api 之後的路徑；不是送往 API 的請求回傳 null
+const apiPath = (url: URL): string | null => {
+  const index = url.pathname.indexOf('/api/');
+  return index === -1 ? null : url.pathname.slice(index + 4);
+};
+
+const handle = async (request: Request, path: string): Promise<Response> => {
+  const text = await request.text();
+  let response: MockResponse = fail(404, `Mock route not found: ${request.method} ${path}`);
+  for (const { method, pattern, keys, handler } of routes) {
+    const match = method === request.method ? pattern.exec(path) : null;
+    if (!match) continue;
+    const params = Object.fromEntries(keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+    try {
+      response = handler({
+        params,
+        query: new URL(request.url).searchParams,
+        body: text ? JSON.parse(text) : undefined,
+        headers: request.headers,
+        user: userFromToken(request.headers),
+      });
+    } catch (error) {
+      console.error('Mock handler failed', error);
+      response = fail(500, error instanceof Error ? error.message : String(error));
+    }
+    break;
+  }
+  if (request.method !== 'GET') saveDb();
+  await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+  return response.status === 204
+    ? new Response(null, { status: 204 })
+    : new Response(JSON.stringify(response.body ?? {}), { status: response.status, headers: { 'Content-Type': 'application/json' } });
+};
+
+// 與真正的 fetch 一樣，signal 取消時以 AbortError 結束
+const abortable = (request: Request, response: Promise<Response>): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => reject(request.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    if (request.signal.aborted) return onAbort();
+    request.signal.addEventListener('abort', onAbort, { once: true });
+    response.then(resolve, reject);
+  });
+
+/**
+ * 啟用模擬後端，攔截之後所有送往 /api 的 fetch
+ */
+export const startMockServer = (): void => {
+  db = shouldResetMockDb() ? createSeedDb() : loadDb();
+  saveDb();
+  const realFetch = window.fetch.bind(window);
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const path = apiPath(new URL(request.url, window.location.href));
+    return path === null ? realFetch(input, init) : abortable(request, handle(request, path));
+  };
+  console.info('[mock api] enabled — sign in as admin/admin123 or reader/reader123; append ?mock=off to disable');
+};
@@ -1,19 +1,46 @@
-export class ApiError extends Error {
-  status: number;
-  data?: any;
-  constructor(message: string, status: number, data?: any) {
-    super(message);
-    this.name = 'ApiError';
-    this.status = status;
-    this.data = data;
-  }
+import { i18n } from '../../i18n';
+import { AuthResponse, LoginRequest, RegisterRequest, UpdateUserRequest, User } from '../types/auth';
+import {
+  AlbumPayload, AlbumResponse, CommentCountsResponse, CommentListResponse, CommentResponse, CreateCommentRequest, ListQuery, PageResponse,
+  PortfolioFacetsResponse, PortfolioItemPayload, PortfolioItemResponse, PortfolioListResponse,
+  PostAutosave, PostAutosavePayload, PostFacetsResponse, PostListResponse, PostPayload, PostResponse, PostRevision,
+  RefreshTokenRequest, RefreshTokenResponse, TagPayload, TagResponse,
+} from '../types/api';
+import {
+  parseField, parseList, parsePage, toAlbum, toAuthResponse, toBlogPost, toComment, toCommentCounts,
+  toPortfolioFacets, toPortfolioItem, toPostAutosave, toPostFacets, toPostRevision, toRefreshResponse, toTag, toUser,
+} from './validators';
+import { portfolioListFields, postListFields, toSearchParams } from './listQuery';
+import { BlogPostData, PortfolioItemData, PostStatus } from '../../types';
+import { ApiError, isAbortError, isTransientError, networkError, parseResponseBody, readApiError, timeoutError, toApiError } from './apiErrors';
+
+export { ApiError, isAbortError } from './apiErrors';
+
+export const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+// 多個呼叫端共用的 GET 請求；所有呼叫端都取消後才真正中止網路請求
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  consumers: number;
 }
 
-import { i18n } from '../../i18n';
+// 可安全重送的方法；POST 等非冪等請求失敗時不自動重試
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// 等待指定時間，期間 signal 取消則立即結束
+export const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(abortReason(signal!)); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 
 export class ApiService {
   // 以 Vite 環境變數為主，Fallback 到 8081（本機後端預設啟動埠）
-  private static baseURL = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_API_BASE_URL)
+  private static baseURL = import.meta.env.VITE_API_BASE_URL
     || (process.env.REACT_APP_API_BASE_URL as string | undefined)
     || '/api';
   
@@ -32,48 +59,204 @@ export class ApiService {
     localStorage.removeItem('authToken');
   }
 
+  // 認證失效時的處理器，由 AuthContext 於掛載時註冊
+  private static refreshHandler: (() => Promise<string | null>) | null = null;
+  private static authFailureHandler: (() => void) | null = null;
+  // 進行中的刷新請求；同時間收到 401 的請求會共用同一個刷新結果後再重送
+  private static refreshPromise: Promise<string | null> | null = null;
+
+  // 這些端點本身就是認證流程，收到 401 時不應再嘗試刷新
+  private static readonly authEndpoints = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+  /**
+   * 註冊令牌刷新與認證失效的處理器
+   * @param handlers.refresh 以刷新令牌換取新的訪問令牌，回傳新令牌
+   * @param handlers.onAuthFailure 刷新失敗（需重新登入）時呼叫
+   */
+  static configureAuth(handlers: { refresh: () => Promise<string | null>; onAuthFailure: () => void }): void {
+    this.refreshHandler = handlers.refresh;
+    this.authFailureHandler = handlers.onAuthFailure;
+  }
+
+  private static resolveUrl(endpoint: string): string {
+    // 若 endpoint 已包含 http 開頭，視為完整 URL
+    return endpoint.startsWith('http') ? endpoint : `${this.baseURL}${endpoint}`;
+  }
+
+  private static canRefreshFor(endpoint: string): boolean {
+    return !this.authEndpoints.some(path => endpoint.startsWith(path));
+  }
+
+  /**
+   * 以刷新令牌換取新的訪問令牌；多個請求同時失效時只會刷新一次
+   * @param staleToken 失敗請求所使用的令牌
+   * @returns 新的訪問令牌，刷新失敗則為 null
+   */
+  private static async refreshAccessToken(staleToken: string | null): Promise<string | null> {
+    // 其他請求已完成刷新，直接使用新令牌重送
+    const current = this.getToken();
+    if (current && current !== staleToken) return current;
+
+    if (!this.refreshHandler) {
+      this.removeToken();
+      return null;
+    }
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        try {
+          const token = await this.refreshHandler!();
+          if (!token) throw new Error('Token refresh returned no token');
+          return token;
+        } catch (error) {
+          console.error('Token refresh failed:', error);
+          this.removeToken();
+          this.authFailureHandler?.();
+          return null;
+        } finally {
+          this.refreshPromise = null;
+        }
+      })();
+    }
+    return this.refreshPromise;
+  }
+
+  // 進行中的 GET 請求，以網址、語言與令牌區分
+  private static inflightGets = new Map<string, SharedRequest>();
+
   /**
    * 通用 API 請求方法
+   * 相同的 GET 請求同時間只會送出一次；options.signal 可取消請求
    * @param endpoint API 端點
    * @param options 請求選項
    * @returns Promise<T> 響應數據
    */
-  static async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    // 若 endpoint 已包含 http 開頭，視為完整 URL
-    const url = endpoint.startsWith('http') ? endpoint : `${this.baseURL}${endpoint}`;
+  static request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
+    if (method !== 'GET' || options.body) return this.sendWithRetry<T>(endpoint, options);
+
+    const { signal, ...rest } = options;
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+    const key = [this.resolveUrl(endpoint), i18n?.language || 'en', this.getToken() || '', JSON.stringify(rest.headers ?? {})].join('|');
+    let shared = this.inflightGets.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = { controller, consumers: 0, promise: Promise.resolve() };
+      entry.promise = this.sendWithRetry<T>(endpoint, { ...rest, signal: controller.signal })
+        .finally(() => { if (this.inflightGets.get(key) === entry) this.inflightGets.delete(key); });
+      this.inflightGets.set(key, entry);
+      shared = entry;
+    }
+    return this.attach<T>(key, shared, signal);
+  }
+
+  // 讓單一呼叫端接上共用請求；自己的 signal 取消時只退出，最後一個退出時中止網路請求
+  private static attach<T>(key: string, shared: SharedRequest, signal?: AbortSignal | null): Promise<T> {
+    shared.consumers++;
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        reject(abortReason(signal!));
+        if (--shared.consumers === 0) {
+          shared.controller.abort();
+          if (this.inflightGets.get(key) === shared) this.inflightGets.delete(key);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(
+        value => { if (!settled) { settled = true; signal?.removeEventListener('abort', onAbort); resolve(value as T); } },
+        error => { if (!settled) { settled = true; signal?.removeEventListener('abort', onAbort); reject(error); } },
+      );
+    });
+  }
+
+  // 重試策略：冪等請求遇到暫時性錯誤時以指數退避重送
+  private static readonly retryPolicy = {
+    retries: 2, // 首次失敗後最多再送幾次
+    baseDelay: 500,
+    maxDelay: 10_000, // Retry-After 超過此值時不再等待，直接丟出 rateLimit 錯誤
+    timeout: 15_000, // 單次請求的等待上限
+  };
+
+  /**
+   * 計算下一次重試前的等待時間；伺服器指定 Retry-After 時以其為準
+   * @returns 毫秒，null 表示不應重試
+   */
+  private static retryDelay(attempt: number, error: ApiError): number | null {
+    const { baseDelay, maxDelay } = this.retryPolicy;
+    if (error.retryAfter !== undefined) return error.retryAfter <= maxDelay ? error.retryAfter : null;
+    // 加入隨機抖動，避免大量客戶端同時重送
+    return Math.min(maxDelay, baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2);
+  }
+
+  /**
+   * 送出請求，冪等方法遇到網路中斷、逾時、429 或 502–504 時自動重試
+   */
+  private static async sendWithRetry<T>(endpoint: string, options: RequestInit): Promise<T> {
+    const retryable = IDEMPOTENT_METHODS.includes((options.method || 'GET').toUpperCase());
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(endpoint, options);
+      } catch (error) {
+        if (!retryable || attempt >= this.retryPolicy.retries || !isTransientError(error)) throw error;
+        const delay = this.retryDelay(attempt, error);
+        if (delay === null) throw error;
+        await wait(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * 實際送出請求；失敗時一律丟出已分類的 ApiError（取消除外）
+   * @param isRetry 是否為刷新令牌後的重送（僅重送一次）
+   */
+  private static async send<T>(endpoint: string, options: RequestInit, isRetry = false): Promise<T> {
+    const url = this.resolveUrl(endpoint);
     const token = this.getToken();
-    
+    const { signal } = options;
+
+    // 以自己的 controller 同時處理逾時與呼叫端取消
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, this.retryPolicy.timeout);
+    const onAbort = () => controller.abort(abortReason(signal!));
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     const config: RequestInit = {
+      ...options,
+      signal: controller.signal,
       headers: {
         'Content-Type': 'application/json',
         ...(token && { 'Authorization': `Bearer ${token}` }),
         'Accept-Language': i18n?.language || 'en',
         ...options.headers,
       },
-      ...options,
     };
 
     try {
       const response = await fetch(url, config);
-      
-      // 統一錯誤處理：丟出帶狀態碼的 ApiError，呼叫端可決定友善訊息
-      if (!response.ok) {
-        let errorData: any = {};
-        try { errorData = await response.json(); } catch {}
-        // 後端統一回傳 { success, message }，優先顯示 message
-        const rawMessage = (errorData && (errorData.message || errorData.error || errorData.details))
-          || `API Error: ${response.status} ${response.statusText}`;
-        const message = ApiService.translateServerMessage(rawMessage);
-        if (response.status === 401) this.removeToken();
-        throw new ApiError(message, response.status, errorData);
+
+      // 訪問令牌過期：刷新後重送原請求
+      if (response.status === 401 && token && !isRetry && this.canRefreshFor(endpoint)) {
+        const newToken = await this.refreshAccessToken(token);
+        if (newToken) return await this.send<T>(endpoint, options, true);
       }
       
+      // 統一錯誤處理：依狀態碼分類，訊息由錯誤代碼對應翻譯檔
+      if (!response.ok) throw await readApiError(response);
+      
       // 允許空內容
-      const text = await response.text();
-      return text ? JSON.parse(text) : ({} as T);
+      return parseResponseBody<T>(await response.text(), response.status);
     } catch (error) {
-      console.error('API Request Error:', error);
-      throw error;
+      const classified = timedOut ? timeoutError() : error instanceof TypeError ? networkError(error) : error;
+      if (!isAbortError(classified)) console.error('API Request Error:', classified);
+      throw classified;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -81,10 +264,12 @@ export class ApiService {
    * 處理文件上傳的專用方法
    * @param endpoint API 端點
    * @param formData FormData 對象
+   * @param signal 可取消上傳
+   * @param isRetry 是否為刷新令牌後的重送
    * @returns Promise<T> 響應數據
    */
-  static async uploadFile<T>(endpoint: string, formData: FormData): Promise<T> {
-    const url = endpoint.startsWith('http') ? endpoint : `${this.baseURL}${endpoint}`;
+  static async uploadFile<T>(endpoint: string, formData: FormData, signal?: AbortSignal, isRetry = false): Promise<T> {
+    const url = this.resolveUrl(endpoint);
     const token = this.getToken();
     
     const config: RequestInit = {
@@ -93,16 +278,18 @@ export class ApiService {
         ...(token && { 'Authorization': `Bearer ${token}` }),
       },
       body: formData,
+      signal,
     };
 
-    const response = await fetch(url, config);
-    if (!response.ok) {
-      const txt = await response.text().catch(() => '');
-      try { const err = JSON.parse(txt); throw new Error(err.message || `Upload Error: ${response.status}`); }
-      catch { throw new Error(`Upload Error: ${response.status}`); }
+    const response = await fetch(url, config).catch(error => {
+      throw error instanceof TypeError ? networkError(error) : error;
+    });
+    if (response.status === 401 && token && !isRetry) {
+      const newToken = await this.refreshAccessToken(token);
+      if (newToken) return this.uploadFile<T>(endpoint, formData, signal, true);
     }
-    const t = await response.text();
-    return t ? JSON.parse(t) : ({} as T);
+    if (!response.ok) throw await readApiError(response);
+    return parseResponseBody<T>(await response.text(), response.status);
   }
 
   /**
@@ -110,153 +297,377 @@ export class ApiService {
    * @param endpoint API 端點
    * @param file 要上傳的文件
    * @param onProgress 進度回調函數
+   * @param signal 可取消上傳
+   * @param isRetry 是否為刷新令牌後的重送
    * @returns Promise<T> 響應數據
    */
-  static async uploadFileWithProgress<T>(endpoint: string, file: File, onProgress?: (progress: number) => void): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      const url = endpoint.startsWith('http') ? endpoint : `${this.baseURL}${endpoint}`;
-      const token = this.getToken();
-      
-      xhr.upload.onprogress = (event) => {
-        if (event.lengthComputable && onProgress) {
-          const progress = Math.round((event.loaded / event.total) * 100);
-          onProgress(progress);
-        }
-      };
+  static async uploadFileWithProgress<T>(endpoint: string, file: File, onProgress?: (progress: number) => void, signal?: AbortSignal, isRetry = false): Promise<T> {
+    const token = this.getToken();
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        const url = this.resolveUrl(endpoint);
+        
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable && onProgress) {
+            const progress = Math.round((event.loaded / event.total) * 100);
+            onProgress(progress);
+          }
+        };
 
-      xhr.onload = () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const response = xhr.responseText ? JSON.parse(xhr.responseText) : {};
-            resolve(response);
-          } catch (error) {
-            reject(new Error('Invalid JSON response'));
+        xhr.onload = () => {
+          if (xhr.status >= 200 && xhr.status < 300) {
+            try {
+              resolve(parseResponseBody<T>(xhr.responseText, xhr.status));
+            } catch (error) {
+              reject(error);
+            }
+          } else {
+            let errorData: unknown = {};
+            try { errorData = JSON.parse(xhr.responseText); } catch {}
+            reject(toApiError(xhr.status, errorData, xhr.getResponseHeader('Retry-After')));
           }
-        } else {
-          reject(new Error(`Upload failed: ${xhr.status}`));
-        }
-      };
+        };
 
-      xhr.onerror = () => reject(new Error('Upload failed'));
+        xhr.onerror = () => reject(networkError());
+        xhr.onabort = () => reject(signal ? abortReason(signal) : new DOMException('The operation was aborted.', 'AbortError'));
+        if (signal?.aborted) { reject(abortReason(signal)); return; }
+        signal?.addEventListener('abort', () => xhr.abort(), { once: true });
 
-      xhr.open('POST', url);
-      if (token) {
-        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
-      }
+        xhr.open('POST', url);
+        if (token) {
+          xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+        }
 
-      const formData = new FormData();
-      formData.append('file', file);
-      xhr.send(formData);
-    });
+        const formData = new FormData();
+        formData.append('file', file);
+        xhr.send(formData);
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401 && token && !isRetry) {
+        const newToken = await this.refreshAccessToken(token);
+        if (newToken) return this.uploadFileWithProgress<T>(endpoint, file, onProgress, signal, true);
+      }
+      throw error;
+    }
   }
 
   /**
-   * 根據當前語言將後端訊息轉為使用者看得懂的在地化文字
+   * 發送請求並以 mapper 驗證、映射回應
+   * 後端格式不符時丟出 ResponseValidationError，避免把殘缺資料渲染成卡片
    */
-  private static translateServerMessage(message: string): string {
-    const lang = i18n?.language || 'en';
-    const isZh = lang.startsWith('zh');
-
-    // 快速對應常見錯誤
-    const maps: Array<{ zh: RegExp; en: string; zhOut?: string }> = [
-      { zh: /用戶名或密碼錯誤|認證失敗/, en: 'Invalid username or password.', zhOut: '用戶名或密碼錯誤' },
-      { zh: /登入失敗[:：]?\s*憑證錯誤|憑證錯誤/, en: 'Invalid username or password.', zhOut: '用戶名或密碼錯誤' },
-      { zh: /使用者名稱不存在|用戶名不存在/, en: 'Username does not exist.', zhOut: '使用者名稱不存在' },
-      { zh: /用戶名長度必須在3-50個字符之間/, en: 'Username must be between 3 and 50 characters.', zhOut: '用戶名長度必須在3-50個字元之間' },
-      { zh: /密碼長度至少6個字符/, en: 'Password must be at least 6 characters.', zhOut: '密碼長度至少 6 個字元' },
-      { zh: /郵箱格式不正確|郵箱格式不正确/, en: 'Invalid email format.', zhOut: '電子郵件格式不正確' },
-      { zh: /用戶名.*已存在|使用者名稱.*已存在|帳號.*已存在/, en: 'Username already exists.', zhOut: '使用者名稱已存在' },
-      { zh: /郵箱.*已被使用|郵箱已存在|電子郵件.*已被使用|電子郵件.*已存在/, en: 'Email already exists.', zhOut: '電子郵件已被使用' },
-      { zh: /密碼確認不匹配/, en: 'Passwords do not match.', zhOut: '兩次密碼輸入不一致' },
-    ];
-
-    for (const m of maps) {
-      if (m.zh.test(message)) {
-        return isZh ? (m.zhOut || message) : m.en;
-      }
+  private static async requestAs<T>(endpoint: string, mapper: (raw: unknown) => T, options: RequestInit = {}): Promise<T> {
+    const raw = await this.request<unknown>(endpoint, options);
+    try {
+      return mapper(raw);
+    } catch (error) {
+      console.error('API Response Validation Error:', error);
+      throw error;
     }
-
-    // 預設回傳原始訊息或英文包裝
-    if (isZh) return message;
-    // 簡單將部份關鍵字翻譯
-    if (/錯誤|失敗/.test(message)) return 'Request failed. Please try again.';
-    return message;
   }
 
   // Blog Post API methods
-  static async getPosts() {
-    return this.request<any[]>('/content/posts');
+  static async getPosts(signal?: AbortSignal): Promise<PostListResponse> {
+    const endpoint = '/content/posts';
+    return this.requestAs(endpoint, raw => parseList(raw, toBlogPost, endpoint), { signal });
   }
 
-  static async getPost(id: string) {
-    return this.request<any>(`/content/posts/${id}`);
+  /**
+   * 分頁取得文章，排序、分類與搜尋由後端處理
+   */
+  static async getPostsPage(query: ListQuery, signal?: AbortSignal): Promise<PageResponse<BlogPostData>> {
+    const endpoint = `/content/posts?${toSearchParams(query)}`;
+    return this.requestAs(endpoint, raw => parsePage(raw, toBlogPost, endpoint, query, postListFields), { signal });
   }
 
-  static async createPost(postData: any) {
-    return this.request<any>('/content/posts', {
+  /**
+   * 文章的總數與各分類、各標籤的文章數；status 與列表查詢相同，公開頁面帶 published
+   */
+  static async getPostFacets(status: PostStatus | undefined, signal?: AbortSignal): Promise<PostFacetsResponse> {
+    const endpoint = `/content/posts/facets${status ? `?status=${status}` : ''}`;
+    return this.requestAs(endpoint, raw => toPostFacets(raw, endpoint, 'response'), { signal });
+  }
+
+  static async getPost(id: string, signal?: AbortSignal): Promise<PostResponse> {
+    const endpoint = `/content/posts/${id}`;
+    return this.requestAs(endpoint, raw => toBlogPost(raw, endpoint, 'response'), { signal });
+  }
+
+  static async createPost(postData: PostPayload, signal?: AbortSignal): Promise<PostResponse> {
+    const endpoint = '/content/posts';
+    return this.requestAs(endpoint, raw => toBlogPost(raw, endpoint, 'response'), {
       method: 'POST',
-      body: JSON.stringify(postData)
+      body: JSON.stringify(postData),
+      signal,
     });
   }
 
-  static async updatePost(id: string, postData: any) {
-    return this.request<any>(`/content/posts/${id}`, {
+  /**
+   * 更新文章
+   * @param baseUpdatedAt 開始編輯時文章的 updatedAt；帶上時以 If-Match 送出，文章之後被改過時後端回傳 412
+   */
+  static async updatePost(id: string, postData: PostPayload, signal?: AbortSignal, baseUpdatedAt?: number): Promise<PostResponse> {
+    const endpoint = `/content/posts/${id}`;
+    return this.requestAs(endpoint, raw => toBlogPost(raw, endpoint, 'response'), {
       method: 'PUT',
-      body: JSON.stringify(postData)
+      body: JSON.stringify(postData),
+      headers: baseUpdatedAt !== undefined ? { 'If-Match': `"${baseUpdatedAt}"` } : undefined,
+      signal,
     });
   }
 
-  static async deletePost(id: string) {
-    return this.request<void>(`/content/posts/${id}`, {
-      method: 'DELETE'
+  static async deletePost(id: string, signal?: AbortSignal): Promise<void> {
+    await this.request<void>(`/content/posts/${id}`, {
+      method: 'DELETE',
+      signal,
+    });
+  }
+
+  /**
+   * 文章的修訂紀錄，由新到舊排列；每次建立或更新文章時由後端記錄
+   */
+  static async getPostRevisions(id: string, signal?: AbortSignal): Promise<PostRevision[]> {
+    const endpoint = `/content/posts/${id}/revisions`;
+    return this.requestAs(endpoint, raw => parseList(raw, toPostRevision, endpoint), { signal });
+  }
+
+  /**
+   * 文章編輯中自動儲存的內容；沒有時後端回傳 204，這裡回傳 null
+   */
+  static async getPostAutosave(id: string, signal?: AbortSignal): Promise<PostAutosave | null> {
+    const endpoint = `/content/posts/${id}/autosave`;
+    return this.requestAs(endpoint, raw => (raw && typeof raw === 'object' && Object.keys(raw).length > 0 ? toPostAutosave(raw, endpoint, 'response') : null), { signal });
+  }
+
+  static async savePostAutosave(id: string, payload: PostAutosavePayload, signal?: AbortSignal): Promise<PostAutosave> {
+    const endpoint = `/content/posts/${id}/autosave`;
+    return this.requestAs(endpoint, raw => toPostAutosave(raw, endpoint, 'response'), {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+      signal,
+    });
+  }
+
+  static async deletePostAutosave(id: string, signal?: AbortSignal): Promise<void> {
+    await this.request<void>(`/content/posts/${id}/autosave`, {
+      method: 'DELETE',
+      signal,
     });
   }
 
   // Portfolio API methods
-  static async getPortfolio() {
-    return this.request<any[]>('/content/portfolio');
+  static async getPortfolio(signal?: AbortSignal): Promise<PortfolioListResponse> {
+    const endpoint = '/content/portfolio';
+    return this.requestAs(endpoint, raw => parseList(raw, toPortfolioItem, endpoint), { signal });
+  }
+
+  /**
+   * 分頁取得作品，排序、分類與搜尋由後端處理
+   */
+  static async getPortfolioPage(query: ListQuery, signal?: AbortSignal): Promise<PageResponse<PortfolioItemData>> {
+    const endpoint = `/content/portfolio?${toSearchParams(query)}`;
+    return this.requestAs(endpoint, raw => parsePage(raw, toPortfolioItem, endpoint, query, portfolioListFields), { signal });
+  }
+
+  /**
+   * 作品篩選用的機身與鏡頭選項，取代下載全部作品後自行彙整
+   */
+  static async getPortfolioFacets(signal?: AbortSignal): Promise<PortfolioFacetsResponse> {
+    const endpoint = '/content/portfolio/facets';
+    return this.requestAs(endpoint, raw => toPortfolioFacets(raw, endpoint, 'response'), { signal });
+  }
+
+  static async getPortfolioItem(id: string, signal?: AbortSignal): Promise<PortfolioItemResponse> {
+    const endpoint = `/content/portfolio/${id}`;
+    return this.requestAs(endpoint, raw => toPortfolioItem(raw, endpoint, 'response'), { signal });
+  }
+
+  static async createPortfolioItem(itemData: PortfolioItemPayload, signal?: AbortSignal): Promise<PortfolioItemResponse> {
+    const endpoint = '/content/portfolio';
+    return this.requestAs(endpoint, raw => toPortfolioItem(raw, endpoint, 'response'), {
+      method: 'POST',
+      body: JSON.stringify(itemData),
+      signal,
+    });
+  }
+
+  static async updatePortfolioItem(id: string, itemData: PortfolioItemPayload, signal?: AbortSignal): Promise<PortfolioItemResponse> {
+    const endpoint = `/content/portfolio/${id}`;
+    return this.requestAs(endpoint, raw => toPortfolioItem(raw, endpoint, 'response'), {
+      method: 'PUT',
+      body: JSON.stringify(itemData),
+      signal,
+    });
+  }
+
+  /**
+   * 自訂排序：傳入的作品依序重新分配它們原本佔用的位置
+   * 只傳一頁的作品時，其他頁的順序不受影響
+   */
+  static async reorderPortfolio(ids: string[], signal?: AbortSignal): Promise<void> {
+    await this.request<void>('/content/portfolio/order', {
+      method: 'PUT',
+      body: JSON.stringify({ ids }),
+      signal,
+    });
+  }
+
+  /**
+   * 精選輪播的順序：依傳入的順序排列全部精選作品
+   */
+  static async reorderFeaturedPortfolio(ids: string[], signal?: AbortSignal): Promise<void> {
+    await this.request<void>('/content/portfolio/featured-order', {
+      method: 'PUT',
+      body: JSON.stringify({ ids }),
+      signal,
+    });
+  }
+
+  static async deletePortfolioItem(id: string, signal?: AbortSignal): Promise<void> {
+    await this.request<void>(`/content/portfolio/${id}`, {
+      method: 'DELETE',
+      signal,
+    });
   }
 
-  static async getPortfolioItem(id: string) {
-    return this.request<any>(`/content/portfolio/${id}`);
+  // Album API methods
+  static async getAlbums(signal?: AbortSignal): Promise<AlbumResponse[]> {
+    const endpoint = '/content/albums';
+    return this.requestAs(endpoint, raw => parseList(raw, toAlbum, endpoint), { signal });
   }
 
-  static async createPortfolioItem(itemData: any) {
-    return this.request<any>('/content/portfolio', {
+  static async createAlbum(albumData: AlbumPayload, signal?: AbortSignal): Promise<AlbumResponse> {
+    const endpoint = '/content/albums';
+    return this.requestAs(endpoint, raw => toAlbum(raw, endpoint, 'response'), {
       method: 'POST',
-      body: JSON.stringify(itemData)
+      body: JSON.stringify(albumData),
+      signal,
+    });
+  }
+
+  static async updateAlbum(id: string, albumData: AlbumPayload, signal?: AbortSignal): Promise<AlbumResponse> {
+    const endpoint = `/content/albums/${id}`;
+    return this.requestAs(endpoint, raw => toAlbum(raw, endpoint, 'response'), {
+      method: 'PUT',
+      body: JSON.stringify(albumData),
+      signal,
+    });
+  }
+
+  static async deleteAlbum(id: string, signal?: AbortSignal): Promise<void> {
+    await this.request<void>(`/content/albums/${id}`, {
+      method: 'DELETE',
+      signal,
     });
   }
 
-  static async updatePortfolioItem(id: string, itemData: any) {
-    return this.request<any>(`/content/portfolio/${id}`, {
+  /**
+   * 依傳入的 id 順序重新排列相簿
+   */
+  static async reorderAlbums(ids: string[], signal?: AbortSignal): Promise<AlbumResponse[]> {
+    const endpoint = '/content/albums/order';
+    return this.requestAs(endpoint, raw => parseList(raw, toAlbum, endpoint), {
       method: 'PUT',
-      body: JSON.stringify(itemData)
+      body: JSON.stringify({ ids }),
+      signal,
     });
   }
 
-  static async deletePortfolioItem(id: string) {
-    return this.request<void>(`/content/portfolio/${id}`, {
-      method: 'DELETE'
+  // Tag API methods
+  static async getTags(signal?: AbortSignal): Promise<TagResponse[]> {
+    const endpoint = '/content/tags';
+    return this.requestAs(endpoint, raw => parseList(raw, toTag, endpoint), { signal });
+  }
+
+  /**
+   * 以 slug 建立或更新標籤的名稱
+   */
+  static async saveTag(slug: string, tagData: TagPayload, signal?: AbortSignal): Promise<TagResponse> {
+    const endpoint = `/content/tags/${encodeURIComponent(slug)}`;
+    return this.requestAs(endpoint, raw => toTag(raw, endpoint, 'response'), {
+      method: 'PUT',
+      body: JSON.stringify(tagData),
+      signal,
     });
   }
 
   // Comment API methods
-  static async getCommentsByPost(postId: string) {
-    return this.request<any[]>(`/comments/post/${postId}`);
+  static async getCommentsByPost(postId: string, signal?: AbortSignal): Promise<CommentListResponse> {
+    const endpoint = `/comments/post/${postId}`;
+    return this.requestAs(endpoint, raw => parseList(raw, toComment, endpoint), { signal });
+  }
+
+  /**
+   * 一次取得多篇文章的留言數，供列表頁顯示
+   */
+  static async getCommentCounts(postIds: string[], signal?: AbortSignal): Promise<CommentCountsResponse> {
+    const endpoint = `/comments/counts?postIds=${postIds.map(encodeURIComponent).join(',')}`;
+    return this.requestAs(endpoint, raw => toCommentCounts(raw, endpoint, 'response'), { signal });
   }
 
-  static async addComment(payload: { postId: string; text: string; parentId?: string | null }) {
-    return this.request<any>('/comments', {
+  static async addComment(payload: CreateCommentRequest, signal?: AbortSignal): Promise<CommentResponse> {
+    const endpoint = '/comments';
+    return this.requestAs(endpoint, raw => toComment(raw, endpoint, 'response'), {
       method: 'POST',
       body: JSON.stringify(payload),
+      signal,
     });
   }
 
-  static async deleteComment(id: string) {
-    return this.request<void>(`/comments/${id}`, {
+  static async deleteComment(id: string, signal?: AbortSignal): Promise<void> {
+    await this.request<void>(`/comments/${id}`, {
       method: 'DELETE',
+      signal,
     });
   }
-} 
\ No newline at end of file
+
+  // Auth API methods
+  static async login(payload: LoginRequest, signal?: AbortSignal): Promise<AuthResponse> {
+    const endpoint = '/auth/login';
+    return this.requestAs(endpoint, raw => toAuthResponse(raw, endpoint, 'response'), {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      signal,
+    });
+  }
+
+  static async register(payload: RegisterRequest, signal?: AbortSignal): Promise<AuthResponse> {
+    const endpoint = '/auth/register';
+    return this.requestAs(endpoint, raw => toAuthResponse(raw, endpoint, 'response'), {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      signal,
+    });
+  }
+
+  static async refresh(payload: RefreshTokenRequest, signal?: AbortSignal): Promise<RefreshTokenResponse> {
+    const endpoint = '/auth/refresh';
+    return this.requestAs(endpoint, raw => toRefreshResponse(raw, endpoint, 'response'), {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      signal,
+    });
+  }
+
+  static async getMe(signal?: AbortSignal): Promise<User> {
+    const endpoint = '/auth/me';
+    return this.requestAs(endpoint, raw => parseField(raw, 'user', toUser, endpoint), { method: 'GET', signal });
+  }
+
+  static async updateMe(payload: UpdateUserRequest, signal?: AbortSignal): Promise<User> {
+    const endpoint = '/auth/me';
+    return this.requestAs(endpoint, raw => parseField(raw, 'user', toUser, endpoint), {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+      signal,
+    });
+  }
+
+  static async logout(refreshToken: string, signal?: AbortSignal): Promise<void> {
+    await this.request<void>('/auth/logout', {
+      method: 'POST',
+      headers: { 'Refresh-Token': refreshToken },
+      signal,
+    });
+  }
+}
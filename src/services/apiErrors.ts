@@ -0,0 +1,172 @@
+/**
+ * API 錯誤分類與在地化訊息
+ * - 依狀態碼或失敗原因歸類為 network、timeout、auth 等類別，呼叫端以 kind 判斷處理方式
+ * - 顯示文字來自翻譯檔的 apiErrors 區段：先找後端錯誤代碼，再退回類別的通用訊息
+ */
+import { i18n } from '../../i18n';
+import { ApiError as ApiErrorResponse } from '../types/auth';
+
+export type ApiErrorKind =
+  | 'network' // 離線或連不到伺服器
+  | 'timeout' // 超過等待時間
+  | 'auth' // 401，需要登入或令牌失效
+  | 'forbidden' // 403
+  | 'notFound' // 404 / 410
+  | 'validation' // 400 / 422，可能附帶欄位錯誤
+  | 'conflict' // 409 / 412，資料已被修改
+  | 'rateLimit' // 429
+  | 'server' // 5xx
+  | 'unknown';
+
+// 欄位名稱對應該欄位的錯誤訊息
+export type FieldErrors = Record<string, string[]>;
+
+export interface ApiErrorDetails {
+  kind?: ApiErrorKind;
+  code?: string;
+  fieldErrors?: FieldErrors;
+  retryAfter?: number;
+}
+
+export class ApiError extends Error {
+  status: number; // 0 代表沒有收到回應
+  data?: unknown; // 原始回應內容，讀取前需先檢查型別
+  kind: ApiErrorKind;
+  code?: string; // 後端錯誤代碼，例如 USERNAME_TAKEN
+  fieldErrors: FieldErrors;
+  retryAfter?: number; // 伺服器要求的等待時間（毫秒）
+  constructor(message: string, status: number, data?: unknown, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    this.kind = details.kind ?? classifyStatus(status);
+    this.code = details.code;
+    this.fieldErrors = details.fieldErrors ?? {};
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+// 請求被 AbortSignal 取消時丟出的錯誤；呼叫端通常直接忽略
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const isApiError = (error: unknown, ...kinds: ApiErrorKind[]): error is ApiError =>
+  error instanceof ApiError && (kinds.length === 0 || kinds.includes(error.kind));
+
+export const classifyStatus = (status: number): ApiErrorKind => {
+  if (status === 0) return 'network';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 404 || status === 410) return 'notFound';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 429) return 'rateLimit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Retry-After 可能是秒數或 HTTP 日期，統一轉成毫秒
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * 取得錯誤的顯示文字
+ * 有對應代碼時使用翻譯檔；否則中文介面沿用後端訊息（後端以中文回應），其他語言顯示類別的通用訊息
+ */
+export const localizeApiError = (kind: ApiErrorKind, code?: string, serverMessage?: string): string => {
+  if (code && i18n.exists(`apiErrors.codes.${code}`)) return i18n.t(`apiErrors.codes.${code}`);
+  if (serverMessage && (i18n.language || '').startsWith('zh')) return serverMessage;
+  return i18n.t(`apiErrors.kinds.${kind}`, { defaultValue: serverMessage || `Request failed (${kind})` });
+};
+
+// 後端欄位錯誤可能是字串或字串陣列，統一成陣列
+const toFieldErrors = (errors: unknown): FieldErrors => {
+  if (!errors || typeof errors !== 'object' || Array.isArray(errors)) return {};
+  const result: FieldErrors = {};
+  Object.entries(errors as Record<string, unknown>).forEach(([field, value]) => {
+    const messages = (Array.isArray(value) ? value : [value]).filter((m): m is string => typeof m === 'string');
+    if (messages.length > 0) result[field] = messages;
+  });
+  return result;
+};
+
+// 錯誤代碼對應的欄位；後端只回傳代碼、沒有 errors 時也能標示到欄位上
+const CODE_FIELDS: Record<string, string> = {
+  USERNAME_LENGTH: 'username',
+  USERNAME_TAKEN: 'username',
+  USERNAME_NOT_FOUND: 'username',
+  EMAIL_INVALID: 'email',
+  EMAIL_TAKEN: 'email',
+  PASSWORD_TOO_SHORT: 'password',
+  PASSWORD_MISMATCH: 'confirmPassword',
+  PHONE_INVALID: 'phone',
+  BIRTHDAY_INVALID: 'birthday',
+  ALBUM_SLUG_TAKEN: 'slug',
+  ALBUM_SLUG_INVALID: 'slug',
+};
+
+/**
+ * 由錯誤回應建立 ApiError
+ * 後端格式為 { success: false, message, code?, errors? }
+ */
+export const toApiError = (status: number, body: unknown, retryAfterHeader: string | null = null): ApiError => {
+  const data = (body && typeof body === 'object' ? body : {}) as Partial<ApiErrorResponse> & { error?: unknown; details?: unknown };
+  const kind = classifyStatus(status);
+  const code = typeof data.code === 'string' ? data.code : undefined;
+  // 第三方服務（例如 Cloudinary）以 { error: { message } } 回傳
+  const nestedMessage = data.error && typeof data.error === 'object' ? (data.error as { message?: unknown }).message : undefined;
+  const serverMessage = [data.message, data.error, data.details, nestedMessage].find((m): m is string => typeof m === 'string' && m !== '');
+  const message = localizeApiError(kind, code, serverMessage);
+  const fieldErrors = toFieldErrors(data.errors);
+  // 代碼對應的欄位改用在地化後的訊息
+  const codeField = code && CODE_FIELDS[code];
+  if (codeField) fieldErrors[codeField] = [message];
+  return new ApiError(message, status, data, {
+    kind,
+    code,
+    fieldErrors,
+    retryAfter: parseRetryAfter(retryAfterHeader),
+  });
+};
+
+export const readApiError = async (response: Response): Promise<ApiError> => {
+  const text = await response.text().catch(() => '');
+  let body: unknown = {};
+  try { body = text ? JSON.parse(text) : {}; } catch {}
+  return toApiError(response.status, body, response.headers.get('Retry-After'));
+};
+
+export const networkError = (cause?: unknown): ApiError =>
+  new ApiError(localizeApiError('network'), 0, { cause }, { kind: 'network' });
+
+export const timeoutError = (): ApiError =>
+  new ApiError(localizeApiError('timeout'), 0, undefined, { kind: 'timeout' });
+
+// 成功的回應卻不是合法的 JSON，視為伺服器錯誤
+export const invalidResponseError = (status: number, cause?: unknown): ApiError =>
+  new ApiError(localizeApiError('server', 'INVALID_RESPONSE'), status, { cause }, { kind: 'server', code: 'INVALID_RESPONSE' });
+
+/**
+ * 解析成功回應的內容；空內容回傳空物件，格式錯誤丟出 invalidResponseError
+ */
+export const parseResponseBody = <T>(text: string, status: number): T => {
+  if (!text) return {} as T;
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw invalidResponseError(status, error);
+  }
+};
+
+// 網路中斷、逾時、限流與閘道錯誤屬於暫時性失敗，可自動重試
+export const isTransientError = (error: unknown): error is ApiError =>
+  isApiError(error, 'network', 'timeout', 'rateLimit')
+  || (isApiError(error, 'server') && [502, 503, 504].includes(error.status));
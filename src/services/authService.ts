@@ -1,5 +1,6 @@
 import { ApiService } from './api';
 import { AuthResponse, LoginRequest, RegisterRequest, User, UpdateUserRequest } from '../types/auth';
+import { RefreshTokenResponse } from '../types/api';
 
 export class AuthService {
   /**
@@ -10,10 +11,7 @@ export class AuthService {
    */
   static async login(username: string, password: string): Promise<AuthResponse> {
     try {
-      const response = await ApiService.request<AuthResponse>('/auth/login', {
-        method: 'POST',
-        body: JSON.stringify({ username, password }),
-      });
+      const response = await ApiService.login({ username, password });
       
       // 登入成功後自動保存 token
       if (response.token) {
@@ -33,7 +31,7 @@ export class AuthService {
    * 觸發後端 Google OAuth2 流程（後端導向）
    */
   static loginWithGoogle(): void {
-    const base = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_API_BASE_URL) || '/api';
+    const base = import.meta.env.VITE_API_BASE_URL || '/api';
     try { localStorage.setItem('authProvider', 'google'); } catch {}
     window.location.href = `${base}/auth/oauth2/authorize/google`;
   }
@@ -61,26 +59,16 @@ export class AuthService {
    * 從後端取得目前登入使用者
    */
   static async getMe(): Promise<User> {
-    const resp = await ApiService.request<{ success: boolean; message?: string; user: User }>(
-      '/auth/me',
-      { method: 'GET' }
-    );
-    return resp.user;
+    return ApiService.getMe();
   }
 
   /**
    * 更新目前登入使用者資料
    */
   static async updateMe(payload: UpdateUserRequest): Promise<User> {
-    const resp = await ApiService.request<{ success: boolean; user: User }>(
-      '/auth/me',
-      {
-        method: 'PUT',
-        body: JSON.stringify(payload),
-      }
-    );
-    if (resp?.user) this.setCurrentUser(resp.user);
-    return resp.user;
+    const user = await ApiService.updateMe(payload);
+    this.setCurrentUser(user);
+    return user;
   }
 
   /**
@@ -90,10 +78,7 @@ export class AuthService {
    */
   static async register(userData: RegisterRequest): Promise<AuthResponse> {
     try {
-      const response = await ApiService.request<AuthResponse>('/auth/register', {
-        method: 'POST',
-        body: JSON.stringify(userData),
-      });
+      const response = await ApiService.register(userData);
       
       // 註冊成功後自動保存 token
       if (response.token) {
@@ -111,19 +96,16 @@ export class AuthService {
 
   /**
    * 刷新訪問令牌
-   * @returns Promise<AuthResponse> 新的令牌響應
+   * @returns Promise<RefreshTokenResponse> 新的令牌響應
    */
-  static async refreshToken(): Promise<AuthResponse> {
+  static async refreshToken(): Promise<RefreshTokenResponse> {
     try {
       const refreshToken = localStorage.getItem('refreshToken');
       if (!refreshToken) {
         throw new Error('沒有刷新令牌');
       }
       
-      const response = await ApiService.request<AuthResponse>('/auth/refresh', {
-        method: 'POST',
-        body: JSON.stringify({ refreshToken }),
-      });
+      const response = await ApiService.refresh({ refreshToken });
       
       // 更新存儲的令牌
       if (response.token) {
@@ -147,10 +129,7 @@ export class AuthService {
     try {
       // 調用後端登出接口，附帶 Refresh-Token 讓後端清理刷新令牌
       const refreshToken = localStorage.getItem('refreshToken') || '';
-      await ApiService.request('/auth/logout', {
-        method: 'POST',
-        headers: { 'Refresh-Token': refreshToken },
-      });
+      await ApiService.logout(refreshToken);
     } catch (error) {
       console.error('Logout Error:', error);
     } finally {
@@ -0,0 +1,72 @@
+/**
+ * 編輯器自動儲存的本機備份（IndexedDB）
+ * 分頁關閉或瀏覽器當掉後，重新開啟編輯頁時可以還原尚未儲存的內容
+ * 無法使用 IndexedDB（例如隱私模式）時讀寫都不做任何事
+ */
+import { PostAutosave } from '../types/api';
+
+const DB_NAME = 'editorAutosave';
+const STORE = 'autosaves';
+
+interface StoredAutosave extends PostAutosave {
+  key: string; // 'post:new' 或 'post:<id>'
+}
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => { request.result.createObjectStore(STORE, { keyPath: 'key' }); };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const getDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = typeof indexedDB === 'undefined'
+      ? Promise.resolve(null)
+      : openDb().catch(error => {
+        console.error('Could not open autosave database', error);
+        return null;
+      });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> => {
+  const db = await getDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const loadLocalAutosave = async (key: string): Promise<PostAutosave | null> => {
+  try {
+    const stored = await runRequest<StoredAutosave | undefined>('readonly', store => store.get(key));
+    if (!stored) return null;
+    const { key: _key, ...autosave } = stored;
+    return autosave;
+  } catch (error) {
+    console.error('Could not read autosave', error);
+    return null;
+  }
+};
+
+export const saveLocalAutosave = async (key: string, autosave: PostAutosave): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put({ ...autosave, key } satisfies StoredAutosave));
+  } catch (error) {
+    console.error('Could not write autosave', error);
+  }
+};
+
+export const removeLocalAutosave = async (key: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(key));
+  } catch (error) {
+    console.error('Could not remove autosave', error);
+  }
+};
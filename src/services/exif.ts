@@ -0,0 +1,236 @@
+/**
+ * EXIF 區段的讀取與寫回
+ * - 讀出相機、鏡頭、曝光參數等拍攝資訊，存到作品上
+ * - 重新編碼後的圖片會遺失 EXIF，這裡負責把原始 JPEG 的 EXIF（TIFF 資料）搬到新圖片上
+ * 只依賴 Uint8Array / DataView，可在 Web Worker 中使用
+ */
+import type { PhotoExif } from '../../types';
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+const MAX_SEGMENT_LENGTH = 0xffff;
+
+// 用到的 TIFF / EXIF 標籤
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  exifIfd: 0x8769,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+};
+
+// TIFF 欄位型別對應的位元組數：BYTE、ASCII、SHORT、LONG、RATIONAL、UNDEFINED、SLONG、SRATIONAL
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// 讀取檔案開頭即可涵蓋 APP1，不必把整張照片讀進記憶體
+const EXIF_READ_LIMIT = 256 * 1024;
+
+const matches = (bytes: Uint8Array, offset: number, expected: number[] | string): boolean => {
+  const values = typeof expected === 'string' ? Array.from(expected, c => c.charCodeAt(0)) : expected;
+  return values.every((value, i) => bytes[offset + i] === value);
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (result.set(part, offset), offset + part.length), 0);
+  return result;
+};
+
+/**
+ * 從 JPEG 取出 APP1 EXIF 區段中的 TIFF 資料
+ * @returns 不是 JPEG 或沒有 EXIF 時為 null
+ */
+export const extractJpegExif = (jpeg: Uint8Array): Uint8Array | null => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return null;
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    // SOS 之後是影像資料，不會再有 metadata
+    if (marker === 0xda) break;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1 && matches(jpeg, offset + 4, EXIF_HEADER)) {
+      return jpeg.slice(offset + 10, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+type TagValue = string | number;
+
+const readValue = (view: DataView, type: number, at: number, count: number, little: boolean): TagValue | undefined => {
+  switch (type) {
+    case 2:
+      return String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + at, count)).replace(/\0+$/, '').trim();
+    case 3:
+      return view.getUint16(at, little);
+    case 4:
+      return view.getUint32(at, little);
+    case 5: {
+      const denominator = view.getUint32(at + 4, little);
+      return denominator ? view.getUint32(at, little) / denominator : undefined;
+    }
+    case 10: {
+      const denominator = view.getInt32(at + 4, little);
+      return denominator ? view.getInt32(at, little) / denominator : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+// 讀取一個 IFD 的所有標籤；多值欄位只取第一個值
+const readIfd = (view: DataView, offset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  if (offset + 2 > view.byteLength) return tags;
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * length;
+    if (!size) continue;
+    const at = size > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+    if (at + size > view.byteLength) continue;
+    const value = readValue(view, type, at, type === 2 ? length : 1, little);
+    if (value !== undefined && value !== '') tags.set(view.getUint16(entry, little), value);
+  }
+  return tags;
+};
+
+const text = (tags: Map<number, TagValue>, tag: number) => {
+  const value = tags.get(tag);
+  return typeof value === 'string' ? value : undefined;
+};
+
+const numeric = (tags: Map<number, TagValue>, tag: number) => {
+  const value = tags.get(tag);
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+// 型號多半已含廠牌（'Canon EOS R5'），沒有時才補上（'NIKON CORPORATION' + 'Z 6'）
+const cameraName = (make?: string, model?: string): string | undefined => {
+  if (!make || !model) return model || make;
+  const brand = make.split(' ')[0].toLowerCase();
+  return model.toLowerCase().startsWith(brand) ? model : `${make.split(' ')[0]} ${model}`;
+};
+
+// EXIF 日期格式為 'YYYY:MM:DD HH:MM:SS'，沒有時區，視為拍攝地的當地時間
+const toIsoDate = (value?: string): string | undefined => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+/**
+ * 解析 TIFF 資料中的拍攝資訊，缺少的欄位不會出現在結果中
+ */
+export const readExif = (tiff: Uint8Array): PhotoExif => {
+  if (tiff.length < 8) return {};
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = matches(tiff, 0, 'II');
+  const ifd0 = readIfd(view, view.getUint32(4, little), little);
+  const exifOffset = numeric(ifd0, TAGS.exifIfd);
+  const sub = exifOffset ? readIfd(view, exifOffset, little) : new Map<number, TagValue>();
+  const exif: PhotoExif = {
+    camera: cameraName(text(ifd0, TAGS.make), text(ifd0, TAGS.model)),
+    lens: text(sub, TAGS.lensModel),
+    focalLength: numeric(sub, TAGS.focalLength),
+    aperture: numeric(sub, TAGS.fNumber),
+    exposureTime: numeric(sub, TAGS.exposureTime),
+    iso: numeric(sub, TAGS.iso),
+    takenAt: toIsoDate(text(sub, TAGS.dateTimeOriginal)),
+  };
+  return Object.fromEntries(Object.entries(exif).filter(([, value]) => value !== undefined));
+};
+
+/**
+ * 從上傳的照片讀取拍攝資訊
+ * 需在前處理前呼叫：重新編碼預設會去除 EXIF
+ * @returns 不是 JPEG、沒有 EXIF 或讀不到任何欄位時為 null
+ */
+export const readPhotoExif = async (file: Blob): Promise<PhotoExif | null> => {
+  try {
+    const tiff = extractJpegExif(new Uint8Array(await file.slice(0, EXIF_READ_LIMIT).arrayBuffer()));
+    const exif = tiff ? readExif(tiff) : {};
+    return Object.keys(exif).length > 0 ? exif : null;
+  } catch (error) {
+    console.warn('Could not read EXIF metadata:', error);
+    return null;
+  }
+};
+
+/**
+ * 將 TIFF 資料中的方向標記改為 1（正向）
+ * 像素已依 EXIF 轉正，保留原本的方向會讓檢視器再旋轉一次
+ */
+export const resetExifOrientation = (tiff: Uint8Array): Uint8Array => {
+  const result = tiff.slice();
+  if (result.length < 8) return result;
+  const view = new DataView(result.buffer);
+  const little = matches(result, 0, 'II');
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > result.length) return result;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > result.length) break;
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+      view.setUint16(entry + 8, 1, little);
+      break;
+    }
+  }
+  return result;
+};
+
+/**
+ * 在 JPEG 中插入 EXIF 區段（放在 SOI 與 JFIF APP0 之後）
+ */
+export const insertJpegExif = (jpeg: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  if (length > MAX_SEGMENT_LENGTH || jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return jpeg;
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) insertAt += 2 + ((jpeg[4] << 8) | jpeg[5]);
+  const segment = concat(new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff, ...EXIF_HEADER]), tiff);
+  return concat(jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt));
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(8);
+  header.set(Array.from(fourcc, c => c.charCodeAt(0)));
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  // RIFF 區塊長度為奇數時要補一個位元組
+  return concat(header, data, new Uint8Array(data.length % 2));
+};
+
+/**
+ * 在 WebP 中加入 EXIF 區塊
+ * 簡單格式（只有 VP8 / VP8L）需先補上 VP8X 標頭宣告延伸功能，因此要帶入圖片尺寸
+ */
+export const insertWebpExif = (webp: Uint8Array, tiff: Uint8Array, width: number, height: number): Uint8Array => {
+  if (!matches(webp, 0, 'RIFF') || !matches(webp, 8, 'WEBP')) return webp;
+  const chunks = webp.slice(12);
+  let head: Uint8Array;
+  if (matches(chunks, 0, 'VP8X')) {
+    chunks[8] |= 0x08; // EXIF flag
+    head = new Uint8Array(0);
+  } else {
+    const vp8x = new Uint8Array(10);
+    const view = new DataView(vp8x.buffer);
+    vp8x[0] = 0x08;
+    view.setUint32(4, width - 1, true); // 24 位元，寫 32 位元再由高度覆蓋最高位元組
+    view.setUint16(7, (height - 1) & 0xffff, true);
+    vp8x[9] = (height - 1) >> 16;
+    head = riffChunk('VP8X', vp8x);
+  }
+  const body = concat(head, chunks, riffChunk('EXIF', tiff));
+  const header = new Uint8Array(12);
+  header.set(webp.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat(header, body);
+};
@@ -0,0 +1,62 @@
+/**
+ * 表單的前端驗證，規則與後端一致
+ * 錯誤訊息使用與後端相同的錯誤代碼（apiErrors.codes），前後端顯示的文字一致
+ */
+import { FieldErrors, localizeApiError } from './apiErrors';
+
+export type FormField = 'username' | 'email' | 'password' | 'confirmPassword' | 'phone' | 'birthday';
+
+export type FormValues = Partial<Record<FormField, string>>;
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const PHONE_PATTERN = /^\+?[\d\s()-]{7,20}$/;
+const DATE_PATTERN = /^(\d{4})[-/](\d{2})[-/](\d{2})$/;
+
+const isValidBirthday = (value: string): boolean => {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(y, m - 1, d);
+  // 排除 2 月 30 日這類會自動進位的日期，以及未來的日期
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d && date.getTime() <= Date.now();
+};
+
+// 各欄位的格式規則；回傳錯誤代碼，通過則為 null
+const rules: Record<FormField, (value: string, values: FormValues) => string | null> = {
+  username: value => (value.length < 3 || value.length > 50 ? 'USERNAME_LENGTH' : null),
+  email: value => (EMAIL_PATTERN.test(value) ? null : 'EMAIL_INVALID'),
+  password: value => (value.length < 6 ? 'PASSWORD_TOO_SHORT' : null),
+  confirmPassword: (value, values) => (value !== (values.password ?? '') ? 'PASSWORD_MISMATCH' : null),
+  phone: value => (PHONE_PATTERN.test(value) ? null : 'PHONE_INVALID'),
+  birthday: value => (isValidBirthday(value) ? null : 'BIRTHDAY_INVALID'),
+};
+
+/**
+ * 驗證表單欄位
+ * @param values 要驗證的欄位；空字串只檢查是否必填
+ * @param options.required 必填欄位
+ * @param options.checkFormat 是否檢查格式（登入只需檢查必填）
+ * @returns 欄位錯誤，格式與後端回傳的 errors 相同
+ */
+export const validateForm = (
+  values: FormValues,
+  options: { required?: FormField[]; checkFormat?: boolean } = {},
+): FieldErrors => {
+  const { required = [], checkFormat = true } = options;
+  const errors: FieldErrors = {};
+  (Object.keys(values) as FormField[]).forEach(field => {
+    const value = values[field] ?? '';
+    let code: string | null = null;
+    if (!value.trim()) {
+      if (required.includes(field)) code = 'FIELD_REQUIRED';
+    } else if (checkFormat) {
+      code = rules[field](value, values);
+    }
+    if (code) errors[field] = [localizeApiError('validation', code)];
+  });
+  // 確認密碼即使留空，只要新密碼有填就必須一致
+  if (checkFormat && values.confirmPassword === '' && values.password && !errors.confirmPassword) {
+    errors.confirmPassword = [localizeApiError('validation', 'PASSWORD_MISMATCH')];
+  }
+  return errors;
+};
@@ -0,0 +1,145 @@
+/**
+ * 上傳前的圖片前處理：縮小尺寸、依 EXIF 轉正、重新編碼為 WebP / AVIF
+ * 實際運算在 Web Worker（src/workers/imagePreprocess.worker.ts）中進行，不會卡住畫面
+ * 瀏覽器不支援 Worker 或 OffscreenCanvas 時直接使用原檔
+ */
+import { abortReason } from './api';
+
+export type PreprocessFormat = 'webp' | 'avif' | 'jpeg';
+
+export interface PreprocessOptions {
+  maxWidth: number;
+  maxHeight: number;
+  format: PreprocessFormat;
+  quality: number; // 0–1
+  keepExif: boolean; // 保留原檔的 EXIF（僅 JPEG / WebP 輸出支援，方向會重設為正向）
+}
+
+export interface PreprocessResult {
+  file: File;
+  originalSize: number;
+  processedSize: number;
+  width: number;
+  height: number;
+  placeholder?: string; // 低畫質預覽的 data URL，未經前處理時沒有
+}
+
+// 與 Worker 之間的訊息格式
+export interface PreprocessRequest {
+  id: number;
+  file: Blob;
+  options: PreprocessOptions;
+}
+
+export type PreprocessResponse =
+  | { id: number; ok: true; blob: Blob; width: number; height: number; placeholder: string }
+  | { id: number; ok: false; error: string };
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxWidth: 2560,
+  maxHeight: 2560,
+  format: 'webp',
+  quality: 0.85,
+  keepExif: false,
+};
+
+const STORAGE_KEY = 'imagePreprocessOptions';
+
+// 不適合重新編碼的格式：動畫與向量圖
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/avif': 'avif', 'image/jpeg': 'jpg', 'image/png': 'png' };
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(stored) } : DEFAULT_PREPROCESS_OPTIONS;
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error('Could not save image preprocess options', error);
+  }
+};
+
+export const isPreprocessSupported = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/**
+ * 以 KB / MB 顯示檔案大小
+ */
+export const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+class ImagePreprocessor {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, (response: PreprocessResponse) => void>();
+
+  // 第一次使用時才建立 Worker，之後共用同一個
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/imagePreprocess.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = ({ data }: MessageEvent<PreprocessResponse>) => {
+        this.pending.get(data.id)?.(data);
+        this.pending.delete(data.id);
+      };
+      this.worker.onerror = event => {
+        console.error('Image preprocess worker failed:', event.message);
+        this.pending.forEach(resolve => resolve({ id: -1, ok: false, error: event.message }));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+
+  /**
+   * 處理單一圖片
+   * 不支援、格式不適合時回傳原檔；保留 EXIF 且處理後反而變大時也用原檔
+   * （不保留 EXIF 時即使變大也用處理後的檔案，避免把拍攝位置等資訊上傳出去）
+   */
+  async process(file: File, options: PreprocessOptions = loadPreprocessOptions(), signal?: AbortSignal): Promise<PreprocessResult> {
+    if (signal?.aborted) throw abortReason(signal);
+    const unchanged: PreprocessResult = { file, originalSize: file.size, processedSize: file.size, width: 0, height: 0 };
+    if (!isPreprocessSupported() || !file.type.startsWith('image/') || PASSTHROUGH_TYPES.includes(file.type)) return unchanged;
+
+    const id = this.nextId++;
+    const response = await new Promise<PreprocessResponse>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        reject(abortReason(signal!));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, result => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      });
+      this.getWorker().postMessage({ id, file, options } satisfies PreprocessRequest);
+    });
+
+    if (!response.ok) {
+      console.warn('Image preprocessing failed, uploading original:', response.error);
+      return unchanged;
+    }
+    const { blob, width, height, placeholder } = response;
+    if (blob.size >= file.size && options.keepExif) return { ...unchanged, width, height, placeholder };
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.${EXTENSIONS[blob.type] ?? 'img'}`;
+    return {
+      file: new File([blob], name, { type: blob.type, lastModified: file.lastModified }),
+      originalSize: file.size,
+      processedSize: blob.size,
+      width,
+      height,
+      placeholder,
+    };
+  }
+}
+
+export const imagePreprocessor = new ImagePreprocessor();
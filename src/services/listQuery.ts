@@ -0,0 +1,136 @@
+import { BlogPostData, PortfolioItemData, PostStatus } from '../../types';
+import { ListQuery, PageResponse, SortOrder } from '../types/api';
+import { effectivePostStatus } from './postStatus';
+
+/**
+ * 列表查詢在前端的對應實作
+ * 後端尚未支援分頁參數（直接回傳整個陣列）時，用同一套規則在本地排序、篩選與分頁
+ */
+export interface ListFields<T> {
+  date: (item: T) => number;
+  title: (item: T, lang?: string) => string;
+  views: (item: T) => number;
+  category: (item: T) => string;
+  searchText: (item: T) => string;
+  featured: (item: T) => boolean;
+  camera?: (item: T) => string; // 只有作品集有拍攝資訊
+  lens?: (item: T) => string;
+  albums?: (item: T) => string[];
+  position?: (item: T) => number | undefined; // 只有作品集可自訂排序
+  featuredPosition?: (item: T) => number | undefined;
+  status?: (item: T) => PostStatus; // 只有文章有發布狀態
+  tags?: (item: T) => string[];
+}
+
+const isZh = (lang?: string) => !!lang && lang.startsWith('zh');
+
+const toTime = (date?: string) => (date ? new Date(date).getTime() || 0 : 0);
+
+export const postListFields: ListFields<BlogPostData> = {
+  date: p => toTime(p.date),
+  title: (p, lang) => (isZh(lang) && p.titleZh ? p.titleZh : (p.title || '')),
+  views: p => p.views || 0,
+  category: p => p.categoryKey || '',
+  searchText: p => [p.title, p.titleZh, p.content, p.contentZh, p.excerpt, p.excerptZh].filter(Boolean).join('\n'),
+  featured: p => !!p.isFeatured,
+  status: p => effectivePostStatus(p),
+  tags: p => p.tags ?? [],
+};
+
+export const portfolioListFields: ListFields<PortfolioItemData> = {
+  date: i => toTime(i.date),
+  title: (i, lang) => (isZh(lang) && i.titleZh ? i.titleZh : (i.title || i.id)),
+  views: i => i.views || 0,
+  category: i => i.categoryKey || '',
+  searchText: i => [i.title, i.titleZh, i.description, i.descriptionZh].filter(Boolean).join('\n'),
+  featured: i => !!i.isFeatured,
+  camera: i => i.exif?.camera || '',
+  lens: i => i.exif?.lens || '',
+  albums: i => i.albumIds ?? [],
+  position: i => i.position,
+  featuredPosition: i => i.featuredPosition,
+};
+
+// 尚未排過位置的項目排在最後
+const comparePositions = (a?: number, b?: number): number => {
+  if (a === b) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a - b;
+};
+
+export const compareBy = <T,>(fields: ListFields<T>, sort: SortOrder, lang?: string) => (a: T, b: T): number => {
+  switch (sort) {
+    // 位置相同或都沒有位置時，以日期新到舊排列
+    case 'custom': return comparePositions(fields.position?.(a), fields.position?.(b)) || fields.date(b) - fields.date(a);
+    case 'featured-custom': return comparePositions(fields.featuredPosition?.(a), fields.featuredPosition?.(b)) || fields.date(b) - fields.date(a);
+    case 'date-asc': return fields.date(a) - fields.date(b);
+    case 'title-asc': return fields.title(a, lang).localeCompare(fields.title(b, lang));
+    case 'title-desc': return fields.title(b, lang).localeCompare(fields.title(a, lang));
+    case 'views-desc': return fields.views(b) - fields.views(a);
+    case 'views-asc': return fields.views(a) - fields.views(b);
+    case 'category-asc': return fields.category(a).localeCompare(fields.category(b));
+    case 'category-desc': return fields.category(b).localeCompare(fields.category(a));
+    case 'date-desc':
+    default: return fields.date(b) - fields.date(a);
+  }
+};
+
+export const applyListQuery = <T,>(items: T[], query: ListQuery, fields: ListFields<T>): PageResponse<T> => {
+  let filtered = items;
+  if (query.categories && query.categories.length > 0) {
+    const keys = new Set(query.categories);
+    filtered = filtered.filter(item => keys.has(fields.category(item)));
+  }
+  if (query.featured !== undefined) {
+    filtered = filtered.filter(item => fields.featured(item) === query.featured);
+  }
+  const { camera, lens, albums, status, tags } = fields;
+  if (query.camera && camera) {
+    filtered = filtered.filter(item => camera(item) === query.camera);
+  }
+  if (query.lens && lens) {
+    filtered = filtered.filter(item => lens(item) === query.lens);
+  }
+  if (query.album && albums) {
+    filtered = filtered.filter(item => albums(item).includes(query.album!));
+  }
+  if (query.status && status) {
+    filtered = filtered.filter(item => status(item) === query.status);
+  }
+  if (query.tag && tags) {
+    filtered = filtered.filter(item => tags(item).includes(query.tag!));
+  }
+  const term = query.search?.trim().toLowerCase();
+  if (term) {
+    filtered = filtered.filter(item => fields.searchText(item).toLowerCase().includes(term));
+  }
+  const sorted = [...filtered].sort(compareBy(fields, query.sort, query.lang));
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: sorted.slice(start, start + query.pageSize),
+    total: sorted.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+};
+
+/**
+ * 轉為後端的查詢字串：?page=&size=&sort=&category=&q=&featured=&camera=&lens=&album=&status=&tag=&lang=
+ */
+export const toSearchParams = (query: ListQuery): string => {
+  const params = new URLSearchParams();
+  params.set('page', String(query.page));
+  params.set('size', String(query.pageSize));
+  params.set('sort', query.sort);
+  if (query.categories && query.categories.length > 0) params.set('category', query.categories.join(','));
+  if (query.search?.trim()) params.set('q', query.search.trim());
+  if (query.featured !== undefined) params.set('featured', String(query.featured));
+  if (query.camera) params.set('camera', query.camera);
+  if (query.lens) params.set('lens', query.lens);
+  if (query.album) params.set('album', query.album);
+  if (query.status) params.set('status', query.status);
+  if (query.tag) params.set('tag', query.tag);
+  if (query.lang) params.set('lang', query.lang);
+  return params.toString();
+};
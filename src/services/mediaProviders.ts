@@ -0,0 +1,138 @@
+/**
+ * 媒體上傳的儲存後端
+ * - cloudinary：直接上傳到 Cloudinary（unsigned upload preset）
+ * - backend：上傳到後端的 /media/upload，由後端決定儲存位置
+ * - local：開發用，由 Vite 開發伺服器寫入 public/uploads
+ */
+import { abortReason, ApiService } from './api';
+import { ApiError, networkError, toApiError } from './apiErrors';
+
+export type MediaProviderName = 'cloudinary' | 'backend' | 'local';
+
+export interface UploadResult {
+  url: string;
+  provider: MediaProviderName;
+}
+
+export interface UploadOptions {
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface MediaProvider {
+  name: MediaProviderName;
+  isAvailable: () => boolean;
+  upload: (file: File, options: UploadOptions) => Promise<UploadResult>;
+}
+
+/**
+ * 以 XHR 送出請求以取得上傳進度；失敗時丟出已分類的 ApiError
+ */
+const sendWithProgress = (
+  url: string,
+  body: XMLHttpRequestBodyInit,
+  { onProgress, signal, headers = {} }: UploadOptions & { headers?: Record<string, string> },
+): Promise<any> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) onProgress?.(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => {
+      let data: any = {};
+      try { data = xhr.responseText ? JSON.parse(xhr.responseText) : {}; } catch {}
+      if (xhr.status >= 200 && xhr.status < 300) resolve(data);
+      else reject(toApiError(xhr.status, data, xhr.getResponseHeader('Retry-After')));
+    };
+    xhr.onerror = () => reject(networkError());
+    xhr.onabort = () => reject(signal ? abortReason(signal) : new DOMException('The operation was aborted.', 'AbortError'));
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(body);
+  });
+
+// 回應中必須有可用的網址，否則視為伺服器錯誤
+const requireUrl = (url: unknown, provider: MediaProviderName): string => {
+  if (typeof url === 'string' && url) return url;
+  throw new ApiError(`Upload via ${provider} returned no URL`, 502, { url });
+};
+
+const cloudinaryConfig = () => ({
+  cloudName: (window as any).CLOUDINARY_CLOUD_NAME || process.env.CLOUDINARY_CLOUD_NAME,
+  uploadPreset: (window as any).CLOUDINARY_UPLOAD_PRESET || process.env.CLOUDINARY_UPLOAD_PRESET,
+});
+
+/**
+ * 在 Cloudinary 網址加上自動畫質與格式（q_auto,f_auto），已加過則不重複
+ */
+export const optimizeCloudinaryUrl = (url: string): string =>
+  url.includes('/upload/q_auto,f_auto/') ? url : url.replace('/upload/', '/upload/q_auto,f_auto/');
+
+// Cloudinary 圖片網址：.../image/upload/<轉換參數，可省略>/<v版本/>公開 ID
+const CLOUDINARY_IMAGE_URL = /^(https?:\/\/res\.cloudinary\.com\/[^/]+\/image\/upload\/)((?:[a-z]{1,3}_[^/]*\/)*)(.+)$/;
+
+// 是否為可套用轉換參數的 Cloudinary 圖片網址
+export const isCloudinaryUrl = (url: string): boolean => CLOUDINARY_IMAGE_URL.test(url);
+
+/**
+ * 以指定的轉換參數取代 Cloudinary 網址原有的轉換，例如 'c_limit,w_1920,q_auto,f_auto'
+ * 非 Cloudinary 的網址原樣回傳
+ */
+export const cloudinaryVariant = (url: string, transformation: string): string => {
+  const match = CLOUDINARY_IMAGE_URL.exec(url);
+  return match ? `${match[1]}${transformation}/${match[3]}` : url;
+};
+
+/**
+ * 依寬度產生 Cloudinary 的 srcset（c_limit 不會放大超過原圖）；非 Cloudinary 網址回傳 undefined
+ */
+export const cloudinarySrcSet = (url: string, widths: number[]): string | undefined => {
+  if (!isCloudinaryUrl(url)) return undefined;
+  return widths.map(width => `${cloudinaryVariant(url, `c_limit,w_${width},q_auto,f_auto`)} ${width}w`).join(', ');
+};
+
+export const cloudinaryProvider: MediaProvider = {
+  name: 'cloudinary',
+  isAvailable: () => {
+    const { cloudName, uploadPreset } = cloudinaryConfig();
+    return !!cloudName && !!uploadPreset;
+  },
+  upload: async (file, options) => {
+    const { cloudName, uploadPreset } = cloudinaryConfig();
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('upload_preset', String(uploadPreset));
+    const data = await sendWithProgress(`https://api.cloudinary.com/v1_1/${cloudName}/image/upload`, formData, options);
+    return { url: optimizeCloudinaryUrl(requireUrl(data.secure_url, 'cloudinary')), provider: 'cloudinary' };
+  },
+};
+
+export const backendProvider: MediaProvider = {
+  name: 'backend',
+  isAvailable: () => true,
+  upload: async (file, { onProgress, signal }) => {
+    const data = await ApiService.uploadFileWithProgress<{ url?: string }>('/media/upload', file, onProgress, signal);
+    return { url: requireUrl(data.url, 'backend'), provider: 'backend' };
+  },
+};
+
+// 對應 vite.config.ts 的 localMediaPlugin，只在開發伺服器上存在
+export const localProvider: MediaProvider = {
+  name: 'local',
+  isAvailable: () => import.meta.env.DEV,
+  upload: async (file, options) => {
+    const data = await sendWithProgress('/__media/upload', file, {
+      ...options,
+      headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(file.name) },
+    });
+    return { url: requireUrl(data.url, 'local'), provider: 'local' };
+  },
+};
+
+export const mediaProviders: Record<MediaProviderName, MediaProvider> = {
+  cloudinary: cloudinaryProvider,
+  backend: backendProvider,
+  local: localProvider,
+};
@@ -0,0 +1,62 @@
+/**
+ * 統一的媒體上傳服務
+ * - 以 VITE_MEDIA_PROVIDER 指定儲存後端（cloudinary / backend / local）
+ * - 未指定時：有 Cloudinary 設定就用 Cloudinary，開發環境改用本機，其餘交給後端
+ * - 網路中斷、逾時等暫時性錯誤會自動重試；signal 可取消上傳
+ */
+import { wait } from './api';
+import { ApiError, isTransientError, localizeApiError } from './apiErrors';
+import { MediaProvider, MediaProviderName, mediaProviders, UploadOptions, UploadResult } from './mediaProviders';
+
+export type { MediaProviderName, UploadResult } from './mediaProviders';
+
+export interface MediaUploadOptions extends UploadOptions {
+  retries?: number; // 暫時性錯誤的重試次數
+}
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 800;
+
+export class MediaService {
+  private override: MediaProviderName | null = null;
+
+  /**
+   * 取得目前使用的儲存後端
+   */
+  getProvider(): MediaProvider {
+    const configured = this.override ?? import.meta.env.VITE_MEDIA_PROVIDER;
+    if (configured && configured in mediaProviders) return mediaProviders[configured as MediaProviderName];
+    if (mediaProviders.cloudinary.isAvailable()) return mediaProviders.cloudinary;
+    if (mediaProviders.local.isAvailable()) return mediaProviders.local;
+    return mediaProviders.backend;
+  }
+
+  // 執行期切換儲存後端，傳入 null 恢復預設
+  setProvider(name: MediaProviderName | null): void {
+    this.override = name;
+  }
+
+  /**
+   * 上傳圖片
+   * @returns 上傳後的網址與使用的儲存後端
+   */
+  async upload(file: File, options: MediaUploadOptions = {}): Promise<UploadResult> {
+    if (!file.type.startsWith('image/')) {
+      throw new ApiError(localizeApiError('validation', 'MEDIA_TYPE_INVALID'), 400, undefined, { kind: 'validation', code: 'MEDIA_TYPE_INVALID' });
+    }
+    const { retries = DEFAULT_RETRIES, ...uploadOptions } = options;
+    const provider = this.getProvider();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await provider.upload(file, uploadOptions);
+      } catch (error) {
+        if (attempt >= retries || !isTransientError(error)) throw error;
+        // 重試時進度從頭開始
+        uploadOptions.onProgress?.(0);
+        await wait(error.retryAfter ?? RETRY_BASE_DELAY * 2 ** attempt, uploadOptions.signal);
+      }
+    }
+  }
+}
+
+export const mediaService = new MediaService();
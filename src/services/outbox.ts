@@ -0,0 +1,307 @@
+/**
+ * 離線寫入佇列（outbox）
+ * - 離線或網路中斷時，把寫入操作存進 IndexedDB，重新整理頁面後仍保留
+ * - 恢復連線後依加入順序逐筆重送，成功後讓相關查詢重新驗證
+ * - 連線中仍送不出去（逾時、伺服器暫時無回應、憑證失效）時以遞增的間隔自動重試；登入或刷新令牌後立即重送
+ * - 新增留言與文章（POST）不是冪等的：逾時的請求可能已寫入，只有確定沒送出時才重送，其餘標記為失敗
+ * - 編輯文章時記下開始編輯時的 updatedAt 並以 If-Match 送出；伺服器以 409/412（或目標已不存在）拒絕時標記為衝突，
+ *   交由使用者覆寫或捨棄
+ */
+import { BlogPostData, Comment, PortfolioItemData } from '../../types';
+import { CreateCommentRequest, PortfolioItemPayload, PostPayload } from '../types/api';
+import { ApiService } from './api';
+import { isApiError } from './apiErrors';
+import { queryClient, QueryKey } from './queryClient';
+
+export type OutboxOperation =
+  | { type: 'addComment'; payload: CreateCommentRequest; preview: Comment }
+  | { type: 'deleteComment'; postId: string; commentId: string }
+  | { type: 'createPost'; payload: PostPayload }
+  | { type: 'updatePost'; postId: string; payload: PostPayload; baseUpdatedAt?: number }
+  | { type: 'deletePost'; postId: string }
+  | { type: 'updatePortfolioItem'; itemId: string; payload: PortfolioItemPayload }
+  | { type: 'deletePortfolioItem'; itemId: string };
+
+export type OutboxOperationType = OutboxOperation['type'];
+
+// 各操作成功時的回傳值
+interface OperationResults {
+  addComment: Comment;
+  deleteComment: void;
+  createPost: BlogPostData;
+  updatePost: BlogPostData;
+  deletePost: void;
+  updatePortfolioItem: PortfolioItemData;
+  deletePortfolioItem: void;
+}
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed' | 'conflict';
+
+export interface OutboxEntry<O extends OutboxOperation = OutboxOperation> {
+  id: number;
+  op: O;
+  status: OutboxStatus;
+  createdAt: number;
+  error?: string;
+}
+
+export type OutboxResult<T> = { queued: false; result: T } | { queued: true; entry: OutboxEntry };
+
+const DB_NAME = 'outbox';
+const STORE = 'entries';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => { request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true }); };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runRequest = <T>(db: IDBDatabase, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const execute = (op: OutboxOperation): Promise<unknown> => {
+  switch (op.type) {
+    case 'addComment': return ApiService.addComment(op.payload);
+    case 'deleteComment': return ApiService.deleteComment(op.commentId);
+    case 'createPost': return ApiService.createPost(op.payload);
+    case 'updatePost': return ApiService.updatePost(op.postId, op.payload, undefined, op.baseUpdatedAt);
+    case 'deletePost': return ApiService.deletePost(op.postId);
+    case 'updatePortfolioItem': return ApiService.updatePortfolioItem(op.itemId, op.payload);
+    case 'deletePortfolioItem': return ApiService.deletePortfolioItem(op.itemId);
+  }
+};
+
+// 同步成功後需要重新驗證的查詢
+const invalidatesFor = (op: OutboxOperation): QueryKey[] => {
+  switch (op.type) {
+    case 'addComment':
+    case 'deleteComment': return [['comments']];
+    case 'createPost':
+    case 'updatePost': return [['posts']];
+    case 'deletePost': return [['posts'], ['comments']];
+    // 照片加入或移出相簿會改變相簿的照片數
+    case 'updatePortfolioItem':
+    case 'deletePortfolioItem': return [['portfolio'], ['albums']];
+  }
+};
+
+// 重送可能重複建立資料的操作
+const NON_IDEMPOTENT: OutboxOperationType[] = ['addComment', 'createPost'];
+
+// 離線、逾時或連不到伺服器時先保留；憑證失效（401）也先保留，待重新登入後再送
+// 非冪等的操作逾時時伺服器可能已收到，不自動重送
+const shouldRetryLater = (error: unknown, op: OutboxOperation): boolean =>
+  NON_IDEMPOTENT.includes(op.type) ? isApiError(error, 'network', 'auth') : isApiError(error, 'network', 'timeout', 'auth');
+
+const isDelete = (op: OutboxOperation) => op.type.startsWith('delete');
+
+// 自動重試的間隔：5 秒起每次加倍，最長 5 分鐘
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<() => void>();
+  private db: IDBDatabase | null = null;
+  private nextMemoryId = 1;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.hydrate();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => { this.resume(); });
+      this.ready.then(() => { if (navigator.onLine) this.flush(); });
+    }
+  }
+
+  getEntries(): OutboxEntry[] {
+    return this.entries;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * 執行寫入；離線、網路中斷或前面仍有待送項目時改為排入佇列
+   */
+  async send<O extends OutboxOperation>(op: O): Promise<OutboxResult<OperationResults[O['type']]>> {
+    await this.ready;
+    const hasQueued = this.entries.some(e => e.status === 'pending' || e.status === 'sending');
+    if (!navigator.onLine || hasQueued) return { queued: true, entry: await this.enqueue(op) };
+    try {
+      return { queued: false, result: await execute(op) as OperationResults[O['type']] };
+    } catch (error) {
+      if (!shouldRetryLater(error, op)) throw error;
+      const entry = await this.enqueue(op);
+      this.scheduleRetry();
+      return { queued: true, entry };
+    }
+  }
+
+  /**
+   * 取消等待中的自動重試並立即重送，供恢復連線、登入與刷新令牌後呼叫
+   */
+  resume(): Promise<void> {
+    this.clearRetry();
+    this.retryAttempt = 0;
+    return this.flush();
+  }
+
+  /**
+   * 重送單一項目；衝突的文章編輯改為不帶 If-Match，直接覆寫伺服器上的版本
+   */
+  async retry(id: number): Promise<void> {
+    const entry = this.entries.find(e => e.id === id);
+    if (entry) {
+      const op = entry.status === 'conflict' && entry.op.type === 'updatePost' ? { ...entry.op, baseUpdatedAt: undefined } : entry.op;
+      await this.update(id, { status: 'pending', error: undefined, op });
+    }
+    return this.resume();
+  }
+
+  async discard(id: number): Promise<void> {
+    await this.remove(id);
+  }
+
+  /**
+   * 依加入順序重送待送項目；遇到網路錯誤就停止，排定下一次自動重試
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => { this.flushing = null; });
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    await this.ready;
+    let entry = this.entries.find(e => e.status === 'pending');
+    while (entry && navigator.onLine) {
+      await this.update(entry.id, { status: 'sending' });
+      try {
+        const result = await execute(entry.op);
+        if (entry.op.type === 'updatePost') await this.rebase(entry.op, (result as BlogPostData).updatedAt);
+        await this.synced(entry);
+      } catch (error) {
+        if (shouldRetryLater(error, entry.op)) {
+          await this.update(entry.id, { status: 'pending' });
+          this.scheduleRetry();
+          return;
+        }
+        if (isApiError(error, 'notFound') && isDelete(entry.op)) {
+          // 目標已被刪除，視為完成
+          await this.synced(entry);
+        } else {
+          const isConflict = isApiError(error, 'conflict', 'notFound');
+          await this.update(entry.id, {
+            status: isConflict ? 'conflict' : 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      entry = this.entries.find(e => e.status === 'pending');
+    }
+  }
+
+  // 同一篇文章後面排隊的編輯原本以同一個版本為基準，改以這次寫入後的版本為基準，才不會被自己前一筆編輯判為衝突
+  private async rebase(op: Extract<OutboxOperation, { type: 'updatePost' }>, updatedAt: number | undefined): Promise<void> {
+    for (const e of this.entries) {
+      if (e.status !== 'pending' || e.op.type !== 'updatePost' || e.op.postId !== op.postId || e.op.baseUpdatedAt !== op.baseUpdatedAt) continue;
+      await this.update(e.id, { op: { ...e.op, baseUpdatedAt: updatedAt } });
+    }
+  }
+
+  // 已有排定的重試時不重複排定；離線時交給 online 事件
+  private scheduleRetry(): void {
+    if (this.retryTimer || typeof window === 'undefined') return;
+    const delay = Math.min(RETRY_BASE_MS * 2 ** this.retryAttempt, RETRY_MAX_MS);
+    this.retryAttempt += 1;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (navigator.onLine) this.flush();
+    }, delay);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private async synced(entry: OutboxEntry): Promise<void> {
+    this.retryAttempt = 0;
+    await this.remove(entry.id);
+    invalidatesFor(entry.op).forEach(key => { queryClient.invalidateQueries(key); });
+  }
+
+  private async enqueue(op: OutboxOperation): Promise<OutboxEntry> {
+    const draft = { op, status: 'pending' as const, createdAt: Date.now() };
+    let id = this.nextMemoryId++;
+    if (this.db) {
+      try {
+        id = await runRequest(this.db, 'readwrite', store => store.add(draft)) as number;
+      } catch (error) {
+        console.error('Could not persist outbox entry', error);
+      }
+    }
+    const entry: OutboxEntry = { ...draft, id };
+    this.setEntries([...this.entries, entry]);
+    return entry;
+  }
+
+  private async update(id: number, patch: Partial<Pick<OutboxEntry, 'status' | 'error' | 'op'>>): Promise<void> {
+    const current = this.entries.find(e => e.id === id);
+    if (!current) return;
+    const next = { ...current, ...patch };
+    this.setEntries(this.entries.map(e => (e.id === id ? next : e)));
+    await this.persist(store => store.put(next));
+  }
+
+  private async remove(id: number): Promise<void> {
+    this.setEntries(this.entries.filter(e => e.id !== id));
+    await this.persist(store => store.delete(id));
+  }
+
+  private async persist(fn: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    if (!this.db) return;
+    try {
+      await runRequest(this.db, 'readwrite', fn);
+    } catch (error) {
+      console.error('Could not persist outbox entry', error);
+    }
+  }
+
+  private setEntries(entries: OutboxEntry[]): void {
+    this.entries = entries;
+    this.listeners.forEach(listener => listener());
+  }
+
+  // 從 IndexedDB 還原；上次關閉時仍在傳送中的項目重新排回待送
+  private async hydrate(): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+    try {
+      this.db = await openDb();
+      const stored = await runRequest<OutboxEntry[]>(this.db, 'readonly', store => store.getAll());
+      const entries = stored
+        .sort((a, b) => a.id - b.id)
+        .map(e => (e.status === 'sending' ? { ...e, status: 'pending' as const } : e));
+      this.nextMemoryId = (entries[entries.length - 1]?.id ?? 0) + 1;
+      this.setEntries(entries);
+    } catch (error) {
+      // 無法使用 IndexedDB（例如隱私模式）時只保留在記憶體
+      console.error('Could not open outbox database', error);
+      this.db = null;
+    }
+  }
+}
+
+export const outbox = new Outbox();
@@ -0,0 +1,39 @@
+import { BlogPostData } from '../../types';
+import { PostPayload, PostRevisionField, PostRevisionSnapshot } from '../types/api';
+
+export const POST_REVISION_FIELDS: PostRevisionField[] = ['title', 'titleZh', 'content', 'contentZh', 'categoryKey', 'imageUrl', 'status', 'publishAt'];
+
+// 還原時套用的欄位：只還原內容，發布狀態與排程維持目前的設定，避免誤把文章下架或重新發布
+const RESTORED_FIELDS = ['imageUrl', 'imagePlaceholder', 'title', 'titleZh', 'content', 'contentZh', 'excerpt', 'excerptZh', 'categoryKey'] as const;
+
+export const toRevisionSnapshot = (post: BlogPostData): PostRevisionSnapshot => ({
+  imageUrl: post.imageUrl,
+  imagePlaceholder: post.imagePlaceholder,
+  title: post.title,
+  titleZh: post.titleZh,
+  content: post.content,
+  contentZh: post.contentZh,
+  excerpt: post.excerpt,
+  excerptZh: post.excerptZh,
+  categoryKey: post.categoryKey,
+  status: post.status,
+  publishAt: post.publishAt,
+});
+
+// 沒有值與空字串視為相同
+export const changedRevisionFields = (before: PostRevisionSnapshot, after: PostRevisionSnapshot): PostRevisionField[] =>
+  POST_REVISION_FIELDS.filter(field => (before[field] ?? '') !== (after[field] ?? ''));
+
+/**
+ * 以目前的文章為基礎，套用修訂版本的內容，作為一次新的儲存送出
+ * 修訂中沒有的欄位以空字串送出，PUT 時才會清除目前的值
+ */
+export const toRestorePayload = (post: BlogPostData, snapshot: PostRevisionSnapshot): PostPayload => ({
+  ...Object.fromEntries(RESTORED_FIELDS.map(field => [field, snapshot[field] ?? ''])) as Pick<PostPayload, typeof RESTORED_FIELDS[number]>,
+  imageUrl: snapshot.imageUrl || post.imageUrl,
+  isLocked: post.isLocked,
+  isFeatured: post.isFeatured,
+  tags: post.tags,
+  status: post.status,
+  publishAt: post.publishAt ?? '',
+});
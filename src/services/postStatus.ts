@@ -0,0 +1,26 @@
+import { BlogPostData, PostStatus } from '../../types';
+
+/**
+ * 文章目前實際的發布狀態
+ * - 沒有 status 的舊資料視為已發布
+ * - 排程文章在 publishAt 到了之後視為已發布，不需要後端另外改寫狀態
+ */
+export const effectivePostStatus = (post: Pick<BlogPostData, 'status' | 'publishAt'>, now = Date.now()): PostStatus => {
+  if (post.status === 'draft') return 'draft';
+  if (post.status === 'scheduled') {
+    const publishAt = post.publishAt ? Date.parse(post.publishAt) : NaN;
+    return !Number.isNaN(publishAt) && publishAt <= now ? 'published' : 'scheduled';
+  }
+  return 'published';
+};
+
+// 公開頁面（部落格、分類彙整、上下篇導覽）只顯示已發布的文章
+export const isPostPublished = (post: Pick<BlogPostData, 'status' | 'publishAt'>, now = Date.now()): boolean =>
+  effectivePostStatus(post, now) === 'published';
+
+// 排程文章必須有未來的發布時間
+export const hasValidPublishAt = (status: PostStatus, publishAt: string, now = Date.now()): boolean => {
+  if (status !== 'scheduled') return true;
+  const time = Date.parse(publishAt);
+  return !Number.isNaN(time) && time > now;
+};
@@ -0,0 +1,28 @@
+import { BlogPostData, PostTag } from '../../types';
+
+/**
+ * 由標籤名稱產生 slug：轉小寫，連續的空白與符號換成一個連字號
+ * 保留中文等非拉丁文字，中文標籤也能有自己的網址
+ */
+export const toTagSlug = (name: string): string =>
+  name.trim().toLowerCase().normalize('NFKC').replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+
+export const isValidTagSlug = (slug: string): boolean => !!slug && toTagSlug(slug) === slug;
+
+// 依目前語言顯示標籤名稱，沒有中文名稱時退回英文
+export const tagLabel = (tag: PostTag, language: string): string =>
+  (language === 'zh-Hant' && tag.nameZh) ? tag.nameZh : tag.name;
+
+export const matchesTag = (tag: PostTag, term: string): boolean => {
+  const needle = term.trim().toLowerCase();
+  return !needle || [tag.slug, tag.name, tag.nameZh].some(text => text?.toLowerCase().includes(needle));
+};
+
+// 每個標籤被幾篇文章使用，供標籤雲決定字級
+export const countTags = (posts: BlogPostData[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  posts.forEach(post => new Set(post.tags).forEach(slug => counts.set(slug, (counts.get(slug) ?? 0) + 1)));
+  return counts;
+};
+
+export const tagPath = (slug: string): string => `/blog/tag/${encodeURIComponent(slug)}`;
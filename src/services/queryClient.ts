@@ -0,0 +1,286 @@
+/**
+ * 輕量的查詢快取（stale-while-revalidate）
+ * - 以陣列 key 區分查詢，例如 ['posts']、['comments', postId]
+ * - 已有資料時先回傳快取，再於背景重新驗證
+ * - 視窗重新聚焦或網路恢復時，重新驗證仍在使用中的過期查詢
+ * - 可持久化到 localStorage，重新整理頁面後仍能立即顯示上次的資料
+ * - 查詢不再有訂閱者（頁面卸載或切換路由）或被本地寫入取代時，取消進行中的請求
+ */
+import { isAbortError } from './api';
+
+export type QueryKey = readonly (string | number)[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number; // 0 代表尚未取得或已被標記為過期
+  isFetching: boolean;
+}
+
+// 查詢函式會收到 AbortSignal，轉交給 ApiService 以便取消請求
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryOptions {
+  staleTime?: number; // 資料在多久內視為新鮮（毫秒）
+  persist?: boolean; // 是否寫入 localStorage
+}
+
+interface Entry {
+  key: QueryKey;
+  state: QueryState<any>;
+  fetcher?: QueryFetcher<any>;
+  promise?: Promise<any>;
+  controller?: AbortController;
+  fetchId: number;
+  staleTime: number;
+  persist: boolean;
+  subscribers: Set<() => void>;
+}
+
+export interface OptimisticUpdate<T = any> {
+  key: QueryKey;
+  updater: (old: T | undefined) => T | undefined;
+}
+
+const DEFAULT_STALE_TIME = 30_000;
+const STORAGE_KEY = 'queryCache';
+const EMPTY_STATE: QueryState<any> = Object.freeze({ data: undefined, error: undefined, updatedAt: 0, isFetching: false });
+
+export const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+// prefix ['comments'] 會匹配 ['comments', '42']
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length && prefix.every((part, i) => part === key[i]);
+
+export class QueryClient {
+  private entries = new Map<string, Entry>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.hydrate();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('focus', () => this.revalidateActive());
+      window.addEventListener('online', () => this.revalidateActive());
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.revalidateActive();
+      });
+    }
+  }
+
+  private getEntry(key: QueryKey): Entry {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: EMPTY_STATE, fetchId: 0, staleTime: DEFAULT_STALE_TIME, persist: false, subscribers: new Set() };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private setState(entry: Entry, patch: Partial<QueryState<any>>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.subscribers.forEach(listener => listener());
+    if (entry.persist && 'data' in patch) this.schedulePersist();
+  }
+
+  private isStale(entry: Entry): boolean {
+    return Date.now() - entry.state.updatedAt > entry.staleTime;
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return this.entries.get(hashKey(key))?.state ?? EMPTY_STATE;
+  }
+
+  getQueryData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.subscribers.add(listener);
+    return () => {
+      entry.subscribers.delete(listener);
+      // 延後檢查，避免重新訂閱（例如 StrictMode 或 key 不變的重新渲染）時誤取消
+      if (entry.subscribers.size === 0 && entry.controller) {
+        setTimeout(() => { if (entry.subscribers.size === 0) this.cancel(entry); }, 0);
+      }
+    };
+  }
+
+  // 取消進行中的請求並作廢其結果
+  private cancel(entry: Entry): void {
+    if (!entry.controller) return;
+    entry.controller.abort();
+    entry.controller = undefined;
+    entry.promise = undefined;
+    entry.fetchId++;
+    if (entry.state.isFetching) this.setState(entry, { isFetching: false });
+  }
+
+  /**
+   * 執行查詢；同一 key 同時只會有一個進行中的請求
+   */
+  fetchQuery<T>(key: QueryKey, fetcher?: QueryFetcher<T>): Promise<T> {
+    const entry = this.getEntry(key);
+    if (fetcher) entry.fetcher = fetcher;
+    if (entry.promise) return entry.promise;
+    if (!entry.fetcher) return Promise.reject(new Error(`No fetcher registered for query ${hashKey(key)}`));
+
+    const fetchId = ++entry.fetchId;
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.setState(entry, { isFetching: true });
+    const promise = entry.fetcher(controller.signal)
+      .then((data: T) => {
+        // 只採用最新一次請求的結果
+        if (fetchId === entry.fetchId) this.setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false });
+        return data;
+      })
+      .catch((error: unknown) => {
+        // 被取消的請求不算錯誤，下次使用時會重新取得
+        if (fetchId === entry.fetchId && !isAbortError(error)) this.setState(entry, { error, isFetching: false });
+        throw error;
+      })
+      .finally(() => {
+        if (entry.promise === promise) entry.promise = undefined;
+        if (entry.controller === controller) entry.controller = undefined;
+      });
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * 註冊查詢並在沒有資料或資料過期時於背景取得
+   */
+  ensureQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: QueryOptions = {}): void {
+    const entry = this.getEntry(key);
+    entry.fetcher = fetcher;
+    if (options.staleTime !== undefined) entry.staleTime = options.staleTime;
+    if (options.persist) entry.persist = true;
+    if (entry.state.data === undefined || this.isStale(entry)) {
+      this.fetchQuery(key).catch(error => { if (!isAbortError(error)) console.error(`Query ${hashKey(key)} failed:`, error); });
+    }
+  }
+
+  setQueryData<T>(key: QueryKey, updater: (old: T | undefined) => T | undefined): void {
+    const entry = this.getEntry(key);
+    // 本地寫入使進行中的請求結果作廢，避免舊資料覆蓋
+    entry.controller?.abort();
+    entry.controller = undefined;
+    entry.fetchId++;
+    entry.promise = undefined;
+    this.setState(entry, { data: updater(entry.state.data), isFetching: false });
+  }
+
+  // 更新所有符合前綴且已有資料的查詢
+  setQueriesData<T>(prefix: QueryKey, updater: (old: T) => T): void {
+    this.entries.forEach(entry => {
+      if (matchesPrefix(entry.key, prefix) && entry.state.data !== undefined) {
+        this.setQueryData<T>(entry.key, old => updater(old as T));
+      }
+    });
+  }
+
+  /**
+   * 將符合前綴的查詢標記為過期，仍在使用中的會立即重新取得
+   */
+  invalidateQueries(prefix: QueryKey): Promise<void> {
+    const pending: Promise<unknown>[] = [];
+    this.entries.forEach(entry => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      entry.state = { ...entry.state, updatedAt: 0 };
+      if (entry.subscribers.size > 0 && entry.fetcher) {
+        pending.push(this.fetchQuery(entry.key).catch(() => undefined));
+      }
+    });
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /**
+   * 清除符合前綴的查詢資料並立即寫回 localStorage，仍在使用中的會重新取得
+   * 用於資料不應再留在這台裝置上的情況（例如登出後的草稿）
+   */
+  removeQueries(prefix: QueryKey): void {
+    this.entries.forEach(entry => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      entry.controller?.abort();
+      entry.controller = undefined;
+      entry.fetchId++;
+      entry.promise = undefined;
+      this.setState(entry, { ...EMPTY_STATE });
+      if (entry.subscribers.size > 0 && entry.fetcher) {
+        this.fetchQuery(entry.key).catch(() => undefined);
+      }
+    });
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.writeSnapshot();
+  }
+
+  /**
+   * 以樂觀更新執行變更：先套用到快取，失敗時還原，結束後重新驗證相關查詢
+   */
+  async mutate<R>(options: {
+    mutation: () => Promise<R>;
+    optimistic?: OptimisticUpdate[];
+    invalidate?: QueryKey[];
+  }): Promise<R> {
+    const snapshots = (options.optimistic ?? []).map(({ key }) => ({ key, data: this.getQueryData(key) }));
+    options.optimistic?.forEach(({ key, updater }) => this.setQueryData(key, updater));
+    try {
+      return await options.mutation();
+    } catch (error) {
+      snapshots.forEach(({ key, data }) => this.setQueryData(key, () => data));
+      throw error;
+    } finally {
+      options.invalidate?.forEach(key => { this.invalidateQueries(key); });
+    }
+  }
+
+  private revalidateActive(): void {
+    this.entries.forEach(entry => {
+      if (entry.subscribers.size > 0 && entry.fetcher && this.isStale(entry)) {
+        this.fetchQuery(entry.key).catch(() => undefined);
+      }
+    });
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.writeSnapshot();
+    }, 500);
+  }
+
+  private writeSnapshot(): void {
+    const snapshot: Array<{ key: QueryKey; data: unknown }> = [];
+    this.entries.forEach(entry => {
+      if (entry.persist && entry.state.data !== undefined) snapshot.push({ key: entry.key, data: entry.state.data });
+    });
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Could not persist query cache', error);
+    }
+  }
+
+  // 從 localStorage 還原上次的資料；一律視為過期，首次使用時會在背景重新驗證
+  private hydrate(): void {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      const snapshot: Array<{ key: QueryKey; data: unknown }> = JSON.parse(stored);
+      snapshot.forEach(({ key, data }) => {
+        const entry = this.getEntry(key);
+        entry.persist = true;
+        entry.state = { ...EMPTY_STATE, data };
+      });
+    } catch (error) {
+      console.error('Could not restore query cache', error);
+    }
+  }
+}
+
+export const queryClient = new QueryClient();
@@ -0,0 +1,12 @@
+/**
+ * 註冊 public/sw.js，提供離線瀏覽
+ * 開發模式下不註冊，避免快取干擾 Vite 的熱更新
+ */
+export const registerServiceWorker = (): void => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(error => console.error('Service worker registration failed:', error));
+  });
+};
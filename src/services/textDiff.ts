@@ -0,0 +1,105 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * 逐行比較兩段文字（最長共同子序列）
+ * 先略過頭尾相同的行，只對中間變動的部分建表，長文章只改幾行時也很快
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  // table[i][j]：midA[i..] 與 midB[j..] 的最長共同子序列長度
+  const table = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      table[i][j] = midA[i] === midB[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      lines.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      lines.push({ type: 'removed', text: midA[i++] });
+    } else {
+      lines.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) lines.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) lines.push({ type: 'added', text: midB[j++] });
+  lines.push(...a.slice(endA).map(text => ({ type: 'same' as const, text })));
+  return lines;
+};
+
+export interface SideBySideRow {
+  left?: DiffLine; // 舊版本的行（same 或 removed）
+  right?: DiffLine; // 新版本的行（same 或 added）
+}
+
+// 轉為左右並排的列：連續的刪除與新增兩兩對齊在同一列
+export const toSideBySide = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) rows.push({ left: removed[i], right: added[i] });
+    removed = [];
+    added = [];
+  };
+  lines.forEach(line => {
+    if (line.type === 'removed') removed.push(line);
+    else if (line.type === 'added') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+};
+
+export interface SkippedRows {
+  type: 'skipped';
+  count: number;
+}
+
+/**
+ * 只保留變動處前後 context 列，連續的未變動列折疊成一筆 SkippedRows
+ */
+export const collapseUnchanged = <T,>(rows: T[], isChanged: (row: T) => boolean, context = 2): (T | SkippedRows)[] => {
+  const keep = rows.map(() => false);
+  rows.forEach((row, index) => {
+    if (!isChanged(row)) return;
+    for (let i = Math.max(0, index - context); i <= Math.min(rows.length - 1, index + context); i++) keep[i] = true;
+  });
+  const result: (T | SkippedRows)[] = [];
+  let skipped: SkippedRows | null = null;
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      result.push(row);
+      skipped = null;
+    } else if (skipped) {
+      skipped.count++;
+    } else {
+      skipped = { type: 'skipped', count: 1 };
+      result.push(skipped);
+    }
+  });
+  return result;
+};
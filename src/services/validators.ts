@@ -0,0 +1,401 @@
+import { BlogPostData, Comment, PhotoExif, PortfolioAlbum, PortfolioItemData, PostTag } from '../../types';
+import { AuthResponse, User, UserRole } from '../types/auth';
+import { ListQuery, PageResponse, PortfolioFacetsResponse, PostAutosave, PostFacetsResponse, PostRevision, PostRevisionField, PostRevisionSnapshot, RefreshTokenResponse } from '../types/api';
+import { applyListQuery, ListFields } from './listQuery';
+import { POST_REVISION_FIELDS } from './postRevisions';
+
+/**
+ * 後端回應格式不符合預期時丟出的錯誤
+ * path 指出出錯的欄位位置，例如 `posts[3].imageUrl`
+ */
+export class ResponseValidationError extends Error {
+  endpoint: string;
+  path: string;
+  received: unknown;
+  constructor(endpoint: string, path: string, expected: string, received: unknown) {
+    super(`Invalid response from ${endpoint}: expected ${expected} at "${path}", received ${describe(received)}`);
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.received = received;
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+type Raw = Record<string, unknown>;
+
+/**
+ * 逐欄位讀取原始物件，型別不符時以 ResponseValidationError 回報完整路徑
+ */
+class Reader {
+  constructor(private endpoint: string, private path: string, private raw: Raw) {}
+
+  private fail(key: string, expected: string): never {
+    throw new ResponseValidationError(this.endpoint, `${this.path}.${key}`, expected, this.raw[key]);
+  }
+
+  // 後端的 id 可能是數字（Long），統一轉為字串
+  id(key: string): string {
+    const v = this.raw[key];
+    if (typeof v === 'string' && v) return v;
+    if (typeof v === 'number') return String(v);
+    return this.fail(key, 'string or number id');
+  }
+
+  optionalId(key: string): string | null {
+    const v = this.raw[key];
+    if (v === undefined || v === null || v === '') return null;
+    return this.id(key);
+  }
+
+  string(key: string): string {
+    const v = this.raw[key];
+    if (typeof v === 'string') return v;
+    return this.fail(key, 'string');
+  }
+
+  optionalString(key: string): string | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    if (typeof v === 'string') return v;
+    return this.fail(key, 'string');
+  }
+
+  number(key: string): number {
+    const v = this.raw[key];
+    if (typeof v === 'number' && Number.isFinite(v)) return v;
+    return this.fail(key, 'number');
+  }
+
+  optionalNumber(key: string): number | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    if (typeof v === 'number' && Number.isFinite(v)) return v;
+    return this.fail(key, 'number');
+  }
+
+  optionalBoolean(key: string): boolean | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    if (typeof v === 'boolean') return v;
+    return this.fail(key, 'boolean');
+  }
+
+  // 時間戳可能是毫秒數或 ISO 字串
+  optionalTimestamp(key: string): number | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    if (typeof v === 'number' && Number.isFinite(v)) return v;
+    if (typeof v === 'string') {
+      const ms = Date.parse(v);
+      if (!Number.isNaN(ms)) return ms;
+    }
+    return this.fail(key, 'timestamp');
+  }
+
+  // 後端的 id 陣列同樣統一轉為字串
+  optionalIdList(key: string): string[] | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    if (Array.isArray(v) && v.every(id => (typeof id === 'string' && id) || typeof id === 'number')) return v.map(String);
+    return this.fail(key, 'array of ids');
+  }
+
+  optionalStringList(key: string): string[] | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    if (Array.isArray(v) && v.every(item => typeof item === 'string')) return v;
+    return this.fail(key, 'array of strings');
+  }
+
+  // 巢狀物件交給對應的 mapper，錯誤路徑會接在目前路徑之後
+  optionalObject<T>(key: string, mapper: Mapper<T>): T | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    return mapper(v, this.endpoint, `${this.path}.${key}`);
+  }
+
+  oneOf<T extends string>(key: string, values: readonly T[]): T | undefined {
+    const v = this.raw[key];
+    if (v === undefined || v === null) return undefined;
+    if (typeof v === 'string' && (values as readonly string[]).includes(v)) return v as T;
+    return this.fail(key, values.join(' | '));
+  }
+}
+
+const readObject = (endpoint: string, path: string, value: unknown): Reader => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ResponseValidationError(endpoint, path, 'object', value);
+  }
+  return new Reader(endpoint, path, value as Raw);
+};
+
+export type Mapper<T> = (value: unknown, endpoint: string, path: string) => T;
+
+/**
+ * 驗證陣列回應並逐項映射
+ */
+export const parseList = <T>(value: unknown, mapper: Mapper<T>, endpoint: string, path = 'response'): T[] => {
+  if (!Array.isArray(value)) {
+    throw new ResponseValidationError(endpoint, path, 'array', value);
+  }
+  return value.map((item, index) => mapper(item, endpoint, `${path}[${index}]`));
+};
+
+/**
+ * 驗證分頁回應 { items, total, page, size }；total 為必填，缺少時無法判斷是否還有下一頁
+ * 後端若仍回傳整個陣列，則依查詢條件在本地分頁
+ */
+export const parsePage = <T>(
+  value: unknown,
+  mapper: Mapper<T>,
+  endpoint: string,
+  query: ListQuery,
+  fields: ListFields<T>,
+): PageResponse<T> => {
+  if (Array.isArray(value)) {
+    return applyListQuery(parseList(value, mapper, endpoint), query, fields);
+  }
+  const r = readObject(endpoint, 'response', value);
+  return {
+    items: parseList((value as Raw).items, mapper, endpoint, 'response.items'),
+    total: r.number('total'),
+    page: r.optionalNumber('page') ?? query.page,
+    pageSize: r.optionalNumber('size') ?? query.pageSize,
+  };
+};
+
+// 取出 { user } 之類包裝內的欄位
+export const parseField = <T>(value: unknown, key: string, mapper: Mapper<T>, endpoint: string): T => {
+  readObject(endpoint, 'response', value);
+  return mapper((value as Raw)[key], endpoint, `response.${key}`);
+};
+
+const POST_STATUSES = ['draft', 'scheduled', 'published'] as const;
+
+export const toBlogPost: Mapper<BlogPostData> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  const createdAt = r.optionalTimestamp('createdAt');
+  const date = r.optionalString('date');
+  return {
+    id: r.id('id'),
+    imageUrl: r.string('imageUrl'),
+    imagePlaceholder: r.optionalString('imagePlaceholder'),
+    // 舊資料可能只有 date 或只有 createdAt，互相補齊以利排序與顯示
+    createdAt: createdAt ?? (date ? Date.parse(date) || 0 : 0),
+    date: date ?? (createdAt !== undefined ? new Date(createdAt).toISOString() : ''),
+    updatedAt: r.optionalTimestamp('updatedAt'),
+    isLocked: r.optionalBoolean('isLocked'),
+    categoryKey: r.optionalString('categoryKey'),
+    likes: r.optionalNumber('likes'),
+    commentsCount: r.optionalNumber('commentsCount'),
+    views: r.optionalNumber('views'),
+    isFeatured: r.optionalBoolean('isFeatured'),
+    status: r.oneOf('status', POST_STATUSES),
+    publishAt: r.optionalString('publishAt'),
+    tags: r.optionalStringList('tags'),
+    title: r.optionalString('title'),
+    titleZh: r.optionalString('titleZh'),
+    excerpt: r.optionalString('excerpt'),
+    excerptZh: r.optionalString('excerptZh'),
+    content: r.optionalString('content'),
+    contentZh: r.optionalString('contentZh'),
+  };
+};
+
+const toPostRevisionSnapshot: Mapper<PostRevisionSnapshot> = (value, endpoint, path) => {
+  const r = readObject(endpoint, path, value);
+  return {
+    imageUrl: r.optionalString('imageUrl'),
+    imagePlaceholder: r.optionalString('imagePlaceholder'),
+    title: r.optionalString('title'),
+    titleZh: r.optionalString('titleZh'),
+    content: r.optionalString('content'),
+    contentZh: r.optionalString('contentZh'),
+    excerpt: r.optionalString('excerpt'),
+    excerptZh: r.optionalString('excerptZh'),
+    categoryKey: r.optionalString('categoryKey'),
+    status: r.oneOf('status', POST_STATUSES),
+    publishAt: r.optionalString('publishAt'),
+  };
+};
+
+export const toPostRevision: Mapper<PostRevision> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    id: r.id('id'),
+    postId: r.id('postId'),
+    authorId: r.optionalId('authorId') ?? undefined,
+    authorName: r.optionalString('authorName'),
+    createdAt: r.optionalTimestamp('createdAt') ?? 0,
+    // 不認得的欄位名稱直接略過，後端新增追蹤欄位時不會讓整個列表失敗
+    changedFields: (r.optionalStringList('changedFields') ?? [])
+      .filter((field): field is PostRevisionField => (POST_REVISION_FIELDS as string[]).includes(field)),
+    snapshot: r.optionalObject('snapshot', toPostRevisionSnapshot) ?? {},
+  };
+};
+
+export const toPostAutosave: Mapper<PostAutosave> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    title: r.optionalString('title') ?? '',
+    titleZh: r.optionalString('titleZh') ?? '',
+    content: r.optionalString('content') ?? '',
+    contentZh: r.optionalString('contentZh') ?? '',
+    categoryKey: r.optionalString('categoryKey') ?? '',
+    imageUrl: r.optionalString('imageUrl') ?? '',
+    savedAt: r.optionalTimestamp('savedAt') ?? 0,
+  };
+};
+
+export const toPortfolioItem: Mapper<PortfolioItemData> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    id: r.id('id'),
+    imageUrl: r.string('imageUrl'),
+    imagePlaceholder: r.optionalString('imagePlaceholder'),
+    date: r.optionalString('date'),
+    projectLinkUrl: r.optionalString('projectLinkUrl'),
+    projectLinkText: r.optionalString('projectLinkText'),
+    title: r.optionalString('title'),
+    titleZh: r.optionalString('titleZh'),
+    description: r.optionalString('description'),
+    descriptionZh: r.optionalString('descriptionZh'),
+    categoryKey: r.optionalString('categoryKey'),
+    views: r.optionalNumber('views'),
+    isFeatured: r.optionalBoolean('isFeatured'),
+    exif: r.optionalObject('exif', toPhotoExif),
+    albumIds: r.optionalIdList('albumIds'),
+    position: r.optionalNumber('position'),
+    featuredPosition: r.optionalNumber('featuredPosition'),
+  };
+};
+
+export const toAlbum: Mapper<PortfolioAlbum> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    id: r.id('id'),
+    slug: r.string('slug'),
+    title: r.string('title'),
+    titleZh: r.optionalString('titleZh'),
+    description: r.optionalString('description'),
+    descriptionZh: r.optionalString('descriptionZh'),
+    coverImageUrl: r.optionalString('coverImageUrl'),
+    coverUrl: r.optionalString('coverUrl'),
+    order: r.optionalNumber('order') ?? 0,
+    itemCount: r.optionalNumber('itemCount'),
+  };
+};
+
+export const toTag: Mapper<PostTag> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    slug: r.string('slug'),
+    name: r.string('name'),
+    nameZh: r.optionalString('nameZh'),
+  };
+};
+
+export const toPhotoExif: Mapper<PhotoExif> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    camera: r.optionalString('camera'),
+    lens: r.optionalString('lens'),
+    focalLength: r.optionalNumber('focalLength'),
+    aperture: r.optionalNumber('aperture'),
+    exposureTime: r.optionalNumber('exposureTime'),
+    iso: r.optionalNumber('iso'),
+    takenAt: r.optionalString('takenAt'),
+  };
+};
+
+export const toComment: Mapper<Comment> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    id: r.id('id'),
+    postId: r.id('postId'),
+    userId: r.id('userId'),
+    username: r.string('username'),
+    avatarUrl: r.optionalString('avatarUrl') ?? '',
+    date: r.string('date'),
+    text: r.string('text'),
+    parentId: r.optionalId('parentId'),
+  };
+};
+
+// { [postId]: count }
+// { [key]: count } 形式的統計，缺少的數值視為 0
+const toCounts: Mapper<Record<string, number>> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  const counts: Record<string, number> = {};
+  Object.keys(value as Raw).forEach(key => {
+    counts[key] = r.optionalNumber(key) ?? 0;
+  });
+  return counts;
+};
+
+export const toCommentCounts: Mapper<Record<string, number>> = toCounts;
+
+export const toPostFacets: Mapper<PostFacetsResponse> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    total: r.number('total'),
+    categories: r.optionalObject('categories', toCounts) ?? {},
+    tags: r.optionalObject('tags', toCounts) ?? {},
+  };
+};
+
+export const toPortfolioFacets: Mapper<PortfolioFacetsResponse> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    cameras: r.optionalStringList('cameras') ?? [],
+    lenses: r.optionalStringList('lenses') ?? [],
+  };
+};
+
+const USER_ROLES = Object.values(UserRole);
+const GENDERS = ['male', 'female', 'other', 'not_specified'] as const;
+
+export const toUser: Mapper<User> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    id: r.id('id'),
+    username: r.string('username'),
+    email: r.optionalString('email') ?? '',
+    avatarUrl: r.optionalString('avatarUrl') ?? '',
+    role: r.oneOf('role', USER_ROLES) ?? UserRole.USER,
+    gender: r.oneOf('gender', GENDERS),
+    birthday: r.optionalString('birthday'),
+    address: r.optionalString('address'),
+    phone: r.optionalString('phone'),
+    createdAt: r.optionalString('createdAt') ?? '',
+    updatedAt: r.optionalString('updatedAt') ?? '',
+  };
+};
+
+export const toAuthResponse: Mapper<AuthResponse> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  return {
+    success: r.optionalBoolean('success') ?? true,
+    message: r.optionalString('message') ?? '',
+    token: r.string('token'),
+    refreshToken: r.string('refreshToken'),
+    user: toUser((value as Raw).user, endpoint, `${path}.user`),
+  };
+};
+
+// /auth/refresh 可能不附帶使用者資料
+export const toRefreshResponse: Mapper<RefreshTokenResponse> = (value, endpoint, path = 'response') => {
+  const r = readObject(endpoint, path, value);
+  const user = (value as Raw).user;
+  return {
+    token: r.string('token'),
+    refreshToken: r.string('refreshToken'),
+    user: user === undefined || user === null ? undefined : toUser(user, endpoint, `${path}.user`),
+  };
+};
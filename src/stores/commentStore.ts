@@ -0,0 +1,75 @@
+/**
+ * 留言的新增與刪除
+ * 留言列表由查詢快取按文章分開保存，這裡負責樂觀更新、離線佇列與列表頁的留言數摘要
+ */
+import { Comment } from '../../types';
+import { queryClient } from '../services/queryClient';
+import { outbox } from '../services/outbox';
+import { queryKeys } from '../hooks/useContentQueries';
+import { sessionStore } from './sessionStore';
+
+// 列表頁的留言數摘要同步加減，避免等待重新驗證
+const adjustCommentCount = (postId: string, delta: number) => {
+  queryClient.setQueriesData<Record<string, number>>(queryKeys.commentCountsPrefix, counts =>
+    postId in counts ? { ...counts, [postId]: Math.max(0, counts[postId] + delta) } : counts);
+};
+
+class CommentStore {
+  addComment = async (postId: string, text: string, parentId: string | null = null) => {
+    const { isAuthenticated, user, profile } = sessionStore.getState();
+    if (!isAuthenticated) return;
+    // 先以暫時 id 顯示留言，成功後換成後端回傳的資料
+    const tempId = `temp-${Date.now()}`;
+    const pending: Comment = {
+      id: tempId,
+      postId,
+      userId: user?.id ?? '',
+      username: profile.username,
+      avatarUrl: profile.avatarUrl,
+      date: new Date().toISOString(),
+      text,
+      parentId,
+    };
+    const key = queryKeys.postComments(postId);
+    try {
+      const outcome = await queryClient.mutate({
+        mutation: () => outbox.send({ type: 'addComment', payload: { postId, text, parentId }, preview: pending }),
+        optimistic: [{ key, updater: (p?: Comment[]) => [...(p ?? []), pending] }],
+        invalidate: [key],
+      });
+      // 離線時留言改由佇列保存，useComments 會帶著同步狀態顯示
+      queryClient.setQueryData<Comment[]>(key, p => outcome.queued
+        ? p?.filter(c => c.id !== tempId)
+        : p?.map(c => c.id === tempId ? outcome.result : c));
+      adjustCommentCount(postId, 1);
+    } catch (e) {
+      console.error('新增留言失敗', e);
+      alert('新增留言失敗，請稍後再試');
+    }
+  };
+
+  deleteComment = async (postId: string, id: string) => {
+    if (!sessionStore.getState().isSuperUser) return;
+    const key = queryKeys.postComments(postId);
+    // 連同所有子留言一併移除
+    const existing = queryClient.getQueryData<Comment[]>(key) ?? [];
+    const toDelete = new Set<string>([id]);
+    const findChildren = (parentId: string) => {
+      existing.filter(c => c.parentId === parentId).forEach(c => { toDelete.add(c.id); findChildren(c.id); });
+    };
+    findChildren(id);
+    try {
+      await queryClient.mutate({
+        mutation: () => outbox.send({ type: 'deleteComment', postId, commentId: id }),
+        optimistic: [{ key, updater: (p?: Comment[]) => p?.filter(c => !toDelete.has(c.id)) }],
+        invalidate: [key],
+      });
+      adjustCommentCount(postId, -toDelete.size);
+    } catch (e) {
+      console.error('刪除留言失敗', e);
+      alert('刪除留言失敗');
+    }
+  };
+}
+
+export const commentStore = new CommentStore();
@@ -0,0 +1,246 @@
+/**
+ * 文章與作品的寫入動作，以及待產生批次代碼的暫存項目
+ * 列表資料本身由查詢快取管理，這裡只負責更新快取與呼叫離線佇列
+ */
+import { BlogPostData, PortfolioAlbum, PortfolioItemData, PostTag } from '../../types';
+import { ApiService } from '../services/api';
+import { AlbumPayload, PageResponse, PostRevision, TagPayload } from '../types/api';
+import { QueryKey, queryClient } from '../services/queryClient';
+import { outbox } from '../services/outbox';
+import { mediaService } from '../services/mediaService';
+import { toRestorePayload } from '../services/postRevisions';
+import { queryKeys } from '../hooks/useContentQueries';
+import { Store } from './createStore';
+import { sessionStore } from './sessionStore';
+import { getFromLocalStorage, uiStore } from './uiStore';
+
+// File 物件無法存進 localStorage，重新整理後會遺失，處理批次時會提醒使用者
+export type BatchItem<T> = T & { file?: File };
+export type BatchType = 'post' | 'portfolio';
+
+export interface ContentState {
+  postBatch: BatchItem<BlogPostData>[];
+  portfolioBatch: BatchItem<PortfolioItemData>[];
+  isBatchProcessing: boolean;
+}
+
+const canManage = () => sessionStore.getState().isSuperUser;
+
+class ContentStore extends Store<ContentState> {
+  constructor() {
+    super({
+      postBatch: getFromLocalStorage<BatchItem<BlogPostData>[]>('postBatch', []),
+      portfolioBatch: getFromLocalStorage<BatchItem<PortfolioItemData>[]>('portfolioBatch', []),
+      isBatchProcessing: false,
+    });
+    let { postBatch, portfolioBatch } = this.getState();
+    this.subscribe(() => {
+      const state = this.getState();
+      if (state.postBatch !== postBatch) { postBatch = state.postBatch; localStorage.setItem('postBatch', JSON.stringify(postBatch)); }
+      if (state.portfolioBatch !== portfolioBatch) { portfolioBatch = state.portfolioBatch; localStorage.setItem('portfolioBatch', JSON.stringify(portfolioBatch)); }
+    });
+    // 草稿與排程文章只回傳給超級使用者，登入或登出後清掉快取（含 localStorage）再重新取得文章
+    let isSuperUser = canManage();
+    sessionStore.subscribe(() => {
+      if (canManage() === isSuperUser) return;
+      isSuperUser = canManage();
+      queryClient.removeQueries(queryKeys.posts);
+    });
+  }
+
+  // 頁面已呼叫 API 完成儲存，這裡把結果寫入快取並在背景重新驗證
+  savePost = (postData: BlogPostData) => {
+    if (!canManage()) return;
+    queryClient.setQueryData<BlogPostData[]>(queryKeys.posts, p => {
+      const list = p ?? [];
+      const i = list.findIndex(item => item.id === postData.id);
+      if (i > -1) { const n = [...list]; n[i] = postData; return n; }
+      return [postData, ...list];
+    });
+    queryClient.invalidateQueries(queryKeys.posts);
+  };
+
+  // 以修訂版本的內容再儲存一次，後端會把這次還原記錄為新的修訂；回傳還原後的文章
+  restorePostRevision = async (post: BlogPostData, revision: PostRevision): Promise<BlogPostData | undefined> => {
+    if (!canManage()) return;
+    const payload = toRestorePayload(post, revision.snapshot);
+    try {
+      const outcome = await outbox.send({ type: 'updatePost', postId: post.id, payload, baseUpdatedAt: post.updatedAt });
+      // 離線時排入佇列，先以本地內容顯示
+      const restored = outcome.queued ? { ...post, ...payload } : outcome.result;
+      this.savePost(restored);
+      return restored;
+    } catch (error) {
+      console.error('還原文章版本失敗:', error);
+      alert('還原文章版本失敗，請重試');
+      return undefined;
+    }
+  };
+
+  deletePosts = async (ids: string[]) => {
+    if (!canManage()) return;
+    try {
+      // 先從快取移除，後端刪除失敗時還原
+      await queryClient.mutate({
+        mutation: () => Promise.all(ids.map(postId => outbox.send({ type: 'deletePost', postId }))),
+        optimistic: [{ key: queryKeys.posts, updater: (p?: BlogPostData[]) => p?.filter(post => !ids.includes(post.id)) }],
+        invalidate: [queryKeys.posts, queryKeys.comments],
+      });
+    } catch (error) {
+      console.error('刪除文章失敗:', error);
+      alert('刪除文章失敗，請重試');
+    }
+  };
+
+  addPortfolioItem = (item: PortfolioItemData) => {
+    if (!canManage()) return;
+    queryClient.setQueryData<PortfolioItemData[]>(queryKeys.portfolio, p => [item, ...(p ?? [])]);
+    queryClient.invalidateQueries(queryKeys.portfolio);
+  };
+
+  updatePortfolioItem = (item: PortfolioItemData) => {
+    if (!canManage()) return;
+    queryClient.setQueryData<PortfolioItemData[]>(queryKeys.portfolio, p => p?.map(i => i.id === item.id ? item : i));
+    queryClient.invalidateQueries(queryKeys.portfolio);
+  };
+
+  deletePortfolioItems = async (ids: string[]) => {
+    if (!canManage()) return;
+    try {
+      // 先從快取移除，後端刪除失敗時還原
+      await queryClient.mutate({
+        mutation: () => Promise.all(ids.map(itemId => outbox.send({ type: 'deletePortfolioItem', itemId }))),
+        optimistic: [{ key: queryKeys.portfolio, updater: (p?: PortfolioItemData[]) => p?.filter(i => !ids.includes(i.id)) }],
+        invalidate: [queryKeys.portfolio],
+      });
+    } catch (error) {
+      console.error('刪除作品項目失敗:', error);
+      alert('刪除作品項目失敗，請重試');
+    }
+  };
+
+  // 自訂排序：pageKey 為目前顯示的分頁查詢，先在該頁套用新順序，失敗時還原
+  reorderPortfolioItems = async (ids: string[], pageKey: QueryKey) => {
+    if (!canManage()) return;
+    try {
+      await queryClient.mutate({
+        mutation: () => ApiService.reorderPortfolio(ids),
+        optimistic: [{
+          key: pageKey,
+          updater: (p?: PageResponse<PortfolioItemData>) => p && { ...p, items: [...p.items].sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id)) },
+        }],
+        invalidate: [queryKeys.portfolio],
+      });
+    } catch (error) {
+      console.error('調整作品順序失敗:', error);
+      alert('調整作品順序失敗，請重試');
+    }
+  };
+
+  reorderFeaturedItems = async (ids: string[]) => {
+    if (!canManage()) return;
+    try {
+      await queryClient.mutate({
+        mutation: () => ApiService.reorderFeaturedPortfolio(ids),
+        optimistic: [{
+          key: queryKeys.portfolio,
+          updater: (p?: PortfolioItemData[]) => p?.map(i => ids.includes(i.id) ? { ...i, featuredPosition: ids.indexOf(i.id) + 1 } : i),
+        }],
+        invalidate: [queryKeys.portfolio],
+      });
+    } catch (error) {
+      console.error('調整精選順序失敗:', error);
+      alert('調整精選順序失敗，請重試');
+    }
+  };
+
+  // 相簿只有超級使用者在線上管理，不經過離線佇列；建立與更新的錯誤交給表單顯示
+  createAlbum = async (payload: AlbumPayload): Promise<PortfolioAlbum | undefined> => {
+    if (!canManage()) return;
+    const album = await ApiService.createAlbum(payload);
+    queryClient.setQueryData<PortfolioAlbum[]>(queryKeys.albums, a => [...(a ?? []), album]);
+    queryClient.invalidateQueries(queryKeys.albums);
+    return album;
+  };
+
+  updateAlbum = async (id: string, payload: AlbumPayload): Promise<PortfolioAlbum | undefined> => {
+    if (!canManage()) return;
+    const album = await ApiService.updateAlbum(id, payload);
+    queryClient.setQueryData<PortfolioAlbum[]>(queryKeys.albums, a => a?.map(item => item.id === id ? album : item));
+    queryClient.invalidateQueries(queryKeys.albums);
+    return album;
+  };
+
+  // 標籤在文章編輯頁輸入時即建立，同樣不經過離線佇列；錯誤交給輸入框顯示
+  saveTag = async (slug: string, payload: TagPayload): Promise<PostTag | undefined> => {
+    if (!canManage()) return;
+    const tag = await ApiService.saveTag(slug, payload);
+    queryClient.setQueryData<PostTag[]>(queryKeys.tags, tags => [...(tags ?? []).filter(t => t.slug !== slug), tag]);
+    queryClient.invalidateQueries(queryKeys.tags);
+    return tag;
+  };
+
+  deleteAlbum = async (id: string) => {
+    if (!canManage()) return;
+    try {
+      await queryClient.mutate({
+        mutation: () => ApiService.deleteAlbum(id),
+        optimistic: [{ key: queryKeys.albums, updater: (a?: PortfolioAlbum[]) => a?.filter(album => album.id !== id) }],
+        // 後端會一併移除照片上的相簿關聯
+        invalidate: [queryKeys.albums, queryKeys.portfolio],
+      });
+    } catch (error) {
+      console.error('刪除相簿失敗:', error);
+      alert('刪除相簿失敗，請重試');
+    }
+  };
+
+  reorderAlbums = async (ids: string[]) => {
+    if (!canManage()) return;
+    try {
+      await queryClient.mutate({
+        mutation: () => ApiService.reorderAlbums(ids),
+        optimistic: [{
+          key: queryKeys.albums,
+          updater: (a?: PortfolioAlbum[]) => a?.map(album => ids.includes(album.id) ? { ...album, order: ids.indexOf(album.id) + 1 } : album),
+        }],
+        invalidate: [queryKeys.albums],
+      });
+    } catch (error) {
+      console.error('調整相簿順序失敗:', error);
+      alert('調整相簿順序失敗，請重試');
+    }
+  };
+
+  addToBatch = (type: BatchType, data: any) => {
+    if (type === 'post') this.setState(s => ({ postBatch: [...s.postBatch, { ...data }] }));
+    else this.setState(s => ({ portfolioBatch: [...s.portfolioBatch, { ...data }] }));
+  };
+
+  clearBatch = (type: BatchType) => {
+    this.setState(type === 'post' ? { postBatch: [] } : { portfolioBatch: [] });
+  };
+
+  // 上傳批次中的圖片並產生要貼回靜態 JSON 的代碼
+  processBatch = async (type: BatchType) => {
+    this.setState({ isBatchProcessing: true });
+    try {
+      const { postBatch, portfolioBatch } = this.getState();
+      const batch: BatchItem<BlogPostData | PortfolioItemData>[] = type === 'post' ? postBatch : portfolioBatch;
+      const validBatch = batch.filter(item => item && item.file instanceof File);
+      const invalidCount = batch.length - validBatch.length;
+      if (invalidCount > 0) alert(`偵測到 ${invalidCount} 個項目因為頁面刷新而遺失了圖片檔案，這些項目將不會被處理。`);
+      if (validBatch.length === 0) { if (invalidCount > 0) this.clearBatch(type); return; }
+      const updatedBatch = await Promise.all(validBatch.map(async ({ file, ...rest }) => ({ ...rest, imageUrl: (await mediaService.upload(file!)).url })));
+      uiStore.openBatchModal({
+        type,
+        jsonCode: JSON.stringify(updatedBatch, null, 2),
+        title: type === 'post' ? '產生文章批次代碼' : '產生相片批次代碼',
+        targetPath: type === 'post' ? 'src/data/staticPosts.json' : 'src/data/staticPortfolio.json',
+      });
+    } catch (error) { console.error("Error processing batch:", error); alert(`批次處理失敗: ${error instanceof Error ? error.message : String(error)}`); }
+    finally { this.setState({ isBatchProcessing: false }); }
+  };
+}
+
+export const contentStore = new ContentStore();
@@ -0,0 +1,29 @@
+/**
+ * 極簡的外部狀態容器
+ * 元件透過 useStore(store, selector) 只訂閱自己需要的欄位，其他欄位變動時不會重新渲染
+ */
+export type StateUpdate<T> = Partial<T> | ((state: T) => Partial<T>);
+
+export class Store<T extends object> {
+  private state: T;
+  private listeners = new Set<() => void>();
+
+  constructor(initialState: T) {
+    this.state = initialState;
+  }
+
+  getState = (): T => this.state;
+
+  setState = (update: StateUpdate<T>): void => {
+    const patch = typeof update === 'function' ? update(this.state) : update;
+    const changed = (Object.keys(patch) as (keyof T)[]).some(key => !Object.is(patch[key], this.state[key]));
+    if (!changed) return;
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  };
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * 登入狀態與個人資料
+ * 登入狀態以 AuthContext 為準，由 App 同步進來，讓頁面與非 React 的動作都能直接讀取
+ */
+import { UserProfile } from '../../types';
+import { User } from '../types/auth';
+import { Store } from './createStore';
+
+export interface SessionState {
+  user: User | null;
+  isAuthenticated: boolean;
+  isSuperUser: boolean;
+  profile: UserProfile;
+}
+
+// 未登入時的預設資料；username 留空，由 useUserProfile 依語言補上顯示名稱
+const guestProfile: UserProfile = {
+  username: '',
+  email: '',
+  avatarUrl: '/images/profile.jpg',
+  gender: 'not_specified',
+  birthday: '',
+  address: '',
+  phone: '',
+};
+
+const toProfile = (user: User, prev: UserProfile): UserProfile => ({
+  ...prev,
+  username: user.username ?? prev.username,
+  email: user.email ?? '',
+  avatarUrl: user.avatarUrl ?? guestProfile.avatarUrl,
+  gender: user.gender ?? 'not_specified',
+  birthday: user.birthday ?? '',
+  address: user.address ?? '',
+  phone: user.phone ?? '',
+});
+
+class SessionStore extends Store<SessionState> {
+  constructor() {
+    super({ user: null, isAuthenticated: false, isSuperUser: false, profile: guestProfile });
+  }
+
+  syncFromAuth = (user: User | null, isAuthenticated: boolean) => {
+    const isSuperUser = isAuthenticated && (user?.role === 'SUPER_USER' || user?.role === 'ADMIN' || user?.username === 'admin');
+    this.setState(s => ({
+      user,
+      isAuthenticated,
+      isSuperUser,
+      profile: user ? toProfile(user, s.profile) : (isAuthenticated ? s.profile : guestProfile),
+    }));
+  };
+
+  updateProfile = (data: Partial<UserProfile>) => {
+    if (!this.getState().isAuthenticated) return;
+    this.setState(s => ({ profile: { ...s.profile, ...data } }));
+  };
+
+  updateAvatar = (avatarUrl: string) => this.updateProfile({ avatarUrl });
+}
+
+export const sessionStore = new SessionStore();
@@ -0,0 +1,84 @@
+/**
+ * 介面偏好與版面狀態：主題、側邊欄、捲動位置與批次代碼視窗
+ * 主題與側邊欄收合狀態會記在 localStorage
+ */
+import { Store } from './createStore';
+
+export type Theme = 'light' | 'dark';
+
+export interface BatchModalState {
+  isOpen: boolean;
+  type: 'post' | 'portfolio';
+  jsonCode: string;
+  title: string;
+  targetPath: string;
+}
+
+export interface UiState {
+  theme: Theme;
+  isSidebarCollapsed: boolean;
+  isSidebarOpen: boolean;
+  isMobileView: boolean;
+  isLandscape: boolean;
+  isScrolled: boolean;
+  showBackToTop: boolean;
+  isMobileHeaderVisible: boolean;
+  batchModal: BatchModalState;
+}
+
+export const getFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
+  if (typeof window === 'undefined') return defaultValue;
+  try {
+    const storedValue = window.localStorage.getItem(key);
+    return storedValue ? JSON.parse(storedValue) : defaultValue;
+  } catch (error) {
+    console.error(`Could not access localStorage for key "${key}"`, error);
+    return defaultValue;
+  }
+};
+
+const applyTheme = (theme: Theme) => {
+  if (typeof document === 'undefined') return;
+  document.body.classList.remove('theme-light', 'theme-dark');
+  document.body.classList.add(`theme-${theme}`);
+};
+
+class UiStore extends Store<UiState> {
+  constructor() {
+    super({
+      theme: getFromLocalStorage<Theme>('theme', 'dark'),
+      isSidebarCollapsed: getFromLocalStorage<boolean>('sidebarCollapsed', false),
+      isSidebarOpen: false,
+      isMobileView: false,
+      isLandscape: false,
+      isScrolled: false,
+      showBackToTop: false,
+      isMobileHeaderVisible: true,
+      batchModal: { isOpen: false, type: 'post', jsonCode: '', title: '', targetPath: '' },
+    });
+    applyTheme(this.getState().theme);
+    let { theme, isSidebarCollapsed } = this.getState();
+    this.subscribe(() => {
+      const state = this.getState();
+      if (state.theme !== theme) {
+        theme = state.theme;
+        localStorage.setItem('theme', JSON.stringify(theme));
+        applyTheme(theme);
+      }
+      if (state.isSidebarCollapsed !== isSidebarCollapsed) {
+        isSidebarCollapsed = state.isSidebarCollapsed;
+        localStorage.setItem('sidebarCollapsed', JSON.stringify(isSidebarCollapsed));
+      }
+    });
+  }
+
+  toggleTheme = () => this.setState(s => ({ theme: s.theme === 'light' ? 'dark' : 'light' }));
+  toggleCollapse = () => this.setState(s => ({ isSidebarCollapsed: !s.isSidebarCollapsed }));
+  toggleSidebar = () => this.setState(s => ({ isSidebarOpen: !s.isSidebarOpen }));
+  closeSidebar = () => this.setState({ isSidebarOpen: false });
+
+  openBatchModal = (modal: Omit<BatchModalState, 'isOpen'>) => this.setState({ batchModal: { ...modal, isOpen: true } });
+  closeBatchModal = () => this.setState(s => ({ batchModal: { ...s.batchModal, isOpen: false } }));
+}
+
+export const uiStore = new UiStore();
@@ -0,0 +1,191 @@
+import { BlogPostData, Comment, PhotoExif, PortfolioAlbum, PortfolioItemData, PostStatus, PostTag } from '../../types';
+import { User } from './auth';
+
+// 後端統一回應包裝
+export interface ApiEnvelope {
+  success: boolean;
+  message?: string;
+}
+
+// --- 列表查詢（分頁、排序、篩選） ---
+
+export type SortOrder =
+  | 'date-desc' | 'date-asc'
+  | 'title-asc' | 'title-desc'
+  | 'views-desc' | 'views-asc'
+  | 'category-asc' | 'category-desc'
+  | 'custom' // 依管理者拖曳排列的 position
+  | 'featured-custom'; // 依精選輪播的 featuredPosition
+
+export interface ListQuery {
+  page: number; // 從 1 開始
+  pageSize: number;
+  sort: SortOrder;
+  categories?: string[]; // 符合任一分類鍵即可
+  search?: string;
+  featured?: boolean;
+  camera?: string; // 作品集依 EXIF 的機身或鏡頭篩選
+  lens?: string;
+  album?: string; // 相簿 id
+  status?: PostStatus; // 文章依發布狀態篩選（排程時間已到的視為已發布）
+  tag?: string; // 文章依標籤 slug 篩選
+  lang?: string; // 標題排序與搜尋使用的語言
+}
+
+export interface PageResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// --- /content/posts ---
+
+// 建立/更新文章時送出的欄位（id、統計數據由後端產生）
+export interface PostPayload {
+  imageUrl: string;
+  imagePlaceholder?: string;
+  title: string;
+  titleZh: string;
+  content: string;
+  contentZh: string;
+  excerpt?: string;
+  excerptZh?: string;
+  categoryKey: string;
+  isLocked?: boolean;
+  isFeatured?: boolean;
+  status?: PostStatus;
+  publishAt?: string;
+  tags?: string[];
+}
+
+export type PostResponse = BlogPostData;
+export type PostListResponse = BlogPostData[];
+
+// --- /content/posts/facets ---
+
+// 側邊欄用的文章統計，不必下載全部文章：總數、各分類鍵與各標籤 slug 的文章數
+export interface PostFacetsResponse {
+  total: number;
+  categories: Record<string, number>;
+  tags: Record<string, number>;
+}
+
+// --- /content/portfolio/facets ---
+
+// 作品篩選選項，不必下載全部作品：拍攝資訊中出現過的機身與鏡頭（已排序、不重複）
+export interface PortfolioFacetsResponse {
+  cameras: string[];
+  lenses: string[];
+}
+
+// --- /content/posts/:id/revisions ---
+
+// 修訂紀錄中比較變更的欄位
+export type PostRevisionField = 'title' | 'titleZh' | 'content' | 'contentZh' | 'categoryKey' | 'imageUrl' | 'status' | 'publishAt';
+
+// 每次儲存後的文章內容
+export type PostRevisionSnapshot = Partial<Pick<PostPayload,
+  'imageUrl' | 'imagePlaceholder' | 'title' | 'titleZh' | 'content' | 'contentZh' | 'excerpt' | 'excerptZh' | 'categoryKey' | 'status' | 'publishAt'>>;
+
+export interface PostRevision {
+  id: string;
+  postId: string;
+  authorId?: string; // 沒有作者的是開始記錄前的原始版本
+  authorName?: string;
+  createdAt: number; // 毫秒時間戳
+  changedFields: PostRevisionField[]; // 與前一個版本相比變更的欄位
+  snapshot: PostRevisionSnapshot;
+}
+
+// --- /content/posts/:id/autosave ---
+
+// 編輯中自動儲存的內容，與文章本身分開存放，不會改動目前公開的版本
+export interface PostAutosavePayload {
+  title: string;
+  titleZh: string;
+  content: string;
+  contentZh: string;
+  categoryKey: string;
+  imageUrl: string;
+}
+
+export interface PostAutosave extends PostAutosavePayload {
+  savedAt: number; // 毫秒時間戳
+}
+
+// --- /content/portfolio ---
+
+// 建立/更新作品時送出的欄位
+export interface PortfolioItemPayload {
+  imageUrl: string;
+  imagePlaceholder?: string;
+  title: string;
+  titleZh: string;
+  description?: string;
+  descriptionZh?: string;
+  categoryKey: string;
+  date?: string;
+  projectLinkUrl?: string;
+  projectLinkText?: string;
+  isFeatured?: boolean;
+  exif?: PhotoExif;
+  albumIds?: string[];
+}
+
+export type PortfolioItemResponse = PortfolioItemData;
+export type PortfolioListResponse = PortfolioItemData[];
+
+// --- /content/albums ---
+
+// 建立/更新相簿時送出的欄位；順序另以 PUT /content/albums/order 調整
+export interface AlbumPayload {
+  slug: string;
+  title: string;
+  titleZh?: string;
+  description?: string;
+  descriptionZh?: string;
+  coverImageUrl?: string;
+}
+
+export type AlbumResponse = PortfolioAlbum;
+
+// --- /content/tags ---
+
+// 建立/更新標籤時送出的欄位；slug 放在網址中，不存在時建立
+export interface TagPayload {
+  name: string;
+  nameZh?: string;
+}
+
+export type TagResponse = PostTag;
+
+// --- /comments ---
+
+export interface CreateCommentRequest {
+  postId: string;
+  text: string;
+  parentId?: string | null;
+}
+
+export type CommentResponse = Comment;
+export type CommentListResponse = Comment[];
+
+// 列表頁用的留言數摘要：{ [postId]: count }
+export type CommentCountsResponse = Record<string, number>;
+
+// --- /auth ---
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken: string;
+  user?: User;
+}
+
+export interface MeResponse extends ApiEnvelope {
+  user: User;
+}
@@ -52,5 +52,6 @@ export interface RegisterRequest {
 export interface ApiError {
   success: false;
   message: string;
+  code?: string; // 錯誤代碼，對應翻譯檔的 apiErrors.codes
   errors?: Record<string, string[]>;
 } 
\ No newline at end of file
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+// 前端可讀取的 Vite 環境變數（VITE_ 開頭）；新增變數時一併在此宣告
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_MEDIA_PROVIDER?: string; // cloudinary / backend / local
+  readonly VITE_USE_MOCK_API?: string; // 'true' 時啟用模擬後端
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,71 @@
+/**
+ * 圖片前處理 Worker，由 src/services/imagePreprocess.ts 建立
+ * createImageBitmap 以 imageOrientation: 'from-image' 依 EXIF 轉正，再以 OffscreenCanvas 縮小並重新編碼
+ */
+import type { PreprocessFormat, PreprocessRequest, PreprocessResponse } from '../services/imagePreprocess';
+import { extractJpegExif, insertJpegExif, insertWebpExif, resetExifOrientation } from '../services/exif';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PreprocessRequest>) => void) | null;
+  postMessage: (message: PreprocessResponse) => void;
+};
+
+const MIME_TYPES: Record<PreprocessFormat, string> = { webp: 'image/webp', avif: 'image/avif', jpeg: 'image/jpeg' };
+
+/**
+ * 依序嘗試要求的格式、WebP、JPEG
+ * 不支援的格式 convertToBlob 會改輸出 PNG，以回傳的 type 判斷是否成功
+ */
+const encode = async (canvas: OffscreenCanvas, format: PreprocessFormat, quality: number): Promise<Blob> => {
+  const candidates = [...new Set([MIME_TYPES[format], MIME_TYPES.webp, MIME_TYPES.jpeg])];
+  for (const type of candidates) {
+    const blob = await canvas.convertToBlob({ type, quality });
+    if (blob.type === type) return blob;
+  }
+  return canvas.convertToBlob({ type: MIME_TYPES.jpeg, quality });
+};
+
+// 寬 16px 的低畫質預覽，以 data URL 隨作品或文章資料儲存，圖片載入前先模糊顯示
+const PLACEHOLDER_WIDTH = 16;
+
+const createPlaceholder = async (source: OffscreenCanvas): Promise<string> => {
+  const height = Math.max(1, Math.round((source.height * PLACEHOLDER_WIDTH) / source.width));
+  const canvas = new OffscreenCanvas(PLACEHOLDER_WIDTH, height);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, PLACEHOLDER_WIDTH, height);
+  const bytes = new Uint8Array(await (await canvas.convertToBlob({ type: MIME_TYPES.jpeg, quality: 0.6 })).arrayBuffer());
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return `data:image/jpeg;base64,${btoa(binary)}`;
+};
+
+// 把原檔的 EXIF 寫回輸出檔；原檔不是 JPEG 或輸出為 AVIF 時略過
+const copyExif = async (source: Blob, output: Blob, width: number, height: number): Promise<Blob> => {
+  const exif = extractJpegExif(new Uint8Array(await source.arrayBuffer()));
+  if (!exif) return output;
+  const tiff = resetExifOrientation(exif);
+  const bytes = new Uint8Array(await output.arrayBuffer());
+  if (output.type === MIME_TYPES.jpeg) return new Blob([insertJpegExif(bytes, tiff)], { type: output.type });
+  if (output.type === MIME_TYPES.webp) return new Blob([insertWebpExif(bytes, tiff, width, height)], { type: output.type });
+  return output;
+};
+
+scope.onmessage = async ({ data: { id, file, options } }) => {
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, options.maxWidth / bitmap.width, options.maxHeight / bitmap.height);
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('2D context unavailable');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    let blob = await encode(canvas, options.format, options.quality);
+    if (options.keepExif) blob = await copyExif(file, blob, width, height);
+    scope.postMessage({ id, ok: true, blob, width, height, placeholder: await createPlaceholder(canvas) });
+  } catch (error) {
+    scope.postMessage({ id, ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+};
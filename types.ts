@@ -17,9 +17,11 @@ export enum Page {
   Account = 'Account',
   CategoryPage = 'CategoryPage',
   AllPostsArchive = 'AllPostsArchive',
+  TagArchive = 'TagArchive',
   AddBlogPost = 'AddBlogPost',
   PhotoManagement = 'PhotoManagement',
   PostManagement = 'PostManagement',
+  Album = 'Album',
 }
 
 // 用戶個人資料介面
@@ -67,6 +69,7 @@ export interface PortfolioItemData {
   id: string; // 唯一 ID
   date?: string; // 日期
   imageUrl: string; // 圖片 URL
+  imagePlaceholder?: string; // 圖片載入前顯示的低畫質預覽（data URL）
   projectLinkUrl?: string; // 項目連結 URL
   isStatic?: boolean; // 是否為靜態數據 (來自 JSON 文件)
 
@@ -85,6 +88,42 @@ export interface PortfolioItemData {
   categoryKey?: string;     // 例如: 'portfolioPage.filterStreet'
   views?: number; // 觀看次數
   isFeatured?: boolean; // 是否為精選項目
+  exif?: PhotoExif; // 上傳時從照片讀取的拍攝資訊
+  albumIds?: string[]; // 所屬相簿，一張照片可放在多個相簿
+  position?: number; // 自訂排序的位置，數字小的在前
+  featuredPosition?: number; // 精選輪播中的位置
+}
+
+// 作品集相簿
+export interface PortfolioAlbum {
+  id: string;
+  slug: string;            // 網址用，/portfolio/album/:slug
+  title: string;
+  titleZh?: string;
+  description?: string;
+  descriptionZh?: string;
+  coverImageUrl?: string;  // 管理員指定的封面；未指定時使用相簿中的第一張照片
+  coverUrl?: string;       // 實際顯示的封面，由後端依上述規則計算
+  order: number;           // 顯示順序，小的在前
+  itemCount?: number;      // 相簿中的照片數，由後端計算
+}
+
+// 文章標籤，一篇文章可有多個標籤
+export interface PostTag {
+  slug: string;            // 網址用，/blog/tag/:slug；也是文章 tags 中存放的值
+  name: string;
+  nameZh?: string;
+}
+
+// 照片的拍攝資訊（EXIF）
+export interface PhotoExif {
+  camera?: string;       // 機身，例如 'FUJIFILM X-T5'
+  lens?: string;         // 鏡頭型號
+  focalLength?: number;  // 焦距（mm）
+  aperture?: number;     // 光圈 f 值
+  exposureTime?: number; // 快門（秒）
+  iso?: number;
+  takenAt?: string;      // 拍攝時間（ISO 字串）
 }
 
 // 部落格文章數據介面
@@ -92,14 +131,19 @@ export interface BlogPostData {
   id: string; // 唯一 ID
   date: string; // 發布日期
   imageUrl: string; // 圖片 URL
+  imagePlaceholder?: string; // 圖片載入前顯示的低畫質預覽（data URL）
   isLocked?: boolean; // 是否為鎖定文章（例如需要訂閱）
   createdAt: number; // 創建時間戳，用於排序
+  updatedAt?: number; // 最後修改時間戳，更新時以 If-Match 送回以偵測衝突
   categoryKey?: string; // 分類鍵，用於分組
   likes?: number; // 點讚數
   commentsCount?: number; // 留言數
   views?: number; // 觀看次數
   isFeatured?: boolean; // 是否為精選文章
   isStatic?: boolean; // 是否為靜態數據 (來自 JSON 文件)
+  status?: PostStatus; // 發布狀態，舊資料沒有此欄位時視為已發布
+  publishAt?: string; // 排程發布時間 (ISO 格式字符串)，status 為 scheduled 時使用
+  tags?: string[]; // 標籤的 slug 列表
   
   // 用於靜態數據的翻譯鍵
   titleKey?: string;
@@ -115,6 +159,9 @@ export interface BlogPostData {
   contentZh?: string; 
 }
 
+// 文章發布狀態：草稿與尚未到時間的排程文章只有超級使用者看得到
+export type PostStatus = 'draft' | 'scheduled' | 'published';
+
 // 社交媒體登入提供商類型
 export type SocialLoginProvider = 'google' | 'facebook';
 
@@ -128,6 +175,7 @@ export interface Comment {
   date: string; // 發布日期 (ISO 格式字符串)
   text: string; // 留言內容
   parentId: string | null; // 父留言 ID，用於實現回覆
+  syncStatus?: 'pending' | 'sending' | 'failed' | 'conflict'; // 離線佇列中尚未同步的留言
 }
 
 // 帶有子留言的留言介面，用於構建留言樹
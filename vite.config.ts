@@ -1,6 +1,41 @@
 
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+const rootDir = path.dirname(new URL(import.meta.url).pathname);
+
+// 開發用的本機媒體儲存：上傳的檔案寫入 public/uploads
+// 對應 src/services/mediaProviders.ts 的 localProvider，只在 vite dev 時啟用
+const localMediaPlugin = (): Plugin => ({
+  name: 'local-media',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/__media/upload', (req, res) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        try {
+          const original = decodeURIComponent(String(req.headers['x-file-name'] || 'upload'));
+          const fileName = `${Date.now()}-${path.basename(original).replace(/[^\w.-]/g, '_')}`;
+          const dir = path.resolve(rootDir, 'public/uploads');
+          fs.mkdirSync(dir, { recursive: true });
+          fs.writeFileSync(path.join(dir, fileName), Buffer.concat(chunks));
+          res.end(JSON.stringify({ url: `/uploads/${fileName}` }));
+        } catch (error) {
+          res.statusCode = 500;
+          res.end(JSON.stringify({ success: false, message: String(error) }));
+        }
+      });
+    });
+  },
+});
 
 // 導出 Vite 配置函數
 export default defineConfig(({ mode }) => {
@@ -12,6 +47,8 @@ export default defineConfig(({ mode }) => {
     return {
       // 專為 GitHub Pages 部署設定基礎路徑
       base: '/',
+      // 作品分享頁的 Open Graph 標籤由 api/share-photo.ts 在伺服器端依 API 資料輸出
+      plugins: [localMediaPlugin()],
       // define 選項用於定義全局變數，在客戶端代碼中可以直接訪問
       define: {
         // 將 process.env.API_KEY 定義為 GEMINI_API_KEY 的值
@@ -38,7 +75,7 @@ export default defineConfig(({ mode }) => {
         alias: {
           // 將 '@' 別名設置為項目根目錄
           // 這允許使用例如 `import Component from '@/components/Component.tsx'` 的方式導入模塊
-          '@': path.resolve(path.dirname(new URL(import.meta.url).pathname), '.'),
+          '@': path.resolve(rootDir, '.'),
         }
       }
     };